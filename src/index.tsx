@@ -5,6 +5,7 @@ import { DependencyGraphPanel } from './panels/dependency-graph';
 import { CollectionMapPanel } from './panels/CollectionMapPanel';
 import { TelemetryCoveragePanel } from './panels/TelemetryCoveragePanel';
 import { LocalProjectGridPanel } from './panels/local-project-grid';
+import { gitChangesPanelTools } from './tools';
 import type { PanelDefinition, PanelContextValue } from './types';
 
 /**
@@ -25,7 +26,8 @@ export const panels: ReadonlyArray<PanelDefinition<any, any>> = [
       version: '0.1.0',
       author: 'Industry Theme',
       description: 'View repository git changes with file tree visualization',
-      slices: ['git', 'fileTree'],
+      slices: ['git', 'gitBranchInfo', 'fileTree', 'packages'],
+      tools: gitChangesPanelTools,
     },
     component: GitChangesPanel,
 
@@ -75,8 +77,9 @@ export const panels: ReadonlyArray<PanelDefinition<any, any>> = [
       icon: 'Search',
       version: '0.1.0',
       author: 'Industry Theme',
-      description: 'Search files in the repository by filename',
-      slices: ['fileTree'],
+      description:
+        'Search files by name and content across the workspace repositories',
+      slices: ['fileTree', 'workspaceRepositories'],
     },
     component: SearchPanel,
 
@@ -215,8 +218,37 @@ export {
 } from './panels/GitChangesPanel';
 export type {
   GitChangesPanelProps,
+  GitChangesViewMode,
   ContextMenuAction,
 } from './panels/GitChangesPanel';
+export {
+  applyGitStatusOperation,
+  CommitComposer,
+  CONVENTIONAL_COMMIT_TYPES,
+  validateCommitMessage,
+  groupChangesByPackage,
+  collapseRenames,
+  ConflictViewer,
+  mergeThreeWay,
+  resolveMerge,
+  detectLineFormat,
+} from './panels/git-changes';
+export {
+  DiffViewer,
+  computeFileDiff,
+  parseUnifiedDiff,
+} from './panels/git-changes';
+export type {
+  DiffViewMode,
+  FileDiff,
+  DiffHunk,
+  DiffLine,
+  GitStatusOperation,
+  PackageChangeGroup,
+  MergeSegment,
+  ConflictChoice,
+  LineFormat,
+} from './panels/git-changes';
 export {
   PackageCompositionPanel,
   PackageCompositionPanelContent,
@@ -228,7 +260,78 @@ export {
   SearchPanelContent,
   SearchPanelPreview,
 } from './panels/SearchPanel';
-export type { SearchPanelProps } from './panels/SearchPanel';
+export type {
+  SearchPanelProps,
+  SearchMode,
+  SearchScope,
+} from './panels/SearchPanel';
+export { LocalSearchService } from './services/LocalSearchService';
+export type {
+  SearchResult,
+  SearchOptions,
+} from './services/LocalSearchService';
+export { LocalSearchServiceRegistry } from './services/searchRegistry';
+export type {
+  SearchRepository,
+  CrossRepositorySearchResult,
+  CrossRepositorySearchOptions,
+} from './services/searchRegistry';
+export { createInMemoryContentSearch } from './services/ContentSearch';
+export type {
+  ContentSearchProvider,
+  ContentSearchOptions,
+  ContentSearchMatch,
+  ContentMatchRange,
+} from './services/ContentSearch';
+export { createScriptedCommandRunner } from './services/CommandRunner';
+export type {
+  CommandRunner,
+  CommandRunOptions,
+  CommandRunEvent,
+  CommandOutputStream,
+  CommandScript,
+} from './services/CommandRunner';
+export { parseAnsi, stripAnsi } from './utils/ansi';
+export type { AnsiSegment, AnsiStyle } from './utils/ansi';
+export {
+  parseEnvValues,
+  validateEnvVariables,
+  maskEnvValue,
+} from './utils/envValidation';
+export type {
+  EnvVariableStatus,
+  EnvVariableCheck,
+  EnvValuesFile,
+  EnvValidationResult,
+} from './utils/envValidation';
+export { envVariablesToJson, envVariablesToMarkdown } from './utils/envExport';
+export {
+  planLensFix,
+  applyLensFix,
+  LENS_CONFIG_TEMPLATES,
+} from './utils/lensFixes';
+export type { LensFixPlan } from './utils/lensFixes';
+export {
+  loadSearchHistory,
+  saveSearchHistory,
+  getFrecencyBoosts,
+  getRecentFiles,
+} from './services/searchHistory';
+export type {
+  SearchHistory,
+  SearchHistoryStorage,
+  RecentFile,
+  RecentQuery,
+} from './services/searchHistory';
+export {
+  attachSearchWorker,
+  SearchWorkerClient,
+} from './services/searchWorker';
+export type {
+  SearchWorkerPort,
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from './services/searchWorker';
 export {
   DependencyGraphPanel,
   DependencyGraphPanelContent,
@@ -236,14 +339,45 @@ export {
   dependencyTreeToCanvas,
   applyForceLayout,
   applySugiyamaLayout,
+  computeDependencyClosure,
+  packagesWithinHops,
+  findDependencyCycles,
+  collectExternalDependencies,
+  findVersionDrift,
+  canvasToDot,
+  canvasToMermaid,
+  canvasToSvg,
+  computeBuildLayers,
 } from './panels/dependency-graph';
 export type {
   DependencyGraphPanelProps,
   DependencyCanvasOptions,
   ForceLayoutOptions,
   SugiyamaLayoutOptions,
+  DependencyClosure,
+  DependencyCycle,
+  ExternalDependency,
+  ExternalDependencyOptions,
+  ExternalDependencyUsage,
+  GraphExportFormat,
+  GraphExportOptions,
+  BuildLayers,
 } from './panels/dependency-graph';
 
+// Package dependency graph and change-impact analysis
+export { buildPackageGraph, createPackageMatcher } from './utils/packageGraph';
+export type {
+  PackageDependencyType,
+  PackageGraph,
+  PackageGraphEdge,
+  PackageGraphOptions,
+} from './utils/packageGraph';
+export { computeAffectedPackages } from './utils/affectedPackages';
+export type {
+  AffectedPackage,
+  AffectedPackagesResult,
+} from './utils/affectedPackages';
+
 // Overworld map visualization components and utilities
 export {
   OverworldMapPanelContent,
@@ -360,4 +494,14 @@ export type {
   DependencyItem,
   PackageSummary,
   PackagesSliceData,
+  SearchPanelActions,
+  GitChangesPanelActions,
+  GitRevision,
+  GitCommitOptions,
+  GitCommitResult,
+  GitBranchInfo,
+  GitStash,
+  GitRenamedFile,
+  GitStatusWithRenames,
+  GitMergeState,
 } from './types';
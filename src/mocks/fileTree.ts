@@ -0,0 +1,26 @@
+import type { FileInfo, FileTree } from '@principal-ai/repository-abstraction';
+
+/**
+ * Mock file tree for tests. Only allFiles is filled in; paths are joined
+ * to rootPath when one is given.
+ */
+export const createMockFileTree = (
+  relativePaths: string[],
+  rootPath = ''
+): FileTree => {
+  const allFiles = relativePaths.map((relativePath): FileInfo => {
+    const name = relativePath.split('/').pop() ?? relativePath;
+    const dot = name.lastIndexOf('.');
+    return {
+      path: rootPath ? `${rootPath}/${relativePath}` : relativePath,
+      name,
+      extension: dot > 0 ? name.slice(dot) : '',
+      size: 0,
+      lastModified: new Date(0),
+      isDirectory: false,
+      relativePath,
+    };
+  });
+
+  return { allFiles } as unknown as FileTree;
+};
@@ -0,0 +1,44 @@
+import type { PackageLayer } from '../types/composition';
+
+/** Dependency names (resolved as workspace:*) or a name -> range map */
+type MockDependencies = string[] | Record<string, string>;
+
+export interface MockPackageOptions {
+  /** Package directory, '' for the repository root (default packages/<name>) */
+  path?: string;
+  dependencies?: MockDependencies;
+  devDependencies?: MockDependencies;
+  peerDependencies?: MockDependencies;
+}
+
+const toDependencyMap = (deps: MockDependencies = []) =>
+  Array.isArray(deps)
+    ? Object.fromEntries(deps.map((dep) => [dep, 'workspace:*']))
+    : deps;
+
+/**
+ * Mock package layer for tests, with the package name doubling as its id
+ */
+export const createMockPackage = (
+  name: string,
+  options: MockPackageOptions = {}
+): PackageLayer => {
+  const { path = `packages/${name}` } = options;
+
+  return {
+    id: name,
+    name,
+    type: 'package',
+    packageData: {
+      name,
+      path,
+      manifestPath: path ? `${path}/package.json` : 'package.json',
+      packageManager: 'bun',
+      dependencies: toDependencyMap(options.dependencies),
+      devDependencies: toDependencyMap(options.devDependencies),
+      peerDependencies: toDependencyMap(options.peerDependencies),
+      isMonorepoRoot: path === '',
+      isWorkspace: path !== '',
+    },
+  } as unknown as PackageLayer;
+};
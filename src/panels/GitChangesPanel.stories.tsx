@@ -5,7 +5,12 @@ import {
   GitChangesPanelContent,
   GitChangesPanelPreview,
 } from './GitChangesPanel';
-import type { GitChangeSelectionStatus } from '../types';
+import type {
+  GitChangeSelectionStatus,
+  GitCommitOptions,
+  GitRevision,
+  PackageLayer,
+} from '../types';
 import type {
   FileTree,
   GitStatusWithFiles,
@@ -314,6 +319,234 @@ export const Default: Story = {
   },
 };
 
+// Mock file contents per revision for the diff viewer stories
+const mockRevisionContent = (filePath: string, revision: GitRevision) => {
+  const base = [
+    `// ${filePath}`,
+    "import { useTheme } from '@principal-ade/industry-theme';",
+    '',
+    'export function helper(value: string) {',
+    '  return value.trim();',
+    '}',
+    '',
+    'export const VERSION = 1;',
+  ];
+  if (revision === 'HEAD') return base.join('\n') + '\n';
+  if (revision === 'INDEX') {
+    return [...base.slice(0, 7), 'export const VERSION = 2;'].join('\n') + '\n';
+  }
+  return (
+    [
+      ...base.slice(0, 4),
+      '  return value.trim().toLowerCase();',
+      '}',
+      '',
+      'export const VERSION = 2;',
+      'export const NAME = "helpers";',
+    ].join('\n') + '\n'
+  );
+};
+
+/**
+ * Inline diff viewer - click a changed file to see its diff.
+ * Starts in the Changes view, which shows +/- line counts per file.
+ */
+export const WithDiffViewer: Story = {
+  args: {
+    gitStatus: sampleGitStatus,
+    fileTree: sampleFileTree,
+    rootPath: '/Users/developer/my-project',
+    defaultViewMode: 'changes',
+    readFileAtRevision: async (filePath: string, revision: GitRevision) => {
+      if (revision === 'HEAD' && filePath.includes('new')) return null;
+      return mockRevisionContent(filePath, revision);
+    },
+    onFileClick: (_filePath: string, _status?: GitChangeSelectionStatus) => {},
+  },
+};
+
+/**
+ * Git actions - right-click changed files to stage, unstage or discard.
+ * Cmd/Ctrl-click and Shift-click select several files in the Changes view.
+ */
+export const WithGitActions: Story = {
+  args: {
+    gitStatus: sampleGitStatus,
+    fileTree: sampleFileTree,
+    rootPath: '/Users/developer/my-project',
+    defaultViewMode: 'changes',
+    stage: async (_filePaths: string[]) => {},
+    unstage: async (_filePaths: string[]) => {},
+    discard: async (_filePaths: string[]) => {},
+    stageFolder: async (_folderPath: string) => {},
+    commit: async (_message: string, _options: GitCommitOptions) => {},
+    onFileClick: (_filePath: string, _status?: GitChangeSelectionStatus) => {},
+  },
+};
+
+// Minimal package layers for the group by package story
+const samplePackage = (
+  name: string,
+  path: string,
+  dependencies: string[] = []
+) =>
+  ({
+    id: name,
+    name,
+    type: 'package',
+    enabled: true,
+    derivedFrom: [],
+    packageData: {
+      name,
+      path,
+      manifestPath: path ? `${path}/package.json` : 'package.json',
+      packageManager: 'npm',
+      dependencies: Object.fromEntries(
+        dependencies.map((dep) => [dep, 'workspace:*'])
+      ),
+      devDependencies: {},
+      peerDependencies: {},
+      isMonorepoRoot: path === '',
+      isWorkspace: path !== '',
+    },
+  }) as unknown as PackageLayer;
+
+/**
+ * Changed files grouped by package, with per-package counts
+ */
+export const GroupedByPackage: Story = {
+  args: {
+    gitStatus: sampleGitStatus,
+    fileTree: sampleFileTree,
+    rootPath: '/Users/developer/my-project',
+    defaultViewMode: 'packages',
+    packages: [
+      samplePackage('my-project', ''),
+      samplePackage('@my-project/components', 'src/components'),
+    ],
+    onPackageSelect: (_pkg: PackageLayer | null) => {},
+  },
+};
+
+/**
+ * Changed packages and the packages that depend on them
+ */
+export const AffectedPackages: Story = {
+  args: {
+    gitStatus: sampleGitStatus,
+    fileTree: sampleFileTree,
+    rootPath: '/Users/developer/my-project',
+    defaultViewMode: 'affected',
+    packages: [
+      samplePackage('my-project', ''),
+      samplePackage('@my-project/components', 'src/components'),
+      samplePackage('@my-project/forms', 'packages/forms', [
+        '@my-project/components',
+      ]),
+      samplePackage('@my-project/app', 'apps/web', ['@my-project/forms']),
+    ],
+    onPackageSelect: (_pkg: PackageLayer | null) => {},
+  },
+};
+
+/**
+ * Branch header with upstream divergence, branch switcher and stashes
+ */
+export const WithBranchInfo: Story = {
+  args: {
+    gitStatus: sampleGitStatus,
+    fileTree: sampleFileTree,
+    rootPath: '/Users/developer/my-project',
+    branchInfo: {
+      currentBranch: 'feature/diff-viewer',
+      upstream: 'origin/feature/diff-viewer',
+      ahead: 3,
+      behind: 1,
+      branches: ['main', 'feature/diff-viewer', 'fix/context-menu'],
+      stashes: [
+        {
+          ref: 'stash@{0}',
+          message: 'WIP on main: 4f2a1c9 Add commit composer',
+          branch: 'main',
+        },
+        {
+          ref: 'stash@{1}',
+          message: 'experiment with split view',
+          branch: 'feature/diff-viewer',
+        },
+      ],
+    },
+    switchBranch: async (_branch: string) => {},
+    applyStash: async (_stashRef: string) => {},
+    dropStash: async (_stashRef: string) => {},
+  },
+};
+
+/**
+ * Renames and copies shown as single entries with their similarity
+ */
+export const WithRenames: Story = {
+  args: {
+    gitStatus: {
+      ...sampleGitStatus,
+      stagedFiles: [...sampleGitStatus.stagedFiles, 'src/utils/format.ts'],
+      deletedFiles: [
+        ...sampleGitStatus.deletedFiles,
+        'src/utils/formatters.ts',
+      ],
+      renamedFiles: [
+        {
+          kind: 'renamed',
+          oldPath: 'src/utils/formatters.ts',
+          newPath: 'src/utils/format.ts',
+          similarity: 94,
+        },
+        {
+          kind: 'copied',
+          oldPath: 'src/components/Button.tsx',
+          newPath: 'src/components/IconButton.tsx',
+          similarity: 78,
+        },
+      ],
+    },
+    fileTree: sampleFileTree,
+    rootPath: '/Users/developer/my-project',
+    defaultViewMode: 'changes',
+  },
+};
+
+const conflictStages: Record<string, string> = {
+  BASE: 'export const retries = 3;\nexport const timeout = 1000;\n',
+  OURS: 'export const retries = 5;\nexport const timeout = 1000;\n',
+  THEIRS:
+    'export const retries = 3;\nexport const timeout = 2000;\n' +
+    '// TODO: make configurable\n',
+};
+
+/**
+ * Merge stopped on conflicts - Conflicts section with the three-way viewer
+ */
+export const WithConflicts: Story = {
+  args: {
+    gitStatus: {
+      ...sampleGitStatus,
+      conflictedFiles: ['src/config.ts', 'package.json'],
+      mergeState: 'merge',
+    },
+    fileTree: sampleFileTree,
+    rootPath: '/Users/developer/my-project',
+    defaultViewMode: 'changes',
+    readFileAtRevision: async (filePath: string, revision: GitRevision) => {
+      if (filePath === 'src/config.ts' && revision in conflictStages) {
+        return conflictStages[revision];
+      }
+      return mockRevisionContent(filePath, revision);
+    },
+    markResolved: async () => {},
+    abortMerge: async () => {},
+  },
+};
+
 /**
  * Loading state
  */
@@ -490,6 +723,43 @@ export const ManyChanges: Story = {
   },
 };
 
+/**
+ * Thousands of changes - the Changes view starts summarized per top-level
+ * directory and only renders the visible rows of an expanded directory
+ */
+export const HugeChangeSet: Story = {
+  args: {
+    gitStatus: {
+      repoPath: '/Users/developer/monorepo',
+      branch: 'main',
+      isDirty: true,
+      hasUntracked: true,
+      hasStaged: true,
+      ahead: 0,
+      behind: 0,
+      watchingEnabled: false,
+      stagedFiles: Array.from(
+        { length: 1200 },
+        (_, i) => `packages/pkg-${i % 12}/src/generated/file${i}.ts`
+      ),
+      modifiedFiles: Array.from(
+        { length: 1500 },
+        (_, i) => `apps/app-${i % 5}/src/module${i}.tsx`
+      ),
+      untrackedFiles: Array.from(
+        { length: 300 },
+        (_, i) => `docs/api/page${i}.md`
+      ),
+      deletedFiles: [],
+      createdFiles: [],
+      hash: 'huge-change-set',
+    },
+    fileTree: sampleFileTree,
+    rootPath: '/Users/developer/monorepo',
+    defaultViewMode: 'changes',
+  },
+};
+
 /**
  * With selected file
  */
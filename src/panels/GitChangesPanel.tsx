@@ -17,11 +17,69 @@ import type {
   DirectoryInfo,
   FileTreeNode,
 } from '@principal-ai/repository-abstraction';
-import { Copy, FileSymlink, ExternalLink, FolderOpen } from 'lucide-react';
+import {
+  ArrowLeft,
+  Copy,
+  FileSymlink,
+  ExternalLink,
+  FolderOpen,
+  FolderTree,
+  ListCollapse,
+  ListTree,
+  Minus,
+  Network,
+  Package,
+  Plus,
+  Undo2,
+  X,
+} from 'lucide-react';
 import type {
+  GitBranchInfo,
   GitChangeSelectionStatus,
+  GitChangesPanelActions,
   GitChangesPanelPropsTyped,
+  GitCommitOptions,
+  GitStash,
+  GitStatusWithRenames,
+  PackageLayer,
 } from '../types';
+import {
+  AffectedPackagesView,
+  BranchHeader,
+  ChangedFilesTree,
+  CommitComposer,
+  ConflictViewer,
+  ConflictsSection,
+  DiffViewer,
+  DirectorySummaryView,
+  PackageChangesView,
+  applyGitStatusOperation,
+  changedFileKey,
+  collapseRenames,
+  countStagedChanges,
+  indexRenamesByNewPath,
+  detectLineFormat,
+  mergeThreeWay,
+  removeConflictedPaths,
+  runCommitChanges,
+  flattenChangedFiles,
+  groupChangesByPackage,
+  summarizeByTopLevelDirectory,
+  useFileDiffs,
+  type ChangedFileEntry,
+  type DiffViewMode,
+  type GitStatusOperation,
+  type LineFormat,
+  type MergeSegment,
+  type PackageChangeGroup,
+} from './git-changes';
+import { computeAffectedPackages } from '../utils/affectedPackages';
+import { normalizePackagePath } from '../utils/packageGraph';
+import {
+  COMMIT_CHANGES_EVENT,
+  COMMIT_CHANGES_RESULT_EVENT,
+  type CommitChangesPayload,
+} from '../tools';
 import './GitChangesPanel.css';
 
 // Stable default object to prevent new references on each render
@@ -48,17 +106,81 @@ interface ContextMenuState {
   y: number;
   nodePath: string;
   isFolder: boolean;
+  /** Changed files the git actions apply to (the selection, if it was clicked) */
+  targets: ChangedFileEntry[];
 }
 
+/** Delay before the filter input is applied */
+const FILTER_DEBOUNCE_MS = 150;
+/** Above this many changed files the Changes view starts summarized */
+const SUMMARY_THRESHOLD = 1000;
+/** Above this many changed files line counts are not loaded in the background */
+const MAX_BACKGROUND_DIFFS = 500;
+
+/**
+ * - 'tree': the full file tree with git status overlaid
+ * - 'changes': changed files only, with +/- line counts
+ * - 'packages': changed files grouped by the package that contains them
+ * - 'affected': changed packages and the packages that depend on them
+ */
+export type GitChangesViewMode = 'tree' | 'changes' | 'packages' | 'affected';
+
+/**
+ * Expand untracked directory entries (e.g. `new-dir/`) into the files
+ * they contain, using the file tree. Files in `excludedPaths` (rename and
+ * copy targets, which are listed on their own) are left out.
+ */
+const expandDirectories = (
+  fileTree: FileTree,
+  paths: string[],
+  excludedPaths: ReadonlySet<string> = new Set()
+): string[] => {
+  if (!fileTree.allFiles) return paths;
+
+  const filePaths = new Set(fileTree.allFiles.map((file) => file.path));
+  const expandedPaths: string[] = [];
+
+  for (const path of paths) {
+    const normalizedPath = path.endsWith('/') ? path.slice(0, -1) : path;
+
+    // Plain files need no scan of the whole tree
+    if (filePaths.has(normalizedPath)) {
+      if (!excludedPaths.has(normalizedPath)) {
+        expandedPaths.push(normalizedPath);
+      }
+      continue;
+    }
+
+    const matchingFiles = fileTree.allFiles.filter(
+      (file) =>
+        (file.path.startsWith(normalizedPath + '/') ||
+          file.path === normalizedPath) &&
+        !excludedPaths.has(file.path)
+    );
+
+    if (matchingFiles.length > 0) {
+      expandedPaths.push(...matchingFiles.map((f) => f.path));
+    } else {
+      expandedPaths.push(normalizedPath);
+    }
+  }
+
+  return expandedPaths;
+};
+
+const describeTargets = (entries: ChangedFileEntry[]) =>
+  entries.length === 1 ? entries[0].path : `${entries.length} files`;
+
 export type ContextMenuAction =
   | { type: 'copyFullPath'; path: string }
   | { type: 'copyRelativePath'; path: string }
   | { type: 'openFile'; path: string }
-  | { type: 'openFolder'; path: string };
+  | { type: 'openFolder'; path: string }
+  | GitStatusOperation;
 
 export interface GitChangesPanelProps {
-  /** Git status data with categorized file paths */
-  gitStatus: GitStatusWithFiles;
+  /** Git status data with categorized file paths and detected renames */
+  gitStatus: GitStatusWithRenames;
   /** Complete file tree structure - git status will be overlaid on this tree */
   fileTree: FileTree;
   /** Root path for the repository */
@@ -75,6 +197,40 @@ export interface GitChangesPanelProps {
   loadingMessage?: string;
   /** Currently selected file path */
   selectedFile?: string;
+  /** Initial view (default: 'tree') */
+  defaultViewMode?: GitChangesViewMode;
+  /** Read a file at a revision - enables the inline diff viewer */
+  readFileAtRevision?: GitChangesPanelActions['readFileAtRevision'];
+  /** Unified diff for a file - enables the inline diff viewer */
+  getDiff?: GitChangesPanelActions['getDiff'];
+  /** Stage files - enables the Stage context menu item */
+  stage?: GitChangesPanelActions['stage'];
+  /** Unstage files - enables the Unstage context menu item */
+  unstage?: GitChangesPanelActions['unstage'];
+  /** Discard changes - enables the Discard context menu item */
+  discard?: GitChangesPanelActions['discard'];
+  /** Stage a folder - enables the Stage Folder context menu item */
+  stageFolder?: GitChangesPanelActions['stageFolder'];
+  /** Commit staged changes - shows the commit composer */
+  commit?: GitChangesPanelActions['commit'];
+  /** Called after a git action succeeds so the host can refresh git status */
+  onRefresh?: () => void;
+  /** Detected packages - enables the group by package view */
+  packages?: PackageLayer[];
+  /** Called when a package group is selected, or null when deselected */
+  onPackageSelect?: (pkg: PackageLayer | null) => void;
+  /** Branch and stash state - shows the branch header */
+  branchInfo?: GitBranchInfo | null;
+  /** Check out a branch - enables the branch switcher */
+  switchBranch?: GitChangesPanelActions['switchBranch'];
+  /** Apply a stash - enables Apply in the stash list */
+  applyStash?: GitChangesPanelActions['applyStash'];
+  /** Drop a stash - enables Drop in the stash list */
+  dropStash?: GitChangesPanelActions['dropStash'];
+  /** Mark a conflicted file resolved - enables Mark resolved and the viewer's save */
+  markResolved?: GitChangesPanelActions['markResolved'];
+  /** Abort the merge or rebase - enables Abort in the Conflicts section */
+  abortMerge?: GitChangesPanelActions['abortMerge'];
 }
 
 /**
@@ -91,9 +247,52 @@ export const GitChangesPanelContent: React.FC<GitChangesPanelProps> = ({
   emptyMessage = 'No git changes to display',
   loadingMessage = 'Loading git changes...',
   selectedFile,
+  defaultViewMode = 'tree',
+  readFileAtRevision,
+  getDiff,
+  stage,
+  unstage,
+  discard,
+  stageFolder,
+  commit,
+  onRefresh,
+  packages,
+  onPackageSelect,
+  branchInfo,
+  switchBranch,
+  applyStash,
+  dropStash,
+  markResolved,
+  abortMerge,
 }) => {
   const { theme } = useTheme();
   const [searchTerm, setSearchTerm] = useState('');
+  // searchTerm after FILTER_DEBOUNCE_MS without typing - drives filtering
+  const [filterTerm, setFilterTerm] = useState('');
+  // null = automatic, based on the number of changed files
+  const [summaryMode, setSummaryMode] = useState<boolean | null>(null);
+  const [viewMode, setViewMode] = useState<GitChangesViewMode>(defaultViewMode);
+  const [diffViewMode, setDiffViewMode] = useState<DiffViewMode>('unified');
+  // File whose diff is open inline, if any
+  const [openEntry, setOpenEntry] = useState<ChangedFileEntry | null>(null);
+  // Conflicted file open in the conflict viewer, with its merged stages
+  const [openConflict, setOpenConflict] = useState<string | null>(null);
+  const [conflictSegments, setConflictSegments] = useState<
+    MergeSegment[] | null
+  >(null);
+  const [conflictLineFormat, setConflictLineFormat] = useState<LineFormat>();
+  const [conflictError, setConflictError] = useState<string | null>(null);
+  const [selectedPackagePath, setSelectedPackagePath] = useState<string | null>(
+    null
+  );
+  // Multi-select in the Changes view (keys from changedFileKey)
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  // Git actions applied optimistically until the host refreshes git status
+  const [pendingOperations, setPendingOperations] = useState<
+    GitStatusOperation[]
+  >([]);
+  const [operationError, setOperationError] = useState<string | null>(null);
 
   // Context menu state
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({
@@ -102,6 +301,7 @@ export const GitChangesPanelContent: React.FC<GitChangesPanelProps> = ({
     y: 0,
     nodePath: '',
     isFolder: false,
+    targets: [],
   });
   const contextMenuRef = useRef<HTMLDivElement>(null);
 
@@ -123,47 +323,311 @@ export const GitChangesPanelContent: React.FC<GitChangesPanelProps> = ({
     }
   }, [contextMenu.visible]);
 
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setFilterTerm(searchTerm),
+      FILTER_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Hosts may pass an equal status as a new object; the hash identifies the
+  // file lists, so derived data is only rebuilt when it changes
+  const hashedStatusRef = useRef(gitStatus);
+  if (hashedStatusRef.current.hash !== gitStatus.hash) {
+    hashedStatusRef.current = gitStatus;
+  }
+  const hashedStatus = hashedStatusRef.current;
+
+  // A new status from the host replaces any optimistic updates
+  useEffect(() => {
+    setPendingOperations([]);
+  }, [hashedStatus]);
+
+  // Git status with renames and conflicts collapsed and pending operations
+  // applied
+  const displayStatus = useMemo(() => {
+    const status = removeConflictedPaths(collapseRenames(hashedStatus));
+    if (pendingOperations.length === 0) return status;
+    return pendingOperations.reduce(applyGitStatusOperation, {
+      ...status,
+      untrackedFiles: expandDirectories(fileTree, status.untrackedFiles),
+    });
+  }, [hashedStatus, fileTree, pendingOperations]);
+
+  const renamesByNewPath = useMemo(
+    () => indexRenamesByNewPath(displayStatus.renamedFiles),
+    [displayStatus.renamedFiles]
+  );
+
+  // Status of every changed path, so lookups do not scan the file lists.
+  // Later lists win: staged over deleted over untracked over unstaged.
+  const fileStatuses = useMemo(() => {
+    const statuses = new Map<string, GitChangeSelectionStatus>();
+    const lists: Array<[string[], GitChangeSelectionStatus]> = [
+      [displayStatus.modifiedFiles, 'unstaged'],
+      [displayStatus.untrackedFiles, 'untracked'],
+      [displayStatus.deletedFiles, 'deleted'],
+      [displayStatus.stagedFiles, 'staged'],
+      [[...renamesByNewPath.keys()], 'staged'],
+    ];
+    for (const [paths, status] of lists) {
+      for (const path of paths) statuses.set(path, status);
+    }
+    return statuses;
+  }, [displayStatus, renamesByNewPath]);
+
   // Determine file status based on git status data
   const getFileStatus = useCallback(
-    (filePath: string): GitChangeSelectionStatus | undefined => {
-      if (gitStatus.stagedFiles.includes(filePath)) {
-        return 'staged';
-      }
-      if (gitStatus.deletedFiles.includes(filePath)) {
-        return 'deleted';
-      }
-      if (gitStatus.untrackedFiles.includes(filePath)) {
-        return 'untracked';
-      }
-      if (gitStatus.modifiedFiles.includes(filePath)) {
-        return 'unstaged';
-      }
-      return undefined;
+    (filePath: string): GitChangeSelectionStatus | undefined =>
+      fileStatuses.get(filePath),
+    [fileStatuses]
+  );
+
+  // Untracked directories expanded to the files they contain
+  const expandedUntracked = useMemo(
+    () =>
+      expandDirectories(
+        fileTree,
+        displayStatus.untrackedFiles,
+        new Set(renamesByNewPath.keys())
+      ),
+    [fileTree, displayStatus.untrackedFiles, renamesByNewPath]
+  );
+
+  // Flat list of changed files for the Changes view and diff loading
+  const changedEntries = useMemo<ChangedFileEntry[]>(
+    () => [
+      ...[...renamesByNewPath.values()].map((rename) => ({
+        path: rename.newPath,
+        status: 'staged' as const,
+        rename,
+      })),
+      ...displayStatus.stagedFiles.map((path) => ({
+        path,
+        status: 'staged' as const,
+      })),
+      ...displayStatus.modifiedFiles.map((path) => ({
+        path,
+        status: 'unstaged' as const,
+      })),
+      ...displayStatus.deletedFiles.map((path) => ({
+        path,
+        status: 'deleted' as const,
+      })),
+      ...expandedUntracked.map((path) => ({
+        path,
+        status: 'untracked' as const,
+      })),
+    ],
+    [displayStatus, expandedUntracked, renamesByNewPath]
+  );
+
+  const {
+    diffs,
+    errors: diffErrors,
+    requestDiff,
+    isAvailable: isDiffAvailable,
+  } = useFileDiffs(
+    changedEntries,
+    { getDiff, readFileAtRevision },
+    gitStatus.hash,
+    (viewMode === 'changes' || viewMode === 'packages') &&
+      changedEntries.length <= MAX_BACKGROUND_DIFFS
+  );
+
+  // Changed files matching the filter, with line counts once loaded
+  const visibleEntries = useMemo(() => {
+    const searchLower = filterTerm.toLowerCase();
+    return changedEntries
+      .filter(
+        (entry) =>
+          entry.path.toLowerCase().includes(searchLower) ||
+          !!entry.rename?.oldPath.toLowerCase().includes(searchLower)
+      )
+      .map((entry) => {
+        const diff = diffs[changedFileKey(entry)];
+        return diff
+          ? { ...entry, additions: diff.additions, deletions: diff.deletions }
+          : entry;
+      });
+  }, [changedEntries, diffs, filterTerm]);
+
+  const isSummarized =
+    viewMode === 'changes' &&
+    (summaryMode ?? changedEntries.length > SUMMARY_THRESHOLD);
+
+  const directorySummaries = useMemo(
+    () => (isSummarized ? summarizeByTopLevelDirectory(visibleEntries) : []),
+    [isSummarized, visibleEntries]
+  );
+
+  const packageGroups = useMemo(
+    () =>
+      viewMode === 'packages'
+        ? groupChangesByPackage(visibleEntries, packages ?? [])
+        : [],
+    [viewMode, packages, visibleEntries]
+  );
+
+  const handlePackageGroupSelect = useCallback(
+    (group: PackageChangeGroup | null) => {
+      setSelectedPackagePath(group ? group.path : null);
+      onPackageSelect?.(group?.package ?? null);
+    },
+    [onPackageSelect]
+  );
+
+  // Not filtered - every change counts towards the affected packages
+  const affectedPackages = useMemo(
+    () =>
+      viewMode === 'affected'
+        ? computeAffectedPackages(displayStatus, packages ?? [])
+        : null,
+    [viewMode, displayStatus, packages]
+  );
+
+  const handleAffectedPackageSelect = useCallback(
+    (pkg: PackageLayer | null) => {
+      setSelectedPackagePath(
+        pkg ? normalizePackagePath(pkg.packageData.path) : null
+      );
+      onPackageSelect?.(pkg);
     },
-    [gitStatus]
+    [onPackageSelect]
   );
 
+  const openDiff = useCallback(
+    (entry: ChangedFileEntry) => {
+      setOpenEntry(entry);
+      void requestDiff(entry);
+    },
+    [requestDiff]
+  );
+
+  // Close the diff when its file is no longer changed
+  useEffect(() => {
+    if (
+      openEntry &&
+      !changedEntries.some(
+        (entry) => changedFileKey(entry) === changedFileKey(openEntry)
+      )
+    ) {
+      setOpenEntry(null);
+    }
+  }, [changedEntries, openEntry]);
+
+  // Re-request the open diff after a status change clears the cache
+  useEffect(() => {
+    if (openEntry) void requestDiff(openEntry);
+  }, [openEntry, requestDiff, gitStatus.hash]);
+
   const handleFileSelect = useCallback(
     (filePath: string) => {
       const status = getFileStatus(filePath);
+      // Changed files open inline when the host can provide diffs
+      if (status && isDiffAvailable) {
+        openDiff({
+          path: filePath,
+          status,
+          rename: renamesByNewPath.get(filePath),
+        });
+        return;
+      }
       onFileClick?.(filePath, status);
     },
-    [getFileStatus, onFileClick]
+    [getFileStatus, isDiffAvailable, renamesByNewPath, openDiff, onFileClick]
+  );
+
+  // Click selects; Cmd/Ctrl-click toggles; Shift-click selects a range
+  const handleChangedFileSelect = useCallback(
+    (entry: ChangedFileEntry, event: React.MouseEvent) => {
+      const key = changedFileKey(entry);
+
+      if (event.shiftKey && selectionAnchor) {
+        const groupedEntries =
+          viewMode === 'packages'
+            ? packageGroups.map((group) => group.entries)
+            : isSummarized
+              ? directorySummaries.map((summary) => summary.entries)
+              : [visibleEntries];
+        const ordered = groupedEntries
+          .flatMap((entries) => flattenChangedFiles(entries))
+          .map(changedFileKey);
+        const from = ordered.indexOf(selectionAnchor);
+        const to = ordered.indexOf(key);
+        if (from !== -1 && to !== -1) {
+          setSelectedKeys(
+            new Set(ordered.slice(Math.min(from, to), Math.max(from, to) + 1))
+          );
+          return;
+        }
+      }
+
+      if (event.metaKey || event.ctrlKey) {
+        setSelectedKeys((prev) => {
+          const next = new Set(prev);
+          if (next.has(key)) {
+            next.delete(key);
+          } else {
+            next.add(key);
+          }
+          return next;
+        });
+        setSelectionAnchor(key);
+        return;
+      }
+
+      setSelectedKeys(new Set([key]));
+      setSelectionAnchor(key);
+      if (isDiffAvailable) {
+        openDiff(entry);
+      } else {
+        onFileClick?.(entry.path, entry.status);
+      }
+    },
+    [
+      selectionAnchor,
+      viewMode,
+      packageGroups,
+      isSummarized,
+      directorySummaries,
+      visibleEntries,
+      isDiffAvailable,
+      openDiff,
+      onFileClick,
+    ]
   );
 
   // Context menu handlers
   const handleContextMenu = useCallback(
     (event: React.MouseEvent, nodePath: string, isFolder: boolean) => {
       event.preventDefault();
+
+      let targets: ChangedFileEntry[];
+      if (isFolder) {
+        targets = changedEntries.filter((entry) =>
+          entry.path.startsWith(nodePath + '/')
+        );
+      } else {
+        const selected = changedEntries.filter((entry) =>
+          selectedKeys.has(changedFileKey(entry))
+        );
+        targets = selected.some((entry) => entry.path === nodePath)
+          ? selected
+          : changedEntries.filter((entry) => entry.path === nodePath);
+      }
+
       setContextMenu({
         visible: true,
         x: event.clientX,
         y: event.clientY,
         nodePath,
         isFolder,
+        targets,
       });
     },
-    []
+    [changedEntries, selectedKeys]
   );
 
   const closeContextMenu = useCallback(() => {
@@ -223,53 +687,228 @@ export const GitChangesPanelContent: React.FC<GitChangesPanelProps> = ({
     closeContextMenu,
   ]);
 
-  const gitChangesData = useMemo(() => {
-    if (isLoading) {
-      return null;
-    }
+  // Run a git action, showing its result immediately and reverting on failure
+  const runGitOperation = useCallback(
+    async (operation: GitStatusOperation, run: () => Promise<void>) => {
+      closeContextMenu();
+      setOperationError(null);
+      setSelectedKeys(new Set());
+      setPendingOperations((prev) => [...prev, operation]);
 
-    // Helper function to expand directories using the fileTree
-    const expandDirectories = (paths: string[]): string[] => {
-      if (!fileTree.allFiles) return paths;
+      try {
+        await run();
+      } catch (error) {
+        setPendingOperations((prev) => prev.filter((op) => op !== operation));
+        setOperationError(
+          error instanceof Error ? error.message : String(error)
+        );
+        return;
+      }
 
-      const expandedPaths: string[] = [];
+      onContextMenuAction?.(operation);
+      onRefresh?.();
+    },
+    [closeContextMenu, onContextMenuAction, onRefresh]
+  );
 
-      for (const path of paths) {
-        const normalizedPath = path.endsWith('/') ? path.slice(0, -1) : path;
-        const matchingFiles = fileTree.allFiles.filter(
-          (file) =>
-            file.path.startsWith(normalizedPath + '/') ||
-            file.path === normalizedPath
+  const stageTargets = useMemo(
+    () => contextMenu.targets.filter((entry) => entry.status !== 'staged'),
+    [contextMenu.targets]
+  );
+  const unstageTargets = useMemo(
+    () => contextMenu.targets.filter((entry) => entry.status === 'staged'),
+    [contextMenu.targets]
+  );
+  // Discarding only touches the working tree, so staged entries are skipped
+  const discardTargets = stageTargets;
+
+  const handleStage = useCallback(() => {
+    if (!stage) return;
+    const paths = stageTargets.map((entry) => entry.path);
+    void runGitOperation({ type: 'stage', paths }, () => stage(paths));
+  }, [stage, stageTargets, runGitOperation]);
+
+  const handleUnstage = useCallback(() => {
+    if (!unstage) return;
+    const paths = unstageTargets.map((entry) => entry.path);
+    void runGitOperation({ type: 'unstage', paths }, () => unstage(paths));
+  }, [unstage, unstageTargets, runGitOperation]);
+
+  const handleDiscard = useCallback(() => {
+    if (!discard) return;
+    const paths = discardTargets.map((entry) => entry.path);
+    const deletesFiles = discardTargets.some(
+      (entry) => entry.status === 'untracked'
+    );
+    if (
+      !confirm(
+        `Discard changes to ${describeTargets(discardTargets)}? ` +
+          (deletesFiles ? 'Untracked files will be deleted. ' : '') +
+          'This cannot be undone.'
+      )
+    ) {
+      closeContextMenu();
+      return;
+    }
+    void runGitOperation({ type: 'discard', paths }, () => discard(paths));
+  }, [discard, discardTargets, runGitOperation, closeContextMenu]);
+
+  const handleStageFolder = useCallback(() => {
+    if (!stageFolder) return;
+    const path = contextMenu.nodePath;
+    void runGitOperation({ type: 'stageFolder', path }, () =>
+      stageFolder(path)
+    );
+  }, [stageFolder, contextMenu.nodePath, runGitOperation]);
+
+  // Run a git action without an optimistic update, reporting failures
+  const runGitAction = useCallback(
+    async (run: () => Promise<void>) => {
+      setOperationError(null);
+      try {
+        await run();
+      } catch (error) {
+        setOperationError(
+          error instanceof Error ? error.message : String(error)
         );
+        return;
+      }
+      onRefresh?.();
+    },
+    [onRefresh]
+  );
 
-        if (matchingFiles.length > 0) {
-          expandedPaths.push(...matchingFiles.map((f) => f.path));
-        } else {
-          expandedPaths.push(normalizedPath);
-        }
+  const handleSwitchBranch = useCallback(
+    (branch: string) => {
+      if (!switchBranch) return;
+      void runGitAction(() => switchBranch(branch));
+    },
+    [switchBranch, runGitAction]
+  );
+
+  const handleApplyStash = useCallback(
+    (stash: GitStash) => {
+      if (!applyStash) return;
+      void runGitAction(() => applyStash(stash.ref));
+    },
+    [applyStash, runGitAction]
+  );
+
+  const handleDropStash = useCallback(
+    (stash: GitStash) => {
+      if (!dropStash) return;
+      if (
+        !confirm(`Drop ${stash.ref} "${stash.message}"? This cannot be undone.`)
+      ) {
+        return;
       }
+      void runGitAction(() => dropStash(stash.ref));
+    },
+    [dropStash, runGitAction]
+  );
+
+  const conflictedFiles = useMemo(
+    () => displayStatus.conflictedFiles ?? [],
+    [displayStatus.conflictedFiles]
+  );
+
+  // Load and merge the index stages of the open conflicted file
+  useEffect(() => {
+    if (!openConflict || !readFileAtRevision) return;
 
-      return expandedPaths;
+    let cancelled = false;
+    setConflictSegments(null);
+    setConflictError(null);
+    Promise.all([
+      readFileAtRevision(openConflict, 'BASE'),
+      readFileAtRevision(openConflict, 'OURS'),
+      readFileAtRevision(openConflict, 'THEIRS'),
+    ])
+      .then(([base, ours, theirs]) => {
+        if (cancelled) return;
+        // Write the merge back the way the working copy (ours) was written
+        setConflictLineFormat(detectLineFormat(ours, theirs, base));
+        setConflictSegments(mergeThreeWay(base, ours, theirs));
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setConflictError(
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
     };
+  }, [openConflict, readFileAtRevision]);
+
+  // Close the conflict viewer once its file is resolved
+  useEffect(() => {
+    if (openConflict && !conflictedFiles.includes(openConflict)) {
+      setOpenConflict(null);
+    }
+  }, [conflictedFiles, openConflict]);
+
+  const handleMarkResolved = useCallback(
+    (path: string, resolvedContent?: string) => {
+      if (!markResolved) return;
+      void runGitOperation({ type: 'markResolved', path }, () =>
+        markResolved(path, resolvedContent)
+      );
+    },
+    [markResolved, runGitOperation]
+  );
+
+  const handleAbortMerge = useCallback(() => {
+    if (!abortMerge) return;
+    const operation = displayStatus.mergeState ?? 'merge';
+    if (
+      !confirm(
+        `Abort the ${operation}? Resolved conflicts and other changes made ` +
+          'since it started will be lost.'
+      )
+    ) {
+      return;
+    }
+    setOpenConflict(null);
+    void runGitAction(abortMerge);
+  }, [abortMerge, displayStatus.mergeState, runGitAction]);
 
-    // Expand untracked directories to show all files
-    const expandedUntracked = expandDirectories(gitStatus.untrackedFiles);
+  const handleCommit = useCallback(
+    async (message: string, options: GitCommitOptions) => {
+      if (!commit) return;
+      await commit(message, options);
+      onRefresh?.();
+    },
+    [commit, onRefresh]
+  );
 
-    // Build git status data (not filtered by search - we show status on all matching files)
-    const statusData: GitFileStatus[] = [
-      ...gitStatus.stagedFiles.map((filePath) => ({
+  // Build git status data (not filtered by search - we show status on all matching files)
+  const statusData = useMemo<GitFileStatus[]>(
+    () => [
+      ...[...renamesByNewPath.values()].map((rename) => {
+        const status = rename.kind === 'renamed' ? 'R' : 'C';
+        return {
+          filePath: rename.newPath,
+          indexStatus: status,
+          workingTreeStatus: ' ',
+          status: status as 'R' | 'C',
+        };
+      }),
+      ...displayStatus.stagedFiles.map((filePath) => ({
         filePath,
         indexStatus: 'A',
         workingTreeStatus: ' ',
         status: 'A' as const,
       })),
-      ...gitStatus.modifiedFiles.map((filePath) => ({
+      ...displayStatus.modifiedFiles.map((filePath) => ({
         filePath,
         indexStatus: ' ',
         workingTreeStatus: 'M',
         status: 'M' as const,
       })),
-      ...gitStatus.deletedFiles.map((filePath) => ({
+      ...displayStatus.deletedFiles.map((filePath) => ({
         filePath,
         indexStatus: ' ',
         workingTreeStatus: 'D',
@@ -281,78 +920,98 @@ export const GitChangesPanelContent: React.FC<GitChangesPanelProps> = ({
         workingTreeStatus: '?',
         status: '??' as const,
       })),
-    ];
+      // The tree has no conflict style, so unmerged files show as modified
+      ...conflictedFiles.map((filePath) => ({
+        filePath,
+        indexStatus: 'U',
+        workingTreeStatus: 'U',
+        status: 'M' as const,
+      })),
+    ],
+    [displayStatus, expandedUntracked, renamesByNewPath, conflictedFiles]
+  );
 
-    // Filter fileTree based on search term (searches entire tree, not just git changes)
-    let filteredTree = fileTree;
-    if (searchTerm && fileTree.allFiles) {
-      const searchLower = searchTerm.toLowerCase();
+  // Filter fileTree based on search term (searches entire tree, not just git changes)
+  const filteredTree = useMemo(() => {
+    if (!filterTerm || !fileTree.allFiles) {
+      return fileTree;
+    }
 
-      // Find all files matching the search term
-      const matchingFiles = fileTree.allFiles.filter((file) =>
-        file.path.toLowerCase().includes(searchLower)
-      );
+    const searchLower = filterTerm.toLowerCase();
 
-      // Build set of paths to include (matching files + their parent directories)
-      const matchingPaths = new Set<string>();
+    // Find all files matching the search term
+    // Renamed files also match on their old path
+    const matchingFiles = fileTree.allFiles.filter(
+      (file) =>
+        file.path.toLowerCase().includes(searchLower) ||
+        !!renamesByNewPath
+          .get(file.path)
+          ?.oldPath.toLowerCase()
+          .includes(searchLower)
+    );
 
-      matchingFiles.forEach((file) => {
-        matchingPaths.add(file.path);
+    // Build set of paths to include (matching files + their parent directories)
+    const matchingPaths = new Set<string>();
 
-        // Add parent directories
-        const parts = file.path.split('/');
-        for (let i = 1; i < parts.length; i++) {
-          matchingPaths.add(parts.slice(0, i).join('/'));
-        }
-      });
+    matchingFiles.forEach((file) => {
+      matchingPaths.add(file.path);
 
-      // Always include the root directory
-      matchingPaths.add(fileTree.root.path);
+      // Add parent directories
+      const parts = file.path.split('/');
+      for (let i = 1; i < parts.length; i++) {
+        matchingPaths.add(parts.slice(0, i).join('/'));
+      }
+    });
 
-      // Filter allFiles and allDirectories
-      const filteredAllFiles = fileTree.allFiles.filter((file) =>
-        matchingPaths.has(file.path)
-      );
-      const filteredAllDirectories = fileTree.allDirectories.filter((dir) =>
-        matchingPaths.has(dir.path)
-      );
+    // Always include the root directory
+    matchingPaths.add(fileTree.root.path);
 
-      // Recursively filter the directory tree structure
-      const filterDirectoryTree = (dir: DirectoryInfo): DirectoryInfo => {
-        const filteredChildren: FileTreeNode[] = dir.children
-          .filter((child) => matchingPaths.has(child.path))
-          .map((child) => {
-            if ('children' in child) {
-              return filterDirectoryTree(child as DirectoryInfo);
-            }
-            return child;
-          });
+    // Filter allFiles and allDirectories
+    const filteredAllFiles = fileTree.allFiles.filter((file) =>
+      matchingPaths.has(file.path)
+    );
+    const filteredAllDirectories = fileTree.allDirectories.filter((dir) =>
+      matchingPaths.has(dir.path)
+    );
 
-        return {
-          ...dir,
-          children: filteredChildren,
-          fileCount: filteredChildren.filter((child) => !('children' in child))
-            .length,
-        };
-      };
+    // Recursively filter the directory tree structure
+    const filterDirectoryTree = (dir: DirectoryInfo): DirectoryInfo => {
+      const filteredChildren: FileTreeNode[] = dir.children
+        .filter((child) => matchingPaths.has(child.path))
+        .map((child) => {
+          if ('children' in child) {
+            return filterDirectoryTree(child as DirectoryInfo);
+          }
+          return child;
+        });
 
-      const filteredRoot = filterDirectoryTree(fileTree.root);
-
-      filteredTree = {
-        ...fileTree,
-        root: filteredRoot,
-        allFiles: filteredAllFiles,
-        allDirectories: filteredAllDirectories,
-        stats: {
-          ...fileTree.stats,
-          totalFiles: filteredAllFiles.length,
-          totalDirectories: filteredAllDirectories.length,
-        },
+      return {
+        ...dir,
+        children: filteredChildren,
+        fileCount: filteredChildren.filter((child) => !('children' in child))
+          .length,
       };
-    }
+    };
 
-    return { tree: filteredTree, statusData };
-  }, [isLoading, fileTree, gitStatus, searchTerm]);
+    const filteredRoot = filterDirectoryTree(fileTree.root);
+
+    return {
+      ...fileTree,
+      root: filteredRoot,
+      allFiles: filteredAllFiles,
+      allDirectories: filteredAllDirectories,
+      stats: {
+        ...fileTree.stats,
+        totalFiles: filteredAllFiles.length,
+        totalDirectories: filteredAllDirectories.length,
+      },
+    };
+  }, [fileTree, filterTerm, renamesByNewPath]);
+
+  const gitChangesData = useMemo(
+    () => (isLoading ? null : { tree: filteredTree, statusData }),
+    [isLoading, filteredTree, statusData]
+  );
 
   // Render content based on state
   const renderContent = () => {
@@ -384,6 +1043,229 @@ export const GitChangesPanelContent: React.FC<GitChangesPanelProps> = ({
       );
     }
 
+    if (openConflict) {
+      return (
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '6px 12px',
+              borderBottom: `1px solid ${theme.colors.border}`,
+              fontFamily: theme.fonts.body,
+              fontSize: theme.fontSizes[1],
+              color: theme.colors.text,
+            }}
+          >
+            <button
+              type="button"
+              title="Back to files"
+              onClick={() => setOpenConflict(null)}
+              style={toolbarButtonStyle()}
+            >
+              <ArrowLeft size={14} />
+            </button>
+            <span
+              title={openConflict}
+              style={{
+                flex: 1,
+                minWidth: 0,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {openConflict}
+            </span>
+            <span style={{ color: theme.colors.warning }}>conflicted</span>
+            <button
+              type="button"
+              title="Open file"
+              onClick={() => onFileClick?.(openConflict, 'unstaged')}
+              style={toolbarButtonStyle()}
+            >
+              <ExternalLink size={14} />
+            </button>
+          </div>
+          {conflictError ? (
+            <div
+              style={{
+                padding: '20px',
+                textAlign: 'center',
+                color: theme.colors.error,
+              }}
+            >
+              Failed to load conflict: {conflictError}
+            </div>
+          ) : conflictSegments ? (
+            <ConflictViewer
+              segments={conflictSegments}
+              lineFormat={conflictLineFormat}
+              onResolve={
+                markResolved
+                  ? (content) => handleMarkResolved(openConflict, content)
+                  : undefined
+              }
+            />
+          ) : (
+            <div
+              style={{
+                padding: '20px',
+                textAlign: 'center',
+                color: theme.colors.textSecondary,
+              }}
+            >
+              Loading conflict...
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    if (openEntry) {
+      const key = changedFileKey(openEntry);
+      const diff = diffs[key];
+      const error = diffErrors[key];
+
+      return (
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '6px 12px',
+              borderBottom: `1px solid ${theme.colors.border}`,
+              fontFamily: theme.fonts.body,
+              fontSize: theme.fontSizes[1],
+              color: theme.colors.text,
+            }}
+          >
+            <button
+              type="button"
+              title="Back to files"
+              onClick={() => setOpenEntry(null)}
+              style={toolbarButtonStyle()}
+            >
+              <ArrowLeft size={14} />
+            </button>
+            <span
+              title={openEntry.path}
+              style={{
+                flex: 1,
+                minWidth: 0,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {openEntry.rename
+                ? `${openEntry.rename.oldPath} \u2192 ${openEntry.path}`
+                : openEntry.path}
+            </span>
+            <span style={{ color: theme.colors.textSecondary }}>
+              {openEntry.status}
+            </span>
+            <button
+              type="button"
+              title="Open file"
+              onClick={() => onFileClick?.(openEntry.path, openEntry.status)}
+              style={toolbarButtonStyle()}
+            >
+              <ExternalLink size={14} />
+            </button>
+          </div>
+          {error ? (
+            <div
+              style={{
+                padding: '20px',
+                textAlign: 'center',
+                color: theme.colors.error,
+              }}
+            >
+              Failed to load diff: {error}
+            </div>
+          ) : diff ? (
+            <DiffViewer
+              diff={diff}
+              viewMode={diffViewMode}
+              onViewModeChange={setDiffViewMode}
+            />
+          ) : (
+            <div
+              style={{
+                padding: '20px',
+                textAlign: 'center',
+                color: theme.colors.textSecondary,
+              }}
+            >
+              Loading diff...
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    if (affectedPackages) {
+      return (
+        <AffectedPackagesView
+          affected={affectedPackages}
+          selectedPackagePath={selectedPackagePath}
+          onPackageSelect={handleAffectedPackageSelect}
+        />
+      );
+    }
+
+    if (viewMode !== 'tree') {
+      if (visibleEntries.length === 0) {
+        return (
+          <div
+            style={{
+              padding: '20px',
+              textAlign: 'center',
+              color: theme.colors.textSecondary,
+            }}
+          >
+            {filterTerm ? 'No changed files match the filter' : emptyMessage}
+          </div>
+        );
+      }
+
+      if (viewMode === 'packages') {
+        return (
+          <PackageChangesView
+            groups={packageGroups}
+            selectedPackagePath={selectedPackagePath}
+            onPackageSelect={handlePackageGroupSelect}
+            selectedKeys={selectedKeys}
+            onFileSelect={handleChangedFileSelect}
+            onContextMenu={handleContextMenu}
+          />
+        );
+      }
+
+      if (isSummarized) {
+        return (
+          <DirectorySummaryView
+            summaries={directorySummaries}
+            selectedKeys={selectedKeys}
+            onFileSelect={handleChangedFileSelect}
+            onContextMenu={handleContextMenu}
+          />
+        );
+      }
+
+      return (
+        <ChangedFilesTree
+          entries={visibleEntries}
+          selectedKeys={selectedKeys}
+          onSelect={handleChangedFileSelect}
+          onContextMenu={handleContextMenu}
+        />
+      );
+    }
+
     return (
       <GitStatusFileTree
         fileTree={gitChangesData.tree}
@@ -395,13 +1277,30 @@ export const GitChangesPanelContent: React.FC<GitChangesPanelProps> = ({
         transparentBackground={true}
         horizontalNodePadding="16px"
         verticalPadding="16px"
-        openByDefault={!!searchTerm}
+        openByDefault={!!filterTerm}
         enableDragAndDrop={false}
         enablePanelDrag={true}
       />
     );
   };
 
+  const toolbarButtonStyle = (active = false): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    padding: '4px',
+    borderRadius: '4px',
+    border: `1px solid ${active ? theme.colors.primary : theme.colors.border}`,
+    backgroundColor: active ? `${theme.colors.primary}20` : 'transparent',
+    color: active ? theme.colors.primary : theme.colors.textSecondary,
+    cursor: 'pointer',
+  });
+
+  const hasGitMenuItems = contextMenu.isFolder
+    ? !!stageFolder && stageTargets.length > 0
+    : (!!stage && stageTargets.length > 0) ||
+      (!!unstage && unstageTargets.length > 0) ||
+      (!!discard && discardTargets.length > 0);
+
   // Context menu button style
   const contextMenuButtonStyle: React.CSSProperties = {
     display: 'flex',
@@ -418,30 +1317,158 @@ export const GitChangesPanelContent: React.FC<GitChangesPanelProps> = ({
   };
 
   return (
-    <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        height: '100%',
+        ['--theme-bg-tertiary' as string]: theme.colors.backgroundTertiary,
+      }}
+    >
+      {branchInfo && (
+        <BranchHeader
+          branchInfo={branchInfo}
+          onSwitchBranch={switchBranch ? handleSwitchBranch : undefined}
+          onApplyStash={applyStash ? handleApplyStash : undefined}
+          onDropStash={dropStash ? handleDropStash : undefined}
+        />
+      )}
+
       {/* Search bar - 40px total height including border */}
-      <input
-        type="text"
-        placeholder="Filter files..."
-        value={searchTerm}
-        onChange={(e) => setSearchTerm(e.target.value)}
+      <div
         style={{
-          width: '100%',
-          padding: '0 16px',
-          fontSize: theme.fontSizes[1],
-          fontFamily: theme.fonts.body,
-          color: theme.colors.text,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '4px',
+          height: '40px',
+          paddingRight: '8px',
           backgroundColor: theme.colors.backgroundSecondary,
-          border: 'none',
           borderBottom: `1px solid ${theme.colors.border}`,
-          outline: 'none',
           boxSizing: 'border-box',
-          height: '40px',
         }}
-      />
+      >
+        <input
+          type="text"
+          placeholder="Filter files..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            height: '100%',
+            padding: '0 16px',
+            fontSize: theme.fontSizes[1],
+            fontFamily: theme.fonts.body,
+            color: theme.colors.text,
+            backgroundColor: 'transparent',
+            border: 'none',
+            outline: 'none',
+            boxSizing: 'border-box',
+          }}
+        />
+        <button
+          type="button"
+          title="All files"
+          onClick={() => setViewMode('tree')}
+          style={toolbarButtonStyle(viewMode === 'tree')}
+        >
+          <FolderTree size={14} />
+        </button>
+        <button
+          type="button"
+          title="Changed files"
+          onClick={() => setViewMode('changes')}
+          style={toolbarButtonStyle(viewMode === 'changes')}
+        >
+          <ListTree size={14} />
+        </button>
+        {viewMode === 'changes' && (
+          <button
+            type="button"
+            title="Summarize by top-level directory"
+            onClick={() => setSummaryMode(!isSummarized)}
+            style={toolbarButtonStyle(isSummarized)}
+          >
+            <ListCollapse size={14} />
+          </button>
+        )}
+        {packages && (
+          <button
+            type="button"
+            title="Group by package"
+            onClick={() => setViewMode('packages')}
+            style={toolbarButtonStyle(viewMode === 'packages')}
+          >
+            <Package size={14} />
+          </button>
+        )}
+        {packages && (
+          <button
+            type="button"
+            title="Affected packages"
+            onClick={() => setViewMode('affected')}
+            style={toolbarButtonStyle(viewMode === 'affected')}
+          >
+            <Network size={14} />
+          </button>
+        )}
+      </div>
+
+      {operationError && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '6px 12px',
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[0],
+            color: theme.colors.error,
+            backgroundColor: `${theme.colors.error}15`,
+            borderBottom: `1px solid ${theme.colors.border}`,
+          }}
+        >
+          <span style={{ flex: 1 }}>{operationError}</span>
+          <button
+            type="button"
+            title="Dismiss"
+            onClick={() => setOperationError(null)}
+            style={{
+              display: 'flex',
+              padding: 0,
+              border: 'none',
+              background: 'none',
+              color: 'inherit',
+              cursor: 'pointer',
+            }}
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {!isLoading &&
+        (conflictedFiles.length > 0 || displayStatus.mergeState) && (
+          <ConflictsSection
+            conflictedFiles={conflictedFiles}
+            mergeState={displayStatus.mergeState}
+            onOpen={
+              readFileAtRevision ? (path) => setOpenConflict(path) : undefined
+            }
+            onMarkResolved={markResolved ? handleMarkResolved : undefined}
+            onAbort={abortMerge ? handleAbortMerge : undefined}
+          />
+        )}
 
       <div style={{ flex: 1, overflow: 'auto' }}>{renderContent()}</div>
 
+      {commit && !isLoading && (
+        <CommitComposer
+          stagedCount={countStagedChanges(displayStatus)}
+          onCommit={handleCommit}
+        />
+      )}
+
       {/* Context menu - rendered as portal */}
       {contextMenu.visible &&
         createPortal(
@@ -485,6 +1512,66 @@ export const GitChangesPanelContent: React.FC<GitChangesPanelProps> = ({
               }}
             />
 
+            {/* Git actions */}
+            {contextMenu.isFolder && stageFolder && stageTargets.length > 0 && (
+              <button
+                onClick={handleStageFolder}
+                className="context-menu-item"
+                style={contextMenuButtonStyle}
+              >
+                <Plus size={14} />
+                Stage Folder
+              </button>
+            )}
+            {!contextMenu.isFolder && stage && stageTargets.length > 0 && (
+              <button
+                onClick={handleStage}
+                className="context-menu-item"
+                style={contextMenuButtonStyle}
+              >
+                <Plus size={14} />
+                {stageTargets.length === 1
+                  ? 'Stage'
+                  : `Stage ${stageTargets.length} Files`}
+              </button>
+            )}
+            {!contextMenu.isFolder && unstage && unstageTargets.length > 0 && (
+              <button
+                onClick={handleUnstage}
+                className="context-menu-item"
+                style={contextMenuButtonStyle}
+              >
+                <Minus size={14} />
+                {unstageTargets.length === 1
+                  ? 'Unstage'
+                  : `Unstage ${unstageTargets.length} Files`}
+              </button>
+            )}
+            {!contextMenu.isFolder && discard && discardTargets.length > 0 && (
+              <button
+                onClick={handleDiscard}
+                className="context-menu-item"
+                style={{
+                  ...contextMenuButtonStyle,
+                  color: theme.colors.error,
+                }}
+              >
+                <Undo2 size={14} />
+                {discardTargets.length === 1
+                  ? 'Discard Changes'
+                  : `Discard Changes (${discardTargets.length} Files)`}
+              </button>
+            )}
+            {hasGitMenuItems && (
+              <div
+                style={{
+                  height: '1px',
+                  backgroundColor: theme.colors.border,
+                  margin: '4px 0',
+                }}
+              />
+            )}
+
             {/* Copy full path */}
             <button
               onClick={handleCopyFullPath}
@@ -567,6 +1654,7 @@ export const GitChangesPanelPreview: React.FC = () => {
  */
 export const GitChangesPanel: React.FC<GitChangesPanelPropsTyped> = ({
   context,
+  actions,
   events,
 }) => {
   // Get data slices from typed context (direct property access)
@@ -576,6 +1664,8 @@ export const GitChangesPanel: React.FC<GitChangesPanelPropsTyped> = ({
   // Extract data with stable defaults to prevent unnecessary re-renders
   const gitStatus = gitSlice?.data ?? EMPTY_GIT_STATUS;
   const fileTree = fileTreeSlice?.data;
+  const packages = context.packages?.data?.packages;
+  const branchInfoSlice = context.gitBranchInfo;
   const isLoading = gitSlice?.loading || fileTreeSlice?.loading || false;
 
   // Get repository path from context scope
@@ -600,16 +1690,64 @@ export const GitChangesPanel: React.FC<GitChangesPanelPropsTyped> = ({
   // Handle context menu actions - emit appropriate events
   const handleContextMenuAction = useCallback(
     (action: ContextMenuAction) => {
+      const { type, ...payload } = action;
       events?.emit({
-        type: `contextMenu:${action.type}`,
+        type: `contextMenu:${type}`,
         source: 'git-changes-panel',
         timestamp: Date.now(),
-        payload: { path: action.path },
+        payload,
       });
     },
     [events]
   );
 
+  // Emit package:select when a package group is selected/deselected
+  const handlePackageSelect = useCallback(
+    (pkg: PackageLayer | null) => {
+      events?.emit({
+        type: 'package:select',
+        source: 'git-changes-panel',
+        timestamp: Date.now(),
+        payload: pkg
+          ? {
+              packagePath: pkg.packageData.path,
+              packageName: pkg.packageData.name,
+            }
+          : null,
+      });
+    },
+    [events]
+  );
+
+  // Pick up the real status after a git action
+  const handleRefresh = useCallback(() => {
+    void context.refresh('repository', 'git');
+    void branchInfoSlice?.refresh();
+  }, [context, branchInfoSlice]);
+
+  // Commits from the commit_changes tool go through the same action
+  useEffect(() => {
+    if (!events) return;
+
+    return events.on<CommitChangesPayload>(
+      COMMIT_CHANGES_EVENT,
+      async (event) => {
+        const result = await runCommitChanges(event.payload, actions?.commit);
+        if (result.success) {
+          handleRefresh();
+        } else {
+          console.warn(`[GitChangesPanel] commit_changes: ${result.message}`);
+        }
+        events.emit({
+          type: COMMIT_CHANGES_RESULT_EVENT,
+          source: 'git-changes-panel',
+          timestamp: Date.now(),
+          payload: result,
+        });
+      }
+    );
+  }, [events, actions, handleRefresh]);
+
   // Don't render if fileTree is not available
   if (!fileTree) {
     return null;
@@ -623,6 +1761,22 @@ export const GitChangesPanel: React.FC<GitChangesPanelPropsTyped> = ({
       isLoading={isLoading}
       onFileClick={handleFileClick}
       onContextMenuAction={handleContextMenuAction}
+      readFileAtRevision={actions?.readFileAtRevision}
+      getDiff={actions?.getDiff}
+      stage={actions?.stage}
+      unstage={actions?.unstage}
+      discard={actions?.discard}
+      stageFolder={actions?.stageFolder}
+      commit={actions?.commit}
+      onRefresh={handleRefresh}
+      packages={packages}
+      onPackageSelect={handlePackageSelect}
+      branchInfo={branchInfoSlice?.data}
+      switchBranch={actions?.switchBranch}
+      applyStash={actions?.applyStash}
+      dropStash={actions?.dropStash}
+      markResolved={actions?.markResolved}
+      abortMerge={actions?.abortMerge}
     />
   );
 };
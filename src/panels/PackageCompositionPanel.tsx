@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { useTheme } from '@principal-ade/industry-theme';
 import {
   FileCode,
@@ -15,6 +15,8 @@ import {
   PackageLoadingGraph,
 } from './components';
 import { EmptyDependencies } from './components/EmptyDependencies';
+import { CommandRunDrawer } from './components/CommandRunDrawer';
+import { useCommandRuns } from './components/useCommandRuns';
 import type {
   PackageCompositionPanelPropsTyped,
   PanelEventEmitter,
@@ -24,6 +26,7 @@ import type {
   ConfigFile,
   PackageCommand,
 } from '../types/composition';
+import type { CommandRunner } from '../services/CommandRunner';
 
 export interface PackageCompositionPanelProps {
   /** Detected packages in the repository */
@@ -34,8 +37,10 @@ export interface PackageCompositionPanelProps {
   foundManifests?: string[];
   /** Whether the GitHub repository is public (undefined if no GitHub info) */
   isGitHubPublic?: boolean;
-  /** Callback when a command is clicked */
+  /** Callback when a command is clicked (not called when runCommand is set) */
   onCommandClick?: (command: PackageCommand, packagePath: string) => void;
+  /** Run commands in the panel with streamed output, instead of onCommandClick */
+  runCommand?: CommandRunner;
   /** Callback when a config file is clicked */
   onConfigClick?: (configFile: ConfigFile) => void;
   /** Callback when a package folder is clicked */
@@ -48,6 +53,10 @@ export interface PackageCompositionPanelProps {
   events?: PanelEventEmitter;
   /** Read file content from the repository */
   readFile?: (filePath: string) => Promise<string>;
+  /** Write file content to the repository */
+  writeFile?: (filePath: string, content: string) => Promise<void>;
+  /** Called after a file is written so the host can refresh packages */
+  onRefresh?: () => void;
 }
 
 /**
@@ -66,11 +75,20 @@ export const PackageCompositionPanelContent: React.FC<
   onPackageSelect,
   events,
   readFile,
+  writeFile,
+  onRefresh,
+  runCommand,
 }) => {
   const { theme } = useTheme();
   const [selectedPackageId, setSelectedPackageId] = useState<string | null>(
     null
   );
+  const commandRuns = useCommandRuns(runCommand);
+  // Package whose runs are shown in the run drawer, and the run in view
+  const [runDrawer, setRunDrawer] = useState<{
+    packagePath: string;
+    runId: string | null;
+  } | null>(null);
 
   // Sort packages: monorepo roots first, then by path
   const sortedPackages = useMemo(() => {
@@ -88,6 +106,51 @@ export const PackageCompositionPanelContent: React.FC<
     return packages.find((p) => p.id === selectedPackageId) || null;
   }, [selectedPackageId, packages]);
 
+  // Follow package selections made in other panels
+  useEffect(() => {
+    if (!events) return;
+
+    return events.on<{ packagePath: string; packageName: string } | null>(
+      'package:select',
+      (event) => {
+        if (event.source === 'PackageCompositionPanel') return;
+        if (!event.payload) {
+          setSelectedPackageId(null);
+          return;
+        }
+        const { packagePath } = event.payload;
+        const pkg = packages.find((p) => p.packageData.path === packagePath);
+        if (pkg) setSelectedPackageId(pkg.id);
+      }
+    );
+  }, [events, packages]);
+
+  const { start: startRun } = commandRuns;
+  const handleCommandClick = useCallback(
+    (command: PackageCommand, packagePath: string) => {
+      const runId = startRun(command, packagePath);
+      if (runId) {
+        setRunDrawer({ packagePath, runId });
+      } else {
+        onCommandClick?.(command, packagePath);
+      }
+    },
+    [startRun, onCommandClick]
+  );
+
+  const drawerRuns = useMemo(
+    () =>
+      runDrawer
+        ? commandRuns.runs.filter(
+            (run) => run.packagePath === runDrawer.packagePath
+          )
+        : [],
+    [commandRuns.runs, runDrawer]
+  );
+  const runningCount = commandRuns.runs.filter(
+    (run) => run.status === 'running'
+  ).length;
+
   if (isLoading) {
     return <PackageLoadingGraph />;
   }
@@ -97,6 +160,10 @@ export const PackageCompositionPanelContent: React.FC<
   }
 
   const isSinglePackage = packages.length === 1;
+  // The runs button opens the history of the package in view, if any
+  const runsPackagePath =
+    (isSinglePackage ? packages[0] : selectedPackage)?.packageData.path ??
+    commandRuns.runs[0]?.packagePath;
 
   return (
     <div
@@ -148,6 +215,35 @@ export const PackageCompositionPanelContent: React.FC<
               ? 'Public Repo'
               : `${packages.length} packages`}
         </span>
+        {commandRuns.runs.length > 0 && (
+          <button
+            onClick={() =>
+              setRunDrawer(
+                runDrawer ? null : { packagePath: runsPackagePath, runId: null }
+              )
+            }
+            title="Command runs"
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              padding: '2px 8px',
+              backgroundColor: runDrawer
+                ? theme.colors.backgroundSecondary
+                : 'transparent',
+              border: `1px solid ${theme.colors.border}`,
+              borderRadius: '4px',
+              cursor: 'pointer',
+              color:
+                runningCount > 0 ? theme.colors.primary : theme.colors.text,
+              fontSize: theme.fontSizes[0],
+              fontFamily: theme.fonts.body,
+            }}
+          >
+            <Terminal size={12} />
+            {runningCount > 0 ? `${runningCount} running` : 'Runs'}
+          </button>
+        )}
       </div>
 
       {/* Content Area */}
@@ -164,11 +260,13 @@ export const PackageCompositionPanelContent: React.FC<
             pkg={packages[0]}
             isExpanded={true}
             onToggle={() => {}}
-            onCommandClick={onCommandClick}
+            onCommandClick={handleCommandClick}
             onConfigClick={onConfigClick}
             onPackageClick={onPackageClick}
             standalone
             readFile={readFile}
+            writeFile={writeFile}
+            onRefresh={onRefresh}
           />
         ) : (
           // Multi-package: sliding panels
@@ -218,11 +316,13 @@ export const PackageCompositionPanelContent: React.FC<
                   pkg={selectedPackage}
                   isExpanded={true}
                   onToggle={() => {}}
-                  onCommandClick={onCommandClick}
+                  onCommandClick={handleCommandClick}
                   onConfigClick={onConfigClick}
                   onPackageClick={onPackageClick}
                   standalone
                   readFile={readFile}
+                  writeFile={writeFile}
+                  onRefresh={onRefresh}
                   onClose={() => {
                     setSelectedPackageId(null);
                     onPackageSelect?.(null);
@@ -232,6 +332,24 @@ export const PackageCompositionPanelContent: React.FC<
             </div>
           </div>
         )}
+
+        {runDrawer && (
+          <CommandRunDrawer
+            packageName={
+              packages.find((p) => p.packageData.path === runDrawer.packagePath)
+                ?.packageData.name ?? runDrawer.packagePath
+            }
+            runs={drawerRuns}
+            selectedRunId={runDrawer.runId}
+            onSelectRun={(runId) => setRunDrawer({ ...runDrawer, runId })}
+            onCancel={commandRuns.cancel}
+            onRerun={(run) => handleCommandClick(run.command, run.packagePath)}
+            onClearHistory={() =>
+              commandRuns.clearHistory(runDrawer.packagePath)
+            }
+            onClose={() => setRunDrawer(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -307,6 +425,11 @@ export const PackageCompositionPanel: React.FC<
   const isLoading = packagesSlice?.loading || false;
   const isGitHubPublic = repositoryEntrySlice?.data?.github?.isPublic;
 
+  // Pick up new lens readiness and config files after a fix or export
+  const handleRefresh = () => {
+    void context.refresh('repository', 'packages');
+  };
+
   // Emit package:hover events when hovering over packages
   const handlePackageHover = (pkg: PackageLayer | null) => {
     events?.emit({
@@ -346,6 +469,9 @@ export const PackageCompositionPanel: React.FC<
       onPackageSelect={handlePackageSelect}
       events={events}
       readFile={actions.readFile}
+      writeFile={actions.writeFile}
+      onRefresh={handleRefresh}
+      runCommand={actions.runCommand}
     />
   );
 };
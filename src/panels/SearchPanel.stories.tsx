@@ -2,6 +2,7 @@ import type { Meta, StoryObj } from '@storybook/react-vite';
 import { ThemeProvider } from '@principal-ade/industry-theme';
 import { SearchPanelContent, SearchPanelPreview } from './SearchPanel';
 import type { FileTree } from '@principal-ai/repository-abstraction';
+import { createInMemoryContentSearch } from '../services/ContentSearch';
 
 /**
  * SearchPanelContent provides filename search functionality for repository files.
@@ -17,7 +18,7 @@ const meta = {
     docs: {
       description: {
         component:
-          'A panel that provides filename search with directory filtering. Supports wildcards like *.tsx and test?.js.',
+          'A panel that provides fuzzy filename search with directory filtering. Supports wildcards like *.tsx and test?.js.',
       },
     },
   },
@@ -201,6 +202,90 @@ export const LargeFileTree: Story = {
   },
 };
 
+// In-memory file contents for the content search provider
+const sampleContents: Record<string, string> = {
+  'src/index.tsx': [
+    "import React from 'react';",
+    "import { createRoot } from 'react-dom/client';",
+    "import { App } from './App';",
+    '',
+    "createRoot(document.getElementById('root')!).render(<App />);",
+  ].join('\n'),
+  'src/App.tsx': [
+    "import { useAuth } from './hooks/useAuth';",
+    '',
+    'export function App() {',
+    '  const { user } = useAuth();',
+    '  // TODO: add routing',
+    '  return <main>{user?.name}</main>;',
+    '}',
+  ].join('\n'),
+  'src/hooks/useAuth.ts': [
+    "import { getSession } from '../services/auth';",
+    '',
+    'export function useAuth() {',
+    '  // TODO: subscribe to session changes',
+    '  return { user: getSession()?.user };',
+    '}',
+  ].join('\n'),
+  'src/services/auth.ts': [
+    'export function getSession() {',
+    '  return null as { user: { name: string } } | null;',
+    '}',
+  ].join('\n'),
+  'README.md': '# my-project\n\nTODO: document useAuth\n',
+};
+
+/**
+ * Content search enabled via an in-memory provider.
+ * Switch to "Content" mode and search for e.g. `TODO` or `useAuth`.
+ */
+export const WithContentSearch: Story = {
+  args: {
+    fileTree: sampleFileTree,
+    baseDirectory: '/Users/developer/my-project',
+    searchContent: createInMemoryContentSearch(sampleContents),
+    onFileSelect: (_filePath: string) => {},
+    onContentMatchSelect: (_match) => {},
+  },
+};
+
+/**
+ * Multi-repo workspace - switch to "All repos" to search every repository
+ * at once, with a repository column in the results.
+ */
+export const WorkspaceSearch: Story = {
+  args: {
+    fileTree: sampleFileTree,
+    baseDirectory: '/Users/developer/my-project',
+    repositories: [
+      {
+        rootPath: '/Users/developer/api-server',
+        name: 'api-server',
+        fileTree: createMockFileTree([
+          'src/index.ts',
+          'src/routes/auth.ts',
+          'src/routes/users.ts',
+          'src/services/AuthService.ts',
+          'package.json',
+          'README.md',
+        ]),
+      },
+      {
+        rootPath: '/Users/developer/design-system',
+        name: 'design-system',
+        fileTree: createMockFileTree([
+          'src/Button/Button.tsx',
+          'src/Card/Card.tsx',
+          'src/Modal/Modal.tsx',
+          'package.json',
+        ]),
+      },
+    ],
+    onFileSelect: (_filePath: string, _rootPath?: string) => {},
+  },
+};
+
 /**
  * Preview component - shown in panel switcher
  */
@@ -1,12 +1,59 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from 'react';
 import { useTheme } from '@principal-ade/industry-theme';
-import { FileText, Copy, Check } from 'lucide-react';
+import { FileText, Copy, Check, X, Clock } from 'lucide-react';
 import type { FileTree } from '@principal-ai/repository-abstraction';
 import type { SearchPanelPropsTyped } from '../types';
+import type { MatchRange, SearchResult } from '../services/LocalSearchService';
 import {
-  localSearchService,
-  type SearchResult,
-} from '../services/LocalSearchService';
+  LocalSearchServiceRegistry,
+  type CrossRepositorySearchResult,
+  type SearchRepository,
+} from '../services/searchRegistry';
+import {
+  groupContentMatches,
+  type ContentSearchMatch,
+  type ContentSearchProvider,
+} from '../services/ContentSearch';
+import {
+  parseSearchQuery,
+  removeSearchQueryFilter,
+  type ParsedSearchQuery,
+  type SearchQueryFilter,
+} from '../services/searchQuery';
+import { SearchWorkerClient } from '../services/searchWorker';
+import {
+  EMPTY_SEARCH_HISTORY,
+  getDefaultSearchHistoryStorage,
+  getFrecencyBoosts,
+  getRecentFiles,
+  loadSearchHistory,
+  recordFileVisit,
+  recordSearchQuery,
+  removeRecentQuery,
+  saveSearchHistory,
+  type SearchHistory,
+  type SearchHistoryStorage,
+} from '../services/searchHistory';
+
+export type SearchMode = 'files' | 'content';
+
+/** Search only this repository, or every repository in the workspace */
+export type SearchScope = 'repository' | 'workspace';
+
+/** Delay before a content query is sent to the provider */
+const CONTENT_SEARCH_DEBOUNCE_MS = 250;
+/** How often streamed content matches are flushed to state */
+const CONTENT_SEARCH_FLUSH_MS = 50;
+/** Recent files listed while the query is empty */
+const RECENT_FILES_SHOWN = 8;
+/** Recent queries listed while the query is empty */
+const RECENT_QUERIES_SHOWN = 5;
 
 export interface SearchPanelProps {
   /** File tree data for searching */
@@ -15,18 +62,48 @@ export interface SearchPanelProps {
   baseDirectory?: string;
   /** Whether data is currently loading */
   isLoading?: boolean;
-  /** Callback when a file is selected */
-  onFileSelect?: (filePath: string) => void;
+  /**
+   * Callback when a file is selected. `rootPath` is set for results from
+   * another repository in workspace scope.
+   */
+  onFileSelect?: (filePath: string, rootPath?: string) => void;
   /** Callback when search results change */
   onSearchResultsChange?: (results: SearchResult[]) => void;
   /** Callback when a search result is hovered */
   onSearchResultHover?: (filePath: string | null) => void;
   /** Currently selected file path */
   selectedFile?: string | null;
+  /**
+   * Content search provider - enables the Files/Content mode toggle.
+   * Should be referentially stable; a new provider restarts the search.
+   */
+  searchContent?: ContentSearchProvider;
+  /** Callback when a content match is selected (falls back to onFileSelect) */
+  onContentMatchSelect?: (match: ContentSearchMatch) => void;
+  /**
+   * Worker running `attachSearchWorker` - moves filename indexing and search
+   * off the main thread. The panel does not terminate it.
+   */
+  searchWorker?: Worker;
+  /**
+   * Where recent queries and opened files are persisted, per baseDirectory.
+   * Defaults to localStorage; pass null to keep history in memory only.
+   */
+  historyStorage?: SearchHistoryStorage | null;
+  /**
+   * Other repositories in the workspace - enables the All repos scope.
+   * Should be referentially stable; a new array re-indexes every tree.
+   */
+  repositories?: SearchRepository[];
+  /**
+   * Registry holding one index per root path. Defaults to a registry owned
+   * by this panel; pass a shared one to reuse indexes across panels.
+   */
+  searchRegistry?: LocalSearchServiceRegistry;
 }
 
 /**
- * SearchPanelContent - Filename search panel for repository files
+ * SearchPanelContent - Filename and (optional) content search panel for repository files
  */
 export const SearchPanelContent: React.FC<SearchPanelProps> = ({
   fileTree,
@@ -36,12 +113,79 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
   onSearchResultsChange,
   onSearchResultHover,
   selectedFile,
+  searchContent,
+  onContentMatchSelect,
+  searchWorker,
+  historyStorage,
+  repositories,
+  searchRegistry,
 }) => {
   const { theme } = useTheme();
 
   // Search state
+  const [searchMode, setSearchMode] = useState<SearchMode>('files');
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchResults, setSearchResults] = useState<
+    CrossRepositorySearchResult[]
+  >([]);
+  const [searchScope, setSearchScope] = useState<SearchScope>('repository');
+  const [contentMatches, setContentMatches] = useState<ContentSearchMatch[]>(
+    []
+  );
+  const [isContentSearching, setIsContentSearching] = useState(false);
+
+  const isContentMode = searchMode === 'content' && !!searchContent;
+
+  // Other repositories that can join a workspace-wide search
+  const otherRepositories = useMemo(
+    () =>
+      (repositories ?? []).filter(
+        (repository) => repository.rootPath !== baseDirectory
+      ),
+    [repositories, baseDirectory]
+  );
+  const isWorkspaceScope =
+    searchScope === 'workspace' && otherRepositories.length > 0;
+
+  const ownRegistry = useMemo(() => new LocalSearchServiceRegistry(), []);
+  const registry = searchRegistry ?? ownRegistry;
+
+  // Recent queries and opened files for this base directory
+  const storage =
+    historyStorage === undefined
+      ? getDefaultSearchHistoryStorage()
+      : historyStorage;
+  const [history, setHistory] = useState<SearchHistory>(EMPTY_SEARCH_HISTORY);
+
+  useEffect(() => {
+    setHistory(loadSearchHistory(storage, baseDirectory));
+  }, [storage, baseDirectory]);
+
+  const updateHistory = useCallback(
+    (update: (prev: SearchHistory) => SearchHistory) => {
+      setHistory((prev) => {
+        const next = update(prev);
+        saveSearchHistory(storage, baseDirectory, next);
+        return next;
+      });
+    },
+    [storage, baseDirectory]
+  );
+
+  const frecencyBoosts = useMemo(() => getFrecencyBoosts(history), [history]);
+  const recentFiles = useMemo(
+    () => getRecentFiles(history, RECENT_FILES_SHOWN),
+    [history]
+  );
+  const recentQueries = history.queries.slice(0, RECENT_QUERIES_SHOWN);
+  const showHistory =
+    !searchQuery && (recentFiles.length > 0 || recentQueries.length > 0);
+
+  // Split `ext:` / `in:` / `-in:` filters from the free text
+  const parsedQuery = useMemo(
+    () => parseSearchQuery(searchQuery),
+    [searchQuery]
+  );
 
   // UI state
   const [selectedSearchIndex, setSelectedSearchIndex] = useState(-1);
@@ -57,42 +201,184 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
     searchInputRef.current?.focus();
   }, []);
 
+  // Worker-backed search client, when a worker is provided
+  const workerClient = useMemo(
+    () => (searchWorker ? new SearchWorkerClient(searchWorker) : null),
+    [searchWorker]
+  );
+
+  // Only the latest worker search may update results
+  const latestSearchIdRef = useRef(0);
+
+  useEffect(
+    () => () => {
+      latestSearchIdRef.current++;
+      workerClient?.dispose();
+    },
+    [workerClient]
+  );
+
   // Index file tree when it changes
   useEffect(() => {
     if (fileTree && baseDirectory) {
-      localSearchService.indexFileSystemTree(fileTree, baseDirectory);
+      if (workerClient) {
+        workerClient.index(fileTree, baseDirectory);
+      } else {
+        registry.index({ rootPath: baseDirectory, fileTree });
+      }
     }
-  }, [fileTree, baseDirectory]);
+  }, [fileTree, baseDirectory, workerClient, registry]);
+
+  // Other repositories are only indexed once workspace scope is used
+  useEffect(() => {
+    if (!isWorkspaceScope) return;
+    for (const repository of otherRepositories) {
+      if (!repository.fileTree) continue;
+      if (workerClient) {
+        workerClient.index(
+          repository.fileTree,
+          repository.rootPath,
+          repository.name
+        );
+      } else {
+        registry.index(repository);
+      }
+    }
+  }, [isWorkspaceScope, otherRepositories, workerClient, registry]);
 
   // Perform search
   const performSearch = useCallback(
-    (query: string) => {
-      if (!query.trim()) {
+    (query: ParsedSearchQuery) => {
+      // Invalidate any in-flight worker search
+      const searchId = ++latestSearchIdRef.current;
+
+      if (!query.text.trim() && query.filters.length === 0) {
         setSearchResults([]);
         onSearchResultsChange?.([]);
         return;
       }
 
-      const results = localSearchService.search(query, {
+      const options = {
         limit: 100,
-      });
+        fileTypes: query.fileTypes,
+        directoryFilters: query.directoryFilters,
+        rootPaths: isWorkspaceScope
+          ? [baseDirectory, ...otherRepositories.map((r) => r.rootPath)]
+          : [baseDirectory],
+        // History is per repository, so only this repository is boosted
+        boostsByRoot: { [baseDirectory]: frecencyBoosts },
+      };
+
+      if (workerClient) {
+        workerClient
+          .search(query.text, options)
+          .then((results) => {
+            if (searchId !== latestSearchIdRef.current) return;
+            setSearchResults(results);
+            onSearchResultsChange?.(results);
+          })
+          .catch((error: Error) => {
+            if (searchId !== latestSearchIdRef.current) return;
+            console.error('Worker search failed:', error);
+          });
+        return;
+      }
+
+      const results = registry.searchAll(query.text, options);
 
       setSearchResults(results);
       onSearchResultsChange?.(results);
     },
-    [onSearchResultsChange]
+    [
+      onSearchResultsChange,
+      workerClient,
+      registry,
+      baseDirectory,
+      otherRepositories,
+      isWorkspaceScope,
+      frecencyBoosts,
+    ]
   );
 
   // Handle search input changes
   useEffect(() => {
-    performSearch(searchQuery);
-  }, [searchQuery, performSearch]);
+    if (isContentMode) return;
+    performSearch(parsedQuery);
+  }, [parsedQuery, performSearch, isContentMode]);
+
+  // Stream content matches from the provider, debounced per keystroke
+  useEffect(() => {
+    if (!isContentMode || !searchContent || !parsedQuery.text.trim()) {
+      setContentMatches([]);
+      setIsContentSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    const buffer: ContentSearchMatch[] = [];
+
+    const flush = () => {
+      flushTimer = null;
+      if (!controller.signal.aborted) {
+        setContentMatches([...buffer]);
+      }
+    };
+
+    setIsContentSearching(true);
+    const debounceTimer = setTimeout(async () => {
+      setContentMatches([]);
+      try {
+        for await (const match of searchContent(parsedQuery.text, {
+          contextLines: 1,
+          maxResults: 500,
+          fileTypes: parsedQuery.fileTypes,
+          directoryFilters: parsedQuery.directoryFilters,
+          signal: controller.signal,
+        })) {
+          if (controller.signal.aborted) break;
+          buffer.push(match);
+          if (!flushTimer) {
+            flushTimer = setTimeout(flush, CONTENT_SEARCH_FLUSH_MS);
+          }
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('[SearchPanel] Content search failed:', error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          if (flushTimer) clearTimeout(flushTimer);
+          flush();
+          setIsContentSearching(false);
+        }
+      }
+    }, CONTENT_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(debounceTimer);
+      if (flushTimer) clearTimeout(flushTimer);
+    };
+  }, [isContentMode, searchContent, parsedQuery]);
+
+  const contentGroups = useMemo(
+    () => groupContentMatches(contentMatches),
+    [contentMatches]
+  );
+
+  // Number of keyboard-navigable items in the current mode
+  const resultCount = showHistory
+    ? recentFiles.length
+    : isContentMode
+      ? contentMatches.length
+      : searchResults.length;
 
   // Reset selection when results change
   useEffect(() => {
     setSelectedSearchIndex(-1);
     setIsSearchResultsFocused(false);
-  }, [searchResults]);
+  }, [searchResults, searchQuery, searchMode, searchScope]);
 
   // Scroll selected item into view
   useEffect(() => {
@@ -102,12 +388,43 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
       searchResultsRef.current
     ) {
       const selectedElement = searchResultsRef.current.querySelector(
-        `.search-result-item:nth-child(${selectedSearchIndex + 1})`
+        `[data-result-index="${selectedSearchIndex}"]`
       );
       selectedElement?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
     }
   }, [selectedSearchIndex, isSearchResultsFocused]);
 
+  // Opening a file remembers both the file and the query that found it
+  // (files from other repositories only record the query)
+  const handleFileSelect = useCallback(
+    (relativePath: string, rootPath?: string) => {
+      const isOtherRepository = !!rootPath && rootPath !== baseDirectory;
+      updateHistory((prev) => {
+        const next = recordSearchQuery(prev, searchQuery);
+        return isOtherRepository ? next : recordFileVisit(next, relativePath);
+      });
+      onFileSelect?.(relativePath, isOtherRepository ? rootPath : undefined);
+    },
+    [updateHistory, searchQuery, baseDirectory, onFileSelect]
+  );
+
+  const handleContentMatchSelect = useCallback(
+    (match: ContentSearchMatch) => {
+      updateHistory((prev) =>
+        recordFileVisit(
+          recordSearchQuery(prev, searchQuery),
+          match.relativePath
+        )
+      );
+      if (onContentMatchSelect) {
+        onContentMatchSelect(match);
+      } else {
+        onFileSelect?.(match.relativePath);
+      }
+    },
+    [updateHistory, searchQuery, onContentMatchSelect, onFileSelect]
+  );
+
   // Handle search keyboard navigation
   const handleSearchKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
@@ -116,7 +433,7 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
           if (
             e.target === searchInputRef.current &&
             !e.shiftKey &&
-            searchResults.length > 0
+            resultCount > 0
           ) {
             e.preventDefault();
             setIsSearchResultsFocused(true);
@@ -125,15 +442,15 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
           }
           break;
         case 'ArrowDown':
-          if (isSearchResultsFocused && searchResults.length > 0) {
+          if (isSearchResultsFocused && resultCount > 0) {
             e.preventDefault();
             setSelectedSearchIndex((prev) =>
-              prev < searchResults.length - 1 ? prev + 1 : prev
+              prev < resultCount - 1 ? prev + 1 : prev
             );
           }
           break;
         case 'ArrowUp':
-          if (isSearchResultsFocused && searchResults.length > 0) {
+          if (isSearchResultsFocused && resultCount > 0) {
             e.preventDefault();
             setSelectedSearchIndex((prev) => (prev > 0 ? prev - 1 : 0));
           }
@@ -141,8 +458,16 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
         case 'Enter':
           if (isSearchResultsFocused && selectedSearchIndex >= 0) {
             e.preventDefault();
-            const result = searchResults[selectedSearchIndex];
-            onFileSelect?.(result.relativePath);
+            if (showHistory) {
+              handleFileSelect(recentFiles[selectedSearchIndex].relativePath);
+            } else if (isContentMode) {
+              handleContentMatchSelect(contentMatches[selectedSearchIndex]);
+            } else {
+              handleFileSelect(
+                searchResults[selectedSearchIndex].relativePath,
+                searchResults[selectedSearchIndex].rootPath
+              );
+            }
           }
           break;
         case 'Escape':
@@ -155,7 +480,18 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
           break;
       }
     },
-    [searchResults, isSearchResultsFocused, selectedSearchIndex, onFileSelect]
+    [
+      searchResults,
+      contentMatches,
+      recentFiles,
+      resultCount,
+      showHistory,
+      isContentMode,
+      isSearchResultsFocused,
+      selectedSearchIndex,
+      handleFileSelect,
+      handleContentMatchSelect,
+    ]
   );
 
   // Handle copy path
@@ -166,16 +502,20 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
     });
   }, []);
 
-  // Highlight matched text
-  const highlightMatch = (text: string, match: string): React.ReactNode => {
-    if (!match) return text;
+  // Highlight exact character ranges reported by the matcher or provider
+  const highlightRanges = (
+    text: string,
+    ranges: MatchRange[] = []
+  ): React.ReactNode => {
+    if (ranges.length === 0) return text;
 
-    const escapedMatch = match.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const regex = new RegExp(`(${escapedMatch})`, 'gi');
-    const parts = text.split(regex);
-
-    return parts.map((part, i) =>
-      regex.test(part) ? (
+    const nodes: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach((range, i) => {
+      if (range.start > cursor) {
+        nodes.push(text.slice(cursor, range.start));
+      }
+      nodes.push(
         <span
           key={i}
           style={{
@@ -183,14 +523,362 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
             fontWeight: theme.fontWeights.bold,
           }}
         >
-          {part}
+          {text.slice(Math.max(range.start, cursor), range.end)}
         </span>
-      ) : (
-        part
-      )
+      );
+      cursor = Math.max(cursor, range.end);
+    });
+    if (cursor < text.length) {
+      nodes.push(text.slice(cursor));
+    }
+    return nodes;
+  };
+
+  const handleRemoveFilter = (filter: SearchQueryFilter) => {
+    setSearchQuery((prev) => removeSearchQueryFilter(prev, filter));
+    searchInputRef.current?.focus();
+  };
+
+  const filterLabels: Record<SearchQueryFilter['kind'], string> = {
+    ext: 'ext',
+    in: 'in',
+    '-in': 'not in',
+  };
+
+  const modeButtonStyle = (active: boolean): React.CSSProperties => ({
+    padding: '4px 10px',
+    fontSize: theme.fontSizes[0],
+    fontFamily: theme.fonts.body,
+    borderRadius: '4px',
+    border: `1px solid ${active ? theme.colors.primary : theme.colors.border}`,
+    backgroundColor: active ? `${theme.colors.primary}20` : 'transparent',
+    color: active ? theme.colors.primary : theme.colors.textSecondary,
+    cursor: 'pointer',
+  });
+
+  const codeLineStyle: React.CSSProperties = {
+    fontFamily: theme.fonts.monospace,
+    fontSize: theme.fontSizes[0],
+    whiteSpace: 'pre',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+  };
+
+  const renderContentResults = () => {
+    let flatIndex = 0;
+
+    return (
+      <div>
+        {contentGroups.map((group) => {
+          const isCurrentFile = selectedFile === group.relativePath;
+
+          return (
+            <div
+              key={group.relativePath}
+              style={{ borderBottom: `1px solid ${theme.colors.border}20` }}
+            >
+              <div
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  padding: '6px 12px',
+                  cursor: 'pointer',
+                  backgroundColor: isCurrentFile
+                    ? `${theme.colors.primary}15`
+                    : theme.colors.backgroundSecondary ||
+                      theme.colors.background,
+                }}
+                // Opens the file at its first match, like the match rows below
+                onClick={() => handleContentMatchSelect(group.matches[0])}
+                onMouseEnter={() => onSearchResultHover?.(group.relativePath)}
+                onMouseLeave={() => onSearchResultHover?.(null)}
+              >
+                <FileText size={14} color={theme.colors.textSecondary} />
+                <span
+                  style={{
+                    fontSize: theme.fontSizes[1],
+                    fontWeight: theme.fontWeights.medium,
+                    fontFamily: theme.fonts.body,
+                    color: theme.colors.text,
+                  }}
+                >
+                  {group.name}
+                </span>
+                <span
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    fontSize: theme.fontSizes[0],
+                    fontFamily: theme.fonts.body,
+                    color: theme.colors.textSecondary,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {group.relativePath}
+                </span>
+                <span
+                  style={{
+                    fontSize: theme.fontSizes[0],
+                    fontFamily: theme.fonts.body,
+                    padding: '1px 6px',
+                    borderRadius: '8px',
+                    backgroundColor: `${theme.colors.primary}20`,
+                    color: theme.colors.primary,
+                  }}
+                >
+                  {group.matches.length}
+                </span>
+              </div>
+
+              {group.matches.map((match) => {
+                const index = flatIndex++;
+                const isSelected =
+                  isSearchResultsFocused && index === selectedSearchIndex;
+                const firstContextLine =
+                  match.lineNumber - match.contextBefore.length;
+
+                return (
+                  <div
+                    key={`${match.relativePath}:${match.lineNumber}`}
+                    data-result-index={index}
+                    className="search-result-item"
+                    style={{
+                      display: 'grid',
+                      gridTemplateColumns: 'auto 1fr',
+                      columnGap: '12px',
+                      padding: '4px 12px 4px 34px',
+                      cursor: 'pointer',
+                      backgroundColor: isSelected
+                        ? `${theme.colors.primary}25`
+                        : 'transparent',
+                      borderLeft: isSelected
+                        ? `3px solid ${theme.colors.primary}80`
+                        : '3px solid transparent',
+                      transition: 'background-color 0.15s',
+                    }}
+                    onClick={() => handleContentMatchSelect(match)}
+                    onMouseEnter={() => {
+                      if (isSearchResultsFocused) {
+                        setSelectedSearchIndex(index);
+                      }
+                      onSearchResultHover?.(match.relativePath);
+                    }}
+                    onMouseLeave={() => onSearchResultHover?.(null)}
+                  >
+                    {match.contextBefore.map((line, i) => (
+                      <React.Fragment key={`before-${i}`}>
+                        <span
+                          style={{
+                            ...codeLineStyle,
+                            color: theme.colors.textSecondary,
+                            opacity: 0.5,
+                            textAlign: 'right',
+                          }}
+                        >
+                          {firstContextLine + i}
+                        </span>
+                        <span
+                          style={{
+                            ...codeLineStyle,
+                            color: theme.colors.textSecondary,
+                            opacity: 0.6,
+                          }}
+                        >
+                          {line}
+                        </span>
+                      </React.Fragment>
+                    ))}
+                    <span
+                      style={{
+                        ...codeLineStyle,
+                        color: theme.colors.primary,
+                        textAlign: 'right',
+                      }}
+                    >
+                      {match.lineNumber}
+                    </span>
+                    <span
+                      style={{ ...codeLineStyle, color: theme.colors.text }}
+                    >
+                      {highlightRanges(match.lineText, match.ranges)}
+                    </span>
+                    {match.contextAfter.map((line, i) => (
+                      <React.Fragment key={`after-${i}`}>
+                        <span
+                          style={{
+                            ...codeLineStyle,
+                            color: theme.colors.textSecondary,
+                            opacity: 0.5,
+                            textAlign: 'right',
+                          }}
+                        >
+                          {match.lineNumber + i + 1}
+                        </span>
+                        <span
+                          style={{
+                            ...codeLineStyle,
+                            color: theme.colors.textSecondary,
+                            opacity: 0.6,
+                          }}
+                        >
+                          {line}
+                        </span>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
     );
   };
 
+  const sectionHeaderStyle: React.CSSProperties = {
+    padding: '8px 12px 4px',
+    fontSize: theme.fontSizes[0],
+    fontWeight: theme.fontWeights.semibold,
+    fontFamily: theme.fonts.body,
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+  };
+
+  const renderHistory = () => (
+    <div>
+      {recentQueries.length > 0 && (
+        <div>
+          <div style={sectionHeaderStyle}>Recent searches</div>
+          {recentQueries.map((entry) => (
+            <div
+              key={entry.query}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '6px 12px',
+                cursor: 'pointer',
+              }}
+              onClick={() => {
+                setSearchQuery(entry.query);
+                searchInputRef.current?.focus();
+              }}
+            >
+              <Clock size={14} color={theme.colors.textSecondary} />
+              <span
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  fontSize: theme.fontSizes[1],
+                  fontFamily: theme.fonts.monospace,
+                  color: theme.colors.text,
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {entry.query}
+              </span>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  updateHistory((prev) => removeRecentQuery(prev, entry.query));
+                }}
+                title="Remove from history"
+                style={{
+                  display: 'flex',
+                  padding: '2px',
+                  border: 'none',
+                  borderRadius: '4px',
+                  background: 'none',
+                  color: theme.colors.textSecondary,
+                  cursor: 'pointer',
+                }}
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {recentFiles.length > 0 && (
+        <div>
+          <div style={sectionHeaderStyle}>Recently opened</div>
+          {recentFiles.map((file, index) => {
+            const name =
+              file.relativePath.split('/').pop() || file.relativePath;
+            const isCurrentFile = selectedFile === file.relativePath;
+            const isSelected =
+              isSearchResultsFocused && index === selectedSearchIndex;
+
+            return (
+              <div
+                key={file.relativePath}
+                data-result-index={index}
+                className="search-result-item"
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  padding: '6px 12px',
+                  cursor: 'pointer',
+                  backgroundColor: isSelected
+                    ? `${theme.colors.primary}25`
+                    : isCurrentFile
+                      ? `${theme.colors.primary}15`
+                      : 'transparent',
+                  borderLeft: isSelected
+                    ? `3px solid ${theme.colors.primary}80`
+                    : '3px solid transparent',
+                }}
+                onClick={() => handleFileSelect(file.relativePath)}
+                onMouseEnter={() => {
+                  if (isSearchResultsFocused) {
+                    setSelectedSearchIndex(index);
+                  }
+                  onSearchResultHover?.(file.relativePath);
+                }}
+                onMouseLeave={() => onSearchResultHover?.(null)}
+              >
+                <FileText size={14} color={theme.colors.textSecondary} />
+                <span
+                  style={{
+                    fontSize: theme.fontSizes[1],
+                    fontWeight: theme.fontWeights.medium,
+                    fontFamily: theme.fonts.body,
+                    color: theme.colors.text,
+                  }}
+                >
+                  {name}
+                </span>
+                <span
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    fontSize: theme.fontSizes[0],
+                    fontFamily: theme.fonts.body,
+                    color: theme.colors.textSecondary,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {file.relativePath}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
       {/* Search Input */}
@@ -208,7 +896,9 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               onKeyDown={handleSearchKeyDown}
-              placeholder="Search files..."
+              placeholder={
+                isContentMode ? 'Search file contents...' : 'Search files...'
+              }
               style={{
                 width: '100%',
                 padding: '8px 12px',
@@ -245,6 +935,104 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
               </svg>
             </div>
           </div>
+
+          {/* Active filter chips */}
+          {parsedQuery.filters.length > 0 && (
+            <div
+              style={{
+                display: 'flex',
+                flexWrap: 'wrap',
+                gap: '6px',
+                marginTop: '8px',
+              }}
+            >
+              {parsedQuery.filters.map((filter) => (
+                <span
+                  key={`${filter.start}-${filter.kind}:${filter.value}`}
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: '4px',
+                    padding: '2px 4px 2px 8px',
+                    borderRadius: '10px',
+                    fontSize: theme.fontSizes[0],
+                    fontFamily: theme.fonts.body,
+                    backgroundColor:
+                      filter.kind === '-in'
+                        ? `${theme.colors.error}20`
+                        : `${theme.colors.primary}20`,
+                    color:
+                      filter.kind === '-in'
+                        ? theme.colors.error
+                        : theme.colors.primary,
+                  }}
+                >
+                  <span style={{ opacity: 0.7 }}>
+                    {filterLabels[filter.kind]}:
+                  </span>
+                  <span style={{ fontFamily: theme.fonts.monospace }}>
+                    {filter.value}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveFilter(filter)}
+                    title="Remove filter"
+                    style={{
+                      display: 'flex',
+                      padding: '1px',
+                      border: 'none',
+                      borderRadius: '50%',
+                      background: 'none',
+                      color: 'inherit',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Scope toggle - only when the workspace has other repositories */}
+          {otherRepositories.length > 0 && !isContentMode && (
+            <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+              <button
+                type="button"
+                onClick={() => setSearchScope('repository')}
+                style={modeButtonStyle(!isWorkspaceScope)}
+              >
+                This repo
+              </button>
+              <button
+                type="button"
+                onClick={() => setSearchScope('workspace')}
+                style={modeButtonStyle(isWorkspaceScope)}
+              >
+                All repos ({otherRepositories.length + 1})
+              </button>
+            </div>
+          )}
+
+          {/* Mode toggle - only when the host provides content search */}
+          {searchContent && (
+            <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+              <button
+                type="button"
+                onClick={() => setSearchMode('files')}
+                style={modeButtonStyle(searchMode === 'files')}
+              >
+                Files
+              </button>
+              <button
+                type="button"
+                onClick={() => setSearchMode('content')}
+                style={modeButtonStyle(searchMode === 'content')}
+              >
+                Content
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -274,7 +1062,9 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
           >
             Loading file tree...
           </div>
-        ) : !searchQuery && searchResults.length === 0 ? (
+        ) : showHistory ? (
+          renderHistory()
+        ) : !searchQuery && resultCount === 0 ? (
           <div
             style={{
               height: '100%',
@@ -325,7 +1115,7 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
                   color: theme.colors.text,
                 }}
               >
-                Search files
+                {isContentMode ? 'Search file contents' : 'Search files'}
               </h3>
 
               <p
@@ -336,7 +1126,9 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
                   color: theme.colors.textSecondary,
                 }}
               >
-                Search through filenames to find what you need
+                {isContentMode
+                  ? 'Search inside files for text or regular expressions'
+                  : 'Search through filenames to find what you need'}
               </p>
 
               <div style={{ textAlign: 'left' }}>
@@ -370,10 +1162,51 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
                     </div>
                   </div>
                 </div>
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'flex-start',
+                    gap: '8px',
+                    marginBottom: '8px',
+                  }}
+                >
+                  <div>
+                    <div
+                      style={{
+                        fontSize: theme.fontSizes[0],
+                        fontWeight: theme.fontWeights.medium,
+                        fontFamily: theme.fonts.body,
+                        color: theme.colors.text,
+                      }}
+                    >
+                      Filters
+                    </div>
+                    <div
+                      style={{
+                        fontSize: theme.fontSizes[0],
+                        fontFamily: theme.fonts.monospace,
+                        color: theme.colors.textSecondary,
+                      }}
+                    >
+                      ext:ts in:src/** -in:stories Card*
+                    </div>
+                  </div>
+                </div>
               </div>
             </div>
           </div>
-        ) : searchQuery && searchResults.length === 0 ? (
+        ) : searchQuery && resultCount === 0 && isContentSearching ? (
+          <div
+            style={{
+              padding: '40px 20px',
+              textAlign: 'center',
+              color: theme.colors.textSecondary,
+              fontFamily: theme.fonts.body,
+            }}
+          >
+            Searching...
+          </div>
+        ) : searchQuery && resultCount === 0 ? (
           <div
             style={{
               height: '100%',
@@ -432,7 +1265,7 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
                   color: theme.colors.textSecondary,
                 }}
               >
-                No files match{' '}
+                {isContentMode ? 'No content matches' : 'No files match'}{' '}
                 <span
                   style={{
                     fontFamily: theme.fonts.monospace,
@@ -444,18 +1277,22 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
               </p>
             </div>
           </div>
+        ) : isContentMode ? (
+          renderContentResults()
         ) : (
           <div>
             {searchResults.map((result, index) => {
               const isCurrentFile =
-                selectedFile === result.path ||
-                selectedFile === result.relativePath;
+                result.rootPath === baseDirectory &&
+                (selectedFile === result.path ||
+                  selectedFile === result.relativePath);
               const isSelected =
                 isSearchResultsFocused && index === selectedSearchIndex;
 
               return (
                 <div
                   key={`${result.path}-${index}`}
+                  data-result-index={index}
                   className="search-result-item"
                   style={{
                     padding: '8px 12px',
@@ -473,7 +1310,9 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
                     borderBottom: `1px solid ${theme.colors.border}20`,
                     transition: 'background-color 0.15s',
                   }}
-                  onClick={() => onFileSelect?.(result.relativePath)}
+                  onClick={() =>
+                    handleFileSelect(result.relativePath, result.rootPath)
+                  }
                   onMouseEnter={() => {
                     if (isSearchResultsFocused) {
                       setSelectedSearchIndex(index);
@@ -489,6 +1328,27 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
                       gap: '8px',
                     }}
                   >
+                    {isWorkspaceScope && (
+                      <div
+                        title={result.rootPath}
+                        style={{
+                          flexShrink: 0,
+                          width: '96px',
+                          marginTop: '1px',
+                          fontSize: theme.fontSizes[0],
+                          fontFamily: theme.fonts.body,
+                          color:
+                            result.rootPath === baseDirectory
+                              ? theme.colors.primary
+                              : theme.colors.textSecondary,
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          whiteSpace: 'nowrap',
+                        }}
+                      >
+                        {result.repositoryName}
+                      </div>
+                    )}
                     <div style={{ flexShrink: 0, marginTop: '2px' }}>
                       <FileText size={14} color={theme.colors.textSecondary} />
                     </div>
@@ -517,7 +1377,7 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
                                 color: theme.colors.text,
                               }}
                             >
-                              {highlightMatch(result.name, searchQuery)}
+                              {highlightRanges(result.name, result.nameRanges)}
                             </div>
                             {isCurrentFile && (
                               <span
@@ -545,7 +1405,10 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
                               whiteSpace: 'nowrap',
                             }}
                           >
-                            {result.relativePath}
+                            {highlightRanges(
+                              result.relativePath,
+                              result.pathRanges
+                            )}
                           </div>
                         </div>
                         <button
@@ -612,7 +1475,7 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
       </div>
 
       {/* Results Summary */}
-      {searchQuery && searchResults.length > 0 && (
+      {searchQuery && resultCount > 0 && (
         <div
           style={{
             padding: '8px 12px',
@@ -624,10 +1487,20 @@ export const SearchPanelContent: React.FC<SearchPanelProps> = ({
               theme.colors.backgroundSecondary || theme.colors.background,
           }}
         >
-          <span>
-            Found {searchResults.length} result
-            {searchResults.length !== 1 ? 's' : ''} for "{searchQuery}"
-          </span>
+          {isContentMode ? (
+            <span>
+              Found {contentMatches.length} match
+              {contentMatches.length !== 1 ? 'es' : ''} in{' '}
+              {contentGroups.length} file
+              {contentGroups.length !== 1 ? 's' : ''} for "{searchQuery}"
+              {isContentSearching && ' (searching...)'}
+            </span>
+          ) : (
+            <span>
+              Found {searchResults.length} result
+              {searchResults.length !== 1 ? 's' : ''} for "{searchQuery}"
+            </span>
+          )}
         </div>
       )}
     </div>
@@ -694,7 +1567,11 @@ export const SearchPanelPreview: React.FC = () => {
 /**
  * SearchPanel - Panel Framework compatible component
  */
-export const SearchPanel: React.FC<SearchPanelPropsTyped> = ({ context }) => {
+export const SearchPanel: React.FC<SearchPanelPropsTyped> = ({
+  context,
+  actions,
+  events,
+}) => {
   const fileTreeSlice = context.fileTree;
 
   const fileTree = fileTreeSlice?.data ?? null;
@@ -705,11 +1582,45 @@ export const SearchPanel: React.FC<SearchPanelPropsTyped> = ({ context }) => {
       ? context.currentScope.repository?.path
       : undefined;
 
+  // Optional: other repositories in a multi-repo workspace
+  const repositories = context.workspaceRepositories?.data ?? undefined;
+
+  const handleFileSelect = useCallback(
+    (relativePath: string, repositoryPath?: string) => {
+      events?.emit({
+        type: 'file:open',
+        source: 'search-panel',
+        timestamp: Date.now(),
+        payload: repositoryPath
+          ? { path: relativePath, repositoryPath }
+          : { path: relativePath },
+      });
+    },
+    [events]
+  );
+
+  // Open the matched file at the matching line
+  const handleContentMatchSelect = useCallback(
+    (match: ContentSearchMatch) => {
+      events?.emit({
+        type: 'file:open',
+        source: 'search-panel',
+        timestamp: Date.now(),
+        payload: { path: match.relativePath, line: match.lineNumber },
+      });
+    },
+    [events]
+  );
+
   return (
     <SearchPanelContent
       fileTree={fileTree}
       baseDirectory={rootPath}
       isLoading={isLoading}
+      onFileSelect={handleFileSelect}
+      repositories={repositories}
+      searchContent={actions.searchContent}
+      onContentMatchSelect={handleContentMatchSelect}
     />
   );
 };
@@ -0,0 +1,375 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import {
+  Ban,
+  CheckCircle2,
+  Loader2,
+  RotateCcw,
+  Square,
+  Terminal,
+  Trash2,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { parseAnsi } from '../../utils/ansi';
+import type { CommandRun, CommandRunStatus } from './useCommandRuns';
+
+interface CommandRunDrawerProps {
+  /** Package the runs belong to */
+  packageName: string;
+  /** Runs of this package, newest first */
+  runs: CommandRun[];
+  selectedRunId: string | null;
+  onSelectRun: (runId: string) => void;
+  onCancel: (runId: string) => void;
+  onRerun: (run: CommandRun) => void;
+  onClearHistory: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Human readable run duration, e.g. `850ms`, `12.3s` or `2m 05s`
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+const statusLabels: Record<CommandRunStatus, string> = {
+  running: 'Running',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * CommandRunDrawer - live output of a package command plus the package's
+ * recent runs
+ */
+export const CommandRunDrawer: React.FC<CommandRunDrawerProps> = ({
+  packageName,
+  runs,
+  selectedRunId,
+  onSelectRun,
+  onCancel,
+  onRerun,
+  onClearHistory,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const outputRef = useRef<HTMLPreElement>(null);
+  const stickToBottom = useRef(true);
+  const [now, setNow] = useState(Date.now());
+
+  const run = runs.find((r) => r.id === selectedRunId) ?? runs[0] ?? null;
+  const isRunning = run?.status === 'running';
+  const output = run?.output ?? '';
+  // The duration ticks every second; only re-parse when the output changes
+  const segments = useMemo(() => parseAnsi(output), [output]);
+
+  // Tick the duration while the run is going
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  // Follow new output unless the user scrolled up
+  useEffect(() => {
+    const element = outputRef.current;
+    if (element && stickToBottom.current) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [output]);
+
+  useEffect(() => {
+    stickToBottom.current = true;
+  }, [run?.id]);
+
+  const handleOutputScroll = () => {
+    const element = outputRef.current;
+    if (!element) return;
+    stickToBottom.current =
+      element.scrollHeight - element.scrollTop - element.clientHeight < 16;
+  };
+
+  const statusColors: Record<CommandRunStatus, string> = {
+    running: theme.colors.primary,
+    succeeded: theme.colors.success,
+    failed: theme.colors.error,
+    cancelled: theme.colors.textSecondary,
+  };
+
+  const renderStatusIcon = (status: CommandRunStatus, size: number) => {
+    const color = statusColors[status];
+    switch (status) {
+      case 'running':
+        return (
+          <Loader2
+            size={size}
+            color={color}
+            style={{ animation: 'spin 1s linear infinite' }}
+          />
+        );
+      case 'succeeded':
+        return <CheckCircle2 size={size} color={color} />;
+      case 'failed':
+        return <XCircle size={size} color={color} />;
+      case 'cancelled':
+        return <Ban size={size} color={color} />;
+    }
+  };
+
+  const durationOf = (r: CommandRun) =>
+    formatDuration((r.endedAt ?? now) - r.startedAt);
+
+  const buttonStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '2px 8px',
+    backgroundColor: 'transparent',
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: '4px',
+    cursor: 'pointer',
+    color: theme.colors.text,
+    fontSize: theme.fontSizes[0],
+    fontFamily: theme.fonts.body,
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        bottom: 0,
+        height: '60%',
+        zIndex: 5,
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: theme.colors.background,
+        borderTop: `1px solid ${theme.colors.border}`,
+        boxShadow: '0 -4px 12px rgba(0, 0, 0, 0.15)',
+        fontFamily: theme.fonts.body,
+        fontSize: theme.fontSizes[1],
+      }}
+    >
+      <style>{`@keyframes spin { from { transform: rotate(0deg); } to { transform: rotate(360deg); } }`}</style>
+
+      {/* Header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '6px 12px',
+          borderBottom: `1px solid ${theme.colors.border}`,
+          backgroundColor: theme.colors.backgroundSecondary,
+          color: theme.colors.text,
+        }}
+      >
+        <Terminal size={14} color={theme.colors.primary} />
+        {run ? (
+          <>
+            <span style={{ fontWeight: 500 }}>{run.command.name}</span>
+            <span
+              title={statusLabels[run.status]}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                color: statusColors[run.status],
+              }}
+            >
+              {renderStatusIcon(run.status, 12)}
+              {run.status === 'failed' && run.exitCode != null
+                ? `exit ${run.exitCode}`
+                : run.status === 'succeeded'
+                  ? 'exit 0'
+                  : statusLabels[run.status]}
+            </span>
+            <span style={{ color: theme.colors.textSecondary }}>
+              {durationOf(run)}
+            </span>
+          </>
+        ) : (
+          <span style={{ fontWeight: 500 }}>{packageName}</span>
+        )}
+        <span style={{ flex: 1 }} />
+        {run &&
+          (isRunning ? (
+            <button
+              onClick={() => onCancel(run.id)}
+              title="Cancel run"
+              style={{ ...buttonStyle, color: theme.colors.error }}
+            >
+              <Square size={12} />
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={() => onRerun(run)}
+              title="Run again"
+              style={buttonStyle}
+            >
+              <RotateCcw size={12} />
+              Rerun
+            </button>
+          ))}
+        <button
+          onClick={onClose}
+          title="Close"
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            padding: '2px',
+            backgroundColor: 'transparent',
+            border: 'none',
+            cursor: 'pointer',
+            color: theme.colors.textSecondary,
+          }}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div style={{ flex: 1, display: 'flex', minHeight: 0 }}>
+        {/* Output */}
+        <pre
+          ref={outputRef}
+          onScroll={handleOutputScroll}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            margin: 0,
+            padding: '8px 12px',
+            overflow: 'auto',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-all',
+            fontFamily: theme.fonts.monospace,
+            fontSize: theme.fontSizes[0],
+            lineHeight: 1.5,
+            color: theme.colors.text,
+            backgroundColor: theme.colors.background,
+          }}
+        >
+          {run ? (
+            <>
+              <div style={{ color: theme.colors.textSecondary }}>
+                $ {run.command.command}
+              </div>
+              {run.truncated && (
+                <div style={{ color: theme.colors.textSecondary }}>
+                  … earlier output truncated
+                </div>
+              )}
+              {segments.map((segment, index) => (
+                <span
+                  key={index}
+                  style={{
+                    color: segment.style.color,
+                    backgroundColor: segment.style.backgroundColor,
+                    fontWeight: segment.style.bold ? 600 : undefined,
+                    opacity: segment.style.dim ? 0.7 : undefined,
+                    fontStyle: segment.style.italic ? 'italic' : undefined,
+                    textDecoration: segment.style.underline
+                      ? 'underline'
+                      : undefined,
+                  }}
+                >
+                  {segment.text}
+                </span>
+              ))}
+            </>
+          ) : (
+            <span style={{ color: theme.colors.textSecondary }}>
+              No runs yet
+            </span>
+          )}
+        </pre>
+
+        {/* History */}
+        {runs.length > 0 && (
+          <div
+            style={{
+              width: '200px',
+              flexShrink: 0,
+              display: 'flex',
+              flexDirection: 'column',
+              borderLeft: `1px solid ${theme.colors.border}`,
+            }}
+          >
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                padding: '4px 8px',
+                fontSize: theme.fontSizes[0],
+                color: theme.colors.textSecondary,
+                borderBottom: `1px solid ${theme.colors.border}`,
+              }}
+            >
+              <span style={{ flex: 1 }}>Recent runs</span>
+              <button
+                onClick={onClearHistory}
+                title="Clear finished runs"
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  padding: '2px',
+                  backgroundColor: 'transparent',
+                  border: 'none',
+                  cursor: 'pointer',
+                  color: theme.colors.textSecondary,
+                }}
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <div style={{ flex: 1, overflowY: 'auto' }}>
+              {runs.map((r) => (
+                <div
+                  key={r.id}
+                  onClick={() => onSelectRun(r.id)}
+                  title={`${statusLabels[r.status]} · ${new Date(r.startedAt).toLocaleTimeString()}`}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '4px 8px',
+                    cursor: 'pointer',
+                    backgroundColor:
+                      r.id === run?.id
+                        ? theme.colors.backgroundSecondary
+                        : 'transparent',
+                    color: theme.colors.text,
+                    fontSize: theme.fontSizes[0],
+                  }}
+                >
+                  {renderStatusIcon(r.status, 12)}
+                  <span
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {r.command.name}
+                  </span>
+                  <span style={{ color: theme.colors.textSecondary }}>
+                    {durationOf(r)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import {
+  AlertCircle,
+  CheckCircle,
+  CircleDashed,
+  CornerDownRight,
+  HelpCircle,
+} from 'lucide-react';
+import {
+  maskEnvValue,
+  type EnvValidationResult,
+  type EnvVariableCheck,
+  type EnvVariableStatus,
+} from '../../utils/envValidation';
+
+const statusLabels: Record<EnvVariableStatus, string> = {
+  set: 'set',
+  missing: 'missing',
+  default: 'default',
+  unset: 'not set',
+  extra: 'undocumented',
+};
+
+const statusIcons: Record<EnvVariableStatus, typeof CheckCircle> = {
+  set: CheckCircle,
+  missing: AlertCircle,
+  default: CornerDownRight,
+  unset: CircleDashed,
+  extra: HelpCircle,
+};
+
+const useStatusColors = (): Record<EnvVariableStatus, string> => {
+  const { theme } = useTheme();
+  return {
+    set: theme.colors.success,
+    missing: theme.colors.error,
+    default: theme.colors.info,
+    unset: theme.colors.textSecondary,
+    extra: theme.colors.warning,
+  };
+};
+
+/**
+ * EnvStatusBadge - whether a variable is set in the package's .env files,
+ * with its value masked
+ */
+export const EnvStatusBadge: React.FC<{ check?: EnvVariableCheck }> = ({
+  check,
+}) => {
+  const { theme } = useTheme();
+  const statusColors = useStatusColors();
+  if (!check) return null;
+
+  const color = statusColors[check.status];
+  const Icon = statusIcons[check.status];
+
+  return (
+    <span
+      title={check.source ? `From ${check.source}` : undefined}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        fontSize: theme.fontSizes[0],
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <span
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '3px',
+          padding: '2px 6px',
+          backgroundColor: color + '20',
+          color,
+          borderRadius: '4px',
+        }}
+      >
+        <Icon size={10} />
+        {statusLabels[check.status]}
+      </span>
+      {check.value !== undefined &&
+        (check.status === 'set' || check.status === 'extra') && (
+          <code
+            style={{
+              fontFamily: theme.fonts.monospace,
+              color: theme.colors.textSecondary,
+            }}
+          >
+            {maskEnvValue(check.value)}
+          </code>
+        )}
+    </span>
+  );
+};
+
+interface EnvStatusSummaryProps {
+  result: EnvValidationResult;
+  /** .env files that were found */
+  files: string[];
+}
+
+/**
+ * EnvStatusSummary - counts per status and the variables that are set but
+ * not documented
+ */
+export const EnvStatusSummary: React.FC<EnvStatusSummaryProps> = ({
+  result,
+  files,
+}) => {
+  const { theme } = useTheme();
+  const statusColors = useStatusColors();
+
+  if (files.length === 0) {
+    return (
+      <div
+        style={{
+          padding: `${theme.space[2]}px ${theme.space[4]}px`,
+          borderBottom: `1px solid ${theme.colors.border}`,
+          fontSize: theme.fontSizes[0],
+          fontFamily: theme.fonts.body,
+          color: theme.colors.textSecondary,
+        }}
+      >
+        No .env or .env.local file found in this package
+      </div>
+    );
+  }
+
+  const statuses: EnvVariableStatus[] = [
+    'missing',
+    'set',
+    'default',
+    'unset',
+    'extra',
+  ];
+
+  return (
+    <div
+      style={{
+        borderBottom: `1px solid ${theme.colors.border}`,
+        fontSize: theme.fontSizes[0],
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: '10px',
+          padding: `${theme.space[2]}px ${theme.space[4]}px`,
+          color: theme.colors.textSecondary,
+        }}
+      >
+        <span>Checked {files.join(', ')}:</span>
+        {statuses
+          .filter((status) => result.counts[status] > 0)
+          .map((status) => (
+            <span key={status} style={{ color: statusColors[status] }}>
+              {result.counts[status]} {statusLabels[status]}
+            </span>
+          ))}
+      </div>
+      {result.extras.length > 0 && (
+        <div style={{ padding: `0 ${theme.space[4]}px ${theme.space[2]}px` }}>
+          {result.extras.map((check) => (
+            <div
+              key={check.name}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '2px 0',
+              }}
+            >
+              <code
+                style={{
+                  fontFamily: theme.fonts.monospace,
+                  color: theme.colors.text,
+                }}
+              >
+                {check.name}
+              </code>
+              <EnvStatusBadge check={check} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
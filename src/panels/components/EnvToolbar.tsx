@@ -0,0 +1,89 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { FileJson, FileText, ShieldCheck, Table } from 'lucide-react';
+
+interface EnvToolbarProps {
+  /** Path of the env documentation file the variables come from */
+  configPath: string;
+  onOpenConfig: () => void;
+  /** Generate env.json - omit to hide the button */
+  onGenerateJson?: () => void;
+  /** Export a Markdown table - omit to hide the button */
+  onExportMarkdown?: () => void;
+  /** Whether variables are being checked against .env files */
+  checkingValues: boolean;
+  /** Toggle the .env check - omit when files cannot be read */
+  onToggleCheck?: () => void;
+}
+
+/**
+ * EnvToolbar - actions of the package Env tab: env.json and Markdown
+ * export, the .env check and opening the source file
+ */
+export const EnvToolbar: React.FC<EnvToolbarProps> = ({
+  configPath,
+  onOpenConfig,
+  onGenerateJson,
+  onExportMarkdown,
+  checkingValues,
+  onToggleCheck,
+}) => {
+  const { theme } = useTheme();
+
+  const buttonStyle = (active = false): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '4px 8px',
+    backgroundColor: active ? theme.colors.primary + '20' : 'transparent',
+    border: `1px solid ${active ? theme.colors.primary : theme.colors.border}`,
+    borderRadius: '4px',
+    cursor: 'pointer',
+    color: active ? theme.colors.primary : theme.colors.textSecondary,
+    fontSize: theme.fontSizes[0],
+    fontFamily: theme.fonts.body,
+  });
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+      {onGenerateJson && (
+        <button
+          onClick={onGenerateJson}
+          style={buttonStyle()}
+          title="Generate env.json from these variables"
+        >
+          <FileJson size={12} />
+          env.json
+        </button>
+      )}
+      {onExportMarkdown && (
+        <button
+          onClick={onExportMarkdown}
+          style={buttonStyle()}
+          title="Export a Markdown table for READMEs"
+        >
+          <Table size={12} />
+          Markdown
+        </button>
+      )}
+      {onToggleCheck && (
+        <button
+          onClick={onToggleCheck}
+          style={buttonStyle(checkingValues)}
+          title="Check variables against .env and .env.local"
+        >
+          <ShieldCheck size={12} />
+          Check .env
+        </button>
+      )}
+      <button
+        onClick={onOpenConfig}
+        style={buttonStyle()}
+        title={`Open ${configPath}`}
+      >
+        <FileText size={12} />
+        {configPath}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,275 @@
+import React, { useMemo, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { Check, Copy, FilePlus, FileText, X } from 'lucide-react';
+import { computeFileDiff } from '../git-changes/diff';
+import { DiffViewer, type DiffViewMode } from '../git-changes/DiffViewer';
+
+/**
+ * A file write proposed by the panel. `oldContent` is null when the file
+ * does not exist yet.
+ */
+export interface FileChange {
+  path: string;
+  oldContent: string | null;
+  newContent: string;
+}
+
+interface FileChangePreviewModalProps {
+  title: string;
+  /** Proposed changes, or null while the current contents are loading */
+  changes: FileChange[] | null;
+  /** Why the changes could not be prepared */
+  loadError?: string | null;
+  /** Writes the changes - omit to preview only */
+  onApply?: () => Promise<void>;
+  applyLabel?: string;
+  /** Show a button that copies the new content of a single change */
+  allowCopy?: boolean;
+  onClose: () => void;
+}
+
+/**
+ * FileChangePreviewModal - shows the diff of each proposed file write and
+ * applies them once confirmed. Closes itself after a successful apply.
+ */
+export const FileChangePreviewModal: React.FC<FileChangePreviewModalProps> = ({
+  title,
+  changes,
+  loadError,
+  onApply,
+  applyLabel = 'Write',
+  allowCopy = false,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const [viewMode, setViewMode] = useState<DiffViewMode>('unified');
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const diffs = useMemo(
+    () =>
+      (changes ?? []).map((change) =>
+        computeFileDiff(change.oldContent, change.newContent)
+      ),
+    [changes]
+  );
+  const hasChanges = diffs.some((diff) => diff.hunks.length > 0);
+
+  const handleApply = async () => {
+    if (!onApply) return;
+    setApplying(true);
+    setError(null);
+    try {
+      await onApply();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to write files');
+      setApplying(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!changes || changes.length !== 1) return;
+    try {
+      await navigator.clipboard.writeText(changes[0].newContent);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  const buttonStyle = (primary = false): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 12px',
+    borderRadius: '4px',
+    border: `1px solid ${primary ? theme.colors.primary : theme.colors.border}`,
+    backgroundColor: primary ? theme.colors.primary : 'transparent',
+    color: primary ? theme.colors.background : theme.colors.text,
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[1],
+    cursor: 'pointer',
+  });
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: theme.colors.muted,
+        zIndex: theme.zIndices[4],
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: theme.colors.background,
+          borderRadius: `${theme.radii[3]}px`,
+          maxWidth: '900px',
+          maxHeight: '85vh',
+          width: '92%',
+          overflow: 'hidden',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: theme.shadows[3],
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: `${theme.space[3]}px ${theme.space[4]}px`,
+            borderBottom: `1px solid ${theme.colors.border}`,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+          }}
+        >
+          <h2
+            style={{
+              fontSize: `${theme.fontSizes[3]}px`,
+              fontWeight: theme.fontWeights.semibold,
+              fontFamily: theme.fonts.body,
+              color: theme.colors.text,
+              margin: 0,
+            }}
+          >
+            {title}
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              color: theme.colors.textSecondary,
+              cursor: 'pointer',
+              padding: `${theme.space[1]}px`,
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Diffs */}
+        <div style={{ overflow: 'auto', flex: 1 }}>
+          {!changes ? (
+            <div
+              style={{
+                padding: '20px',
+                textAlign: 'center',
+                color: loadError
+                  ? theme.colors.error
+                  : theme.colors.textSecondary,
+                fontFamily: theme.fonts.body,
+                fontSize: theme.fontSizes[1],
+              }}
+            >
+              {loadError ?? 'Loading current files...'}
+            </div>
+          ) : (
+            changes.map((change, index) => (
+              <div
+                key={change.path}
+                style={{ borderBottom: `1px solid ${theme.colors.border}` }}
+              >
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '8px 12px',
+                    backgroundColor: theme.colors.backgroundSecondary,
+                    fontFamily: theme.fonts.monospace,
+                    fontSize: theme.fontSizes[1],
+                    color: theme.colors.text,
+                  }}
+                >
+                  {change.oldContent === null ? (
+                    <FilePlus size={14} color={theme.colors.success} />
+                  ) : (
+                    <FileText size={14} color={theme.colors.textSecondary} />
+                  )}
+                  {change.path}
+                  {change.oldContent === null && (
+                    <span
+                      style={{
+                        padding: '0 6px',
+                        borderRadius: '8px',
+                        fontFamily: theme.fonts.body,
+                        fontSize: theme.fontSizes[0],
+                        color: theme.colors.success,
+                        backgroundColor: `${theme.colors.success}20`,
+                      }}
+                    >
+                      new file
+                    </span>
+                  )}
+                </div>
+                <DiffViewer
+                  diff={diffs[index]}
+                  viewMode={viewMode}
+                  onViewModeChange={setViewMode}
+                />
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: `${theme.space[3]}px ${theme.space[4]}px`,
+            borderTop: `1px solid ${theme.colors.border}`,
+          }}
+        >
+          {error && (
+            <span
+              style={{
+                color: theme.colors.error,
+                fontFamily: theme.fonts.body,
+                fontSize: theme.fontSizes[1],
+              }}
+            >
+              {error}
+            </span>
+          )}
+          <span style={{ flex: 1 }} />
+          {allowCopy && changes?.length === 1 && (
+            <button onClick={handleCopy} style={buttonStyle()}>
+              {copied ? <Check size={14} /> : <Copy size={14} />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          )}
+          <button onClick={onClose} style={buttonStyle()}>
+            Cancel
+          </button>
+          {onApply && (
+            <button
+              onClick={handleApply}
+              disabled={applying || !hasChanges}
+              style={{
+                ...buttonStyle(true),
+                opacity: applying || !hasChanges ? 0.6 : 1,
+                cursor: applying || !hasChanges ? 'not-allowed' : 'pointer',
+              }}
+            >
+              {applying ? 'Writing...' : applyLabel}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,29 @@
 import React, { useState } from 'react';
 import { useTheme } from '@principal-ade/industry-theme';
-import { Check, X, AlertTriangle, ChevronDown, ChevronRight, Minus, ArrowUp } from 'lucide-react';
+import { Check, X, AlertTriangle, ChevronDown, ChevronRight, Minus, ArrowUp, Wrench } from 'lucide-react';
 import type { LensReadiness, LensRequirement, RequirementCheckResult } from '../../types/composition';
+import { FileChangePreviewModal, type FileChange } from './FileChangePreviewModal';
+import { applyLensFix, planLensFix, type LensFixPlan } from '../../utils/lensFixes';
 
 interface LensReadinessSectionProps {
   lensReadiness?: Record<string, LensReadiness>;
+  /** Package the lenses were checked for - needed to plan fixes */
+  packageData?: { path: string; manifestPath: string };
+  /** Read file content from the repository */
+  readFile?: (filePath: string) => Promise<string>;
+  /** Write file content to the repository - enables fix-it actions */
+  writeFile?: (filePath: string, content: string) => Promise<void>;
+  /** Called after a fix is written so the host can refresh packages */
+  onRefresh?: () => void;
 }
 
 interface LensRowProps {
   lens: LensReadiness;
+  getFix?: (requirement: LensRequirement) => LensFixPlan | null;
+  onFix?: (plan: LensFixPlan) => void;
 }
 
-const LensRow: React.FC<LensRowProps> = ({ lens }) => {
+const LensRow: React.FC<LensRowProps> = ({ lens, getFix, onFix }) => {
   const { theme } = useTheme();
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -123,7 +135,12 @@ const LensRow: React.FC<LensRowProps> = ({ lens }) => {
           }}
         >
           {lens.checks.map((check: RequirementCheckResult, idx: number) => (
-            <RequirementRow key={idx} check={check} />
+            <RequirementRow
+              key={idx}
+              check={check}
+              fix={check.satisfied ? null : getFix?.(check.requirement)}
+              onFix={onFix}
+            />
           ))}
         </div>
       )}
@@ -139,9 +156,11 @@ interface RequirementRowProps {
     isInherited?: boolean;
     inheritedFrom?: string;
   };
+  fix?: LensFixPlan | null;
+  onFix?: (plan: LensFixPlan) => void;
 }
 
-const RequirementRow: React.FC<RequirementRowProps> = ({ check }) => {
+const RequirementRow: React.FC<RequirementRowProps> = ({ check, fix, onFix }) => {
   const { theme } = useTheme();
   const { requirement, satisfied, foundValue, isInherited, inheritedFrom } = check;
 
@@ -229,14 +248,89 @@ const RequirementRow: React.FC<RequirementRowProps> = ({ check }) => {
           (add: {requirement.suggestedFix})
         </span>
       )}
+
+      {!satisfied && fix && onFix && (
+        <button
+          onClick={() => onFix(fix)}
+          title={fix.summary}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            marginLeft: requirement.suggestedFix ? undefined : 'auto',
+            padding: '1px 6px',
+            backgroundColor: 'transparent',
+            border: `1px solid ${theme.colors.primary}`,
+            borderRadius: '4px',
+            color: theme.colors.primary,
+            fontSize: theme.fontSizes[0],
+            cursor: 'pointer',
+          }}
+        >
+          <Wrench size={10} />
+          Fix
+        </button>
+      )}
     </div>
   );
 };
 
 export const LensReadinessSection: React.FC<LensReadinessSectionProps> = ({
   lensReadiness,
+  packageData,
+  readFile,
+  writeFile,
+  onRefresh,
 }) => {
   const { theme } = useTheme();
+  // Fix being previewed, with the file change once it has been computed
+  const [fixPreview, setFixPreview] = useState<{
+    plan: LensFixPlan;
+    changes: FileChange[] | null;
+    error: string | null;
+  } | null>(null);
+
+  const getFix =
+    packageData && writeFile
+      ? (requirement: LensRequirement) => planLensFix(requirement, packageData)
+      : undefined;
+
+  const openFix = async (plan: LensFixPlan) => {
+    setFixPreview({ plan, changes: null, error: null });
+
+    let oldContent: string | null = null;
+    try {
+      oldContent = readFile ? await readFile(plan.filePath) : null;
+    } catch {
+      // File does not exist yet
+    }
+
+    let next: { changes: FileChange[] | null; error: string | null };
+    try {
+      const newContent = applyLensFix(plan, oldContent);
+      next = {
+        changes: [{ path: plan.filePath, oldContent, newContent }],
+        error: null,
+      };
+    } catch (err) {
+      next = {
+        changes: null,
+        error: err instanceof Error ? err.message : 'Failed to prepare fix',
+      };
+    }
+    // Skip if the preview was closed or replaced while reading
+    setFixPreview((current) =>
+      current?.plan === plan ? { plan, ...next } : current
+    );
+  };
+
+  const applyFix = async () => {
+    if (!writeFile || !fixPreview?.changes) return;
+    for (const change of fixPreview.changes) {
+      await writeFile(change.path, change.newContent);
+    }
+    onRefresh?.();
+  };
 
   if (!lensReadiness || Object.keys(lensReadiness).length === 0) {
     return (
@@ -303,9 +397,20 @@ export const LensReadinessSection: React.FC<LensReadinessSectionProps> = ({
       {/* Lens List */}
       <div>
         {sortedLenses.map((lens) => (
-          <LensRow key={lens.lensId} lens={lens} />
+          <LensRow key={lens.lensId} lens={lens} getFix={getFix} onFix={openFix} />
         ))}
       </div>
+
+      {fixPreview && (
+        <FileChangePreviewModal
+          title={fixPreview.plan.summary}
+          changes={fixPreview.changes}
+          loadError={fixPreview.error}
+          onApply={applyFix}
+          applyLabel="Apply fix"
+          onClose={() => setFixPreview(null)}
+        />
+      )}
     </div>
   );
 };
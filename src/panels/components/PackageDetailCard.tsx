@@ -3,7 +3,6 @@ import { useTheme } from '@principal-ade/industry-theme';
 import {
   ChevronDown,
   ChevronRight,
-  FileText,
   Folder,
   AlertCircle,
   CheckCircle,
@@ -19,7 +18,25 @@ import { DependencyInfoModal } from './DependencyInfoModal';
 import { LensReadinessSection } from './LensReadinessSection';
 import { OtherScriptsSection } from './OtherScriptsSection';
 import { ConfigList } from './InheritedConfigIndicator';
+import { EnvStatusBadge, EnvStatusSummary } from './EnvStatus';
+import { EnvToolbar } from './EnvToolbar';
+import {
+  FileChangePreviewModal,
+  type FileChange,
+} from './FileChangePreviewModal';
 import { parseEnvFile, type EnvVariable } from '../../utils/envParser';
+import {
+  ENV_VALUE_FILES,
+  parseEnvValues,
+  validateEnvVariables,
+  type EnvValuesFile,
+} from '../../utils/envValidation';
+import {
+  ENV_JSON_FILE,
+  ENV_MARKDOWN_FILE,
+  envVariablesToJson,
+  envVariablesToMarkdown,
+} from '../../utils/envExport';
 import { getLicenseColor } from '../../utils/licenseColors';
 import type {
   PackageLayer,
@@ -143,6 +160,10 @@ export interface PackageDetailCardProps {
   standalone?: boolean;
   /** Read file content from the repository */
   readFile?: (filePath: string) => Promise<string>;
+  /** Write file content to the repository (env exports, lens fixes) */
+  writeFile?: (filePath: string, content: string) => Promise<void>;
+  /** Called after a file is written so the host can refresh packages */
+  onRefresh?: () => void;
   /** Callback when close button is clicked (only shown in standalone mode) */
   onClose?: () => void;
 }
@@ -156,6 +177,8 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
   onPackageClick,
   standalone = false,
   readFile,
+  writeFile,
+  onRefresh,
   onClose,
 }) => {
   const { theme } = useTheme();
@@ -172,6 +195,14 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
   const [envVariables, setEnvVariables] = useState<EnvVariable[]>([]);
   const [envLoading, setEnvLoading] = useState(false);
   const [envError, setEnvError] = useState<string | null>(null);
+  // Values from the package's own .env files, when checking is turned on
+  const [checkEnvValues, setCheckEnvValues] = useState(false);
+  const [envValues, setEnvValues] = useState<EnvValuesFile[] | null>(null);
+  // Generated env.json / Markdown shown in the preview modal
+  const [envExport, setEnvExport] = useState<{
+    kind: 'json' | 'markdown';
+    changes: FileChange[] | null;
+  } | null>(null);
 
   // Group environment variables by their group field
   const groupedEnvVariables = useMemo(() => {
@@ -283,6 +314,80 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
     fetchEnvFile();
   }, [activeTab, envConfig, readFile, pkg.packageData.path]);
 
+  // Read .env / .env.local to check the documented variables against
+  useEffect(() => {
+    if (!checkEnvValues || !readFile) {
+      setEnvValues(null);
+      return;
+    }
+
+    let cancelled = false;
+    const readEnvValues = async () => {
+      const files: EnvValuesFile[] = [];
+      for (const fileName of ENV_VALUE_FILES) {
+        const filePath = pkg.packageData.path
+          ? `${pkg.packageData.path}/${fileName}`
+          : fileName;
+        try {
+          files.push({
+            path: fileName,
+            values: parseEnvValues(await readFile(filePath)),
+          });
+        } catch {
+          // Missing file - nothing to check against
+        }
+      }
+      if (!cancelled) setEnvValues(files);
+    };
+
+    readEnvValues();
+    return () => {
+      cancelled = true;
+    };
+  }, [checkEnvValues, readFile, pkg.packageData.path]);
+
+  const envValidation = useMemo(
+    () => (envValues ? validateEnvVariables(envVariables, envValues) : null),
+    [envVariables, envValues]
+  );
+
+  // Generating env.json only helps when it is not already the source
+  const canGenerateEnvJson =
+    envVariables.length > 0 && envConfig !== pkg.configFiles?.envJson;
+
+  const openEnvExport = async (kind: 'json' | 'markdown') => {
+    const fileName = kind === 'json' ? ENV_JSON_FILE : ENV_MARKDOWN_FILE;
+    const filePath = pkg.packageData.path
+      ? `${pkg.packageData.path}/${fileName}`
+      : fileName;
+    const newContent =
+      kind === 'json'
+        ? envVariablesToJson(envVariables)
+        : envVariablesToMarkdown(envVariables);
+
+    setEnvExport({ kind, changes: null });
+    let oldContent: string | null = null;
+    try {
+      oldContent = readFile ? await readFile(filePath) : null;
+    } catch {
+      // File does not exist yet
+    }
+    // Skip if the preview was closed while reading
+    setEnvExport((current) =>
+      current?.kind === kind
+        ? { kind, changes: [{ path: filePath, oldContent, newContent }] }
+        : current
+    );
+  };
+
+  const applyEnvExport = async () => {
+    if (!writeFile || !envExport?.changes) return;
+    for (const change of envExport.changes) {
+      await writeFile(change.path, change.newContent);
+    }
+    onRefresh?.();
+  };
+
   const commands = pkg.packageData.availableCommands || [];
 
   // Extract and process dependencies
@@ -599,28 +704,34 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
                     ? `${envVariables.length} variables`
                     : 'Environment Variables'}
                 </span>
-                <button
-                  onClick={() => onConfigClick?.(envConfig)}
-                  style={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '4px',
-                    padding: '4px 8px',
-                    backgroundColor: 'transparent',
-                    border: `1px solid ${theme.colors.border}`,
-                    borderRadius: '4px',
-                    cursor: 'pointer',
-                    color: theme.colors.textSecondary,
-                    fontSize: theme.fontSizes[0],
-                    fontFamily: theme.fonts.body,
-                  }}
-                  title={`Open ${envConfig.path}`}
-                >
-                  <FileText size={12} />
-                  {envConfig.path}
-                </button>
+                <EnvToolbar
+                  configPath={envConfig.path}
+                  onOpenConfig={() => onConfigClick?.(envConfig)}
+                  onGenerateJson={
+                    canGenerateEnvJson ? () => openEnvExport('json') : undefined
+                  }
+                  onExportMarkdown={
+                    envVariables.length > 0
+                      ? () => openEnvExport('markdown')
+                      : undefined
+                  }
+                  checkingValues={checkEnvValues}
+                  onToggleCheck={
+                    readFile
+                      ? () => setCheckEnvValues(!checkEnvValues)
+                      : undefined
+                  }
+                />
               </div>
 
+              {/* .env check */}
+              {envValidation && envValues && (
+                <EnvStatusSummary
+                  result={envValidation}
+                  files={envValues.map((file) => file.path)}
+                />
+              )}
+
               {/* Loading state */}
               {envLoading && (
                 <div
@@ -783,6 +894,11 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
                                 default: {variable.default}
                               </span>
                             )}
+                            {envValidation && (
+                              <EnvStatusBadge
+                                check={envValidation.checks.get(variable.name)}
+                              />
+                            )}
                           </div>
                           {variable.description && (
                             <div
@@ -833,6 +949,10 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
             >
               <LensReadinessSection
                 lensReadiness={pkg.qualityMetrics?.lensReadiness}
+                packageData={pkg.packageData}
+                readFile={readFile}
+                writeFile={writeFile}
+                onRefresh={onRefresh}
               />
               <OtherScriptsSection
                 commands={commands}
@@ -920,6 +1040,19 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
             </div>
           )}
         </div>
+        {envExport && (
+          <FileChangePreviewModal
+            title={
+              envExport.kind === 'json'
+                ? 'Generate env.json'
+                : 'Export environment variables'
+            }
+            changes={envExport.changes}
+            onApply={writeFile ? applyEnvExport : undefined}
+            allowCopy
+            onClose={() => setEnvExport(null)}
+          />
+        )}
       </div>
     );
   }
@@ -1158,28 +1291,36 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
                       ? `${envVariables.length} variables`
                       : 'Environment Variables'}
                   </span>
-                  <button
-                    onClick={() => onConfigClick?.(envConfig)}
-                    style={{
-                      display: 'flex',
-                      alignItems: 'center',
-                      gap: '4px',
-                      padding: '4px 8px',
-                      backgroundColor: 'transparent',
-                      border: `1px solid ${theme.colors.border}`,
-                      borderRadius: '4px',
-                      cursor: 'pointer',
-                      color: theme.colors.textSecondary,
-                      fontSize: theme.fontSizes[0],
-                      fontFamily: theme.fonts.body,
-                    }}
-                    title={`Open ${envConfig.path}`}
-                  >
-                    <FileText size={12} />
-                    {envConfig.path}
-                  </button>
+                  <EnvToolbar
+                    configPath={envConfig.path}
+                    onOpenConfig={() => onConfigClick?.(envConfig)}
+                    onGenerateJson={
+                      canGenerateEnvJson
+                        ? () => openEnvExport('json')
+                        : undefined
+                    }
+                    onExportMarkdown={
+                      envVariables.length > 0
+                        ? () => openEnvExport('markdown')
+                        : undefined
+                    }
+                    checkingValues={checkEnvValues}
+                    onToggleCheck={
+                      readFile
+                        ? () => setCheckEnvValues(!checkEnvValues)
+                        : undefined
+                    }
+                  />
                 </div>
 
+                {/* .env check */}
+                {envValidation && envValues && (
+                  <EnvStatusSummary
+                    result={envValidation}
+                    files={envValues.map((file) => file.path)}
+                  />
+                )}
+
                 {/* Loading state */}
                 {envLoading && (
                   <div
@@ -1343,6 +1484,13 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
                                   default: {variable.default}
                                 </span>
                               )}
+                              {envValidation && (
+                                <EnvStatusBadge
+                                  check={envValidation.checks.get(
+                                    variable.name
+                                  )}
+                                />
+                              )}
                             </div>
                             {variable.description && (
                               <div
@@ -1387,6 +1535,10 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
               <div style={{ display: 'flex', flexDirection: 'column' }}>
                 <LensReadinessSection
                   lensReadiness={pkg.qualityMetrics?.lensReadiness}
+                  packageData={pkg.packageData}
+                  readFile={readFile}
+                  writeFile={writeFile}
+                  onRefresh={onRefresh}
                 />
                 <OtherScriptsSection
                   commands={commands}
@@ -1476,6 +1628,19 @@ export const PackageDetailCard: React.FC<PackageDetailCardProps> = ({
           </div>
         </div>
       )}
+      {envExport && (
+        <FileChangePreviewModal
+          title={
+            envExport.kind === 'json'
+              ? 'Generate env.json'
+              : 'Export environment variables'
+          }
+          changes={envExport.changes}
+          onApply={writeFile ? applyEnvExport : undefined}
+          allowCopy
+          onClose={() => setEnvExport(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,6 +1,7 @@
 export { DependencyInfoModal } from './DependencyInfoModal';
 export { PackageLoadingGraph } from './PackageLoadingGraph';
 export { DependencyRow } from './DependencyRow';
+export { FileChangePreviewModal } from './FileChangePreviewModal';
 export { FilterBar } from './FilterBar';
 export {
   InheritedConfigIndicator,
@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PackageCommand } from '../../types/composition';
+import type { CommandRunner } from '../../services/CommandRunner';
+
+export type CommandRunStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * One run of a package command
+ */
+export interface CommandRun {
+  id: string;
+  packagePath: string;
+  command: PackageCommand;
+  status: CommandRunStatus;
+  startedAt: number;
+  endedAt?: number;
+  /** Exit code reported by the runner, if the process exited */
+  exitCode?: number | null;
+  /** Combined stdout and stderr, with ANSI escape sequences */
+  output: string;
+  /** Whether the start of the output was dropped to stay under the limit */
+  truncated: boolean;
+}
+
+/** Runs kept per package, newest first */
+const MAX_RUNS_PER_PACKAGE = 10;
+
+/** Output kept per run; older output is dropped first */
+const MAX_OUTPUT_CHARS = 200_000;
+
+/** Batch output chunks into one state update per interval */
+const OUTPUT_FLUSH_MS = 50;
+
+let nextRunId = 0;
+
+function appendOutput(run: CommandRun, chunk: string): CommandRun {
+  const output = run.output + chunk;
+  return output.length > MAX_OUTPUT_CHARS
+    ? { ...run, output: output.slice(-MAX_OUTPUT_CHARS), truncated: true }
+    : { ...run, output };
+}
+
+/**
+ * Drop the oldest finished runs of each package beyond the history limit
+ */
+function trimHistory(runs: CommandRun[]): CommandRun[] {
+  const counts = new Map<string, number>();
+  return runs.filter((run) => {
+    const count = (counts.get(run.packagePath) ?? 0) + 1;
+    counts.set(run.packagePath, count);
+    return count <= MAX_RUNS_PER_PACKAGE || run.status === 'running';
+  });
+}
+
+/**
+ * Start package commands through the host's runner and keep a history of
+ * recent runs per package, with their streamed output. Runs still going when
+ * the component unmounts are cancelled.
+ */
+export function useCommandRuns(runCommand: CommandRunner | undefined) {
+  const [runs, setRuns] = useState<CommandRun[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  // Keep the latest runner without changing the identity of start()
+  const runnerRef = useRef(runCommand);
+  runnerRef.current = runCommand;
+
+  useEffect(() => {
+    const active = controllers.current;
+    return () => {
+      for (const controller of active.values()) controller.abort();
+    };
+  }, []);
+
+  const updateRun = useCallback(
+    (id: string, update: (run: CommandRun) => CommandRun) => {
+      setRuns((prev) => prev.map((run) => (run.id === id ? update(run) : run)));
+    },
+    []
+  );
+
+  const start = useCallback(
+    (command: PackageCommand, packagePath: string): string | null => {
+      const runner = runnerRef.current;
+      if (!runner) return null;
+
+      const id = `run-${++nextRunId}`;
+      const controller = new AbortController();
+      controllers.current.set(id, controller);
+      setRuns((prev) =>
+        trimHistory([
+          {
+            id,
+            packagePath,
+            command,
+            status: 'running',
+            startedAt: Date.now(),
+            output: '',
+            truncated: false,
+          },
+          ...prev,
+        ])
+      );
+
+      void (async () => {
+        let pending = '';
+        let flushTimer: ReturnType<typeof setTimeout> | null = null;
+        let exitCode: number | null | undefined;
+
+        const flush = () => {
+          flushTimer = null;
+          if (!pending) return;
+          const chunk = pending;
+          pending = '';
+          updateRun(id, (run) => appendOutput(run, chunk));
+        };
+
+        try {
+          for await (const event of runner(command, {
+            packagePath,
+            signal: controller.signal,
+          })) {
+            if (event.type === 'exit') {
+              exitCode = event.exitCode;
+            } else {
+              pending += event.data;
+              if (!flushTimer) {
+                flushTimer = setTimeout(flush, OUTPUT_FLUSH_MS);
+              }
+            }
+          }
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            pending += `\n\x1b[31m${message}\x1b[0m\n`;
+          }
+        } finally {
+          if (flushTimer) clearTimeout(flushTimer);
+          flush();
+          controllers.current.delete(id);
+
+          const status: CommandRunStatus = controller.signal.aborted
+            ? 'cancelled'
+            : exitCode === 0
+              ? 'succeeded'
+              : 'failed';
+          updateRun(id, (run) => ({
+            ...run,
+            status,
+            exitCode,
+            endedAt: Date.now(),
+          }));
+        }
+      })();
+
+      return id;
+    },
+    [updateRun]
+  );
+
+  const cancel = useCallback((runId: string) => {
+    controllers.current.get(runId)?.abort();
+  }, []);
+
+  /** Forget the finished runs of a package */
+  const clearHistory = useCallback((packagePath: string) => {
+    setRuns((prev) =>
+      prev.filter(
+        (run) => run.packagePath !== packagePath || run.status === 'running'
+      )
+    );
+  }, []);
+
+  return {
+    runs,
+    start,
+    cancel,
+    clearHistory,
+    isAvailable: !!runCommand,
+  };
+}
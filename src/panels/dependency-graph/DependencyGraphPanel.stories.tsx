@@ -310,6 +310,41 @@ export const MixedLanguages: Story = {
   },
 };
 
+// Packages that pin different ranges of the same external dependencies
+const versionDriftPackages: PackageLayer[] = [
+  createMockPackage({
+    name: '@acme/core',
+    dependencies: { zod: '^3.22.0' },
+    devDependencies: { typescript: '^5.4.0' },
+  }),
+  createMockPackage({
+    name: '@acme/ui',
+    dependencies: { '@acme/core': 'workspace:*', react: '^18.2.0', zod: '^3.22.0' },
+    devDependencies: { typescript: '^5.4.0' },
+  }),
+  createMockPackage({
+    name: '@acme/docs',
+    dependencies: { '@acme/ui': 'workspace:*', react: '^18.3.1' },
+    devDependencies: { typescript: '~5.2.2' },
+  }),
+  createMockPackage({
+    name: '@acme/app',
+    dependencies: { '@acme/ui': 'workspace:*', react: '^17.0.2', zod: '^3.21.4' },
+  }),
+];
+
+/**
+ * Shared external dependencies with mismatched version ranges. Open the
+ * mismatches drawer from the header, or enable "Show shared external
+ * dependencies" in the layout settings to draw them as nodes.
+ */
+export const VersionDrift: Story = {
+  args: {
+    packages: versionDriftPackages,
+    isLoading: false,
+  },
+};
+
 /**
  * Preview component shown in panel selector.
  */
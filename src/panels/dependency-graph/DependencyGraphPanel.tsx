@@ -9,17 +9,40 @@ import {
   AlertCircle,
   Loader2,
   GitBranch,
+  Focus,
+  X,
+  AlertTriangle,
+  Boxes,
+  Layers,
 } from 'lucide-react';
 import type { ExtendedCanvas } from '@principal-ai/principal-view-core';
 import type { DependencyGraphPanelPropsTyped } from '../../types';
 import type { PackageLayer } from '../../types/composition';
 import type { PackagesSliceData } from '../../types/dependencies';
+import { buildPackageGraph } from '../../utils/packageGraph';
 import { dependencyTreeToCanvas } from './dependencyToCanvas';
 import { applySugiyamaLayout, type SugiyamaLayoutOptions } from './forceLayout';
+import { findDependencyCycles, markCycleEdges } from './dependencyCycles';
+import { findVersionDrift } from './externalDependencies';
+import { VersionDriftTable } from './VersionDriftTable';
+import { ExportMenu } from './ExportMenu';
+import {
+  applyBuildLayerLayout,
+  computeBuildLayers,
+  markCriticalPath,
+} from './buildLayers';
+import {
+  computeDependencyClosure,
+  filterCanvasNodes,
+  highlightClosure,
+  packagesWithinHops,
+} from './graphSelection';
 
 export interface DependencyGraphPanelProps {
   packages: PackageLayer[];
   isLoading?: boolean;
+  /** Callback when a package is selected (null when deselected) */
+  onPackageSelect?: (pkg: PackageLayer | null) => void;
 }
 
 interface LayoutConfig {
@@ -27,8 +50,24 @@ interface LayoutConfig {
   nodeSpacingX: number;
   nodeSpacingY: number;
   includeDevDependencies: boolean;
+  /** Dependency hops kept around the selected package in focus mode */
+  focusHops: number;
+  /** Show external dependencies shared by several packages as nodes */
+  includeExternalDependencies: boolean;
 }
 
+type Drawer = 'cycles' | 'version-drift';
+
+/** Dependency graph, or packages in build order as swimlanes */
+type ViewMode = 'graph' | 'build-order';
+
+const drawerTitles: Record<Drawer, string> = {
+  cycles: 'Circular dependencies',
+  'version-drift': 'Version drift',
+};
+
+const MAX_FOCUS_HOPS = 5;
+
 const directionLabels: Record<LayoutConfig['direction'], string> = {
   TB: 'Top → Bottom',
   BT: 'Bottom → Top',
@@ -41,7 +80,7 @@ const directionLabels: Record<LayoutConfig['direction'], string> = {
  */
 export const DependencyGraphPanelContent: React.FC<
   DependencyGraphPanelProps
-> = ({ packages, isLoading = false }) => {
+> = ({ packages, isLoading = false, onPackageSelect }) => {
   const { theme } = useTheme();
 
   const [showSettings, setShowSettings] = useState(false);
@@ -50,21 +89,107 @@ export const DependencyGraphPanelContent: React.FC<
     nodeSpacingX: 100,
     nodeSpacingY: 100,
     includeDevDependencies: false,
+    focusHops: 1,
+    includeExternalDependencies: false,
   });
   const [layoutVersion, setLayoutVersion] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Hide packages more than focusHops away from the selected package
+  const [isFocused, setIsFocused] = useState(false);
+  const [drawer, setDrawer] = useState<Drawer | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('graph');
+
+  // Same edges as the canvas, for walking dependencies
+  const graph = useMemo(
+    () =>
+      buildPackageGraph(packages, {
+        includeDevDependencies: layoutConfig.includeDevDependencies,
+        includePeerDependencies: false,
+      }),
+    [packages, layoutConfig.includeDevDependencies]
+  );
+
+  // Drop the selection when its package disappears
+  const selectedPackage =
+    (selectedId && graph.packagesById.get(selectedId)) || null;
+
+  const closure = useMemo(
+    () =>
+      selectedPackage
+        ? computeDependencyClosure(graph, selectedPackage.id)
+        : null,
+    [graph, selectedPackage]
+  );
+
+  const focusedIds = useMemo(
+    () =>
+      isFocused && selectedPackage
+        ? packagesWithinHops(graph, selectedPackage.id, layoutConfig.focusHops)
+        : null,
+    [graph, isFocused, selectedPackage, layoutConfig.focusHops]
+  );
+
+  const cycles = useMemo(
+    () =>
+      findDependencyCycles(packages, {
+        includeDevDependencies: layoutConfig.includeDevDependencies,
+        includePeerDependencies: false,
+      }),
+    [packages, layoutConfig.includeDevDependencies]
+  );
+
+  const versionDrift = useMemo(
+    () =>
+      findVersionDrift(packages, {
+        includeDevDependencies: layoutConfig.includeDevDependencies,
+        includePeerDependencies: false,
+      }),
+    [packages, layoutConfig.includeDevDependencies]
+  );
+
+  const buildLayers = useMemo(
+    () =>
+      viewMode === 'build-order'
+        ? computeBuildLayers(packages, {
+            includeDevDependencies: layoutConfig.includeDevDependencies,
+            includePeerDependencies: false,
+          })
+        : null,
+    [packages, viewMode, layoutConfig.includeDevDependencies]
+  );
+
+  const hasInternalDependencies = useMemo(
+    () => [...graph.dependencies.values()].some((deps) => deps.length > 0),
+    [graph]
+  );
 
   // Generate canvas from packages and apply layout
-  const canvas = useMemo<ExtendedCanvas | null>(() => {
+  const layoutCanvas = useMemo<ExtendedCanvas | null>(() => {
     if (packages.length === 0) {
       return null;
     }
 
-    // Convert packages to canvas
+    // Convert packages to canvas. External dependencies have no build layer.
     const rawCanvas = dependencyTreeToCanvas(packages, {
       includeDevDependencies: layoutConfig.includeDevDependencies,
       includePeerDependencies: false,
+      includeExternalDependencies:
+        layoutConfig.includeExternalDependencies && !buildLayers,
     });
 
+    // Focus mode keeps the external dependencies of the packages it shows
+    const visibleIds = focusedIds && new Set(focusedIds);
+    if (visibleIds) {
+      for (const edge of rawCanvas.edges ?? []) {
+        if (
+          edge.pv?.edgeType === 'external-dependency' &&
+          focusedIds.has(edge.fromNode)
+        ) {
+          visibleIds.add(edge.toNode);
+        }
+      }
+    }
+
     // Apply layout
     const layoutOptions: SugiyamaLayoutOptions = {
       direction: layoutConfig.direction,
@@ -72,8 +197,48 @@ export const DependencyGraphPanelContent: React.FC<
       nodeSpacingY: layoutConfig.nodeSpacingY,
     };
 
-    return applySugiyamaLayout(rawCanvas, layoutOptions);
-  }, [packages, layoutConfig]);
+    // Focus mode lays out only the neighborhood, so it fills the view
+    const visibleCanvas = visibleIds
+      ? filterCanvasNodes(rawCanvas, visibleIds)
+      : rawCanvas;
+    return buildLayers
+      ? applyBuildLayerLayout(visibleCanvas, buildLayers, layoutOptions)
+      : applySugiyamaLayout(visibleCanvas, layoutOptions);
+  }, [packages, layoutConfig, focusedIds, buildLayers]);
+
+  // Highlighting only recolors, so it does not re-run the layout. A
+  // selection replaces the critical path; cycle edges are marked last so they
+  // stay visible while dimmed.
+  const canvas = useMemo(() => {
+    if (!layoutCanvas) return null;
+    const withCriticalPath = buildLayers
+      ? markCriticalPath(layoutCanvas, buildLayers.criticalPath)
+      : layoutCanvas;
+    const highlighted =
+      selectedPackage && closure
+        ? highlightClosure(withCriticalPath, selectedPackage.id, closure)
+        : withCriticalPath;
+    return markCycleEdges(highlighted, cycles);
+  }, [layoutCanvas, buildLayers, selectedPackage, closure, cycles]);
+
+  const selectPackage = useCallback(
+    (id: string | null) => {
+      const pkg = (id && graph.packagesById.get(id)) || null;
+      setSelectedId(pkg ? pkg.id : null);
+      if (!pkg) setIsFocused(false);
+      onPackageSelect?.(pkg);
+    },
+    [graph, onPackageSelect]
+  );
+
+  // Clicking the selected package again clears the selection
+  const handleNodeClick = useCallback(
+    (nodeId: string) => {
+      if (!graph.packagesById.has(nodeId)) return;
+      selectPackage(nodeId === selectedId ? null : nodeId);
+    },
+    [graph, selectedId, selectPackage]
+  );
 
   const handleReapplyLayout = useCallback(() => {
     setLayoutVersion((v) => v + 1);
@@ -97,6 +262,21 @@ export const DependencyGraphPanelContent: React.FC<
     }));
   };
 
+  const handleExternalDepsToggle = () => {
+    setLayoutConfig((prev) => ({
+      ...prev,
+      includeExternalDependencies: !prev.includeExternalDependencies,
+    }));
+  };
+
+  const toggleDrawer = (next: Drawer) => {
+    setDrawer((prev) => (prev === next ? null : next));
+  };
+
+  const handleFocusHopsChange = (focusHops: number) => {
+    setLayoutConfig((prev) => ({ ...prev, focusHops }));
+  };
+
   // Loading state
   if (isLoading) {
     return (
@@ -173,7 +353,7 @@ export const DependencyGraphPanelContent: React.FC<
   }
 
   // No edges means no internal dependencies
-  if (!canvas.edges || canvas.edges.length === 0) {
+  if (!hasInternalDependencies) {
     return (
       <div
         style={{
@@ -230,12 +410,116 @@ export const DependencyGraphPanelContent: React.FC<
               fontFamily: theme.fonts.body,
             }}
           >
-            ({packages.length} packages, {canvas.edges?.length || 0}{' '}
+            ({focusedIds ? `${focusedIds.size} of ` : ''}
+            {packages.length} packages, {canvas.edges?.length || 0}{' '}
             dependencies)
           </span>
         </div>
 
         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          {cycles.length > 0 && (
+            <button
+              onClick={() => toggleDrawer('cycles')}
+              title="Circular dependencies"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                padding: '4px 8px',
+                backgroundColor:
+                  drawer === 'cycles'
+                    ? `${theme.colors.error}20`
+                    : 'transparent',
+                border: `1px solid ${theme.colors.error}`,
+                borderRadius: '4px',
+                cursor: 'pointer',
+                color: theme.colors.error,
+                fontSize: theme.fontSizes[1],
+                fontFamily: theme.fonts.body,
+              }}
+            >
+              <AlertTriangle size={14} />
+              {cycles.length} {cycles.length === 1 ? 'cycle' : 'cycles'}
+            </button>
+          )}
+          {versionDrift.length > 0 && (
+            <button
+              onClick={() => toggleDrawer('version-drift')}
+              title="External dependencies with mismatched versions"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                padding: '4px 8px',
+                backgroundColor:
+                  drawer === 'version-drift'
+                    ? `${theme.colors.warning}20`
+                    : 'transparent',
+                border: `1px solid ${theme.colors.warning}`,
+                borderRadius: '4px',
+                cursor: 'pointer',
+                color: theme.colors.warning,
+                fontSize: theme.fontSizes[1],
+                fontFamily: theme.fonts.body,
+              }}
+            >
+              <Boxes size={14} />
+              {versionDrift.length}{' '}
+              {versionDrift.length === 1 ? 'mismatch' : 'mismatches'}
+            </button>
+          )}
+          <select
+            value={selectedPackage?.id ?? ''}
+            onChange={(e) => selectPackage(e.target.value || null)}
+            title="Select package"
+            style={{
+              maxWidth: '180px',
+              padding: '4px 8px',
+              backgroundColor: theme.colors.background,
+              border: `1px solid ${theme.colors.border}`,
+              borderRadius: '4px',
+              color: theme.colors.text,
+              fontSize: theme.fontSizes[1],
+              fontFamily: theme.fonts.body,
+            }}
+          >
+            <option value="">Select package...</option>
+            {[...packages]
+              .sort((a, b) =>
+                a.packageData.name.localeCompare(b.packageData.name)
+              )
+              .map((pkg) => (
+                <option key={pkg.id} value={pkg.id}>
+                  {pkg.packageData.name}
+                </option>
+              ))}
+          </select>
+          <button
+            onClick={() =>
+              setViewMode(viewMode === 'graph' ? 'build-order' : 'graph')
+            }
+            title={
+              viewMode === 'graph'
+                ? 'Show build order'
+                : 'Show dependency graph'
+            }
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '4px',
+              backgroundColor:
+                viewMode === 'build-order'
+                  ? theme.colors.primary
+                  : 'transparent',
+              border: `1px solid ${viewMode === 'build-order' ? theme.colors.primary : theme.colors.border}`,
+              borderRadius: '4px',
+              cursor: 'pointer',
+              color: viewMode === 'build-order' ? '#fff' : theme.colors.text,
+            }}
+          >
+            <Layers size={14} />
+          </button>
           <button
             onClick={handleReapplyLayout}
             title="Re-apply layout"
@@ -253,6 +537,7 @@ export const DependencyGraphPanelContent: React.FC<
           >
             <RefreshCw size={14} />
           </button>
+          <ExportMenu canvas={canvas} direction={layoutConfig.direction} />
           <button
             onClick={() => setShowSettings(!showSettings)}
             title="Layout settings"
@@ -393,12 +678,319 @@ export const DependencyGraphPanelContent: React.FC<
               Include devDependencies
             </label>
           </div>
+
+          {/* Include External Dependencies */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <input
+              type="checkbox"
+              id="include-external-deps"
+              checked={layoutConfig.includeExternalDependencies}
+              onChange={handleExternalDepsToggle}
+              disabled={viewMode === 'build-order'}
+            />
+            <label
+              htmlFor="include-external-deps"
+              style={{
+                fontSize: theme.fontSizes[1],
+                color: theme.colors.textSecondary,
+                fontFamily: theme.fonts.body,
+                cursor: 'pointer',
+              }}
+            >
+              Show shared external dependencies
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Build order */}
+      {buildLayers && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '6px 12px',
+            borderBottom: `1px solid ${theme.colors.border}`,
+            fontSize: theme.fontSizes[1],
+            color: theme.colors.textSecondary,
+            fontFamily: theme.fonts.body,
+          }}
+        >
+          <span style={{ color: theme.colors.text, fontWeight: 500 }}>
+            {buildLayers.layers.length}{' '}
+            {buildLayers.layers.length === 1 ? 'layer' : 'layers'}
+          </span>
+          {buildLayers.criticalPath.length > 1 && (
+            <span
+              title="Longest chain of dependencies"
+              style={{
+                minWidth: 0,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              Critical path:{' '}
+              <span style={{ color: '#a855f7' }}>
+                {buildLayers.criticalPath
+                  .map(
+                    (id) => graph.packagesById.get(id)?.packageData.name ?? id
+                  )
+                  .join(' → ')}
+              </span>
+            </span>
+          )}
+          <span style={{ flex: 1 }} />
+          {buildLayers.blocked.length > 0 && (
+            <button
+              onClick={() => setDrawer('cycles')}
+              title="Show circular dependencies"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                padding: '2px 8px',
+                backgroundColor: 'transparent',
+                border: 'none',
+                cursor: 'pointer',
+                color: theme.colors.error,
+                fontSize: theme.fontSizes[1],
+                fontFamily: theme.fonts.body,
+              }}
+            >
+              <AlertTriangle size={12} />
+              {buildLayers.blocked.length} blocked by cycles
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Selection */}
+      {selectedPackage && closure && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '6px 12px',
+            borderBottom: `1px solid ${theme.colors.border}`,
+            fontSize: theme.fontSizes[1],
+            color: theme.colors.textSecondary,
+            fontFamily: theme.fonts.body,
+          }}
+        >
+          <span style={{ color: theme.colors.text, fontWeight: 500 }}>
+            {selectedPackage.packageData.name}
+          </span>
+          <span style={{ color: '#22c55e' }}>
+            {closure.upstream.size} upstream
+          </span>
+          <span style={{ color: '#f59e0b' }}>
+            {closure.downstream.size} downstream
+          </span>
+          <span style={{ flex: 1 }} />
+          <button
+            onClick={() => setIsFocused(!isFocused)}
+            title={`Only show packages within ${layoutConfig.focusHops} ${layoutConfig.focusHops === 1 ? 'hop' : 'hops'}`}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              padding: '2px 8px',
+              backgroundColor: isFocused ? theme.colors.primary : 'transparent',
+              border: `1px solid ${isFocused ? theme.colors.primary : theme.colors.border}`,
+              borderRadius: '4px',
+              cursor: 'pointer',
+              color: isFocused ? '#fff' : theme.colors.text,
+              fontSize: theme.fontSizes[1],
+              fontFamily: theme.fonts.body,
+            }}
+          >
+            <Focus size={12} />
+            Focus
+          </button>
+          <input
+            type="number"
+            min={1}
+            max={MAX_FOCUS_HOPS}
+            value={layoutConfig.focusHops}
+            onChange={(e) =>
+              handleFocusHopsChange(
+                Math.max(
+                  1,
+                  Math.min(MAX_FOCUS_HOPS, Number(e.target.value) || 1)
+                )
+              )
+            }
+            title="Hops to keep in focus mode"
+            style={{
+              width: '44px',
+              padding: '2px 4px',
+              backgroundColor: theme.colors.background,
+              border: `1px solid ${theme.colors.border}`,
+              borderRadius: '4px',
+              color: theme.colors.text,
+              fontSize: theme.fontSizes[1],
+              fontFamily: theme.fonts.body,
+            }}
+          />
+          <button
+            onClick={() => selectPackage(null)}
+            title="Clear selection"
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              padding: '2px',
+              backgroundColor: 'transparent',
+              border: 'none',
+              cursor: 'pointer',
+              color: theme.colors.textSecondary,
+            }}
+          >
+            <X size={14} />
+          </button>
         </div>
       )}
 
       {/* Graph Renderer */}
       <div style={{ flex: 1, position: 'relative' }}>
-        <GraphRenderer key={layoutVersion} canvas={canvas} editable={false} />
+        <GraphRenderer
+          key={layoutVersion}
+          canvas={canvas}
+          editable={false}
+          onNodeClick={handleNodeClick}
+          showNodeDetailPanel={false}
+        />
+
+        {/* Cycles / version drift drawer */}
+        {drawer && (
+          <div
+            style={{
+              position: 'absolute',
+              top: 0,
+              right: 0,
+              bottom: 0,
+              width: drawer === 'version-drift' ? '360px' : '260px',
+              display: 'flex',
+              flexDirection: 'column',
+              borderLeft: `1px solid ${theme.colors.border}`,
+              backgroundColor: theme.colors.backgroundSecondary,
+              fontFamily: theme.fonts.body,
+              fontSize: theme.fontSizes[1],
+            }}
+          >
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '8px 12px',
+                borderBottom: `1px solid ${theme.colors.border}`,
+                color: theme.colors.text,
+                fontWeight: 500,
+              }}
+            >
+              {drawer === 'cycles' ? (
+                <AlertTriangle size={14} color={theme.colors.error} />
+              ) : (
+                <Boxes size={14} color={theme.colors.warning} />
+              )}
+              <span style={{ flex: 1 }}>{drawerTitles[drawer]}</span>
+              <button
+                onClick={() => setDrawer(null)}
+                title="Close"
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  padding: '2px',
+                  backgroundColor: 'transparent',
+                  border: 'none',
+                  cursor: 'pointer',
+                  color: theme.colors.textSecondary,
+                }}
+              >
+                <X size={14} />
+              </button>
+            </div>
+            <div style={{ flex: 1, overflowY: 'auto' }}>
+              {drawer === 'version-drift' && (
+                <VersionDriftTable
+                  drift={versionDrift}
+                  selectedPackageId={selectedPackage?.id}
+                  onPackageSelect={selectPackage}
+                />
+              )}
+              {drawer === 'cycles' && cycles.length === 0 && (
+                <div
+                  style={{ padding: '12px', color: theme.colors.textSecondary }}
+                >
+                  No circular dependencies
+                </div>
+              )}
+              {drawer === 'cycles' &&
+                cycles.map((cycle) => (
+                  <div
+                    key={cycle.packageIds.join(',')}
+                    style={{
+                      padding: '8px 12px',
+                      borderBottom: `1px solid ${theme.colors.border}`,
+                    }}
+                  >
+                    <div
+                      style={{
+                        marginBottom: '4px',
+                        color: theme.colors.textSecondary,
+                      }}
+                    >
+                      {cycle.packageIds.length} packages
+                    </div>
+                    <div
+                      style={{
+                        display: 'flex',
+                        flexWrap: 'wrap',
+                        alignItems: 'center',
+                        gap: '4px',
+                      }}
+                    >
+                      {cycle.path.map((id, index) => {
+                        const name =
+                          graph.packagesById.get(id)?.packageData.name ?? id;
+                        return (
+                          <React.Fragment key={index}>
+                            {index > 0 && (
+                              <span style={{ color: theme.colors.error }}>
+                                →
+                              </span>
+                            )}
+                            <button
+                              onClick={() => selectPackage(id)}
+                              title={`Select ${name}`}
+                              style={{
+                                padding: '0 4px',
+                                backgroundColor:
+                                  id === selectedPackage?.id
+                                    ? `${theme.colors.primary}30`
+                                    : 'transparent',
+                                border: 'none',
+                                borderRadius: '3px',
+                                cursor: 'pointer',
+                                color: theme.colors.text,
+                                fontSize: theme.fontSizes[1],
+                                fontFamily: theme.fonts.monospace,
+                              }}
+                            >
+                              {name}
+                            </button>
+                          </React.Fragment>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Legend */}
@@ -425,6 +1017,54 @@ export const DependencyGraphPanelContent: React.FC<
           />
           <span>dependency</span>
         </div>
+        {buildLayers && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <div
+              style={{
+                width: '24px',
+                height: '3px',
+                backgroundColor: '#a855f7',
+              }}
+            />
+            <span>critical path</span>
+          </div>
+        )}
+        {cycles.length > 0 && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <div
+              style={{
+                width: '24px',
+                height: '3px',
+                backgroundColor: '#ef4444',
+              }}
+            />
+            <span>cycle</span>
+          </div>
+        )}
+        {selectedPackage && (
+          <>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <div
+                style={{
+                  width: '24px',
+                  height: '3px',
+                  backgroundColor: '#22c55e',
+                }}
+              />
+              <span>upstream</span>
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <div
+                style={{
+                  width: '24px',
+                  height: '3px',
+                  backgroundColor: '#f59e0b',
+                }}
+              />
+              <span>downstream</span>
+            </div>
+          </>
+        )}
         {layoutConfig.includeDevDependencies && (
           <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
             <div
@@ -439,6 +1079,19 @@ export const DependencyGraphPanelContent: React.FC<
             <span>devDependency</span>
           </div>
         )}
+        {layoutConfig.includeExternalDependencies && !buildLayers && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <div
+              style={{
+                width: '24px',
+                height: '2px',
+                backgroundImage:
+                  'repeating-linear-gradient(90deg, #64748b 0, #64748b 2px, transparent 2px, transparent 4px)',
+              }}
+            />
+            <span>external</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -478,6 +1131,7 @@ export const DependencyGraphPanelPreview: React.FC = () => {
  */
 export const DependencyGraphPanel: React.FC<DependencyGraphPanelPropsTyped> = ({
   context,
+  events,
 }) => {
   // Get packages slice from typed context (direct property access)
   const packagesSlice = context.packages;
@@ -485,7 +1139,26 @@ export const DependencyGraphPanel: React.FC<DependencyGraphPanelPropsTyped> = ({
   const packages = packagesSlice?.data?.packages ?? [];
   const isLoading = packagesSlice?.loading || false;
 
+  // Emit package:select events when selecting/deselecting packages
+  const handlePackageSelect = (pkg: PackageLayer | null) => {
+    events?.emit({
+      type: 'package:select',
+      source: 'DependencyGraphPanel',
+      timestamp: Date.now(),
+      payload: pkg
+        ? {
+            packagePath: pkg.packageData.path,
+            packageName: pkg.packageData.name,
+          }
+        : null,
+    });
+  };
+
   return (
-    <DependencyGraphPanelContent packages={packages} isLoading={isLoading} />
+    <DependencyGraphPanelContent
+      packages={packages}
+      isLoading={isLoading}
+      onPackageSelect={handlePackageSelect}
+    />
   );
 };
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { Check, Copy, Download } from 'lucide-react';
+import type { ExtendedCanvas } from '@principal-ai/principal-view-core';
+import {
+  exportCanvas,
+  type GraphExportFormat,
+  type GraphExportOptions,
+} from './graphExport';
+
+const FORMATS: Array<{
+  format: GraphExportFormat;
+  label: string;
+  fileName: string;
+  mimeType: string;
+}> = [
+  {
+    format: 'dot',
+    label: 'Graphviz DOT',
+    fileName: 'dependencies.dot',
+    mimeType: 'text/vnd.graphviz',
+  },
+  {
+    format: 'mermaid',
+    label: 'Mermaid',
+    fileName: 'dependencies.mmd',
+    mimeType: 'text/plain',
+  },
+  {
+    format: 'svg',
+    label: 'SVG',
+    fileName: 'dependencies.svg',
+    mimeType: 'image/svg+xml',
+  },
+];
+
+interface ExportMenuProps {
+  /** Laid out canvas, exported as currently shown */
+  canvas: ExtendedCanvas;
+  direction: GraphExportOptions['direction'];
+}
+
+/**
+ * ExportMenu - copy or download the dependency graph as DOT, Mermaid or SVG
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  canvas,
+  direction,
+}) => {
+  const { theme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const [copiedFormat, setCopiedFormat] = useState<GraphExportFormat | null>(
+    null
+  );
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleCopy = async (format: GraphExportFormat) => {
+    try {
+      await navigator.clipboard.writeText(
+        exportCanvas(canvas, format, { direction })
+      );
+      setCopiedFormat(format);
+      setTimeout(() => setCopiedFormat(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleDownload = (item: (typeof FORMATS)[number]) => {
+    const blob = new Blob([exportCanvas(canvas, item.format, { direction })], {
+      type: item.mimeType,
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = item.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    setIsOpen(false);
+  };
+
+  const iconButtonStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    padding: '4px',
+    backgroundColor: 'transparent',
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: '4px',
+    cursor: 'pointer',
+    color: theme.colors.text,
+  };
+
+  return (
+    <div ref={menuRef} style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Export graph"
+        style={{
+          ...iconButtonStyle,
+          backgroundColor: isOpen ? theme.colors.primary : 'transparent',
+          borderColor: isOpen ? theme.colors.primary : theme.colors.border,
+          color: isOpen ? '#fff' : theme.colors.text,
+        }}
+      >
+        <Download size={14} />
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '100%',
+            right: 0,
+            marginTop: '4px',
+            zIndex: 10,
+            minWidth: '200px',
+            padding: '4px 0',
+            backgroundColor: theme.colors.background,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: '6px',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[1],
+          }}
+        >
+          {FORMATS.map((item) => (
+            <div
+              key={item.format}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '6px 10px',
+                color: theme.colors.text,
+              }}
+            >
+              <span style={{ flex: 1 }}>{item.label}</span>
+              <button
+                onClick={() => handleCopy(item.format)}
+                title={`Copy ${item.label}`}
+                style={iconButtonStyle}
+              >
+                {copiedFormat === item.format ? (
+                  <Check size={12} color={theme.colors.success} />
+                ) : (
+                  <Copy size={12} />
+                )}
+              </button>
+              <button
+                onClick={() => handleDownload(item)}
+                title={`Download ${item.fileName}`}
+                style={iconButtonStyle}
+              >
+                <Download size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
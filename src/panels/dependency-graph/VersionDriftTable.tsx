@@ -0,0 +1,108 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import type { ExternalDependency } from './externalDependencies';
+
+interface VersionDriftTableProps {
+  drift: ExternalDependency[];
+  selectedPackageId?: string | null;
+  onPackageSelect?: (packageId: string) => void;
+}
+
+/**
+ * VersionDriftTable - external dependencies declared with different version
+ * ranges, one row per range with the packages that use it
+ */
+export const VersionDriftTable: React.FC<VersionDriftTableProps> = ({
+  drift,
+  selectedPackageId,
+  onPackageSelect,
+}) => {
+  const { theme } = useTheme();
+
+  const cellStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    borderBottom: `1px solid ${theme.colors.border}`,
+    verticalAlign: 'top',
+    textAlign: 'left',
+  };
+
+  return (
+    <table
+      style={{
+        width: '100%',
+        borderCollapse: 'collapse',
+        fontFamily: theme.fonts.body,
+        fontSize: theme.fontSizes[1],
+        color: theme.colors.text,
+      }}
+    >
+      <thead>
+        <tr style={{ color: theme.colors.textSecondary }}>
+          <th style={{ ...cellStyle, fontWeight: 500 }}>Dependency</th>
+          <th style={{ ...cellStyle, fontWeight: 500 }}>Version</th>
+          <th style={{ ...cellStyle, fontWeight: 500 }}>Packages</th>
+        </tr>
+      </thead>
+      <tbody>
+        {drift.flatMap((dep) =>
+          dep.versions.map((version, index) => (
+            <tr key={`${dep.name}@${version}`}>
+              {index === 0 && (
+                <td
+                  rowSpan={dep.versions.length}
+                  style={{
+                    ...cellStyle,
+                    fontFamily: theme.fonts.monospace,
+                    wordBreak: 'break-all',
+                  }}
+                >
+                  {dep.name}
+                </td>
+              )}
+              <td
+                style={{
+                  ...cellStyle,
+                  fontFamily: theme.fonts.monospace,
+                  color: theme.colors.warning,
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {version}
+              </td>
+              <td style={cellStyle}>
+                <div
+                  style={{ display: 'flex', flexWrap: 'wrap', gap: '2px 6px' }}
+                >
+                  {dep.usages
+                    .filter((usage) => usage.version === version)
+                    .map((usage) => (
+                      <button
+                        key={usage.packageId}
+                        onClick={() => onPackageSelect?.(usage.packageId)}
+                        title={`${usage.packageName} (${usage.dependencyType})`}
+                        style={{
+                          padding: '0 4px',
+                          backgroundColor:
+                            usage.packageId === selectedPackageId
+                              ? `${theme.colors.primary}30`
+                              : 'transparent',
+                          border: 'none',
+                          borderRadius: '3px',
+                          cursor: onPackageSelect ? 'pointer' : 'default',
+                          color: theme.colors.text,
+                          fontSize: theme.fontSizes[1],
+                          fontFamily: theme.fonts.body,
+                        }}
+                      >
+                        {usage.packageName}
+                      </button>
+                    ))}
+                </div>
+              </td>
+            </tr>
+          ))
+        )}
+      </tbody>
+    </table>
+  );
+};
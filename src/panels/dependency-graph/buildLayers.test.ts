@@ -0,0 +1,144 @@
+/**
+ * Tests for build layer computation and the swimlane layout
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMockPackage } from '../../mocks/packages';
+import { dependencyTreeToCanvas } from './dependencyToCanvas';
+import {
+  applyBuildLayerLayout,
+  computeBuildLayers,
+  markCriticalPath,
+} from './buildLayers';
+
+const packages = [
+  createMockPackage('app', { dependencies: ['ui', 'utils'] }),
+  createMockPackage('ui', { dependencies: ['utils', 'types'] }),
+  createMockPackage('utils', { dependencies: ['types'] }),
+  createMockPackage('types'),
+  createMockPackage('cli', { dependencies: ['types'] }),
+];
+
+describe('computeBuildLayers', () => {
+  test('groups packages by the longest chain below them', () => {
+    const result = computeBuildLayers(packages);
+
+    expect(result.layers).toEqual([
+      ['types'],
+      ['cli', 'utils'],
+      ['ui'],
+      ['app'],
+    ]);
+    expect(result.blocked).toEqual([]);
+    expect(result.cycles).toEqual([]);
+  });
+
+  test('follows the longest chain for the critical path', () => {
+    expect(computeBuildLayers(packages).criticalPath).toEqual([
+      'types',
+      'utils',
+      'ui',
+      'app',
+    ]);
+  });
+
+  test('reports packages blocked by a cycle', () => {
+    const result = computeBuildLayers([
+      createMockPackage('a', { dependencies: ['b'] }),
+      createMockPackage('b', { dependencies: ['a'] }),
+      createMockPackage('c', { dependencies: ['a'] }),
+      createMockPackage('d'),
+    ]);
+
+    expect(result.layers).toEqual([['d']]);
+    expect(result.blocked).toEqual(['a', 'b', 'c']);
+    expect(result.cycles.map((cycle) => cycle.packageIds)).toEqual([
+      ['a', 'b'],
+    ]);
+  });
+
+  test('respects includeDevDependencies', () => {
+    const devPackages = [
+      createMockPackage('a', { devDependencies: ['b'] }),
+      createMockPackage('b'),
+    ];
+
+    expect(computeBuildLayers(devPackages).layers).toEqual([['b'], ['a']]);
+    expect(
+      computeBuildLayers(devPackages, { includeDevDependencies: false }).layers
+    ).toEqual([['a', 'b']]);
+  });
+
+  test('handles an empty workspace', () => {
+    expect(computeBuildLayers([])).toEqual({
+      layers: [],
+      blocked: [],
+      cycles: [],
+      criticalPath: [],
+    });
+  });
+});
+
+describe('applyBuildLayerLayout', () => {
+  test('puts each layer in its own lane, layer 0 first', () => {
+    const canvas = applyBuildLayerLayout(
+      dependencyTreeToCanvas(packages),
+      computeBuildLayers(packages)
+    );
+    const y = (id: string) =>
+      canvas.nodes?.find((node) => node.id === id)?.y ?? NaN;
+
+    expect(y('types')).toBeLessThan(y('utils'));
+    expect(y('utils')).toBe(y('cli'));
+    expect(y('utils')).toBeLessThan(y('ui'));
+    expect(y('ui')).toBeLessThan(y('app'));
+
+    const lanes = (canvas.nodes ?? []).filter((node) => node.type === 'group');
+    expect(lanes.map((lane) => lane.label)).toEqual([
+      'Layer 0',
+      'Layer 1',
+      'Layer 2',
+      'Layer 3',
+    ]);
+  });
+
+  test('reverses the lanes for BT and spreads them horizontally for LR', () => {
+    const layers = computeBuildLayers(packages);
+    const bottomUp = applyBuildLayerLayout(
+      dependencyTreeToCanvas(packages),
+      layers,
+      { direction: 'BT' }
+    );
+    const leftRight = applyBuildLayerLayout(
+      dependencyTreeToCanvas(packages),
+      layers,
+      { direction: 'LR' }
+    );
+    const find = (canvas: typeof bottomUp, id: string) =>
+      canvas.nodes?.find((node) => node.id === id);
+
+    expect(find(bottomUp, 'types')!.y).toBeGreaterThan(
+      find(bottomUp, 'app')!.y
+    );
+    expect(find(leftRight, 'types')!.x).toBeLessThan(find(leftRight, 'app')!.x);
+    expect(leftRight.edges?.[0]).toMatchObject({
+      fromSide: 'left',
+      toSide: 'right',
+    });
+  });
+});
+
+describe('markCriticalPath', () => {
+  test('restyles the edges along the path', () => {
+    const canvas = markCriticalPath(
+      dependencyTreeToCanvas(packages),
+      computeBuildLayers(packages).criticalPath
+    );
+
+    const critical = (canvas.edges ?? [])
+      .filter((edge) => edge.pv?.edgeType === 'critical-path')
+      .map((edge) => edge.id)
+      .sort();
+    expect(critical).toEqual(['app->ui', 'ui->utils', 'utils->types']);
+  });
+});
@@ -0,0 +1,238 @@
+import type { ExtendedCanvas } from '@principal-ai/principal-view-core';
+import type { PackageLayer } from '../../types/composition';
+import {
+  buildPackageGraph,
+  type PackageGraphOptions,
+} from '../../utils/packageGraph';
+import { findDependencyCycles, type DependencyCycle } from './dependencyCycles';
+
+/** Edge style for the longest chain of dependencies */
+const CRITICAL_PATH_EDGE_TYPE = {
+  style: 'solid' as const,
+  color: '#a855f7',
+  width: 3,
+  directed: true,
+};
+
+/** Swimlane color */
+const LANE_COLOR = '#334155';
+
+/**
+ * Workspace packages grouped in the order they must build
+ */
+export interface BuildLayers {
+  /**
+   * Package ids per layer, sorted by name. Layer 0 has no internal
+   * dependencies; every other package depends on something in the layer
+   * right before it.
+   */
+  layers: string[][];
+  /** Packages that cannot be ordered because they are in or depend on a cycle */
+  blocked: string[];
+  cycles: DependencyCycle[];
+  /** Longest chain of dependencies, in build order */
+  criticalPath: string[];
+}
+
+/**
+ * Topologically sort packages into build layers. Packages in the same layer
+ * can build in parallel once the layers before them are done.
+ */
+export function computeBuildLayers(
+  packages: PackageLayer[],
+  options: PackageGraphOptions = {}
+): BuildLayers {
+  const graph = buildPackageGraph(packages, options);
+  const nameOf = (id: string) =>
+    graph.packagesById.get(id)?.packageData.name ?? id;
+  const byName = (a: string, b: string) => nameOf(a).localeCompare(nameOf(b));
+
+  // Kahn's algorithm, one layer at a time
+  const remaining = new Map(
+    [...graph.dependencies].map(([id, deps]) => [id, deps.length])
+  );
+  const layerOf = new Map<string, number>();
+  const layers: string[][] = [];
+  let current = [...remaining]
+    .filter(([, count]) => count === 0)
+    .map(([id]) => id);
+
+  while (current.length > 0) {
+    current.sort(byName);
+    const layerIndex = layers.length;
+    layers.push(current);
+
+    const next: string[] = [];
+    for (const id of current) {
+      layerOf.set(id, layerIndex);
+      remaining.delete(id);
+      for (const dependent of graph.dependents.get(id) ?? []) {
+        const count = remaining.get(dependent)! - 1;
+        remaining.set(dependent, count);
+        if (count === 0) next.push(dependent);
+      }
+    }
+    current = next;
+  }
+
+  // Walk back from the first package of the last layer through a dependency
+  // in each layer before it
+  const criticalPath: string[] = [];
+  let at = layers.length > 0 ? layers[layers.length - 1][0] : undefined;
+  while (at !== undefined) {
+    criticalPath.unshift(at);
+    const layer = layerOf.get(at)!;
+    at =
+      layer === 0
+        ? undefined
+        : (graph.dependencies.get(at) ?? [])
+            .filter((dep) => layerOf.get(dep) === layer - 1)
+            .sort(byName)[0];
+  }
+
+  return {
+    layers,
+    blocked: [...remaining.keys()].sort(byName),
+    cycles: remaining.size > 0 ? findDependencyCycles(packages, options) : [],
+    criticalPath,
+  };
+}
+
+export interface BuildLayerLayoutOptions {
+  /** Direction builds flow in: 'TB' puts layer 0 at the top */
+  direction?: 'TB' | 'BT' | 'LR' | 'RL';
+  /** Spacing between nodes in a lane */
+  nodeSpacingX?: number;
+  /** Spacing between lanes */
+  nodeSpacingY?: number;
+}
+
+/**
+ * Lay out a dependency canvas as swimlanes, one per build layer, with blocked
+ * packages in a last lane. Nodes that are not in any layer (e.g. external
+ * dependencies) are dropped.
+ */
+export function applyBuildLayerLayout(
+  canvas: ExtendedCanvas,
+  buildLayers: BuildLayers,
+  options: BuildLayerLayoutOptions = {}
+): ExtendedCanvas {
+  const { direction = 'TB', nodeSpacingX = 100, nodeSpacingY = 100 } = options;
+  const horizontal = direction === 'LR' || direction === 'RL';
+  const reversed = direction === 'BT' || direction === 'RL';
+  const padding = 20;
+
+  const nodesById = new Map((canvas.nodes ?? []).map((n) => [n.id, n]));
+  const lanes = [
+    ...buildLayers.layers.map((ids, index) => ({
+      label: `Layer ${index}`,
+      ids,
+    })),
+    { label: 'Blocked by cycles', ids: buildLayers.blocked },
+  ]
+    .map((lane) => ({
+      ...lane,
+      nodes: lane.ids.flatMap((id) => nodesById.get(id) ?? []),
+    }))
+    .filter((lane) => lane.nodes.length > 0);
+  if (reversed) lanes.reverse();
+
+  // Along a lane nodes are spaced by their width (TB/BT) or height (LR/RL)
+  const size = (node: { width: number; height: number }) =>
+    horizontal ? node.height : node.width;
+  const depth = (node: { width: number; height: number }) =>
+    horizontal ? node.width : node.height;
+  const laneDepth = Math.max(0, ...lanes.flatMap((l) => l.nodes.map(depth)));
+  const laneLengths = lanes.map((lane) =>
+    lane.nodes.reduce(
+      (total, node, index) =>
+        total + size(node) + (index > 0 ? nodeSpacingX : 0),
+      0
+    )
+  );
+  const laneLength = Math.max(0, ...laneLengths) + padding * 2;
+
+  const position = (along: number, across: number) =>
+    horizontal ? { x: across, y: along } : { x: along, y: across };
+
+  const positioned = new Map<string, { x: number; y: number }>();
+  const groups: NonNullable<ExtendedCanvas['nodes']> = [];
+  lanes.forEach((lane, laneIndex) => {
+    const across = laneIndex * (laneDepth + padding * 2 + nodeSpacingY);
+    const laneStart =
+      padding + (laneLength - padding * 2 - laneLengths[laneIndex]) / 2;
+
+    let along = laneStart;
+    for (const node of lane.nodes) {
+      positioned.set(node.id, position(Math.round(along), across + padding));
+      along += size(node) + nodeSpacingX;
+    }
+
+    const origin = position(0, across);
+    groups.push({
+      id: `build-layer:${laneIndex}`,
+      type: 'group' as const,
+      label: lane.label,
+      x: origin.x,
+      y: origin.y,
+      width: horizontal ? laneDepth + padding * 2 : laneLength,
+      height: horizontal ? laneLength : laneDepth + padding * 2,
+      color: LANE_COLOR,
+    });
+  });
+
+  // Edges point from a package to its dependency, i.e. against the build flow
+  const sides = {
+    TB: ['top', 'bottom'],
+    BT: ['bottom', 'top'],
+    LR: ['left', 'right'],
+    RL: ['right', 'left'],
+  } as const;
+  const [fromSide, toSide] = sides[direction];
+
+  return {
+    ...canvas,
+    nodes: [
+      ...groups,
+      ...(canvas.nodes ?? [])
+        .filter((node) => positioned.has(node.id))
+        .map((node) => ({ ...node, ...positioned.get(node.id)! })),
+    ],
+    edges: canvas.edges
+      ?.filter(
+        (edge) => positioned.has(edge.fromNode) && positioned.has(edge.toNode)
+      )
+      .map((edge) => ({ ...edge, fromSide, toSide })),
+  };
+}
+
+/**
+ * Draw the edges along the critical path in the critical path style
+ */
+export function markCriticalPath(
+  canvas: ExtendedCanvas,
+  criticalPath: string[]
+): ExtendedCanvas {
+  if (criticalPath.length < 2) return canvas;
+
+  // The path is in build order, so each package depends on the one before it
+  const pathEdges = new Set(
+    criticalPath.slice(1).map((id, index) => `${id}->${criticalPath[index]}`)
+  );
+
+  return {
+    ...canvas,
+    edges: canvas.edges?.map((edge) =>
+      pathEdges.has(`${edge.fromNode}->${edge.toNode}`)
+        ? { ...edge, pv: { ...edge.pv, edgeType: 'critical-path' } }
+        : edge
+    ),
+    pv: canvas.pv && {
+      ...canvas.pv,
+      edgeTypes: {
+        ...canvas.pv.edgeTypes,
+        'critical-path': CRITICAL_PATH_EDGE_TYPE,
+      },
+    },
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Tests for circular dependency detection
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMockPackage } from '../../mocks/packages';
+import { dependencyTreeToCanvas } from './dependencyToCanvas';
+import { findDependencyCycles, markCycleEdges } from './dependencyCycles';
+
+describe('findDependencyCycles', () => {
+  test('returns nothing for an acyclic graph', () => {
+    expect(
+      findDependencyCycles([
+        createMockPackage('a', { dependencies: ['b', 'c'] }),
+        createMockPackage('b', { dependencies: ['c'] }),
+        createMockPackage('c'),
+      ])
+    ).toEqual([]);
+  });
+
+  test('finds a two-package cycle', () => {
+    const cycles = findDependencyCycles([
+      createMockPackage('a', { dependencies: ['b'] }),
+      createMockPackage('b', { dependencies: ['a'] }),
+      createMockPackage('c', { dependencies: ['a'] }),
+    ]);
+
+    expect(cycles).toEqual([
+      {
+        packageIds: ['a', 'b'],
+        path: ['a', 'b', 'a'],
+        edges: [
+          { from: 'a', to: 'b' },
+          { from: 'b', to: 'a' },
+        ],
+      },
+    ]);
+  });
+
+  test('groups overlapping loops into one component', () => {
+    const cycles = findDependencyCycles([
+      createMockPackage('a', { dependencies: ['b'] }),
+      createMockPackage('b', { dependencies: ['c', 'd'] }),
+      createMockPackage('c', { dependencies: ['a'] }),
+      createMockPackage('d', { dependencies: ['b'] }),
+    ]);
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].packageIds).toEqual(['a', 'b', 'c', 'd']);
+    expect(cycles[0].path).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  test('reports separate cycles separately', () => {
+    const cycles = findDependencyCycles([
+      createMockPackage('a', { dependencies: ['b'] }),
+      createMockPackage('b', { dependencies: ['a'] }),
+      createMockPackage('x', { dependencies: ['y'] }),
+      createMockPackage('y', { dependencies: ['z'] }),
+      createMockPackage('z', { dependencies: ['x'] }),
+    ]);
+
+    expect(cycles.map((cycle) => cycle.path)).toEqual([
+      ['a', 'b', 'a'],
+      ['x', 'y', 'z', 'x'],
+    ]);
+  });
+
+  test('can ignore cycles through devDependencies', () => {
+    const packages = [
+      createMockPackage('a', { dependencies: ['b'] }),
+      createMockPackage('b', { devDependencies: ['a'] }),
+    ];
+
+    expect(findDependencyCycles(packages)).toHaveLength(1);
+    expect(
+      findDependencyCycles(packages, { includeDevDependencies: false })
+    ).toEqual([]);
+  });
+
+  test('markCycleEdges restyles only the cycle edges', () => {
+    const packages = [
+      createMockPackage('a', { dependencies: ['b'] }),
+      createMockPackage('b', { dependencies: ['a'] }),
+      createMockPackage('c', { dependencies: ['a'] }),
+    ];
+    const canvas = markCycleEdges(
+      dependencyTreeToCanvas(packages),
+      findDependencyCycles(packages)
+    );
+
+    expect(
+      Object.fromEntries(
+        (canvas.edges ?? []).map((edge) => [edge.id, edge.pv?.edgeType])
+      )
+    ).toEqual({
+      'a->b': 'cycle',
+      'b->a': 'cycle',
+      'c->a': 'dependency',
+    });
+    expect(canvas.pv?.edgeTypes?.cycle).toBeDefined();
+  });
+});
@@ -0,0 +1,168 @@
+import type { ExtendedCanvas } from '@principal-ai/principal-view-core';
+import type { PackageLayer } from '../../types/composition';
+import {
+  buildPackageGraph,
+  type PackageGraph,
+  type PackageGraphOptions,
+} from '../../utils/packageGraph';
+
+/** Edge style for dependencies that are part of a cycle */
+const CYCLE_EDGE_TYPE = {
+  style: 'solid' as const,
+  color: '#ef4444',
+  width: 3,
+  directed: true,
+};
+
+/**
+ * A set of packages that (transitively) depend on each other - one strongly
+ * connected component of the internal dependency graph
+ */
+export interface DependencyCycle {
+  /** Ids of the packages in the cycle, sorted by name */
+  packageIds: string[];
+  /** One concrete loop through the cycle, by package id, ending where it starts */
+  path: string[];
+  /** Dependencies between packages of the cycle */
+  edges: Array<{ from: string; to: string }>;
+}
+
+/**
+ * Tarjan's strongly connected components algorithm
+ */
+function stronglyConnectedComponents(graph: PackageGraph): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  const visit = (id: string) => {
+    indices.set(id, nextIndex);
+    lowLinks.set(id, nextIndex);
+    nextIndex++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of graph.dependencies.get(id) ?? []) {
+      if (!indices.has(next)) {
+        visit(next);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(next)!));
+      }
+    }
+
+    // id is the root of a component - pop it off the stack
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  for (const id of graph.dependencies.keys()) {
+    if (!indices.has(id)) visit(id);
+  }
+  return components;
+}
+
+/**
+ * Shortest loop from `startId` back to itself, staying inside the component
+ */
+function findLoop(
+  graph: PackageGraph,
+  startId: string,
+  members: Set<string>
+): string[] {
+  const previous = new Map<string, string>();
+  const queue = [startId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const next of graph.dependencies.get(id) ?? []) {
+      if (!members.has(next)) continue;
+      if (next === startId) {
+        const loop = [startId];
+        for (let at = id; at !== startId; at = previous.get(at)!) {
+          loop.unshift(at);
+        }
+        loop.unshift(startId);
+        return loop;
+      }
+      if (!previous.has(next)) {
+        previous.set(next, id);
+        queue.push(next);
+      }
+    }
+  }
+  return [startId];
+}
+
+/**
+ * Find circular dependencies between the packages of a repository.
+ * Each cycle is a group of packages that all reach each other through
+ * internal dependencies (devDependencies included unless disabled).
+ */
+export function findDependencyCycles(
+  packages: PackageLayer[],
+  options: PackageGraphOptions = {}
+): DependencyCycle[] {
+  const graph = buildPackageGraph(packages, options);
+  const nameOf = (id: string) =>
+    graph.packagesById.get(id)?.packageData.name ?? id;
+
+  return stronglyConnectedComponents(graph)
+    .filter((component) => component.length > 1)
+    .map((component) => {
+      const members = new Set(component);
+      const packageIds = [...component].sort((a, b) =>
+        nameOf(a).localeCompare(nameOf(b))
+      );
+      const edges = packageIds.flatMap((from) =>
+        (graph.dependencies.get(from) ?? [])
+          .filter((to) => members.has(to))
+          .map((to) => ({ from, to }))
+      );
+      return {
+        packageIds,
+        path: findLoop(graph, packageIds[0], members),
+        edges,
+      };
+    })
+    .sort((a, b) => nameOf(a.path[0]).localeCompare(nameOf(b.path[0])));
+}
+
+/**
+ * Draw the edges that form cycles in the cycle (warning) style
+ */
+export function markCycleEdges(
+  canvas: ExtendedCanvas,
+  cycles: DependencyCycle[]
+): ExtendedCanvas {
+  if (cycles.length === 0) return canvas;
+
+  const cycleEdges = new Set(
+    cycles.flatMap((cycle) =>
+      cycle.edges.map((edge) => `${edge.from}->${edge.to}`)
+    )
+  );
+
+  return {
+    ...canvas,
+    edges: canvas.edges?.map((edge) =>
+      cycleEdges.has(`${edge.fromNode}->${edge.toNode}`)
+        ? { ...edge, pv: { ...edge.pv, edgeType: 'cycle' } }
+        : edge
+    ),
+    pv: canvas.pv && {
+      ...canvas.pv,
+      edgeTypes: { ...canvas.pv.edgeTypes, cycle: CYCLE_EDGE_TYPE },
+    },
+  };
+}
@@ -1,9 +1,17 @@
 import type { ExtendedCanvas, PVNodeShape, CanvasColor } from '@principal-ai/principal-view-core';
 import type { PackageLayer } from '../../types/composition';
+import { buildPackageGraph } from '../../utils/packageGraph';
+import { collectExternalDependencies, externalNodeId } from './externalDependencies';
 
 /** Root package color (orange) */
 const ROOT_COLOR = '#f97316';
 
+/** External dependency color (slate) */
+const EXTERNAL_COLOR = '#64748b';
+
+/** External dependency declared with more than one version range (amber) */
+const VERSION_DRIFT_COLOR = '#f59e0b';
+
 /**
  * Hex colors for each language/ecosystem
  */
@@ -20,6 +28,10 @@ export interface DependencyCanvasOptions {
   includeDevDependencies?: boolean;
   /** Include peerDependencies in the graph */
   includePeerDependencies?: boolean;
+  /** Also show external dependencies shared by several packages as nodes */
+  includeExternalDependencies?: boolean;
+  /** Packages that must use an external dependency for it to be shown (default: 2) */
+  minExternalUsages?: number;
   /** Default node width */
   nodeWidth?: number;
   /** Default node height */
@@ -30,7 +42,8 @@ export interface DependencyCanvasOptions {
  * Convert an array of PackageLayer objects (from a monorepo) into an ExtendedCanvas
  * that can be rendered by GraphRenderer.
  *
- * Only internal dependencies (packages within the monorepo) are shown as edges.
+ * Only internal dependencies (packages within the monorepo) are shown as edges,
+ * unless includeExternalDependencies adds the shared external ones.
  */
 export function dependencyTreeToCanvas(
   packages: PackageLayer[],
@@ -39,13 +52,12 @@ export function dependencyTreeToCanvas(
   const {
     includeDevDependencies = true,
     includePeerDependencies = false,
+    includeExternalDependencies = false,
+    minExternalUsages = 2,
     nodeWidth = 180,
     nodeHeight = 70,
   } = options;
 
-  // Build a set of package names that exist in this monorepo
-  const packageNames = new Set(packages.map((p) => p.packageData.name));
-
   // Create nodes for each package
   const nodes = packages.map((pkg) => {
     const isRoot = pkg.packageData.isMonorepoRoot;
@@ -70,64 +82,57 @@ export function dependencyTreeToCanvas(
     };
   });
 
-  // Build a map from package name to package id for edge creation
-  const nameToId = new Map<string, string>();
-  for (const pkg of packages) {
-    nameToId.set(pkg.packageData.name, pkg.id);
-  }
-
   // Create edges for internal dependencies
-  const edges: ExtendedCanvas['edges'] = [];
-  const edgeIdSet = new Set<string>();
-
-  for (const pkg of packages) {
-    const sourceId = pkg.id;
-
-    // Collect all dependencies to check
-    const depsToCheck: Array<{ name: string; type: 'production' | 'development' | 'peer' }> = [];
-
-    // Always include production dependencies
-    if (pkg.packageData.dependencies) {
-      for (const depName of Object.keys(pkg.packageData.dependencies)) {
-        depsToCheck.push({ name: depName, type: 'production' });
-      }
-    }
-
-    // Optionally include dev dependencies
-    if (includeDevDependencies && pkg.packageData.devDependencies) {
-      for (const depName of Object.keys(pkg.packageData.devDependencies)) {
-        depsToCheck.push({ name: depName, type: 'development' });
-      }
-    }
-
-    // Optionally include peer dependencies
-    if (includePeerDependencies && pkg.packageData.peerDependencies) {
-      for (const depName of Object.keys(pkg.packageData.peerDependencies)) {
-        depsToCheck.push({ name: depName, type: 'peer' });
-      }
-    }
-
-    // Create edges only for internal (monorepo) dependencies
-    for (const dep of depsToCheck) {
-      if (packageNames.has(dep.name)) {
-        const targetId = nameToId.get(dep.name);
-        if (targetId && targetId !== sourceId) {
-          // Create a unique edge ID to avoid duplicates
-          const edgeId = `${sourceId}->${targetId}`;
-          if (!edgeIdSet.has(edgeId)) {
-            edgeIdSet.add(edgeId);
-            edges.push({
-              id: edgeId,
-              fromNode: sourceId,
-              toNode: targetId,
-              fromSide: 'bottom',
-              toSide: 'top',
-              pv: {
-                edgeType: dep.type === 'development' ? 'dev-dependency' : 'dependency',
-              },
-            });
-          }
-        }
+  const graph = buildPackageGraph(packages, { includeDevDependencies, includePeerDependencies });
+  const edges: ExtendedCanvas['edges'] = graph.edges.map((edge) => ({
+    id: `${edge.from}->${edge.to}`,
+    fromNode: edge.from,
+    toNode: edge.to,
+    fromSide: 'bottom',
+    toSide: 'top',
+    pv: {
+      edgeType: edge.type === 'development' ? 'dev-dependency' : 'dependency',
+    },
+  }));
+
+  // Shared external dependencies, colored when their version ranges drift
+  if (includeExternalDependencies) {
+    const externals = collectExternalDependencies(packages, {
+      includeDevDependencies,
+      includePeerDependencies,
+      minUsages: minExternalUsages,
+    });
+
+    for (const dep of externals) {
+      const nodeId = externalNodeId(dep.name);
+      const hasDrift = dep.versions.length > 1;
+      nodes.push({
+        id: nodeId,
+        x: 0,
+        y: 0,
+        width: nodeWidth,
+        height: nodeHeight,
+        type: 'text' as const,
+        text: hasDrift ? `${dep.name} (${dep.versions.length} versions)` : dep.name,
+        color: hasDrift ? VERSION_DRIFT_COLOR : EXTERNAL_COLOR,
+        pv: {
+          nodeType: 'external',
+          shape: 'circle',
+          icon: hasDrift ? 'AlertTriangle' : 'Box',
+        },
+      });
+
+      for (const usage of dep.usages) {
+        edges.push({
+          id: `${usage.packageId}->${nodeId}`,
+          fromNode: usage.packageId,
+          toNode: nodeId,
+          fromSide: 'bottom',
+          toSide: 'top',
+          pv: {
+            edgeType: 'external-dependency',
+          },
+        });
       }
     }
   }
@@ -152,6 +157,12 @@ export function dependencyTreeToCanvas(
           width: 1,
           directed: true,
         },
+        'external-dependency': {
+          style: 'dotted' as const,
+          color: EXTERNAL_COLOR,
+          width: 1,
+          directed: true,
+        },
       },
     },
   };
@@ -0,0 +1,124 @@
+/**
+ * Tests for external dependency collection and version drift
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMockPackage } from '../../mocks/packages';
+import { dependencyTreeToCanvas } from './dependencyToCanvas';
+import {
+  collectExternalDependencies,
+  externalNodeId,
+  findVersionDrift,
+} from './externalDependencies';
+
+const packages = [
+  createMockPackage('app', {
+    dependencies: { react: '^18.2.0', lib: 'workspace:*' },
+  }),
+  createMockPackage('lib', {
+    dependencies: { react: '^18.3.1', lodash: '^4.17.21' },
+  }),
+  createMockPackage('docs', {
+    dependencies: { react: '^18.2.0' },
+    devDependencies: { typescript: '^5.4.0' },
+  }),
+  createMockPackage('cli', {
+    devDependencies: { typescript: '^5.4.0', lodash: '^4.17.21' },
+  }),
+];
+
+describe('collectExternalDependencies', () => {
+  test('collects shared external dependencies, skipping workspace packages', () => {
+    const externals = collectExternalDependencies(packages);
+
+    expect(externals.map((dep) => dep.name)).toEqual([
+      'lodash',
+      'react',
+      'typescript',
+    ]);
+    expect(externals[1].usages.map((u) => u.packageName)).toEqual([
+      'app',
+      'lib',
+      'docs',
+    ]);
+    expect(externals[1].versions).toEqual(['^18.2.0', '^18.3.1']);
+  });
+
+  test('minUsages controls which dependencies count as shared', () => {
+    expect(
+      collectExternalDependencies(
+        [createMockPackage('a', { dependencies: { zod: '^3.0.0' } })],
+        {
+          minUsages: 1,
+        }
+      ).map((dep) => dep.name)
+    ).toEqual(['zod']);
+    expect(
+      collectExternalDependencies([
+        createMockPackage('a', { dependencies: { zod: '^3.0.0' } }),
+      ])
+    ).toEqual([]);
+  });
+
+  test('can leave out devDependencies', () => {
+    const externals = collectExternalDependencies(packages, {
+      includeDevDependencies: false,
+    });
+
+    expect(externals.map((dep) => dep.name)).toEqual(['react']);
+  });
+
+  test('counts a package once, preferring its production entry', () => {
+    const externals = collectExternalDependencies([
+      createMockPackage('a', {
+        dependencies: { zod: '^3.22.0' },
+        devDependencies: { zod: '^3.0.0' },
+      }),
+      createMockPackage('b', { dependencies: { zod: '^3.22.0' } }),
+    ]);
+
+    expect(externals[0].usages).toHaveLength(2);
+    expect(externals[0].usages[0].dependencyType).toBe('production');
+    expect(externals[0].versions).toEqual(['^3.22.0']);
+  });
+});
+
+describe('findVersionDrift', () => {
+  test('returns only dependencies with more than one version range', () => {
+    const drift = findVersionDrift(packages);
+
+    expect(drift.map((dep) => dep.name)).toEqual(['react']);
+  });
+});
+
+describe('dependencyTreeToCanvas with external dependencies', () => {
+  test('adds a node per shared dependency and an edge per usage', () => {
+    const canvas = dependencyTreeToCanvas(packages, {
+      includeExternalDependencies: true,
+    });
+
+    const externalNodes = (canvas.nodes ?? []).filter(
+      (node) => node.pv?.nodeType === 'external'
+    );
+    expect(externalNodes.map((node) => node.id)).toEqual([
+      externalNodeId('lodash'),
+      externalNodeId('react'),
+      externalNodeId('typescript'),
+    ]);
+    expect(
+      externalNodes.find((node) => node.id === externalNodeId('react'))?.text
+    ).toBe('react (2 versions)');
+    expect(
+      (canvas.edges ?? []).filter(
+        (edge) => edge.toNode === externalNodeId('react')
+      )
+    ).toHaveLength(3);
+  });
+
+  test('leaves external dependencies out by default', () => {
+    const canvas = dependencyTreeToCanvas(packages);
+
+    expect(canvas.nodes).toHaveLength(packages.length);
+    expect(canvas.edges?.map((edge) => edge.id)).toEqual(['app->lib']);
+  });
+});
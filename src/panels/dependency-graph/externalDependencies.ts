@@ -0,0 +1,107 @@
+import type { PackageLayer } from '../../types/composition';
+import type { DependencyType } from '../../types/dependencies';
+
+export interface ExternalDependencyOptions {
+  /** Include devDependencies (default: true) */
+  includeDevDependencies?: boolean;
+  /** Include peerDependencies (default: false) */
+  includePeerDependencies?: boolean;
+  /** Only keep dependencies used by at least this many packages (default: 2) */
+  minUsages?: number;
+}
+
+/**
+ * One workspace package's use of an external dependency
+ */
+export interface ExternalDependencyUsage {
+  packageId: string;
+  packageName: string;
+  /** Version range as written in the manifest, e.g. `^18.2.0` */
+  version: string;
+  dependencyType: DependencyType;
+}
+
+/**
+ * A dependency from outside the monorepo and the packages that use it
+ */
+export interface ExternalDependency {
+  name: string;
+  usages: ExternalDependencyUsage[];
+  /** Distinct version ranges, sorted - more than one means version drift */
+  versions: string[];
+}
+
+/** Canvas node id for an external dependency */
+export const externalNodeId = (name: string) => `external:${name}`;
+
+/**
+ * Collect the external dependencies of a monorepo's packages, i.e. every
+ * dependency that is not itself a package in the repository. A package that
+ * lists a dependency in several sections counts once, with its production
+ * entry taking precedence over dev and peer.
+ */
+export function collectExternalDependencies(
+  packages: PackageLayer[],
+  options: ExternalDependencyOptions = {}
+): ExternalDependency[] {
+  const {
+    includeDevDependencies = true,
+    includePeerDependencies = false,
+    minUsages = 2,
+  } = options;
+
+  const internalNames = new Set(packages.map((p) => p.packageData.name));
+  const byName = new Map<string, ExternalDependencyUsage[]>();
+
+  for (const pkg of packages) {
+    const sections: Array<[DependencyType, Record<string, string>]> = [
+      ['production', pkg.packageData.dependencies ?? {}],
+    ];
+    if (includeDevDependencies) {
+      sections.push(['development', pkg.packageData.devDependencies ?? {}]);
+    }
+    if (includePeerDependencies) {
+      sections.push(['peer', pkg.packageData.peerDependencies ?? {}]);
+    }
+
+    const seen = new Set<string>();
+    for (const [dependencyType, deps] of sections) {
+      for (const [name, version] of Object.entries(deps)) {
+        if (internalNames.has(name) || seen.has(name)) continue;
+        seen.add(name);
+
+        const usages = byName.get(name) ?? [];
+        usages.push({
+          packageId: pkg.id,
+          packageName: pkg.packageData.name,
+          version,
+          dependencyType,
+        });
+        byName.set(name, usages);
+      }
+    }
+  }
+
+  return [...byName.entries()]
+    .filter(([, usages]) => usages.length >= minUsages)
+    .map(([name, usages]) => ({
+      name,
+      usages,
+      versions: [...new Set(usages.map((u) => u.version))].sort(),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * External dependencies that different packages declare with different
+ * version ranges
+ */
+export function findVersionDrift(
+  packages: PackageLayer[],
+  options: Omit<ExternalDependencyOptions, 'minUsages'> = {}
+): ExternalDependency[] {
+  return collectExternalDependencies(packages, {
+    ...options,
+    minUsages: 2,
+  }).filter((dep) => dep.versions.length > 1);
+}
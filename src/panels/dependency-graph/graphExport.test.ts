@@ -0,0 +1,116 @@
+/**
+ * Tests for dependency graph export
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMockPackage } from '../../mocks/packages';
+import { dependencyTreeToCanvas } from './dependencyToCanvas';
+import { canvasToDot, canvasToMermaid, canvasToSvg } from './graphExport';
+
+const canvas = dependencyTreeToCanvas([
+  createMockPackage('@acme/app', {
+    dependencies: ['@acme/ui'],
+    devDependencies: ['@acme/test-utils'],
+  }),
+  createMockPackage('@acme/ui'),
+  createMockPackage('@acme/test-utils'),
+]);
+
+// Place the nodes as a layout would
+canvas.nodes = canvas.nodes?.map((node, index) => ({
+  ...node,
+  x: index * 200,
+  y: index * 100,
+}));
+
+describe('canvasToDot', () => {
+  test('declares every node and edge', () => {
+    const dot = canvasToDot(canvas, { direction: 'LR', title: 'acme' });
+
+    expect(dot.startsWith('digraph "acme" {\n  rankdir=LR;')).toBe(true);
+    expect(dot).toContain('"@acme/ui" [label="@acme/ui", fillcolor="#06b6d4"');
+    expect(dot).toContain(
+      '"@acme/app" -> "@acme/ui" [color="#6366f1", penwidth=2]'
+    );
+    expect(dot).toContain(
+      '"@acme/app" -> "@acme/test-utils" [color="#94a3b8", penwidth=1, style=dashed]'
+    );
+    expect(dot.trimEnd().endsWith('}')).toBe(true);
+  });
+
+  test('escapes quotes in labels', () => {
+    const dot = canvasToDot({
+      nodes: [
+        {
+          id: 'a',
+          x: 0,
+          y: 0,
+          width: 10,
+          height: 10,
+          type: 'text',
+          text: 'say "hi"',
+        },
+      ],
+      edges: [],
+    });
+
+    expect(dot).toContain('[label="say \\"hi\\""');
+  });
+});
+
+describe('canvasToMermaid', () => {
+  test('uses generated ids with package names as labels', () => {
+    const mermaid = canvasToMermaid(canvas);
+
+    expect(mermaid.split('\n').slice(0, 6)).toEqual([
+      'graph TB',
+      '  n0["@acme/app"]',
+      '  n1["@acme/ui"]',
+      '  n2["@acme/test-utils"]',
+      '  n0 --> n1',
+      '  n0 -.-> n2',
+    ]);
+    expect(mermaid).toContain('linkStyle 1 stroke:#94a3b8,stroke-width:1px');
+    expect(mermaid).toContain('style n1 fill:#06b6d4');
+  });
+});
+
+describe('canvasToSvg', () => {
+  test('draws nodes at their layout positions', () => {
+    const svg = canvasToSvg(canvas);
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(
+      true
+    );
+    expect(svg).toContain('<rect x="200" y="100"');
+    expect(svg).toContain('>@acme/test-utils</text>');
+    expect(svg.match(/<line /g)).toHaveLength(2);
+    expect(svg).toContain('stroke-dasharray="6 4"');
+  });
+
+  test('fits the view box to the nodes', () => {
+    const svg = canvasToSvg(canvas);
+
+    // Nodes span 0..580 x 0..270 (180x70 nodes), plus 24px padding
+    expect(svg).toContain('viewBox="-24 -24 628 318"');
+  });
+
+  test('escapes XML in labels', () => {
+    const svg = canvasToSvg({
+      nodes: [
+        {
+          id: 'a',
+          x: 0,
+          y: 0,
+          width: 10,
+          height: 10,
+          type: 'text',
+          text: '<a & b>',
+        },
+      ],
+      edges: [],
+    });
+
+    expect(svg).toContain('&lt;a &amp; b&gt;');
+  });
+});
@@ -0,0 +1,275 @@
+import type { ExtendedCanvas } from '@principal-ai/principal-view-core';
+
+/** Fallback for nodes and edges without a hex color */
+const DEFAULT_COLOR = '#6366f1';
+
+export type GraphExportFormat = 'dot' | 'mermaid' | 'svg';
+
+export interface GraphExportOptions {
+  /** Graph direction, as in the layout settings (default: TB) */
+  direction?: 'TB' | 'BT' | 'LR' | 'RL';
+  /** Graph name, used as the DOT graph id and the SVG title */
+  title?: string;
+}
+
+type CanvasNode = NonNullable<ExtendedCanvas['nodes']>[number];
+type CanvasEdge = NonNullable<ExtendedCanvas['edges']>[number];
+
+interface EdgeStyle {
+  style: string;
+  color: string;
+  width: number;
+  directed: boolean;
+}
+
+const hexColor = (color: string | undefined) =>
+  color && color.startsWith('#') ? color : DEFAULT_COLOR;
+
+const nodeLabel = (node: CanvasNode) =>
+  ('text' in node && typeof node.text === 'string' && node.text) || node.id;
+
+/**
+ * Style of an edge from the canvas edge types - the same one GraphRenderer
+ * draws, so highlighted and cycle edges keep their colors when exported
+ */
+function edgeStyle(canvas: ExtendedCanvas, edge: CanvasEdge): EdgeStyle {
+  const type = edge.pv?.edgeType
+    ? canvas.pv?.edgeTypes?.[edge.pv.edgeType]
+    : undefined;
+  return {
+    style: type?.style ?? 'solid',
+    color: hexColor(type?.color),
+    width: type?.width ?? 1,
+    directed: type?.directed ?? true,
+  };
+}
+
+const escapeDot = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+/**
+ * Graphviz DOT source for a dependency canvas
+ */
+export function canvasToDot(
+  canvas: ExtendedCanvas,
+  options: GraphExportOptions = {}
+): string {
+  const { direction = 'TB', title = canvas.pv?.name ?? 'dependencies' } =
+    options;
+
+  const lines = [
+    `digraph "${escapeDot(title)}" {`,
+    `  rankdir=${direction};`,
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fontcolor="#ffffff"];',
+    '  edge [arrowsize=0.7];',
+  ];
+
+  for (const node of canvas.nodes ?? []) {
+    lines.push(
+      `  "${escapeDot(node.id)}" [label="${escapeDot(nodeLabel(node))}", fillcolor="${hexColor(node.color)}", color="${hexColor(node.color)}"];`
+    );
+  }
+
+  for (const edge of canvas.edges ?? []) {
+    const style = edgeStyle(canvas, edge);
+    const attributes = [
+      `color="${style.color}"`,
+      `penwidth=${style.width}`,
+      style.style !== 'solid' ? `style=${style.style}` : null,
+      style.directed ? null : 'arrowhead=none',
+    ].filter(Boolean);
+    lines.push(
+      `  "${escapeDot(edge.fromNode)}" -> "${escapeDot(edge.toNode)}" [${attributes.join(', ')}];`
+    );
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+const escapeMermaid = (value: string) => value.replace(/"/g, '#quot;');
+
+/**
+ * Mermaid flowchart (`graph`) source for a dependency canvas. Package names
+ * are not valid Mermaid ids, so nodes get generated ids with the name as
+ * their label.
+ */
+export function canvasToMermaid(
+  canvas: ExtendedCanvas,
+  options: GraphExportOptions = {}
+): string {
+  const { direction = 'TB' } = options;
+  const nodes = canvas.nodes ?? [];
+  const ids = new Map(nodes.map((node, index) => [node.id, `n${index}`]));
+
+  const lines = [`graph ${direction}`];
+  for (const node of nodes) {
+    lines.push(`  ${ids.get(node.id)}["${escapeMermaid(nodeLabel(node))}"]`);
+  }
+
+  const linkStyles: string[] = [];
+  (canvas.edges ?? [])
+    .filter((edge) => ids.has(edge.fromNode) && ids.has(edge.toNode))
+    .forEach((edge, index) => {
+      const style = edgeStyle(canvas, edge);
+      const arrow =
+        style.style === 'solid'
+          ? style.directed
+            ? '-->'
+            : '---'
+          : style.directed
+            ? '-.->'
+            : '-.-';
+      lines.push(
+        `  ${ids.get(edge.fromNode)} ${arrow} ${ids.get(edge.toNode)}`
+      );
+      linkStyles.push(
+        `  linkStyle ${index} stroke:${style.color},stroke-width:${style.width}px`
+      );
+    });
+
+  for (const node of nodes) {
+    const color = hexColor(node.color);
+    lines.push(
+      `  style ${ids.get(node.id)} fill:${color},stroke:${color},color:#ffffff`
+    );
+  }
+
+  return `${[...lines, ...linkStyles].join('\n')}\n`;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Point where the line from the node's center towards (dx, dy) leaves the node
+ */
+function boxExit(node: CanvasNode, dx: number, dy: number) {
+  const cx = node.x + node.width / 2;
+  const cy = node.y + node.height / 2;
+  const scale = Math.min(
+    dx === 0 ? Infinity : node.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : node.height / 2 / Math.abs(dy)
+  );
+  return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+const DASH_ARRAYS: Record<string, string> = {
+  dashed: '6 4',
+  dotted: '2 3',
+};
+
+/**
+ * Standalone SVG of a laid out dependency canvas, drawn at the positions
+ * computed by the Sugiyama/force layout
+ */
+export function canvasToSvg(
+  canvas: ExtendedCanvas,
+  options: GraphExportOptions = {}
+): string {
+  const { title = canvas.pv?.name ?? 'Dependencies' } = options;
+  const padding = 24;
+  const nodes = canvas.nodes ?? [];
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+  const bound = (values: number[], pick: (...v: number[]) => number) =>
+    values.length > 0 ? pick(...values) : 0;
+  const minX =
+    bound(
+      nodes.map((node) => node.x),
+      Math.min
+    ) - padding;
+  const minY =
+    bound(
+      nodes.map((node) => node.y),
+      Math.min
+    ) - padding;
+  const maxX = bound(
+    nodes.map((node) => node.x + node.width),
+    Math.max
+  );
+  const maxY = bound(
+    nodes.map((node) => node.y + node.height),
+    Math.max
+  );
+  const width = maxX - minX + padding;
+  const height = maxY - minY + padding;
+
+  // One arrowhead marker per edge color
+  const markerIds = new Map<string, string>();
+  const edges: string[] = [];
+  for (const edge of canvas.edges ?? []) {
+    const from = nodesById.get(edge.fromNode);
+    const to = nodesById.get(edge.toNode);
+    if (!from || !to) continue;
+
+    const style = edgeStyle(canvas, edge);
+    const dx = to.x + to.width / 2 - (from.x + from.width / 2);
+    const dy = to.y + to.height / 2 - (from.y + from.height / 2);
+    if (dx === 0 && dy === 0) continue;
+    const start = boxExit(from, dx, dy);
+    const end = boxExit(to, -dx, -dy);
+
+    let marker = '';
+    if (style.directed) {
+      if (!markerIds.has(style.color)) {
+        markerIds.set(style.color, `arrow-${markerIds.size}`);
+      }
+      marker = ` marker-end="url(#${markerIds.get(style.color)})"`;
+    }
+    const dash = DASH_ARRAYS[style.style]
+      ? ` stroke-dasharray="${DASH_ARRAYS[style.style]}"`
+      : '';
+    edges.push(
+      `  <line x1="${start.x}" y1="${start.y}" x2="${end.x}" y2="${end.y}" stroke="${style.color}" stroke-width="${style.width}"${dash}${marker} />`
+    );
+  }
+
+  const markers = [...markerIds].map(
+    ([color, id]) =>
+      `    <marker id="${id}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${color}" /></marker>`
+  );
+
+  const nodeShapes = nodes.map((node) => {
+    const color = hexColor(node.color);
+    return [
+      `  <g>`,
+      `    <rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="8" fill="${color}" />`,
+      `    <text x="${node.x + node.width / 2}" y="${node.y + node.height / 2}" text-anchor="middle" dominant-baseline="central" fill="#ffffff" font-family="Helvetica, Arial, sans-serif" font-size="13">${escapeXml(nodeLabel(node))}</text>`,
+      `  </g>`,
+    ].join('\n');
+  });
+
+  return `${[
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}">`,
+    `  <title>${escapeXml(title)}</title>`,
+    '  <defs>',
+    ...markers,
+    '  </defs>',
+    ...edges,
+    ...nodeShapes,
+    '</svg>',
+  ].join('\n')}\n`;
+}
+
+/**
+ * Export a canvas in the given format
+ */
+export function exportCanvas(
+  canvas: ExtendedCanvas,
+  format: GraphExportFormat,
+  options: GraphExportOptions = {}
+): string {
+  switch (format) {
+    case 'dot':
+      return canvasToDot(canvas, options);
+    case 'mermaid':
+      return canvasToMermaid(canvas, options);
+    case 'svg':
+      return canvasToSvg(canvas, options);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Tests for dependency graph selection and focus
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMockPackage } from '../../mocks/packages';
+import { buildPackageGraph } from '../../utils/packageGraph';
+import { dependencyTreeToCanvas } from './dependencyToCanvas';
+import {
+  computeDependencyClosure,
+  filterCanvasNodes,
+  highlightClosure,
+  packagesWithinHops,
+} from './graphSelection';
+
+// utils <- core <- ui <- app, core <- cli, and docs on its own
+const packages = [
+  createMockPackage('utils'),
+  createMockPackage('core', { dependencies: ['utils'] }),
+  createMockPackage('ui', { dependencies: ['core'] }),
+  createMockPackage('app', { dependencies: ['ui'] }),
+  createMockPackage('cli', { dependencies: ['core'] }),
+  createMockPackage('docs'),
+];
+const graph = buildPackageGraph(packages);
+
+describe('computeDependencyClosure', () => {
+  test('collects transitive dependencies and dependents', () => {
+    const closure = computeDependencyClosure(graph, 'ui');
+    expect([...closure.upstream].sort()).toEqual(['core', 'utils']);
+    expect([...closure.downstream]).toEqual(['app']);
+  });
+});
+
+describe('packagesWithinHops', () => {
+  test('follows dependency chains in both directions', () => {
+    expect([...packagesWithinHops(graph, 'core', 1)].sort()).toEqual([
+      'cli',
+      'core',
+      'ui',
+      'utils',
+    ]);
+    expect(packagesWithinHops(graph, 'core', 2).has('app')).toBe(true);
+  });
+
+  test('does not pull in siblings sharing a dependency', () => {
+    expect(packagesWithinHops(graph, 'ui', 5).has('cli')).toBe(false);
+  });
+});
+
+describe('canvas selection', () => {
+  const canvas = dependencyTreeToCanvas(packages);
+
+  test('dims nodes outside the closure and colors closure edges', () => {
+    const highlighted = highlightClosure(
+      canvas,
+      'core',
+      computeDependencyClosure(graph, 'core')
+    );
+
+    const docs = highlighted.nodes?.find((node) => node.id === 'docs');
+    const core = highlighted.nodes?.find((node) => node.id === 'core');
+    expect(docs?.color).not.toBe(core?.color);
+
+    const edgeTypes = Object.fromEntries(
+      (highlighted.edges ?? []).map((edge) => [edge.id, edge.pv?.edgeType])
+    );
+    expect(edgeTypes).toEqual({
+      'core->utils': 'upstream',
+      'ui->core': 'downstream',
+      'app->ui': 'downstream',
+      'cli->core': 'downstream',
+    });
+  });
+
+  test('filterCanvasNodes keeps only edges between kept nodes', () => {
+    const filtered = filterCanvasNodes(canvas, new Set(['core', 'ui', 'app']));
+    expect(filtered.nodes?.map((node) => node.id)).toEqual([
+      'core',
+      'ui',
+      'app',
+    ]);
+    expect(filtered.edges?.map((edge) => edge.id)).toEqual([
+      'ui->core',
+      'app->ui',
+    ]);
+  });
+});
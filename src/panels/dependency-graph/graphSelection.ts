@@ -0,0 +1,144 @@
+import type { ExtendedCanvas } from '@principal-ai/principal-view-core';
+import type { PackageGraph } from '../../utils/packageGraph';
+
+/** Color of packages outside the selected package's closure */
+const DIMMED_COLOR = '#475569';
+
+/**
+ * Edge types for a highlighted selection, added to the canvas' own types
+ */
+const SELECTION_EDGE_TYPES = {
+  upstream: {
+    style: 'solid' as const,
+    color: '#22c55e',
+    width: 3,
+    directed: true,
+  },
+  downstream: {
+    style: 'solid' as const,
+    color: '#f59e0b',
+    width: 3,
+    directed: true,
+  },
+  dimmed: {
+    style: 'dashed' as const,
+    color: DIMMED_COLOR,
+    width: 1,
+    directed: true,
+  },
+};
+
+export interface DependencyClosure {
+  /** Packages the selected package depends on, directly or transitively */
+  upstream: Set<string>;
+  /** Packages depending on the selected package, directly or transitively */
+  downstream: Set<string>;
+}
+
+/**
+ * Walk one direction of the graph from a package, up to `maxHops` edges away
+ */
+function walk(
+  edges: Map<string, string[]>,
+  startId: string,
+  maxHops = Infinity
+): Set<string> {
+  const reached = new Set<string>();
+  let frontier = [startId];
+  for (let hop = 0; hop < maxHops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbor of edges.get(id) ?? []) {
+        if (neighbor === startId || reached.has(neighbor)) continue;
+        reached.add(neighbor);
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+  return reached;
+}
+
+/**
+ * Everything a package depends on and everything that depends on it
+ */
+export function computeDependencyClosure(
+  graph: PackageGraph,
+  packageId: string
+): DependencyClosure {
+  return {
+    upstream: walk(graph.dependencies, packageId),
+    downstream: walk(graph.dependents, packageId),
+  };
+}
+
+/**
+ * The package plus its dependencies and dependents up to `hops` edges away.
+ * Only dependency chains count, so siblings sharing a dependency are not
+ * pulled in.
+ */
+export function packagesWithinHops(
+  graph: PackageGraph,
+  packageId: string,
+  hops: number
+): Set<string> {
+  return new Set([
+    packageId,
+    ...walk(graph.dependencies, packageId, hops),
+    ...walk(graph.dependents, packageId, hops),
+  ]);
+}
+
+/**
+ * Dim every node and edge outside the selected package's closure, and color
+ * the edges leading up (dependencies) and down (dependents) from it
+ */
+export function highlightClosure(
+  canvas: ExtendedCanvas,
+  selectedId: string,
+  closure: DependencyClosure
+): ExtendedCanvas {
+  const inClosure = (id: string) =>
+    id === selectedId || closure.upstream.has(id) || closure.downstream.has(id);
+
+  return {
+    ...canvas,
+    nodes: canvas.nodes?.map((node) =>
+      inClosure(node.id) ? node : { ...node, color: DIMMED_COLOR }
+    ),
+    edges: canvas.edges?.map((edge) => {
+      const isUpstream =
+        (edge.fromNode === selectedId || closure.upstream.has(edge.fromNode)) &&
+        closure.upstream.has(edge.toNode);
+      const isDownstream =
+        closure.downstream.has(edge.fromNode) &&
+        (edge.toNode === selectedId || closure.downstream.has(edge.toNode));
+      const edgeType = isUpstream
+        ? 'upstream'
+        : isDownstream
+          ? 'downstream'
+          : 'dimmed';
+      return { ...edge, pv: { ...edge.pv, edgeType } };
+    }),
+    pv: canvas.pv && {
+      ...canvas.pv,
+      edgeTypes: { ...canvas.pv.edgeTypes, ...SELECTION_EDGE_TYPES },
+    },
+  };
+}
+
+/**
+ * Keep only the given nodes and the edges between them
+ */
+export function filterCanvasNodes(
+  canvas: ExtendedCanvas,
+  nodeIds: ReadonlySet<string>
+): ExtendedCanvas {
+  return {
+    ...canvas,
+    nodes: canvas.nodes?.filter((node) => nodeIds.has(node.id)),
+    edges: canvas.edges?.filter(
+      (edge) => nodeIds.has(edge.fromNode) && nodeIds.has(edge.toNode)
+    ),
+  };
+}
@@ -11,3 +11,38 @@ export {
   type ForceLayoutOptions,
   type SugiyamaLayoutOptions,
 } from './forceLayout';
+export {
+  computeDependencyClosure,
+  packagesWithinHops,
+  highlightClosure,
+  filterCanvasNodes,
+  type DependencyClosure,
+} from './graphSelection';
+export {
+  findDependencyCycles,
+  markCycleEdges,
+  type DependencyCycle,
+} from './dependencyCycles';
+export {
+  collectExternalDependencies,
+  findVersionDrift,
+  type ExternalDependency,
+  type ExternalDependencyOptions,
+  type ExternalDependencyUsage,
+} from './externalDependencies';
+export { VersionDriftTable } from './VersionDriftTable';
+export {
+  canvasToDot,
+  canvasToMermaid,
+  canvasToSvg,
+  exportCanvas,
+  type GraphExportFormat,
+  type GraphExportOptions,
+} from './graphExport';
+export {
+  computeBuildLayers,
+  applyBuildLayerLayout,
+  markCriticalPath,
+  type BuildLayers,
+  type BuildLayerLayoutOptions,
+} from './buildLayers';
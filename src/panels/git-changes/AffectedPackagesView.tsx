@@ -0,0 +1,178 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { ArrowRight, Package } from 'lucide-react';
+import type { PackageLayer } from '../../types';
+import type {
+  AffectedPackage,
+  AffectedPackagesResult,
+} from '../../utils/affectedPackages';
+import { normalizePackagePath } from '../../utils/packageGraph';
+
+interface AffectedPackagesViewProps {
+  affected: AffectedPackagesResult;
+  /** Path of the selected package, if any */
+  selectedPackagePath?: string | null;
+  /** Called with the clicked package, or null when it is deselected */
+  onPackageSelect: (pkg: PackageLayer | null) => void;
+}
+
+/**
+ * AffectedPackagesView - packages the working tree changes, followed by the
+ * packages that depend on them, i.e. everything to test and release
+ */
+export const AffectedPackagesView: React.FC<AffectedPackagesViewProps> = ({
+  affected,
+  selectedPackagePath,
+  onPackageSelect,
+}) => {
+  const { theme } = useTheme();
+
+  const sectionHeaderStyle: React.CSSProperties = {
+    padding: '8px 12px 4px',
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[0],
+    fontWeight: theme.fontWeights.semibold,
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: '0.04em',
+  };
+
+  const renderRow = (entry: AffectedPackage) => {
+    const { packageData } = entry.package;
+    const path = normalizePackagePath(packageData.path);
+    const isSelected = selectedPackagePath === path;
+    const isChanged = entry.depth === 0;
+
+    return (
+      <div
+        key={entry.package.id}
+        className="git-changes-row"
+        onClick={() => onPackageSelect(isSelected ? null : entry.package)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          padding: '5px 12px',
+          cursor: 'pointer',
+          fontFamily: theme.fonts.body,
+          fontSize: theme.fontSizes[1],
+          color: theme.colors.text,
+          backgroundColor: isSelected
+            ? `${theme.colors.primary}25`
+            : 'transparent',
+        }}
+      >
+        <Package
+          size={14}
+          color={isChanged ? theme.colors.warning : theme.colors.info}
+        />
+        <span
+          style={{
+            fontWeight: theme.fontWeights.semibold,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {packageData.name}
+        </span>
+        <span
+          title={isChanged ? path || 'root' : entry.via.join(' → ')}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '3px',
+            flex: 1,
+            minWidth: 0,
+            overflow: 'hidden',
+            whiteSpace: 'nowrap',
+            fontSize: theme.fontSizes[0],
+            color: theme.colors.textSecondary,
+          }}
+        >
+          {isChanged ? (
+            path || 'root'
+          ) : (
+            <>
+              via
+              {entry.via.slice(0, -1).map((name, i) => (
+                <React.Fragment key={name}>
+                  {i > 0 && <ArrowRight size={10} />}
+                  <span>{name}</span>
+                </React.Fragment>
+              ))}
+            </>
+          )}
+        </span>
+        <span
+          style={{
+            padding: '0 6px',
+            borderRadius: '8px',
+            fontSize: theme.fontSizes[0],
+            color: isChanged ? theme.colors.warning : theme.colors.info,
+            backgroundColor: `${isChanged ? theme.colors.warning : theme.colors.info}20`,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {isChanged
+            ? `${entry.changedFiles.length} ${entry.changedFiles.length === 1 ? 'file' : 'files'}`
+            : `${entry.depth} ${entry.depth === 1 ? 'hop' : 'hops'}`}
+        </span>
+      </div>
+    );
+  };
+
+  if (affected.changed.length === 0) {
+    return (
+      <div
+        style={{
+          padding: '20px',
+          textAlign: 'center',
+          color: theme.colors.textSecondary,
+          fontFamily: theme.fonts.body,
+          fontSize: theme.fontSizes[1],
+        }}
+      >
+        No packages are affected by the current changes
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: '4px 0' }}>
+      <div style={sectionHeaderStyle}>Changed ({affected.changed.length})</div>
+      {affected.changed.map(renderRow)}
+
+      <div style={sectionHeaderStyle}>
+        Affected dependents ({affected.dependents.length})
+      </div>
+      {affected.dependents.length > 0 ? (
+        affected.dependents.map(renderRow)
+      ) : (
+        <div
+          style={{
+            padding: '4px 12px',
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[0],
+            color: theme.colors.textSecondary,
+          }}
+        >
+          No other packages depend on the changed packages
+        </div>
+      )}
+
+      {affected.unownedFiles.length > 0 && (
+        <div
+          style={{
+            padding: '8px 12px',
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[0],
+            color: theme.colors.textSecondary,
+          }}
+        >
+          {affected.unownedFiles.length} changed{' '}
+          {affected.unownedFiles.length === 1 ? 'file is' : 'files are'} outside
+          every package
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import {
+  Archive,
+  ArrowDown,
+  ArrowUp,
+  GitBranch,
+  PackageOpen,
+  Trash2,
+} from 'lucide-react';
+import type { GitBranchInfo, GitStash } from '../../types';
+
+interface BranchHeaderProps {
+  branchInfo: GitBranchInfo;
+  /** Enables the branch switcher */
+  onSwitchBranch?: (branch: string) => void;
+  /** Enables the Apply button on stashes */
+  onApplyStash?: (stash: GitStash) => void;
+  /** Enables the Drop button on stashes */
+  onDropStash?: (stash: GitStash) => void;
+}
+
+/**
+ * BranchHeader - current branch, upstream divergence and stashes
+ */
+export const BranchHeader: React.FC<BranchHeaderProps> = ({
+  branchInfo,
+  onSwitchBranch,
+  onApplyStash,
+  onDropStash,
+}) => {
+  const { theme } = useTheme();
+  const [showStashes, setShowStashes] = useState(false);
+  const stashListRef = useRef<HTMLDivElement>(null);
+  const stashButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Close the stash list when clicking outside (the toggle button closes
+  // it through its own click)
+  useEffect(() => {
+    if (!showStashes) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      const target = e.target as Node;
+      if (
+        stashListRef.current &&
+        !stashListRef.current.contains(target) &&
+        !stashButtonRef.current?.contains(target)
+      ) {
+        setShowStashes(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showStashes]);
+
+  const { currentBranch, upstream, ahead, behind, branches, stashes } =
+    branchInfo;
+  const canSwitch = !!onSwitchBranch && branches.length > 1;
+
+  const stashButtonStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '2px 6px',
+    borderRadius: '4px',
+    border: `1px solid ${theme.colors.border}`,
+    backgroundColor: 'transparent',
+    color: theme.colors.textSecondary,
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[0],
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'relative',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '6px 12px',
+        borderBottom: `1px solid ${theme.colors.border}`,
+        fontFamily: theme.fonts.body,
+        fontSize: theme.fontSizes[0],
+        color: theme.colors.textSecondary,
+      }}
+    >
+      <GitBranch size={14} color={theme.colors.primary} />
+      {canSwitch && currentBranch ? (
+        <select
+          value={currentBranch}
+          onChange={(e) => onSwitchBranch?.(e.target.value)}
+          title="Switch branch"
+          style={{
+            maxWidth: '50%',
+            padding: '1px 4px',
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[0],
+            fontWeight: theme.fontWeights.semibold,
+            color: theme.colors.text,
+            backgroundColor: theme.colors.background,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: '4px',
+          }}
+        >
+          {branches.map((branch) => (
+            <option key={branch} value={branch}>
+              {branch}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span
+          style={{
+            fontWeight: theme.fontWeights.semibold,
+            color: theme.colors.text,
+          }}
+        >
+          {currentBranch ?? 'detached HEAD'}
+        </span>
+      )}
+
+      {upstream ? (
+        <span
+          title={`${ahead} ahead, ${behind} behind ${upstream}`}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            minWidth: 0,
+          }}
+        >
+          <span
+            style={{
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {upstream}
+          </span>
+          <span
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              color: ahead > 0 ? theme.colors.success : undefined,
+            }}
+          >
+            <ArrowUp size={12} />
+            {ahead}
+          </span>
+          <span
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              color: behind > 0 ? theme.colors.warning : undefined,
+            }}
+          >
+            <ArrowDown size={12} />
+            {behind}
+          </span>
+        </span>
+      ) : (
+        currentBranch && <span>no upstream</span>
+      )}
+
+      <span style={{ flex: 1 }} />
+
+      {stashes.length > 0 && (
+        <button
+          ref={stashButtonRef}
+          type="button"
+          title="Stashes"
+          onClick={() => setShowStashes((prev) => !prev)}
+          style={stashButtonStyle}
+        >
+          <Archive size={12} />
+          {stashes.length}
+        </button>
+      )}
+
+      {showStashes && (
+        <div
+          ref={stashListRef}
+          style={{
+            position: 'absolute',
+            top: '100%',
+            right: '8px',
+            zIndex: 10,
+            minWidth: '240px',
+            maxWidth: '90%',
+            maxHeight: '240px',
+            overflow: 'auto',
+            padding: '4px 0',
+            backgroundColor: theme.colors.background,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: '6px',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+          }}
+        >
+          {stashes.map((stash) => (
+            <div
+              key={stash.ref}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '6px 10px',
+              }}
+            >
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div
+                  title={stash.message}
+                  style={{
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    color: theme.colors.text,
+                  }}
+                >
+                  {stash.message}
+                </div>
+                <div style={{ fontFamily: theme.fonts.monospace }}>
+                  {stash.ref}
+                  {stash.branch && ` on ${stash.branch}`}
+                </div>
+              </div>
+              {onApplyStash && (
+                <button
+                  type="button"
+                  title="Apply stash"
+                  onClick={() => {
+                    setShowStashes(false);
+                    onApplyStash(stash);
+                  }}
+                  style={stashButtonStyle}
+                >
+                  <PackageOpen size={12} />
+                  Apply
+                </button>
+              )}
+              {onDropStash && (
+                <button
+                  type="button"
+                  title="Drop stash"
+                  onClick={() => {
+                    setShowStashes(false);
+                    onDropStash(stash);
+                  }}
+                  style={{ ...stashButtonStyle, color: theme.colors.error }}
+                >
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,317 @@
+import React, { useMemo, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { ChevronDown, ChevronRight, FileText, Folder } from 'lucide-react';
+import type { GitChangeSelectionStatus, GitRenamedFile } from '../../types';
+import { formatRenameStatus } from './renames';
+import { useWindowedRows } from './useWindowedRows';
+
+/**
+ * A changed file as shown in the Changes view. A file that is both staged
+ * and modified appears once per status.
+ */
+export interface ChangedFileEntry {
+  path: string;
+  status: GitChangeSelectionStatus;
+  /** Added lines, once the diff has been loaded */
+  additions?: number;
+  /** Deleted lines, once the diff has been loaded */
+  deletions?: number;
+  /** Set when the file was renamed or copied from another path */
+  rename?: GitRenamedFile;
+}
+
+interface ChangedDirectoryNode {
+  /** Display name - single-child directory chains are compacted (`src/panels`) */
+  name: string;
+  path: string;
+  directories: ChangedDirectoryNode[];
+  files: ChangedFileEntry[];
+}
+
+/**
+ * Key identifying an entry, since the same path can appear twice
+ */
+export const changedFileKey = (entry: ChangedFileEntry) =>
+  `${entry.status}:${entry.path}`;
+
+const STATUS_LETTERS: Record<GitChangeSelectionStatus, string> = {
+  staged: 'S',
+  unstaged: 'M',
+  untracked: 'U',
+  deleted: 'D',
+};
+
+/**
+ * Build a directory tree from a flat list of changed files
+ */
+export function buildChangedFilesTree(
+  entries: ChangedFileEntry[]
+): ChangedDirectoryNode {
+  const root: ChangedDirectoryNode = {
+    name: '',
+    path: '',
+    directories: [],
+    files: [],
+  };
+
+  // Directories by path, so each level is found without scanning siblings
+  const directories = new Map<string, ChangedDirectoryNode>();
+
+  for (const entry of entries) {
+    const parts = entry.path.split('/');
+    let node = root;
+    let path = '';
+    for (let i = 0; i < parts.length - 1; i++) {
+      path = path ? `${path}/${parts[i]}` : parts[i];
+      let child = directories.get(path);
+      if (!child) {
+        child = { name: parts[i], path, directories: [], files: [] };
+        directories.set(path, child);
+        node.directories.push(child);
+      }
+      node = child;
+    }
+    node.files.push(entry);
+  }
+
+  const compact = (node: ChangedDirectoryNode): ChangedDirectoryNode => {
+    let current = node;
+    while (current.files.length === 0 && current.directories.length === 1) {
+      const [only] = current.directories;
+      current = { ...only, name: `${current.name}/${only.name}` };
+    }
+    return {
+      ...current,
+      directories: current.directories
+        .map(compact)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      files: [...current.files].sort((a, b) => a.path.localeCompare(b.path)),
+    };
+  };
+
+  return {
+    ...root,
+    directories: root.directories
+      .map(compact)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    files: [...root.files].sort((a, b) => a.path.localeCompare(b.path)),
+  };
+}
+
+/**
+ * Changed files in the order the tree displays them, for range selection
+ */
+export function flattenChangedFiles(
+  entries: ChangedFileEntry[]
+): ChangedFileEntry[] {
+  const ordered: ChangedFileEntry[] = [];
+  const visit = (node: ChangedDirectoryNode) => {
+    node.directories.forEach(visit);
+    ordered.push(...node.files);
+  };
+  visit(buildChangedFilesTree(entries));
+  return ordered;
+}
+
+/** Fixed row height, required for windowed rendering */
+const ROW_HEIGHT = 24;
+
+type TreeRow =
+  | { type: 'directory'; node: ChangedDirectoryNode; depth: number }
+  | { type: 'file'; entry: ChangedFileEntry; depth: number };
+
+interface ChangedFilesTreeProps {
+  entries: ChangedFileEntry[];
+  /** Keys of the selected entries (see changedFileKey) */
+  selectedKeys?: ReadonlySet<string>;
+  /** Modifier keys on the event drive multi-select */
+  onSelect: (entry: ChangedFileEntry, event: React.MouseEvent) => void;
+  onContextMenu?: (
+    event: React.MouseEvent,
+    nodePath: string,
+    isFolder: boolean
+  ) => void;
+}
+
+/**
+ * ChangedFilesTree - changed files only, grouped by directory, with status
+ * letters and +/- line counts. Only rows in view are rendered, so it stays
+ * responsive with thousands of changed files.
+ */
+export const ChangedFilesTree: React.FC<ChangedFilesTreeProps> = ({
+  entries,
+  selectedKeys,
+  onSelect,
+  onContextMenu,
+}) => {
+  const { theme } = useTheme();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const tree = useMemo(() => buildChangedFilesTree(entries), [entries]);
+
+  // Visible rows in display order, skipping collapsed directories
+  const rows = useMemo(() => {
+    const result: TreeRow[] = [];
+    const visit = (node: ChangedDirectoryNode, depth: number) => {
+      result.push({ type: 'directory', node, depth });
+      if (collapsed.has(node.path)) return;
+      node.directories.forEach((child) => visit(child, depth + 1));
+      node.files.forEach((entry) =>
+        result.push({ type: 'file', entry, depth: depth + 1 })
+      );
+    };
+    tree.directories.forEach((node) => visit(node, 0));
+    tree.files.forEach((entry) =>
+      result.push({ type: 'file', entry, depth: -1 })
+    );
+    return result;
+  }, [tree, collapsed]);
+
+  const { containerRef, start, end } = useWindowedRows(rows.length, ROW_HEIGHT);
+
+  const statusColors: Record<GitChangeSelectionStatus, string> = {
+    staged: theme.colors.success,
+    unstaged: theme.colors.warning,
+    untracked: theme.colors.info,
+    deleted: theme.colors.error,
+  };
+
+  const toggle = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const rowStyle = (depth: number): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    height: `${ROW_HEIGHT}px`,
+    boxSizing: 'border-box',
+    padding: `0 12px 0 ${12 + depth * 14}px`,
+    cursor: 'pointer',
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[1],
+    color: theme.colors.text,
+    whiteSpace: 'nowrap',
+  });
+
+  const renderFile = (entry: ChangedFileEntry, depth: number) => {
+    const key = changedFileKey(entry);
+    const isSelected = !!selectedKeys?.has(key);
+    const name = entry.path.split('/').pop() || entry.path;
+    const { rename } = entry;
+
+    return (
+      <div
+        key={key}
+        className="git-changes-row"
+        title={rename ? `${rename.oldPath} \u2192 ${entry.path}` : entry.path}
+        style={{
+          ...rowStyle(depth),
+          paddingLeft: `${12 + depth * 14 + 20}px`,
+          backgroundColor: isSelected
+            ? `${theme.colors.primary}25`
+            : 'transparent',
+          textDecoration:
+            entry.status === 'deleted' ? 'line-through' : undefined,
+        }}
+        onClick={(e) => onSelect(entry, e)}
+        onContextMenu={(e) => onContextMenu?.(e, entry.path, false)}
+      >
+        <FileText size={14} color={theme.colors.textSecondary} />
+        <span
+          style={{
+            flex: 1,
+            minWidth: 0,
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+          }}
+        >
+          {rename && (
+            <span style={{ color: theme.colors.textSecondary }}>
+              {rename.oldPath} {'\u2192'}{' '}
+            </span>
+          )}
+          {name}
+        </span>
+        {entry.additions !== undefined && entry.deletions !== undefined && (
+          <span
+            style={{
+              fontFamily: theme.fonts.monospace,
+              fontSize: theme.fontSizes[0],
+            }}
+          >
+            <span style={{ color: theme.colors.success }}>
+              +{entry.additions}
+            </span>{' '}
+            <span style={{ color: theme.colors.error }}>
+              -{entry.deletions}
+            </span>
+          </span>
+        )}
+        <span
+          title={
+            rename ? `${rename.kind}, ${rename.similarity}% similar` : undefined
+          }
+          style={{
+            minWidth: '14px',
+            textAlign: 'center',
+            fontFamily: theme.fonts.monospace,
+            fontSize: theme.fontSizes[0],
+            fontWeight: theme.fontWeights.semibold,
+            color: statusColors[entry.status],
+          }}
+        >
+          {rename ? formatRenameStatus(rename) : STATUS_LETTERS[entry.status]}
+        </span>
+      </div>
+    );
+  };
+
+  const renderDirectory = (node: ChangedDirectoryNode, depth: number) => {
+    const isCollapsed = collapsed.has(node.path);
+
+    return (
+      <div
+        key={`dir:${node.path}`}
+        className="git-changes-row"
+        style={rowStyle(depth)}
+        onClick={() => toggle(node.path)}
+        onContextMenu={(e) => onContextMenu?.(e, node.path, true)}
+      >
+        {isCollapsed ? (
+          <ChevronRight size={14} color={theme.colors.textSecondary} />
+        ) : (
+          <ChevronDown size={14} color={theme.colors.textSecondary} />
+        )}
+        <Folder size={14} color={theme.colors.textSecondary} />
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>
+          {node.name}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ padding: '8px 0' }}>
+      <div ref={containerRef}>
+        <div style={{ height: `${start * ROW_HEIGHT}px` }} />
+        {rows
+          .slice(start, end)
+          .map((row) =>
+            row.type === 'directory'
+              ? renderDirectory(row.node, row.depth)
+              : renderFile(row.entry, row.depth)
+          )}
+        <div style={{ height: `${(rows.length - end) * ROW_HEIGHT}px` }} />
+      </div>
+    </div>
+  );
+};
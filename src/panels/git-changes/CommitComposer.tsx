@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { GitCommitHorizontal } from 'lucide-react';
+import type { GitCommitOptions } from '../../types';
+import {
+  CONVENTIONAL_COMMIT_TYPES,
+  SUBJECT_HARD_LIMIT,
+  SUBJECT_SOFT_LIMIT,
+  applyCommitType,
+  getSubjectLengthStatus,
+  parseCommitMessage,
+  validateCommitMessage,
+} from './commitMessage';
+
+interface CommitComposerProps {
+  /** Number of staged files - committing is disabled without any */
+  stagedCount: number;
+  onCommit: (message: string, options: GitCommitOptions) => Promise<void>;
+}
+
+/**
+ * CommitComposer - commit message editor with a conventional commit type
+ * picker, subject length guidance and an amend toggle
+ */
+export const CommitComposer: React.FC<CommitComposerProps> = ({
+  stagedCount,
+  onCommit,
+}) => {
+  const { theme } = useTheme();
+  const [message, setMessage] = useState('');
+  const [amend, setAmend] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = parseCommitMessage(message);
+  const lengthStatus = getSubjectLengthStatus(parsed.subject);
+  const validationError = message ? validateCommitMessage(message) : null;
+  const canCommit =
+    !isCommitting &&
+    (stagedCount > 0 || amend) &&
+    validateCommitMessage(message) === null;
+
+  const lengthColor =
+    lengthStatus === 'too-long'
+      ? theme.colors.error
+      : lengthStatus === 'long'
+        ? theme.colors.warning
+        : theme.colors.textSecondary;
+
+  const handleCommit = async () => {
+    if (!canCommit) return;
+    setIsCommitting(true);
+    setError(null);
+    try {
+      await onCommit(message.trim(), { amend });
+      setMessage('');
+      setAmend(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      void handleCommit();
+    }
+  };
+
+  const hint =
+    error ??
+    validationError ??
+    (lengthStatus === 'too-long'
+      ? `Subject is over ${SUBJECT_HARD_LIMIT} characters`
+      : lengthStatus === 'long'
+        ? `Keep the subject under ${SUBJECT_SOFT_LIMIT} characters`
+        : stagedCount === 0 && !amend
+          ? 'Stage files to commit'
+          : null);
+
+  const controlStyle: React.CSSProperties = {
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[0],
+    color: theme.colors.text,
+    backgroundColor: theme.colors.background,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: '4px',
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '8px 12px',
+        borderTop: `1px solid ${theme.colors.border}`,
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+        fontSize: theme.fontSizes[0],
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <select
+          value={parsed.type ?? ''}
+          onChange={(e) =>
+            setMessage((prev) => applyCommitType(prev, e.target.value || null))
+          }
+          title="Conventional commit type"
+          style={{ ...controlStyle, padding: '2px 4px' }}
+        >
+          <option value="">No type</option>
+          {CONVENTIONAL_COMMIT_TYPES.map(({ type, description }) => (
+            <option key={type} value={type} title={description}>
+              {type}
+            </option>
+          ))}
+          {/* Keep unknown types typed by hand selectable */}
+          {parsed.type &&
+            !CONVENTIONAL_COMMIT_TYPES.some((t) => t.type === parsed.type) && (
+              <option value={parsed.type}>{parsed.type}</option>
+            )}
+        </select>
+        <label
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            color: theme.colors.textSecondary,
+            cursor: 'pointer',
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={amend}
+            onChange={(e) => setAmend(e.target.checked)}
+          />
+          Amend
+        </label>
+        <span style={{ flex: 1 }} />
+        <span
+          title={`Subject length (aim for ${SUBJECT_SOFT_LIMIT}, max ${SUBJECT_HARD_LIMIT})`}
+          style={{ fontFamily: theme.fonts.monospace, color: lengthColor }}
+        >
+          {parsed.subject.length}/{SUBJECT_SOFT_LIMIT}
+        </span>
+      </div>
+
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={
+          amend
+            ? 'New message for the last commit'
+            : 'Commit message (Ctrl+Enter to commit)'
+        }
+        rows={3}
+        style={{
+          ...controlStyle,
+          fontFamily: theme.fonts.monospace,
+          padding: '6px 8px',
+          resize: 'vertical',
+          outline: 'none',
+        }}
+      />
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span
+          style={{
+            flex: 1,
+            minWidth: 0,
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+            color: error || validationError ? theme.colors.error : lengthColor,
+          }}
+        >
+          {hint}
+        </span>
+        <button
+          type="button"
+          onClick={() => void handleCommit()}
+          disabled={!canCommit}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '4px 10px',
+            border: 'none',
+            borderRadius: '4px',
+            backgroundColor: theme.colors.primary,
+            color: theme.colors.background,
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[0],
+            fontWeight: theme.fontWeights.semibold,
+            cursor: canCommit ? 'pointer' : 'not-allowed',
+            opacity: canCommit ? 1 : 0.5,
+          }}
+        >
+          <GitCommitHorizontal size={14} />
+          {isCommitting
+            ? 'Committing...'
+            : amend
+              ? 'Amend Commit'
+              : stagedCount > 0
+                ? `Commit ${stagedCount} ${stagedCount === 1 ? 'File' : 'Files'}`
+                : 'Commit'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { Check } from 'lucide-react';
+import {
+  resolveMerge,
+  type ConflictChoice,
+  type LineFormat,
+  type MergeSegment,
+} from './conflicts';
+
+/** Unchanged lines shown around each conflict */
+const CONTEXT_LINES = 3;
+
+const COLUMNS: Array<{ side: 'ours' | 'base' | 'theirs'; label: string }> = [
+  { side: 'ours', label: 'Ours' },
+  { side: 'base', label: 'Base' },
+  { side: 'theirs', label: 'Theirs' },
+];
+
+const CHOICES: Array<{ choice: ConflictChoice; label: string }> = [
+  { choice: 'ours', label: 'Accept ours' },
+  { choice: 'theirs', label: 'Accept theirs' },
+  { choice: 'both', label: 'Accept both' },
+  { choice: 'base', label: 'Keep base' },
+];
+
+interface ConflictViewerProps {
+  segments: MergeSegment[];
+  /** Line ending and final newline of the file, kept in the merged result */
+  lineFormat?: LineFormat;
+  /**
+   * Enables saving - called with the merged file once every conflict has a
+   * choice
+   */
+  onResolve?: (content: string) => void;
+}
+
+/**
+ * ConflictViewer - three-way (ours/base/theirs) view of a conflicted file,
+ * where each conflict is resolved by accepting one or both sides
+ */
+export const ConflictViewer: React.FC<ConflictViewerProps> = ({
+  segments,
+  lineFormat,
+  onResolve,
+}) => {
+  const { theme } = useTheme();
+  const [choices, setChoices] = useState<Array<ConflictChoice | undefined>>([]);
+
+  useEffect(() => {
+    setChoices([]);
+  }, [segments]);
+
+  const conflictCount = useMemo(
+    () => segments.filter((segment) => segment.type === 'conflict').length,
+    [segments]
+  );
+  const resolvedCount = choices.filter(Boolean).length;
+  const resolved = resolveMerge(segments, choices, lineFormat);
+
+  const choose = (index: number, choice: ConflictChoice) => {
+    setChoices((prev) => {
+      const next = [...prev];
+      next[index] = next[index] === choice ? undefined : choice;
+      return next;
+    });
+  };
+
+  const codeStyle: React.CSSProperties = {
+    fontFamily: theme.fonts.monospace,
+    fontSize: theme.fontSizes[0],
+    lineHeight: 1.5,
+    whiteSpace: 'pre',
+    color: theme.colors.text,
+  };
+
+  const buttonStyle = (active = false): React.CSSProperties => ({
+    padding: '2px 8px',
+    borderRadius: '4px',
+    border: `1px solid ${active ? theme.colors.primary : theme.colors.border}`,
+    backgroundColor: active ? `${theme.colors.primary}20` : 'transparent',
+    color: active ? theme.colors.primary : theme.colors.textSecondary,
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[0],
+    cursor: 'pointer',
+  });
+
+  const renderLines = (lines: string[]) =>
+    lines.map((line, i) => (
+      <div key={i} style={{ padding: '0 12px' }}>
+        {line || ' '}
+      </div>
+    ));
+
+  // Unchanged lines, trimmed to the context next to conflicts
+  const renderCommon = (lines: string[], index: number) => {
+    const hasBefore = index > 0;
+    const hasAfter = index < segments.length - 1;
+    const head = hasBefore ? lines.slice(0, CONTEXT_LINES) : [];
+    const tail = hasAfter ? lines.slice(-CONTEXT_LINES) : [];
+    const hidden = lines.length - head.length - tail.length;
+
+    if (hidden <= 0) {
+      return (
+        <div style={{ ...codeStyle, opacity: 0.7 }}>{renderLines(lines)}</div>
+      );
+    }
+
+    return (
+      <div style={{ ...codeStyle, opacity: 0.7 }}>
+        {renderLines(head)}
+        <div
+          style={{
+            padding: '2px 12px',
+            color: theme.colors.textSecondary,
+            backgroundColor: theme.colors.backgroundSecondary,
+            fontFamily: theme.fonts.body,
+          }}
+        >
+          {hidden} unchanged {hidden === 1 ? 'line' : 'lines'}
+        </div>
+        {renderLines(tail)}
+      </div>
+    );
+  };
+
+  let conflictIndex = -1;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', minHeight: 0 }}>
+      <div style={{ overflow: 'auto' }}>
+        {segments.map((segment, index) => {
+          if (segment.type === 'common') {
+            return (
+              <React.Fragment key={index}>
+                {renderCommon(segment.lines, index)}
+              </React.Fragment>
+            );
+          }
+
+          const current = ++conflictIndex;
+          const choice = choices[current];
+          const isChosen = (side: 'ours' | 'base' | 'theirs') =>
+            choice === side ||
+            (choice === 'both' && (side === 'ours' || side === 'theirs'));
+
+          return (
+            <div
+              key={index}
+              style={{
+                margin: '4px 0',
+                borderTop: `1px solid ${theme.colors.warning}`,
+                borderBottom: `1px solid ${theme.colors.warning}`,
+              }}
+            >
+              <div
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  padding: '4px 12px',
+                  backgroundColor: `${theme.colors.warning}18`,
+                  fontFamily: theme.fonts.body,
+                  fontSize: theme.fontSizes[0],
+                  color: theme.colors.textSecondary,
+                }}
+              >
+                <span style={{ flex: 1 }}>
+                  Conflict {current + 1}/{conflictCount}
+                </span>
+                {CHOICES.map((option) => (
+                  <button
+                    key={option.choice}
+                    type="button"
+                    onClick={() => choose(current, option.choice)}
+                    style={buttonStyle(choice === option.choice)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <div
+                style={{
+                  display: 'grid',
+                  gridTemplateColumns: 'repeat(3, minmax(0, 1fr))',
+                }}
+              >
+                {COLUMNS.map(({ side, label }) => (
+                  <div
+                    key={side}
+                    style={{
+                      minWidth: 0,
+                      overflow: 'auto',
+                      borderLeft:
+                        side === 'ours'
+                          ? undefined
+                          : `1px solid ${theme.colors.border}`,
+                      backgroundColor: isChosen(side)
+                        ? `${theme.colors.success}18`
+                        : choice
+                          ? 'transparent'
+                          : side === 'base'
+                            ? theme.colors.backgroundSecondary
+                            : `${theme.colors.warning}10`,
+                      opacity: choice && !isChosen(side) ? 0.5 : 1,
+                    }}
+                  >
+                    <div
+                      style={{
+                        padding: '2px 12px',
+                        fontFamily: theme.fonts.body,
+                        fontSize: theme.fontSizes[0],
+                        color: theme.colors.textSecondary,
+                      }}
+                    >
+                      {label}
+                    </div>
+                    <div style={codeStyle}>
+                      {segment[side].length > 0 ? (
+                        renderLines(segment[side])
+                      ) : (
+                        <div
+                          style={{
+                            padding: '0 12px',
+                            fontFamily: theme.fonts.body,
+                            fontStyle: 'italic',
+                            color: theme.colors.textSecondary,
+                          }}
+                        >
+                          (empty)
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '6px 12px',
+          borderTop: `1px solid ${theme.colors.border}`,
+          fontFamily: theme.fonts.body,
+          fontSize: theme.fontSizes[0],
+          color: theme.colors.textSecondary,
+        }}
+      >
+        <span style={{ flex: 1 }}>
+          {conflictCount === 0
+            ? 'No conflicting hunks - the sides merge cleanly'
+            : `${resolvedCount}/${conflictCount} conflicts resolved`}
+        </span>
+        {onResolve && (
+          <button
+            type="button"
+            disabled={resolved === null}
+            onClick={() => resolved !== null && onResolve(resolved)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              ...buttonStyle(resolved !== null),
+              cursor: resolved === null ? 'not-allowed' : 'pointer',
+            }}
+          >
+            <Check size={12} />
+            Save and mark resolved
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
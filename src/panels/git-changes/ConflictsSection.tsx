@@ -0,0 +1,140 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { AlertTriangle, Check, X } from 'lucide-react';
+import type { GitMergeState } from '../../types';
+
+const MERGE_STATE_LABELS: Record<GitMergeState, string> = {
+  merge: 'Merge',
+  rebase: 'Rebase',
+  'cherry-pick': 'Cherry-pick',
+  revert: 'Revert',
+};
+
+interface ConflictsSectionProps {
+  conflictedFiles: string[];
+  mergeState?: GitMergeState;
+  /** Enables opening a file in the conflict viewer */
+  onOpen?: (filePath: string) => void;
+  /** Enables the Mark resolved button on each file */
+  onMarkResolved?: (filePath: string) => void;
+  /** Enables the Abort button */
+  onAbort?: () => void;
+}
+
+/**
+ * ConflictsSection - unmerged paths of a merge, rebase, cherry-pick or
+ * revert that stopped on conflicts
+ */
+export const ConflictsSection: React.FC<ConflictsSectionProps> = ({
+  conflictedFiles,
+  mergeState,
+  onOpen,
+  onMarkResolved,
+  onAbort,
+}) => {
+  const { theme } = useTheme();
+  const operation = mergeState ? MERGE_STATE_LABELS[mergeState] : 'Merge';
+
+  const buttonStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '2px 6px',
+    borderRadius: '4px',
+    border: `1px solid ${theme.colors.border}`,
+    backgroundColor: 'transparent',
+    color: theme.colors.textSecondary,
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[0],
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        borderBottom: `1px solid ${theme.colors.border}`,
+        backgroundColor: `${theme.colors.warning}10`,
+        fontFamily: theme.fonts.body,
+        fontSize: theme.fontSizes[0],
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          padding: '6px 12px',
+          color: theme.colors.warning,
+        }}
+      >
+        <AlertTriangle size={14} />
+        <span style={{ flex: 1, fontWeight: theme.fontWeights.semibold }}>
+          {conflictedFiles.length > 0
+            ? `Conflicts (${conflictedFiles.length})`
+            : `${operation} in progress - all conflicts resolved`}
+        </span>
+        {onAbort && (
+          <button
+            type="button"
+            title={`Abort ${operation.toLowerCase()}`}
+            onClick={onAbort}
+            style={{ ...buttonStyle, color: theme.colors.error }}
+          >
+            <X size={12} />
+            Abort {operation.toLowerCase()}
+          </button>
+        )}
+      </div>
+
+      {conflictedFiles.map((path) => (
+        <div
+          key={path}
+          className="git-changes-row"
+          onClick={() => onOpen?.(path)}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '3px 12px 3px 32px',
+            color: theme.colors.text,
+            cursor: onOpen ? 'pointer' : 'default',
+          }}
+        >
+          <span
+            title={path}
+            style={{
+              flex: 1,
+              minWidth: 0,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {path}
+          </span>
+          <span
+            style={{
+              fontFamily: theme.fonts.monospace,
+              color: theme.colors.warning,
+            }}
+          >
+            U
+          </span>
+          {onMarkResolved && (
+            <button
+              type="button"
+              title="Mark resolved"
+              onClick={(e) => {
+                e.stopPropagation();
+                onMarkResolved(path);
+              }}
+              style={buttonStyle}
+            >
+              <Check size={12} />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
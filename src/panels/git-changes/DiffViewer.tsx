@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { ChevronDown, ChevronUp, Columns2, Rows2 } from 'lucide-react';
+import {
+  buildDiffRows,
+  type DiffHunk,
+  type DiffLine,
+  type DiffRange,
+  type DiffRow,
+  type FileDiff,
+} from './diff';
+
+export type DiffViewMode = 'unified' | 'split';
+
+const formatHunkHeader = (hunk: DiffHunk) =>
+  `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@` +
+  (hunk.section ? ` ${hunk.section}` : '');
+
+interface DiffViewerProps {
+  diff: FileDiff;
+  viewMode: DiffViewMode;
+  onViewModeChange: (mode: DiffViewMode) => void;
+}
+
+/**
+ * DiffViewer - unified or side-by-side diff with hunk navigation and
+ * word-level highlighting of modified lines
+ */
+export const DiffViewer: React.FC<DiffViewerProps> = ({
+  diff,
+  viewMode,
+  onViewModeChange,
+}) => {
+  const { theme } = useTheme();
+  const [currentHunk, setCurrentHunk] = useState(0);
+  const hunkRefs = useRef<Array<HTMLDivElement | null>>([]);
+
+  const hunkRows = useMemo(() => diff.hunks.map(buildDiffRows), [diff]);
+
+  // Word ranges per line, for the unified view
+  const lineRanges = useMemo(() => {
+    const ranges = new Map<DiffLine, DiffRange[]>();
+    for (const rows of hunkRows) {
+      for (const row of rows) {
+        if (row.left && row.leftRanges) ranges.set(row.left, row.leftRanges);
+        if (row.right && row.rightRanges) {
+          ranges.set(row.right, row.rightRanges);
+        }
+      }
+    }
+    return ranges;
+  }, [hunkRows]);
+
+  useEffect(() => {
+    setCurrentHunk(0);
+  }, [diff]);
+
+  const goToHunk = (index: number) => {
+    const clamped = Math.max(0, Math.min(diff.hunks.length - 1, index));
+    setCurrentHunk(clamped);
+    hunkRefs.current[clamped]?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'start',
+    });
+  };
+
+  const lineBackground = (type: DiffLine['type'] | undefined) => {
+    if (type === 'add') return `${theme.colors.success}18`;
+    if (type === 'delete') return `${theme.colors.error}18`;
+    return 'transparent';
+  };
+
+  const wordBackground = (type: DiffLine['type']) =>
+    type === 'add' ? `${theme.colors.success}40` : `${theme.colors.error}40`;
+
+  const renderContent = (line: DiffLine, ranges?: DiffRange[]) => {
+    if (!ranges || ranges.length === 0) return line.content || ' ';
+
+    const nodes: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach((range, i) => {
+      if (range.start > cursor) {
+        nodes.push(line.content.slice(cursor, range.start));
+      }
+      nodes.push(
+        <span
+          key={i}
+          style={{
+            backgroundColor: wordBackground(line.type),
+            borderRadius: '2px',
+          }}
+        >
+          {line.content.slice(range.start, range.end)}
+        </span>
+      );
+      cursor = range.end;
+    });
+    if (cursor < line.content.length) {
+      nodes.push(line.content.slice(cursor));
+    }
+    return nodes;
+  };
+
+  const codeStyle: React.CSSProperties = {
+    fontFamily: theme.fonts.monospace,
+    fontSize: theme.fontSizes[0],
+    lineHeight: 1.5,
+    whiteSpace: 'pre',
+  };
+
+  const gutterStyle: React.CSSProperties = {
+    ...codeStyle,
+    padding: '0 6px',
+    minWidth: '36px',
+    textAlign: 'right',
+    color: theme.colors.textSecondary,
+    opacity: 0.6,
+    userSelect: 'none',
+    verticalAlign: 'top',
+  };
+
+  const markerFor = (type: DiffLine['type']) =>
+    type === 'add' ? '+' : type === 'delete' ? '-' : ' ';
+
+  const renderUnifiedLine = (line: DiffLine, key: number) => (
+    <tr key={key} style={{ backgroundColor: lineBackground(line.type) }}>
+      <td style={gutterStyle}>{line.oldLineNumber ?? ''}</td>
+      <td style={gutterStyle}>{line.newLineNumber ?? ''}</td>
+      <td style={{ ...codeStyle, color: theme.colors.text, width: '100%' }}>
+        <span style={{ opacity: 0.6, userSelect: 'none' }}>
+          {markerFor(line.type)}
+        </span>
+        {renderContent(line, lineRanges.get(line))}
+      </td>
+    </tr>
+  );
+
+  const renderSplitRow = (row: DiffRow, key: number) => {
+    const renderSide = (
+      line: DiffLine | undefined,
+      ranges: DiffRange[] | undefined,
+      lineNumber: number | undefined
+    ) => (
+      <>
+        <td
+          style={{
+            ...gutterStyle,
+            backgroundColor: lineBackground(line?.type),
+          }}
+        >
+          {lineNumber ?? ''}
+        </td>
+        <td
+          style={{
+            ...codeStyle,
+            width: '50%',
+            color: theme.colors.text,
+            backgroundColor: line
+              ? lineBackground(line.type)
+              : theme.colors.backgroundSecondary,
+          }}
+        >
+          {line ? renderContent(line, ranges) : ''}
+        </td>
+      </>
+    );
+
+    return (
+      <tr key={key}>
+        {renderSide(row.left, row.leftRanges, row.left?.oldLineNumber)}
+        {renderSide(row.right, row.rightRanges, row.right?.newLineNumber)}
+      </tr>
+    );
+  };
+
+  const toolbarButtonStyle = (active = false): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    padding: '3px',
+    borderRadius: '4px',
+    border: `1px solid ${active ? theme.colors.primary : theme.colors.border}`,
+    backgroundColor: active ? `${theme.colors.primary}20` : 'transparent',
+    color: active ? theme.colors.primary : theme.colors.textSecondary,
+    cursor: 'pointer',
+  });
+
+  if (diff.isBinary) {
+    return (
+      <div
+        style={{
+          padding: '20px',
+          textAlign: 'center',
+          color: theme.colors.textSecondary,
+          fontFamily: theme.fonts.body,
+          fontSize: theme.fontSizes[1],
+        }}
+      >
+        Binary file - no text diff available
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', minHeight: 0 }}>
+      {/* Toolbar */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '6px 12px',
+          borderBottom: `1px solid ${theme.colors.border}`,
+          fontFamily: theme.fonts.body,
+          fontSize: theme.fontSizes[0],
+          color: theme.colors.textSecondary,
+        }}
+      >
+        <span style={{ color: theme.colors.success }}>+{diff.additions}</span>
+        <span style={{ color: theme.colors.error }}>-{diff.deletions}</span>
+        <span style={{ flex: 1 }} />
+        {diff.hunks.length > 0 && (
+          <>
+            <span>
+              Hunk {currentHunk + 1}/{diff.hunks.length}
+            </span>
+            <button
+              type="button"
+              title="Previous hunk"
+              onClick={() => goToHunk(currentHunk - 1)}
+              disabled={currentHunk === 0}
+              style={toolbarButtonStyle()}
+            >
+              <ChevronUp size={14} />
+            </button>
+            <button
+              type="button"
+              title="Next hunk"
+              onClick={() => goToHunk(currentHunk + 1)}
+              disabled={currentHunk >= diff.hunks.length - 1}
+              style={toolbarButtonStyle()}
+            >
+              <ChevronDown size={14} />
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          title="Unified view"
+          onClick={() => onViewModeChange('unified')}
+          style={toolbarButtonStyle(viewMode === 'unified')}
+        >
+          <Rows2 size={14} />
+        </button>
+        <button
+          type="button"
+          title="Split view"
+          onClick={() => onViewModeChange('split')}
+          style={toolbarButtonStyle(viewMode === 'split')}
+        >
+          <Columns2 size={14} />
+        </button>
+      </div>
+
+      {diff.hunks.length === 0 ? (
+        <div
+          style={{
+            padding: '20px',
+            textAlign: 'center',
+            color: theme.colors.textSecondary,
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[1],
+          }}
+        >
+          No changes
+        </div>
+      ) : (
+        <div style={{ overflow: 'auto' }}>
+          {diff.hunks.map((hunk, hunkIndex) => (
+            <div
+              key={hunkIndex}
+              ref={(el) => {
+                hunkRefs.current[hunkIndex] = el;
+              }}
+            >
+              <div
+                onClick={() => setCurrentHunk(hunkIndex)}
+                style={{
+                  ...codeStyle,
+                  padding: '2px 12px',
+                  color: theme.colors.info,
+                  backgroundColor:
+                    hunkIndex === currentHunk
+                      ? `${theme.colors.info}25`
+                      : `${theme.colors.info}10`,
+                  cursor: 'pointer',
+                }}
+              >
+                {formatHunkHeader(hunk)}
+              </div>
+              <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+                <tbody>
+                  {viewMode === 'split'
+                    ? hunkRows[hunkIndex].map(renderSplitRow)
+                    : hunk.lines.map(renderUnifiedLine)}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
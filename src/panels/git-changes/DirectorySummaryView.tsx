@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { ChevronDown, ChevronRight, Folder } from 'lucide-react';
+import type { GitChangeSelectionStatus } from '../../types';
+import { ChangedFilesTree, type ChangedFileEntry } from './ChangedFilesTree';
+import type { DirectorySummary } from './directorySummary';
+
+const STATUS_ORDER: GitChangeSelectionStatus[] = [
+  'staged',
+  'unstaged',
+  'untracked',
+  'deleted',
+];
+
+interface DirectorySummaryViewProps {
+  summaries: DirectorySummary[];
+  selectedKeys?: ReadonlySet<string>;
+  onFileSelect: (entry: ChangedFileEntry, event: React.MouseEvent) => void;
+  onContextMenu?: (
+    event: React.MouseEvent,
+    nodePath: string,
+    isFolder: boolean
+  ) => void;
+}
+
+/**
+ * DirectorySummaryView - one collapsed row per top-level directory with
+ * change counts; files are only rendered once a directory is expanded
+ */
+export const DirectorySummaryView: React.FC<DirectorySummaryViewProps> = ({
+  summaries,
+  selectedKeys,
+  onFileSelect,
+  onContextMenu,
+}) => {
+  const { theme } = useTheme();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const statusColors: Record<GitChangeSelectionStatus, string> = {
+    staged: theme.colors.success,
+    unstaged: theme.colors.warning,
+    untracked: theme.colors.info,
+    deleted: theme.colors.error,
+  };
+
+  const toggle = (directory: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(directory)) {
+        next.delete(directory);
+      } else {
+        next.add(directory);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div style={{ padding: '4px 0' }}>
+      {summaries.map((summary) => {
+        const isExpanded = expanded.has(summary.directory);
+
+        return (
+          <div key={summary.directory}>
+            <div
+              className="git-changes-row"
+              onClick={() => toggle(summary.directory)}
+              onContextMenu={(e) =>
+                summary.directory && onContextMenu?.(e, summary.directory, true)
+              }
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '6px 12px',
+                cursor: 'pointer',
+                fontFamily: theme.fonts.body,
+                fontSize: theme.fontSizes[1],
+                color: theme.colors.text,
+                borderBottom: `1px solid ${theme.colors.border}`,
+              }}
+            >
+              {isExpanded ? (
+                <ChevronDown size={14} color={theme.colors.textSecondary} />
+              ) : (
+                <ChevronRight size={14} color={theme.colors.textSecondary} />
+              )}
+              <Folder size={14} color={theme.colors.textSecondary} />
+              <span
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {summary.directory || '(root)'}
+              </span>
+              <span
+                style={{
+                  fontSize: theme.fontSizes[0],
+                  color: theme.colors.textSecondary,
+                }}
+              >
+                {summary.entries.length}{' '}
+                {summary.entries.length === 1 ? 'file' : 'files'}
+              </span>
+              {STATUS_ORDER.filter((status) => summary.counts[status] > 0).map(
+                (status) => (
+                  <span
+                    key={status}
+                    title={`${summary.counts[status]} ${status}`}
+                    style={{
+                      padding: '0 6px',
+                      borderRadius: '8px',
+                      fontSize: theme.fontSizes[0],
+                      color: statusColors[status],
+                      backgroundColor: `${statusColors[status]}20`,
+                    }}
+                  >
+                    {summary.counts[status]}
+                  </span>
+                )
+              )}
+            </div>
+            {isExpanded && (
+              <ChangedFilesTree
+                entries={summary.entries}
+                selectedKeys={selectedKeys}
+                onSelect={onFileSelect}
+                onContextMenu={onContextMenu}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
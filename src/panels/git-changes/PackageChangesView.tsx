@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { ChevronDown, ChevronRight, Package } from 'lucide-react';
+import type { GitChangeSelectionStatus } from '../../types';
+import { ChangedFilesTree, type ChangedFileEntry } from './ChangedFilesTree';
+import type { PackageChangeGroup } from './packageGroups';
+
+const STATUS_ORDER: GitChangeSelectionStatus[] = [
+  'staged',
+  'unstaged',
+  'untracked',
+  'deleted',
+];
+
+const STATUS_LABELS: Record<GitChangeSelectionStatus, string> = {
+  staged: 'staged',
+  unstaged: 'modified',
+  untracked: 'untracked',
+  deleted: 'deleted',
+};
+
+interface PackageChangesViewProps {
+  groups: PackageChangeGroup[];
+  /** Path of the selected package group, if any */
+  selectedPackagePath?: string | null;
+  /** Called with the clicked group, or null when it is deselected */
+  onPackageSelect: (group: PackageChangeGroup | null) => void;
+  selectedKeys?: ReadonlySet<string>;
+  onFileSelect: (entry: ChangedFileEntry, event: React.MouseEvent) => void;
+  onContextMenu?: (
+    event: React.MouseEvent,
+    nodePath: string,
+    isFolder: boolean
+  ) => void;
+}
+
+/**
+ * PackageChangesView - changed files bucketed by package, with per-package
+ * counts so the packages a change set touches are visible at a glance
+ */
+export const PackageChangesView: React.FC<PackageChangesViewProps> = ({
+  groups,
+  selectedPackagePath,
+  onPackageSelect,
+  selectedKeys,
+  onFileSelect,
+  onContextMenu,
+}) => {
+  const { theme } = useTheme();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const statusColors: Record<GitChangeSelectionStatus, string> = {
+    staged: theme.colors.success,
+    unstaged: theme.colors.warning,
+    untracked: theme.colors.info,
+    deleted: theme.colors.error,
+  };
+
+  const toggle = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const groupKey = (group: PackageChangeGroup) =>
+    group.package ? group.path : '\0other';
+
+  return (
+    <div style={{ padding: '4px 0' }}>
+      {groups.map((group) => {
+        const key = groupKey(group);
+        const isCollapsed = collapsed.has(key);
+        const isSelected =
+          !!group.package && selectedPackagePath === group.path;
+        const loaded = group.entries.filter(
+          (entry) => entry.additions !== undefined
+        );
+        const additions = loaded.reduce((n, e) => n + (e.additions ?? 0), 0);
+        const deletions = loaded.reduce((n, e) => n + (e.deletions ?? 0), 0);
+
+        return (
+          <div key={key}>
+            <div
+              className="git-changes-row"
+              onClick={() =>
+                group.package && onPackageSelect(isSelected ? null : group)
+              }
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '6px 12px',
+                cursor: group.package ? 'pointer' : 'default',
+                fontFamily: theme.fonts.body,
+                fontSize: theme.fontSizes[1],
+                color: theme.colors.text,
+                backgroundColor: isSelected
+                  ? `${theme.colors.primary}25`
+                  : 'transparent',
+                borderBottom: `1px solid ${theme.colors.border}`,
+              }}
+            >
+              <span
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggle(key);
+                }}
+                style={{ display: 'flex', cursor: 'pointer' }}
+              >
+                {isCollapsed ? (
+                  <ChevronRight size={14} color={theme.colors.textSecondary} />
+                ) : (
+                  <ChevronDown size={14} color={theme.colors.textSecondary} />
+                )}
+              </span>
+              <Package size={14} color={theme.colors.primary} />
+              <span
+                style={{
+                  fontWeight: theme.fontWeights.semibold,
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {group.name}
+              </span>
+              {group.package && (
+                <span
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    fontSize: theme.fontSizes[0],
+                    color: theme.colors.textSecondary,
+                  }}
+                >
+                  {group.path || 'root'}
+                </span>
+              )}
+              {!group.package && <span style={{ flex: 1 }} />}
+              {loaded.length > 0 && (
+                <span
+                  style={{
+                    fontFamily: theme.fonts.monospace,
+                    fontSize: theme.fontSizes[0],
+                  }}
+                >
+                  <span style={{ color: theme.colors.success }}>
+                    +{additions}
+                  </span>{' '}
+                  <span style={{ color: theme.colors.error }}>
+                    -{deletions}
+                  </span>
+                </span>
+              )}
+              {STATUS_ORDER.filter((status) => group.counts[status] > 0).map(
+                (status) => (
+                  <span
+                    key={status}
+                    title={`${group.counts[status]} ${STATUS_LABELS[status]}`}
+                    style={{
+                      padding: '0 6px',
+                      borderRadius: '8px',
+                      fontSize: theme.fontSizes[0],
+                      color: statusColors[status],
+                      backgroundColor: `${statusColors[status]}20`,
+                    }}
+                  >
+                    {group.counts[status]}
+                  </span>
+                )
+              )}
+            </div>
+            {!isCollapsed && (
+              <ChangedFilesTree
+                entries={group.entries}
+                selectedKeys={selectedKeys}
+                onSelect={onFileSelect}
+                onContextMenu={onContextMenu}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+/**
+ * Tests for commit message parsing and validation
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { CommitChangesPayload } from '../../tools';
+import {
+  applyCommitType,
+  getSubjectLengthStatus,
+  parseCommitMessage,
+  runCommitChanges,
+  validateCommitMessage,
+} from './commitMessage';
+
+describe('parseCommitMessage', () => {
+  test('parses a conventional subject with scope and body', () => {
+    const parsed = parseCommitMessage(
+      'feat(search)!: add workspace scope\n\nSearches every repository.'
+    );
+
+    expect(parsed.type).toBe('feat');
+    expect(parsed.scope).toBe('search');
+    expect(parsed.breaking).toBe(true);
+    expect(parsed.subject).toBe('feat(search)!: add workspace scope');
+    expect(parsed.body).toBe('Searches every repository.');
+  });
+
+  test('plain subjects have no type', () => {
+    const parsed = parseCommitMessage('Fix typo in README');
+
+    expect(parsed.type).toBeUndefined();
+    expect(parsed.breaking).toBe(false);
+    expect(parsed.body).toBe('');
+  });
+});
+
+describe('applyCommitType', () => {
+  test('adds a type to a plain subject', () => {
+    expect(applyCommitType('add diff viewer', 'feat')).toBe(
+      'feat: add diff viewer'
+    );
+  });
+
+  test('replaces the type and keeps scope, marker and body', () => {
+    expect(applyCommitType('feat(git)!: drop flag\n\nBody', 'fix')).toBe(
+      'fix(git)!: drop flag\n\nBody'
+    );
+  });
+
+  test('removes the prefix with null', () => {
+    expect(applyCommitType('chore: bump deps', null)).toBe('bump deps');
+  });
+});
+
+describe('getSubjectLengthStatus', () => {
+  test('uses the 50 and 72 character limits', () => {
+    expect(getSubjectLengthStatus('a'.repeat(50))).toBe('ok');
+    expect(getSubjectLengthStatus('a'.repeat(51))).toBe('long');
+    expect(getSubjectLengthStatus('a'.repeat(73))).toBe('too-long');
+  });
+});
+
+describe('validateCommitMessage', () => {
+  test('requires a subject', () => {
+    expect(validateCommitMessage('')).not.toBeNull();
+    expect(validateCommitMessage('   \n\nbody')).not.toBeNull();
+  });
+
+  test('requires a blank line before the body', () => {
+    expect(validateCommitMessage('subject\nbody')).not.toBeNull();
+    expect(validateCommitMessage('subject\n\nbody')).toBeNull();
+  });
+});
+
+describe('runCommitChanges', () => {
+  test('reports the new commit hash', async () => {
+    const calls: Array<[string, { amend?: boolean }]> = [];
+    const result = await runCommitChanges(
+      { message: '  feat: add search  ', amend: true },
+      async (message, options) => {
+        calls.push([message, options]);
+        return { hash: 'a1b2c3d' };
+      }
+    );
+
+    expect(calls).toEqual([['feat: add search', { amend: true }]]);
+    expect(result).toEqual({
+      success: true,
+      message: 'Amended the last commit',
+      commitHash: 'a1b2c3d',
+    });
+  });
+
+  test('reports invalid messages without committing', async () => {
+    let committed = false;
+    const result = await runCommitChanges({ message: '' }, async () => {
+      committed = true;
+    });
+
+    expect(committed).toBe(false);
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(validateCommitMessage('')!);
+  });
+
+  test('reports malformed payloads without committing', async () => {
+    let committed = false;
+    const commit = async () => {
+      committed = true;
+    };
+
+    for (const payload of [undefined, {}, { message: 42 }]) {
+      expect(
+        await runCommitChanges(
+          payload as unknown as CommitChangesPayload,
+          commit
+        )
+      ).toEqual({ success: false, message: 'Commit message must be a string' });
+    }
+    expect(committed).toBe(false);
+  });
+
+  test('reports failed commits and missing support', async () => {
+    const failed = await runCommitChanges({ message: 'fix: typo' }, () =>
+      Promise.reject(new Error('nothing to commit'))
+    );
+
+    expect(failed).toEqual({ success: false, message: 'nothing to commit' });
+    expect(await runCommitChanges({ message: 'fix: typo' }, undefined)).toEqual(
+      {
+        success: false,
+        message: 'Committing is not available in this host',
+      }
+    );
+  });
+});
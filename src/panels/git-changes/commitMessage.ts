@@ -0,0 +1,148 @@
+/**
+ * Commit message helpers for the GitChangesPanel commit composer.
+ *
+ * Kept free of React so the same validation can run for commits made
+ * through the `commit_changes` tool.
+ */
+
+import type {
+  CommitChangesPayload,
+  CommitChangesResultPayload,
+} from '../../tools';
+import type { GitChangesPanelActions } from '../../types';
+
+export interface ConventionalCommitType {
+  type: string;
+  description: string;
+}
+
+/** Types from the Conventional Commits / Angular convention */
+export const CONVENTIONAL_COMMIT_TYPES: ConventionalCommitType[] = [
+  { type: 'feat', description: 'A new feature' },
+  { type: 'fix', description: 'A bug fix' },
+  { type: 'docs', description: 'Documentation only' },
+  { type: 'style', description: 'Formatting, no code change' },
+  { type: 'refactor', description: 'Neither fixes a bug nor adds a feature' },
+  { type: 'perf', description: 'A performance improvement' },
+  { type: 'test', description: 'Adding or fixing tests' },
+  { type: 'build', description: 'Build system or dependencies' },
+  { type: 'ci', description: 'CI configuration' },
+  { type: 'chore', description: 'Other changes' },
+  { type: 'revert', description: 'Reverts a previous commit' },
+];
+
+/** Subjects longer than this are truncated by many git tools */
+export const SUBJECT_SOFT_LIMIT = 50;
+/** Subjects longer than this wrap in `git log` */
+export const SUBJECT_HARD_LIMIT = 72;
+
+export type SubjectLengthStatus = 'ok' | 'long' | 'too-long';
+
+export interface ParsedCommitMessage {
+  /** Conventional commit type, if the subject has one */
+  type?: string;
+  scope?: string;
+  breaking: boolean;
+  /** First line of the message */
+  subject: string;
+  /** Everything after the subject and its blank separator line */
+  body: string;
+}
+
+const CONVENTIONAL_PREFIX = /^(\w+)(?:\(([^)]*)\))?(!)?: ?/;
+
+/**
+ * Split a commit message into subject, body and conventional commit prefix
+ */
+export function parseCommitMessage(message: string): ParsedCommitMessage {
+  const [subject = '', ...rest] = message.split('\n');
+  const body = rest.join('\n').replace(/^\n/, '');
+  const prefix = CONVENTIONAL_PREFIX.exec(subject);
+
+  return {
+    type: prefix?.[1],
+    scope: prefix?.[2] || undefined,
+    breaking: !!prefix?.[3],
+    subject,
+    body,
+  };
+}
+
+/**
+ * Set (or with `null`, remove) the conventional commit type of a message,
+ * keeping any scope and breaking-change marker
+ */
+export function applyCommitType(message: string, type: string | null): string {
+  const [subject = '', ...rest] = message.split('\n');
+  const prefix = CONVENTIONAL_PREFIX.exec(subject);
+  const description = prefix ? subject.slice(prefix[0].length) : subject;
+
+  let nextSubject = description;
+  if (type) {
+    const scope = prefix?.[2] ? `(${prefix[2]})` : '';
+    const breaking = prefix?.[3] ?? '';
+    nextSubject = `${type}${scope}${breaking}: ${description}`;
+  }
+
+  return [nextSubject, ...rest].join('\n');
+}
+
+export function getSubjectLengthStatus(subject: string): SubjectLengthStatus {
+  if (subject.length > SUBJECT_HARD_LIMIT) return 'too-long';
+  if (subject.length > SUBJECT_SOFT_LIMIT) return 'long';
+  return 'ok';
+}
+
+/**
+ * Problems that should block a commit, or null when the message is fine.
+ * Length guidance is advisory and not reported here.
+ */
+export function validateCommitMessage(message: string): string | null {
+  const [subject = '', second] = message.split('\n');
+
+  if (!subject.trim()) {
+    return 'Commit message needs a subject line';
+  }
+  if (second !== undefined && second.trim() !== '') {
+    return 'Separate the subject from the body with a blank line';
+  }
+  return null;
+}
+
+/**
+ * Make a commit requested through the `commit_changes` tool and describe
+ * the outcome as the tool's result. Never throws.
+ */
+export async function runCommitChanges(
+  payload: CommitChangesPayload,
+  commit: GitChangesPanelActions['commit']
+): Promise<CommitChangesResultPayload> {
+  if (!commit) {
+    return {
+      success: false,
+      message: 'Committing is not available in this host',
+    };
+  }
+  // Tool payloads are not type-checked by the host
+  if (typeof payload?.message !== 'string') {
+    return { success: false, message: 'Commit message must be a string' };
+  }
+
+  const { message, amend = false } = payload;
+  try {
+    const error = validateCommitMessage(message);
+    if (error) return { success: false, message: error };
+
+    const result = await commit(message.trim(), { amend });
+    return {
+      success: true,
+      message: amend ? 'Amended the last commit' : 'Committed staged changes',
+      ...(result?.hash && { commitHash: result.hash }),
+    };
+  } catch (err) {
+    return {
+      success: false,
+      message: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Tests for three-way merging of conflicted files
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { GitStatusWithRenames } from '../../types';
+import {
+  DEFAULT_LINE_FORMAT,
+  detectLineFormat,
+  mergeThreeWay,
+  removeConflictedPaths,
+  resolveMerge,
+} from './conflicts';
+
+const base = ['import a;', '', 'const x = 1;', 'const y = 2;', 'end'].join(
+  '\n'
+);
+
+describe('mergeThreeWay', () => {
+  test('takes changes made on one side only', () => {
+    const ours = base.replace('const x = 1;', 'const x = 10;');
+    const theirs = base.replace('end', 'finish');
+
+    const segments = mergeThreeWay(base, ours, theirs);
+
+    expect(segments).toEqual([
+      {
+        type: 'common',
+        lines: ['import a;', '', 'const x = 10;', 'const y = 2;', 'finish'],
+      },
+    ]);
+    expect(resolveMerge(segments, [])).toBe(
+      'import a;\n\nconst x = 10;\nconst y = 2;\nfinish\n'
+    );
+  });
+
+  test('reports a conflict when both sides change the same lines', () => {
+    const ours = base.replace('const y = 2;', 'const y = 3;');
+    const theirs = base.replace('const y = 2;', 'const y = 4;');
+
+    const segments = mergeThreeWay(base, ours, theirs);
+
+    expect(segments).toEqual([
+      { type: 'common', lines: ['import a;', '', 'const x = 1;'] },
+      {
+        type: 'conflict',
+        ours: ['const y = 3;'],
+        base: ['const y = 2;'],
+        theirs: ['const y = 4;'],
+      },
+      { type: 'common', lines: ['end'] },
+    ]);
+  });
+
+  test('identical changes on both sides do not conflict', () => {
+    const changed = base.replace('import a;', 'import b;');
+    expect(mergeThreeWay(base, changed, changed)).toEqual([
+      {
+        type: 'common',
+        lines: ['import b;', '', 'const x = 1;', 'const y = 2;', 'end'],
+      },
+    ]);
+  });
+
+  test('add/add conflicts have no base', () => {
+    expect(mergeThreeWay(null, 'one\n', 'two\n')).toEqual([
+      { type: 'conflict', ours: ['one'], base: [], theirs: ['two'] },
+    ]);
+  });
+});
+
+describe('resolveMerge', () => {
+  const segments = mergeThreeWay('a\nb\nc\n', 'a\nours\nc\n', 'a\ntheirs\nc\n');
+
+  test('is null until every conflict has a choice', () => {
+    expect(resolveMerge(segments, [])).toBeNull();
+  });
+
+  test('applies the chosen side', () => {
+    expect(resolveMerge(segments, ['ours'])).toBe('a\nours\nc\n');
+    expect(resolveMerge(segments, ['theirs'])).toBe('a\ntheirs\nc\n');
+    expect(resolveMerge(segments, ['both'])).toBe('a\nours\ntheirs\nc\n');
+    expect(resolveMerge(segments, ['base'])).toBe('a\nb\nc\n');
+  });
+
+  test('keeps CRLF line endings', () => {
+    const ours = 'a\r\nours\r\nc\r\n';
+    const crlf = mergeThreeWay('a\r\nb\r\nc\r\n', ours, 'a\r\ntheirs\r\nc\r\n');
+
+    expect(resolveMerge(crlf, ['both'], detectLineFormat(ours))).toBe(
+      'a\r\nours\r\ntheirs\r\nc\r\n'
+    );
+  });
+
+  test('keeps a missing final newline', () => {
+    const ours = 'a\nours\nc';
+    const merged = mergeThreeWay('a\nb\nc', ours, 'a\ntheirs\nc');
+
+    expect(resolveMerge(merged, ['theirs'], detectLineFormat(ours))).toBe(
+      'a\ntheirs\nc'
+    );
+  });
+});
+
+describe('detectLineFormat', () => {
+  test('uses the first file that has content', () => {
+    expect(detectLineFormat(null, '', 'x\r\ny')).toEqual({
+      eol: '\r\n',
+      trailingNewline: false,
+    });
+    expect(detectLineFormat('x\n')).toEqual({
+      eol: '\n',
+      trailingNewline: true,
+    });
+  });
+
+  test('defaults to LF with a final newline', () => {
+    expect(detectLineFormat(null)).toEqual(DEFAULT_LINE_FORMAT);
+  });
+});
+
+describe('removeConflictedPaths', () => {
+  test('drops conflicted files from the other lists', () => {
+    const status: GitStatusWithRenames = {
+      repoPath: '/repo',
+      branch: 'main',
+      isDirty: true,
+      hasUntracked: false,
+      hasStaged: true,
+      ahead: 0,
+      behind: 0,
+      watchingEnabled: false,
+      stagedFiles: ['src/merged.ts', 'src/conflict.ts'],
+      modifiedFiles: ['src/conflict.ts'],
+      untrackedFiles: [],
+      deletedFiles: [],
+      createdFiles: [],
+      conflictedFiles: ['src/conflict.ts'],
+      hash: 'abc',
+    };
+
+    const next = removeConflictedPaths(status);
+    expect(next.stagedFiles).toEqual(['src/merged.ts']);
+    expect(next.modifiedFiles).toEqual([]);
+    expect(next.conflictedFiles).toEqual(['src/conflict.ts']);
+  });
+});
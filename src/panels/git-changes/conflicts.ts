@@ -0,0 +1,208 @@
+import type { GitStatusWithRenames } from '../../types';
+import { myersDiff, splitLines } from './diff';
+
+/**
+ * A run of the merged file: lines both sides agree on (or that only one side
+ * changed), or a conflict between ours and theirs
+ */
+export type MergeSegment =
+  | { type: 'common'; lines: string[] }
+  | { type: 'conflict'; ours: string[]; base: string[]; theirs: string[] };
+
+/**
+ * How a conflict is resolved: one side, both sides (ours first), or the
+ * common ancestor
+ */
+export type ConflictChoice = 'ours' | 'theirs' | 'both' | 'base';
+
+/**
+ * Line ending and final newline of a file, kept when the merge is written
+ */
+export interface LineFormat {
+  eol: '\n' | '\r\n';
+  trailingNewline: boolean;
+}
+
+export const DEFAULT_LINE_FORMAT: LineFormat = {
+  eol: '\n',
+  trailingNewline: true,
+};
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * For each line of `base`, the index of the matching line in `other`, or -1
+ */
+function matchLines(base: string[], other: string[]): number[] {
+  const matches = new Array<number>(base.length).fill(-1);
+  let baseIndex = 0;
+  let otherIndex = 0;
+  for (const op of myersDiff(base, other)) {
+    if (op === 'equal') {
+      matches[baseIndex++] = otherIndex++;
+    } else if (op === 'delete') {
+      baseIndex++;
+    } else {
+      otherIndex++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Three-way merge of the index stages of a conflicted file (diff3).
+ *
+ * Lines unchanged on both sides are stable; each unstable chunk between them
+ * takes whichever side changed it, and is a conflict when both sides changed
+ * it differently. `null` means the file does not exist at that stage, e.g.
+ * no BASE for an add/add conflict.
+ */
+export function mergeThreeWay(
+  baseText: string | null,
+  oursText: string | null,
+  theirsText: string | null
+): MergeSegment[] {
+  const base = splitLines(baseText);
+  const ours = splitLines(oursText);
+  const theirs = splitLines(theirsText);
+  const oursMatches = matchLines(base, ours);
+  const theirsMatches = matchLines(base, theirs);
+
+  const segments: MergeSegment[] = [];
+  const pushCommon = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = segments[segments.length - 1];
+    if (last?.type === 'common') {
+      last.lines.push(...lines);
+    } else {
+      segments.push({ type: 'common', lines: [...lines] });
+    }
+  };
+
+  let b = 0;
+  let o = 0;
+  let t = 0;
+  while (b < base.length || o < ours.length || t < theirs.length) {
+    if (b < base.length && oursMatches[b] === o && theirsMatches[b] === t) {
+      pushCommon([base[b]]);
+      b++;
+      o++;
+      t++;
+      continue;
+    }
+
+    // The next base line kept by both sides ends the unstable chunk
+    let next = b;
+    while (
+      next < base.length &&
+      (oursMatches[next] === -1 || theirsMatches[next] === -1)
+    ) {
+      next++;
+    }
+    const nextOurs = next < base.length ? oursMatches[next] : ours.length;
+    const nextTheirs = next < base.length ? theirsMatches[next] : theirs.length;
+
+    const baseChunk = base.slice(b, next);
+    const oursChunk = ours.slice(o, nextOurs);
+    const theirsChunk = theirs.slice(t, nextTheirs);
+
+    if (sameLines(oursChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      pushCommon(theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk)) {
+      pushCommon(oursChunk);
+    } else {
+      segments.push({
+        type: 'conflict',
+        ours: oursChunk,
+        base: baseChunk,
+        theirs: theirsChunk,
+      });
+    }
+
+    b = next;
+    o = nextOurs;
+    t = nextTheirs;
+  }
+
+  return segments;
+}
+
+/**
+ * Line format of the first of `texts` that has content. Its first line
+ * break decides the line ending.
+ */
+export function detectLineFormat(
+  ...texts: Array<string | null | undefined>
+): LineFormat {
+  const text = texts.find((t): t is string => !!t);
+  if (!text) return DEFAULT_LINE_FORMAT;
+  return {
+    eol: text.match(/\r?\n/)?.[0] === '\r\n' ? '\r\n' : '\n',
+    trailingNewline: text.endsWith('\n'),
+  };
+}
+
+/**
+ * Build the resolved file from the merge segments and a choice per conflict
+ * (indexed by the conflict's position among conflicts), written with the
+ * given line format. Returns null while any conflict is still unresolved.
+ */
+export function resolveMerge(
+  segments: MergeSegment[],
+  choices: ReadonlyArray<ConflictChoice | undefined>,
+  format: LineFormat = DEFAULT_LINE_FORMAT
+): string | null {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  for (const segment of segments) {
+    if (segment.type === 'common') {
+      lines.push(...segment.lines);
+      continue;
+    }
+
+    const choice = choices[conflictIndex++];
+    switch (choice) {
+      case 'ours':
+        lines.push(...segment.ours);
+        break;
+      case 'theirs':
+        lines.push(...segment.theirs);
+        break;
+      case 'both':
+        lines.push(...segment.ours, ...segment.theirs);
+        break;
+      case 'base':
+        lines.push(...segment.base);
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (lines.length === 0) return '';
+  return lines.join(format.eol) + (format.trailingNewline ? format.eol : '');
+}
+
+/**
+ * Remove conflicted paths from the other file lists, so a file in the
+ * Conflicts section is not also listed as staged or modified
+ */
+export function removeConflictedPaths(
+  status: GitStatusWithRenames
+): GitStatusWithRenames {
+  if (!status.conflictedFiles?.length) return status;
+
+  const conflicted = new Set(status.conflictedFiles);
+  const keep = (path: string) => !conflicted.has(path);
+
+  return {
+    ...status,
+    stagedFiles: status.stagedFiles.filter(keep),
+    modifiedFiles: status.modifiedFiles.filter(keep),
+    untrackedFiles: status.untrackedFiles.filter(keep),
+    deletedFiles: status.deletedFiles.filter(keep),
+    createdFiles: status.createdFiles.filter(keep),
+  };
+}
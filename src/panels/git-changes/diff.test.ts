@@ -0,0 +1,168 @@
+/**
+ * Tests for diff parsing, computation and word-level highlighting
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  buildDiffRows,
+  computeFileDiff,
+  diffWords,
+  parseUnifiedDiff,
+} from './diff';
+
+const SAMPLE_DIFF = `diff --git a/src/app.ts b/src/app.ts
+index 3b18e51..a9c2f1d 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,4 +1,5 @@ export function main() {
+ import { run } from './run';
+-const port = 3000;
++const port = 8080;
++const host = 'localhost';
+ 
+ run(port);
+@@ -20 +21 @@
+-old
++new
+\\ No newline at end of file
+`;
+
+describe('parseUnifiedDiff', () => {
+  test('parses hunks, line numbers and counts', () => {
+    const diff = parseUnifiedDiff(SAMPLE_DIFF);
+
+    expect(diff.additions).toBe(3);
+    expect(diff.deletions).toBe(2);
+    expect(diff.hunks).toHaveLength(2);
+
+    const [first, second] = diff.hunks;
+    expect(first.section).toBe('export function main() {');
+    expect(first.lines[1]).toEqual({
+      type: 'delete',
+      content: 'const port = 3000;',
+      oldLineNumber: 2,
+    });
+    expect(first.lines[3]).toEqual({
+      type: 'add',
+      content: "const host = 'localhost';",
+      newLineNumber: 3,
+    });
+    expect(first.lines[4]).toMatchObject({
+      oldLineNumber: 3,
+      newLineNumber: 4,
+    });
+
+    // Omitted counts default to 1
+    expect(second).toMatchObject({ oldStart: 20, oldLines: 1, newLines: 1 });
+  });
+
+  test('detects binary diffs', () => {
+    const diff = parseUnifiedDiff(
+      'diff --git a/logo.png b/logo.png\nBinary files a/logo.png and b/logo.png differ\n'
+    );
+    expect(diff.isBinary).toBe(true);
+    expect(diff.hunks).toEqual([]);
+  });
+});
+
+describe('computeFileDiff', () => {
+  const lines = (count: number) =>
+    Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+  test('matches git hunk headers for a single change', () => {
+    const before = lines(10);
+    const after = [...before];
+    after[4] = 'changed';
+
+    const diff = computeFileDiff(before.join('\n'), after.join('\n'));
+
+    expect(diff.additions).toBe(1);
+    expect(diff.deletions).toBe(1);
+    expect(diff.hunks).toHaveLength(1);
+    expect(diff.hunks[0]).toMatchObject({
+      oldStart: 2,
+      oldLines: 7,
+      newStart: 2,
+      newLines: 7,
+    });
+  });
+
+  test('splits distant changes into separate hunks', () => {
+    const before = lines(40);
+    const after = [...before];
+    after[2] = 'first';
+    after[35] = 'second';
+
+    const diff = computeFileDiff(before.join('\n'), after.join('\n'));
+
+    expect(diff.hunks).toHaveLength(2);
+  });
+
+  test('treats null as a missing file', () => {
+    const created = computeFileDiff(null, 'a\nb\n');
+    expect(created.additions).toBe(2);
+    expect(created.hunks[0]).toMatchObject({ oldStart: 0, oldLines: 0 });
+
+    const deleted = computeFileDiff('a\nb\n', null);
+    expect(deleted.deletions).toBe(2);
+    expect(deleted.hunks[0]).toMatchObject({ newStart: 0, newLines: 0 });
+  });
+
+  test('round-trips through the edit script', () => {
+    const before = ['a', 'b', 'c', 'a', 'b', 'b', 'a'];
+    const after = ['c', 'b', 'a', 'b', 'a', 'c'];
+
+    const diff = computeFileDiff(before.join('\n'), after.join('\n'), 100);
+    const lines = diff.hunks.flatMap((h) => h.lines);
+
+    expect(lines.filter((l) => l.type !== 'add').map((l) => l.content)).toEqual(
+      before
+    );
+    expect(
+      lines.filter((l) => l.type !== 'delete').map((l) => l.content)
+    ).toEqual(after);
+    // Myers finds the shortest edit script (D = 5) for this classic example
+    expect(diff.additions + diff.deletions).toBe(5);
+  });
+
+  test('handles a full rewrite of a large file', () => {
+    const before = Array.from({ length: 5000 }, (_, i) => `old ${i}`);
+    const after = Array.from({ length: 5000 }, (_, i) =>
+      i % 2 ? `old ${i}` : `new ${i}`
+    );
+
+    const diff = computeFileDiff(before.join('\n'), after.join('\n'));
+
+    expect(diff.additions).toBe(2500);
+    expect(diff.deletions).toBe(2500);
+  });
+
+  test('reports binary content', () => {
+    expect(computeFileDiff('a\0b', 'c').isBinary).toBe(true);
+  });
+});
+
+describe('word highlighting', () => {
+  test('marks only the changed words', () => {
+    const { oldRanges, newRanges } = diffWords(
+      'const port = 3000;',
+      'const port = 8080;'
+    );
+
+    expect(oldRanges).toEqual([{ start: 13, end: 17 }]);
+    expect(newRanges).toEqual([{ start: 13, end: 17 }]);
+  });
+
+  test('pairs deleted and added lines into rows', () => {
+    const [hunk] = parseUnifiedDiff(SAMPLE_DIFF).hunks;
+    const rows = buildDiffRows(hunk);
+
+    expect(rows).toHaveLength(5);
+    expect(rows[1].left?.content).toBe('const port = 3000;');
+    expect(rows[1].right?.content).toBe('const port = 8080;');
+    expect(rows[1].rightRanges).toEqual([{ start: 13, end: 17 }]);
+    // Unpaired addition has no left side
+    expect(rows[2].left).toBeUndefined();
+    expect(rows[2].right?.content).toBe("const host = 'localhost';");
+  });
+});
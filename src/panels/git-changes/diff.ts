@@ -0,0 +1,482 @@
+/**
+ * Line and word diffing for the GitChangesPanel diff viewer.
+ *
+ * Diffs come either from the host as unified diff text (`parseUnifiedDiff`)
+ * or are computed here from two file versions (`computeFileDiff`, Myers'
+ * O(ND) algorithm). Both produce the same FileDiff shape.
+ */
+
+export type DiffLineType = 'context' | 'add' | 'delete';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  /** 1-based line number in the old version (context and delete lines) */
+  oldLineNumber?: number;
+  /** 1-based line number in the new version (context and add lines) */
+  newLineNumber?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Text after the second `@@`, usually the enclosing function */
+  section?: string;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+  isBinary: boolean;
+}
+
+/**
+ * Character range within a line (`start` inclusive, `end` exclusive)
+ */
+export interface DiffRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * One row of a side-by-side view. Changed lines are paired in order, so a
+ * modified line shows old and new text on the same row.
+ */
+export interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+  /** Changed word ranges within left.content */
+  leftRanges?: DiffRange[];
+  /** Changed word ranges within right.content */
+  rightRanges?: DiffRange[];
+}
+
+export type EditOp = 'equal' | 'insert' | 'delete';
+
+const DEFAULT_CONTEXT_LINES = 3;
+/** Skip word diffs for very long lines - they are rarely useful */
+const MAX_WORD_DIFF_LENGTH = 1000;
+
+export const EMPTY_FILE_DIFF: FileDiff = {
+  hunks: [],
+  additions: 0,
+  deletions: 0,
+  isBinary: false,
+};
+
+/**
+ * Myers' shortest edit script between two sequences.
+ * Uses the linear-space variant: each step finds the middle snake of the
+ * remaining range and recurses on both halves, so memory stays O(N + M)
+ * however far apart the sequences are.
+ */
+export function myersDiff<T>(a: T[], b: T[]): EditOp[] {
+  const ops: EditOp[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+  return ops;
+}
+
+/**
+ * Append the edit script for a[aStart, aEnd) -> b[bStart, bEnd) to ops
+ */
+function diffRange<T>(
+  a: T[],
+  aStart: number,
+  aEnd: number,
+  b: T[],
+  bStart: number,
+  bEnd: number,
+  ops: EditOp[]
+): void {
+  // Common prefix and suffix never need the O(ND) search
+  let prefix = 0;
+  while (
+    aStart + prefix < aEnd &&
+    bStart + prefix < bEnd &&
+    a[aStart + prefix] === b[bStart + prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    aEnd - suffix > aStart + prefix &&
+    bEnd - suffix > bStart + prefix &&
+    a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  for (let i = 0; i < prefix; i++) ops.push('equal');
+
+  const aLo = aStart + prefix;
+  const aHi = aEnd - suffix;
+  const bLo = bStart + prefix;
+  const bHi = bEnd - suffix;
+
+  if (aLo === aHi || bLo === bHi) {
+    for (let i = aLo; i < aHi; i++) ops.push('delete');
+    for (let i = bLo; i < bHi; i++) ops.push('insert');
+  } else {
+    const [x, y] = middleSnake(a, aLo, aHi, b, bLo, bHi);
+    diffRange(a, aLo, x, b, bLo, y, ops);
+    diffRange(a, x, aHi, b, y, bHi, ops);
+  }
+
+  for (let i = 0; i < suffix; i++) ops.push('equal');
+}
+
+/**
+ * Point where the forward and reverse searches of a[aLo, aHi) ->
+ * b[bLo, bHi) meet. Both ranges are non-empty and differ at both ends.
+ */
+function middleSnake<T>(
+  a: T[],
+  aLo: number,
+  aHi: number,
+  b: T[],
+  bLo: number,
+  bHi: number
+): [number, number] {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD + 1;
+  // forward[k + offset] = furthest x on diagonal k from the start;
+  // reverse[k + offset] = furthest x on diagonal k from the end
+  const forward = new Int32Array(2 * offset + 1).fill(-1);
+  const reverse = new Int32Array(2 * offset + 1).fill(-1);
+  forward[offset + 1] = 0;
+  reverse[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet on a forward step, else on a reverse one
+  const oddDelta = (delta & 1) !== 0;
+
+  for (let d = 0; d <= maxD; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d ||
+        (k !== d && forward[k - 1 + offset] < forward[k + 1 + offset])
+          ? forward[k + 1 + offset]
+          : forward[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[k + offset] = x;
+      const reverseK = delta - k;
+      if (
+        oddDelta &&
+        reverseK >= -(d - 1) &&
+        reverseK <= d - 1 &&
+        x + reverse[reverseK + offset] >= n
+      ) {
+        return [aLo + x, bLo + y];
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d ||
+        (k !== d && reverse[k - 1 + offset] < reverse[k + 1 + offset])
+          ? reverse[k + 1 + offset]
+          : reverse[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      reverse[k + offset] = x;
+      const forwardK = delta - k;
+      if (
+        !oddDelta &&
+        forwardK >= -d &&
+        forwardK <= d &&
+        forward[forwardK + offset] + x >= n
+      ) {
+        return [aHi - x, bHi - y];
+      }
+    }
+  }
+
+  // Unreachable: the searches always meet by d = ceil((N + M) / 2)
+  return [aHi, bLo];
+}
+
+export function splitLines(text: string | null): string[] {
+  if (!text) return [];
+  const lines = text.split(/\r?\n/);
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function isBinaryContent(text: string | null): boolean {
+  return !!text && text.includes('\0');
+}
+
+function countLines(
+  hunks: DiffHunk[]
+): Pick<FileDiff, 'additions' | 'deletions'> {
+  let additions = 0;
+  let deletions = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line.type === 'add') additions++;
+      else if (line.type === 'delete') deletions++;
+    }
+  }
+  return { additions, deletions };
+}
+
+/**
+ * Diff two versions of a file. `null` means the file does not exist in that
+ * version (created or deleted).
+ */
+export function computeFileDiff(
+  oldText: string | null,
+  newText: string | null,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): FileDiff {
+  if (isBinaryContent(oldText) || isBinaryContent(newText)) {
+    return { ...EMPTY_FILE_DIFF, isBinary: true };
+  }
+
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const ops = myersDiff(oldLines, newLines);
+
+  // Annotate every op with its line numbers
+  const all: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const op of ops) {
+    if (op === 'equal') {
+      all.push({
+        type: 'context',
+        content: oldLines[oldIndex],
+        oldLineNumber: ++oldIndex,
+        newLineNumber: ++newIndex,
+      });
+    } else if (op === 'delete') {
+      all.push({
+        type: 'delete',
+        content: oldLines[oldIndex],
+        oldLineNumber: ++oldIndex,
+      });
+    } else {
+      all.push({
+        type: 'add',
+        content: newLines[newIndex],
+        newLineNumber: ++newIndex,
+      });
+    }
+  }
+
+  // Group changes that are within 2 * contextLines of each other
+  const hunks: DiffHunk[] = [];
+  let i = 0;
+  while (i < all.length) {
+    if (all[i].type === 'context') {
+      i++;
+      continue;
+    }
+
+    const start = Math.max(0, i - contextLines);
+    let end = i;
+    let lastChange = i;
+    while (end < all.length) {
+      if (all[end].type !== 'context') {
+        lastChange = end;
+      } else if (end - lastChange > contextLines * 2) {
+        break;
+      }
+      end++;
+    }
+    end = Math.min(all.length, lastChange + contextLines + 1);
+
+    const lines = all.slice(start, end);
+    const first = lines[0];
+    const oldStart =
+      first.oldLineNumber ??
+      lines.find((l) => l.oldLineNumber)?.oldLineNumber ??
+      oldIndex + 1;
+    const newStart =
+      first.newLineNumber ??
+      lines.find((l) => l.newLineNumber)?.newLineNumber ??
+      newIndex + 1;
+    const oldCount = lines.filter((l) => l.type !== 'add').length;
+    const newCount = lines.filter((l) => l.type !== 'delete').length;
+
+    hunks.push({
+      // Git reports an empty side as starting at the line before
+      oldStart: oldCount === 0 ? oldStart - 1 : oldStart,
+      oldLines: oldCount,
+      newStart: newCount === 0 ? newStart - 1 : newStart,
+      newLines: newCount,
+      lines,
+    });
+    i = end;
+  }
+
+  return { hunks, ...countLines(hunks), isBinary: false };
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * Parse the output of `git diff` for a single file
+ */
+export function parseUnifiedDiff(text: string): FileDiff {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let isBinary = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const header = HUNK_HEADER.exec(raw);
+    if (header) {
+      current = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        section: header[5] || undefined,
+        lines: [],
+      };
+      hunks.push(current);
+      oldLine = current.oldStart;
+      newLine = current.newStart;
+      continue;
+    }
+
+    if (!current) {
+      if (raw.startsWith('Binary files ') || raw === 'GIT binary patch') {
+        isBinary = true;
+      }
+      continue;
+    }
+
+    const marker = raw[0];
+    const content = raw.slice(1);
+    if (marker === '+') {
+      current.lines.push({ type: 'add', content, newLineNumber: newLine++ });
+    } else if (marker === '-') {
+      current.lines.push({ type: 'delete', content, oldLineNumber: oldLine++ });
+    } else if (marker === ' ') {
+      current.lines.push({
+        type: 'context',
+        content,
+        oldLineNumber: oldLine++,
+        newLineNumber: newLine++,
+      });
+    }
+    // '\ No newline at end of file' and blank trailing lines are ignored
+  }
+
+  return { hunks, ...countLines(hunks), isBinary };
+}
+
+function tokenize(line: string): string[] {
+  return line.match(/\w+|\s+|[^\w\s]/g) ?? [];
+}
+
+/**
+ * Word-level changes between an old and a new version of a line
+ */
+export function diffWords(
+  oldLine: string,
+  newLine: string
+): { oldRanges: DiffRange[]; newRanges: DiffRange[] } {
+  if (
+    oldLine.length > MAX_WORD_DIFF_LENGTH ||
+    newLine.length > MAX_WORD_DIFF_LENGTH
+  ) {
+    return { oldRanges: [], newRanges: [] };
+  }
+
+  const oldTokens = tokenize(oldLine);
+  const newTokens = tokenize(newLine);
+  const oldRanges: DiffRange[] = [];
+  const newRanges: DiffRange[] = [];
+
+  const pushRange = (ranges: DiffRange[], start: number, end: number) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === start) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  };
+
+  let oldIndex = 0;
+  let newIndex = 0;
+  let oldOffset = 0;
+  let newOffset = 0;
+  for (const op of myersDiff(oldTokens, newTokens)) {
+    if (op === 'equal') {
+      oldOffset += oldTokens[oldIndex++].length;
+      newOffset += newTokens[newIndex++].length;
+    } else if (op === 'delete') {
+      const length = oldTokens[oldIndex++].length;
+      pushRange(oldRanges, oldOffset, oldOffset + length);
+      oldOffset += length;
+    } else {
+      const length = newTokens[newIndex++].length;
+      pushRange(newRanges, newOffset, newOffset + length);
+      newOffset += length;
+    }
+  }
+
+  return { oldRanges, newRanges };
+}
+
+/**
+ * Pair deleted and added lines of a hunk into rows, with word-level ranges
+ * for every paired (modified) line
+ */
+export function buildDiffRows(hunk: DiffHunk): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+
+  while (i < hunk.lines.length) {
+    const line = hunk.lines[i];
+    if (line.type === 'context') {
+      rows.push({ left: line, right: line });
+      i++;
+      continue;
+    }
+
+    const deleted: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < hunk.lines.length && hunk.lines[i].type === 'delete') {
+      deleted.push(hunk.lines[i++]);
+    }
+    while (i < hunk.lines.length && hunk.lines[i].type === 'add') {
+      added.push(hunk.lines[i++]);
+    }
+
+    for (let j = 0; j < Math.max(deleted.length, added.length); j++) {
+      const left = deleted[j];
+      const right = added[j];
+      if (left && right) {
+        const { oldRanges, newRanges } = diffWords(left.content, right.content);
+        rows.push({
+          left,
+          right,
+          leftRanges: oldRanges,
+          rightRanges: newRanges,
+        });
+      } else {
+        rows.push({ left, right });
+      }
+    }
+  }
+
+  return rows;
+}
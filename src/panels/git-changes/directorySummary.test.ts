@@ -0,0 +1,44 @@
+/**
+ * Tests for summarizing changed files by top-level directory
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { ChangedFileEntry } from './ChangedFilesTree';
+import { summarizeByTopLevelDirectory } from './directorySummary';
+
+describe('summarizeByTopLevelDirectory', () => {
+  test('groups by first path segment with root files last', () => {
+    const entries: ChangedFileEntry[] = [
+      { path: 'src/a.ts', status: 'staged' },
+      { path: 'README.md', status: 'unstaged' },
+      { path: 'docs/guide.md', status: 'untracked' },
+      { path: 'src/deep/b.ts', status: 'unstaged' },
+      { path: 'src/c.ts', status: 'unstaged' },
+    ];
+
+    const summaries = summarizeByTopLevelDirectory(entries);
+
+    expect(summaries.map((s) => s.directory)).toEqual(['docs', 'src', '']);
+    expect(summaries[1].entries).toHaveLength(3);
+    expect(summaries[1].counts).toEqual({
+      staged: 1,
+      unstaged: 2,
+      untracked: 0,
+      deleted: 0,
+    });
+  });
+
+  test('handles thousands of files', () => {
+    const entries: ChangedFileEntry[] = Array.from(
+      { length: 5000 },
+      (_, i) => ({
+        path: `packages/pkg-${i % 50}/src/file-${i}.ts`,
+        status: 'unstaged',
+      })
+    );
+
+    const [summary] = summarizeByTopLevelDirectory(entries);
+    expect(summary.directory).toBe('packages');
+    expect(summary.counts.unstaged).toBe(5000);
+  });
+});
@@ -0,0 +1,45 @@
+import type { GitChangeSelectionStatus } from '../../types';
+import type { ChangedFileEntry } from './ChangedFilesTree';
+
+/**
+ * Changed files under one top-level directory
+ */
+export interface DirectorySummary {
+  /** Top-level directory name, or '' for files at the repository root */
+  directory: string;
+  entries: ChangedFileEntry[];
+  /** Number of entries per status */
+  counts: Record<GitChangeSelectionStatus, number>;
+}
+
+/**
+ * Bucket changed files by their top-level directory. Directories are sorted
+ * by name, with root-level files last.
+ */
+export function summarizeByTopLevelDirectory(
+  entries: ChangedFileEntry[]
+): DirectorySummary[] {
+  const summaries = new Map<string, DirectorySummary>();
+
+  for (const entry of entries) {
+    const slash = entry.path.indexOf('/');
+    const directory = slash === -1 ? '' : entry.path.slice(0, slash);
+
+    let summary = summaries.get(directory);
+    if (!summary) {
+      summary = {
+        directory,
+        entries: [],
+        counts: { staged: 0, unstaged: 0, untracked: 0, deleted: 0 },
+      };
+      summaries.set(directory, summary);
+    }
+    summary.entries.push(entry);
+    summary.counts[entry.status]++;
+  }
+
+  return [...summaries.values()].sort((a, b) => {
+    if (!a.directory !== !b.directory) return a.directory ? -1 : 1;
+    return a.directory.localeCompare(b.directory);
+  });
+}
@@ -0,0 +1,70 @@
+export {
+  computeFileDiff,
+  parseUnifiedDiff,
+  diffWords,
+  buildDiffRows,
+  EMPTY_FILE_DIFF,
+  type DiffLineType,
+  type DiffLine,
+  type DiffHunk,
+  type FileDiff,
+  type DiffRange,
+  type DiffRow,
+} from './diff';
+export { DiffViewer, type DiffViewMode } from './DiffViewer';
+export {
+  ChangedFilesTree,
+  buildChangedFilesTree,
+  flattenChangedFiles,
+  changedFileKey,
+  type ChangedFileEntry,
+} from './ChangedFilesTree';
+export { useFileDiffs, loadFileDiff, type DiffSource } from './useFileDiffs';
+export {
+  applyGitStatusOperation,
+  type GitStatusOperation,
+} from './optimisticStatus';
+export { CommitComposer } from './CommitComposer';
+export {
+  CONVENTIONAL_COMMIT_TYPES,
+  SUBJECT_SOFT_LIMIT,
+  SUBJECT_HARD_LIMIT,
+  parseCommitMessage,
+  applyCommitType,
+  getSubjectLengthStatus,
+  validateCommitMessage,
+  runCommitChanges,
+  type ConventionalCommitType,
+  type ParsedCommitMessage,
+  type SubjectLengthStatus,
+} from './commitMessage';
+export {
+  groupChangesByPackage,
+  type PackageChangeGroup,
+} from './packageGroups';
+export { PackageChangesView } from './PackageChangesView';
+export { BranchHeader } from './BranchHeader';
+export {
+  collapseRenames,
+  countStagedChanges,
+  indexRenamesByNewPath,
+  formatRenameStatus,
+} from './renames';
+export {
+  summarizeByTopLevelDirectory,
+  type DirectorySummary,
+} from './directorySummary';
+export { DirectorySummaryView } from './DirectorySummaryView';
+export { useWindowedRows } from './useWindowedRows';
+export {
+  mergeThreeWay,
+  resolveMerge,
+  detectLineFormat,
+  removeConflictedPaths,
+  type MergeSegment,
+  type ConflictChoice,
+  type LineFormat,
+} from './conflicts';
+export { ConflictViewer } from './ConflictViewer';
+export { ConflictsSection } from './ConflictsSection';
+export { AffectedPackagesView } from './AffectedPackagesView';
@@ -0,0 +1,138 @@
+/**
+ * Tests for optimistic git status updates
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { GitStatusWithRenames } from '../../types';
+import { applyGitStatusOperation } from './optimisticStatus';
+
+const status: GitStatusWithRenames = {
+  repoPath: '/repo',
+  branch: 'main',
+  isDirty: true,
+  hasUntracked: true,
+  hasStaged: true,
+  ahead: 0,
+  behind: 0,
+  watchingEnabled: false,
+  stagedFiles: ['src/added.ts', 'src/staged.ts'],
+  modifiedFiles: ['src/app.ts', 'README.md'],
+  untrackedFiles: ['src/new.ts'],
+  deletedFiles: ['src/old.ts'],
+  createdFiles: ['src/added.ts'],
+  hash: 'abc',
+};
+
+describe('applyGitStatusOperation', () => {
+  test('stage moves files into the staged list', () => {
+    const next = applyGitStatusOperation(status, {
+      type: 'stage',
+      paths: ['src/app.ts', 'src/new.ts', 'src/old.ts'],
+    });
+
+    expect(next.stagedFiles).toEqual([
+      'src/added.ts',
+      'src/staged.ts',
+      'src/app.ts',
+      'src/new.ts',
+      'src/old.ts',
+    ]);
+    expect(next.modifiedFiles).toEqual(['README.md']);
+    expect(next.untrackedFiles).toEqual([]);
+    expect(next.deletedFiles).toEqual([]);
+    expect(next.hasUntracked).toBe(false);
+  });
+
+  test('unstage returns created files to untracked', () => {
+    const next = applyGitStatusOperation(status, {
+      type: 'unstage',
+      paths: ['src/added.ts', 'src/staged.ts'],
+    });
+
+    expect(next.stagedFiles).toEqual([]);
+    expect(next.hasStaged).toBe(false);
+    expect(next.modifiedFiles).toEqual([
+      'src/app.ts',
+      'README.md',
+      'src/staged.ts',
+    ]);
+    expect(next.untrackedFiles).toEqual(['src/new.ts', 'src/added.ts']);
+  });
+
+  test('unstaging a rename splits it into an untracked file and a deletion', () => {
+    const next = applyGitStatusOperation(
+      {
+        ...status,
+        renamedFiles: [
+          {
+            kind: 'renamed',
+            oldPath: 'src/before.ts',
+            newPath: 'src/after.ts',
+            similarity: 90,
+          },
+        ],
+      },
+      { type: 'unstage', paths: ['src/after.ts'] }
+    );
+
+    expect(next.renamedFiles).toEqual([]);
+    expect(next.untrackedFiles).toContain('src/after.ts');
+    expect(next.deletedFiles).toContain('src/before.ts');
+  });
+
+  test('discard keeps staged changes', () => {
+    const next = applyGitStatusOperation(status, {
+      type: 'discard',
+      paths: ['src/app.ts', 'src/new.ts', 'src/staged.ts'],
+    });
+
+    expect(next.stagedFiles).toEqual(status.stagedFiles);
+    expect(next.modifiedFiles).toEqual(['README.md']);
+    expect(next.untrackedFiles).toEqual([]);
+  });
+
+  test('stageFolder stages only changes under the folder', () => {
+    const next = applyGitStatusOperation(status, {
+      type: 'stageFolder',
+      path: 'src',
+    });
+
+    expect(next.modifiedFiles).toEqual(['README.md']);
+    expect(next.untrackedFiles).toEqual([]);
+    expect(next.deletedFiles).toEqual([]);
+    expect(next.stagedFiles).toContain('src/old.ts');
+  });
+
+  test('markResolved moves a conflicted file into the staged list', () => {
+    const next = applyGitStatusOperation(
+      { ...status, conflictedFiles: ['src/merge.ts', 'src/other.ts'] },
+      { type: 'markResolved', path: 'src/merge.ts' }
+    );
+
+    expect(next.conflictedFiles).toEqual(['src/other.ts']);
+    expect(next.stagedFiles).toContain('src/merge.ts');
+    expect(next.hasStaged).toBe(true);
+  });
+
+  test('is clean once everything is discarded', () => {
+    const next = applyGitStatusOperation(
+      applyGitStatusOperation(status, {
+        type: 'unstage',
+        paths: status.stagedFiles,
+      }),
+      {
+        type: 'discard',
+        paths: ['src/app.ts', 'README.md', 'src/new.ts', 'src/old.ts'],
+      }
+    );
+
+    expect(next.stagedFiles).toEqual([]);
+    expect(next.isDirty).toBe(true);
+
+    const clean = applyGitStatusOperation(next, {
+      type: 'discard',
+      paths: [...next.modifiedFiles, ...next.untrackedFiles],
+    });
+    expect(clean.isDirty).toBe(false);
+  });
+});
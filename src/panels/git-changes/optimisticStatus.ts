@@ -0,0 +1,117 @@
+import type { GitStatusWithRenames } from '../../types';
+
+/**
+ * A git operation started from the panel, applied to the displayed status
+ * before the host has refreshed it
+ */
+export type GitStatusOperation =
+  | { type: 'stage'; paths: string[] }
+  | { type: 'unstage'; paths: string[] }
+  | { type: 'discard'; paths: string[] }
+  | { type: 'stageFolder'; path: string }
+  | { type: 'markResolved'; path: string };
+
+const isInFolder = (path: string, folder: string) =>
+  folder === '' || path === folder || path.startsWith(folder + '/');
+
+const without = (list: string[], paths: Set<string>) =>
+  list.filter((path) => !paths.has(path));
+
+const union = (list: string[], paths: Iterable<string>) => [
+  ...new Set([...list, ...paths]),
+];
+
+function withFlags(status: GitStatusWithRenames): GitStatusWithRenames {
+  return {
+    ...status,
+    hasStaged: status.stagedFiles.length > 0 || !!status.renamedFiles?.length,
+    hasUntracked: status.untrackedFiles.length > 0,
+    isDirty:
+      status.stagedFiles.length > 0 ||
+      !!status.renamedFiles?.length ||
+      !!status.conflictedFiles?.length ||
+      status.modifiedFiles.length > 0 ||
+      status.untrackedFiles.length > 0 ||
+      status.deletedFiles.length > 0,
+  };
+}
+
+/**
+ * Predict the git status after an operation.
+ *
+ * Untracked directory entries (`new-dir/`) are not split, so callers should
+ * expand them into files first. The host's refreshed status always wins.
+ */
+export function applyGitStatusOperation(
+  status: GitStatusWithRenames,
+  operation: GitStatusOperation
+): GitStatusWithRenames {
+  switch (operation.type) {
+    case 'stage': {
+      const paths = new Set(operation.paths);
+      return withFlags({
+        ...status,
+        stagedFiles: union(status.stagedFiles, paths),
+        modifiedFiles: without(status.modifiedFiles, paths),
+        untrackedFiles: without(status.untrackedFiles, paths),
+        deletedFiles: without(status.deletedFiles, paths),
+      });
+    }
+    case 'unstage': {
+      const paths = new Set(operation.paths);
+      const unstaged = status.stagedFiles.filter((path) => paths.has(path));
+      // Newly added files go back to untracked, everything else to modified
+      const created = new Set(status.createdFiles);
+      // An unstaged rename splits into an untracked file and a deletion
+      const renames = status.renamedFiles ?? [];
+      const unstagedRenames = renames.filter((r) => paths.has(r.newPath));
+      return withFlags({
+        ...status,
+        stagedFiles: without(status.stagedFiles, paths),
+        modifiedFiles: union(
+          status.modifiedFiles,
+          unstaged.filter((path) => !created.has(path))
+        ),
+        untrackedFiles: union(status.untrackedFiles, [
+          ...unstaged.filter((path) => created.has(path)),
+          ...unstagedRenames.map((r) => r.newPath),
+        ]),
+        deletedFiles: union(
+          status.deletedFiles,
+          unstagedRenames
+            .filter((r) => r.kind === 'renamed')
+            .map((r) => r.oldPath)
+        ),
+        renamedFiles:
+          status.renamedFiles && renames.filter((r) => !paths.has(r.newPath)),
+      });
+    }
+    case 'discard': {
+      const paths = new Set(operation.paths);
+      return withFlags({
+        ...status,
+        modifiedFiles: without(status.modifiedFiles, paths),
+        untrackedFiles: without(status.untrackedFiles, paths),
+        deletedFiles: without(status.deletedFiles, paths),
+      });
+    }
+    case 'stageFolder': {
+      const paths = [
+        ...status.modifiedFiles,
+        ...status.untrackedFiles,
+        ...status.deletedFiles,
+      ].filter((path) => isInFolder(path, operation.path));
+      return applyGitStatusOperation(status, { type: 'stage', paths });
+    }
+    case 'markResolved': {
+      // A resolved file is staged with its resolution
+      return withFlags({
+        ...status,
+        conflictedFiles: status.conflictedFiles?.filter(
+          (path) => path !== operation.path
+        ),
+        stagedFiles: union(status.stagedFiles, [operation.path]),
+      });
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for grouping changed files by package
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMockPackage } from '../../mocks/packages';
+import type { ChangedFileEntry } from './ChangedFilesTree';
+import { groupChangesByPackage } from './packageGroups';
+
+const entries: ChangedFileEntry[] = [
+  { path: 'packages/core/src/index.ts', status: 'staged' },
+  { path: 'packages/core/src/util.ts', status: 'unstaged' },
+  { path: 'packages/core-extras/index.ts', status: 'untracked' },
+  { path: 'packages/ui/nested/pkg/index.ts', status: 'unstaged' },
+  { path: 'README.md', status: 'unstaged' },
+];
+
+describe('groupChangesByPackage', () => {
+  test('assigns files to the innermost package', () => {
+    const groups = groupChangesByPackage(entries, [
+      createMockPackage('root', { path: '' }),
+      createMockPackage('@app/core', { path: 'packages/core' }),
+      createMockPackage('@app/ui', { path: 'packages/ui' }),
+      createMockPackage('@app/nested', { path: 'packages/ui/nested/pkg' }),
+    ]);
+
+    const byName = Object.fromEntries(
+      groups.map((g) => [g.name, g.entries.map((e) => e.path)])
+    );
+    expect(byName['@app/core']).toEqual([
+      'packages/core/src/index.ts',
+      'packages/core/src/util.ts',
+    ]);
+    expect(byName['@app/nested']).toEqual(['packages/ui/nested/pkg/index.ts']);
+    // A sibling directory with a shared prefix is not part of the package
+    expect(byName.root).toEqual(['packages/core-extras/index.ts', 'README.md']);
+    expect(byName['@app/ui']).toBeUndefined();
+  });
+
+  test('counts statuses and sorts by number of changes', () => {
+    const groups = groupChangesByPackage(entries, [
+      createMockPackage('root', { path: '' }),
+      createMockPackage('@app/core', { path: 'packages/core' }),
+    ]);
+
+    expect(groups.map((g) => g.name)).toEqual(['root', '@app/core']);
+    expect(groups[1].counts).toEqual({
+      staged: 1,
+      unstaged: 1,
+      untracked: 0,
+      deleted: 0,
+    });
+  });
+
+  test('collects files outside every package last', () => {
+    const groups = groupChangesByPackage(entries, [
+      createMockPackage('@app/core', { path: './packages/core/' }),
+    ]);
+
+    expect(groups[0].name).toBe('@app/core');
+    expect(groups[0].entries).toHaveLength(2);
+    expect(groups[1].package).toBeNull();
+    expect(groups[1].entries).toHaveLength(3);
+  });
+});
@@ -0,0 +1,58 @@
+import type { GitChangeSelectionStatus, PackageLayer } from '../../types';
+import {
+  createPackageMatcher,
+  normalizePackagePath,
+} from '../../utils/packageGraph';
+import type { ChangedFileEntry } from './ChangedFilesTree';
+
+/**
+ * Changed files belonging to one package
+ */
+export interface PackageChangeGroup {
+  /** The package, or null for files outside every package */
+  package: PackageLayer | null;
+  /** Package directory relative to the repository root ('' for the root) */
+  path: string;
+  name: string;
+  entries: ChangedFileEntry[];
+  /** Number of entries per status */
+  counts: Record<GitChangeSelectionStatus, number>;
+}
+
+/**
+ * Bucket changed files by the innermost package that contains them
+ * (`PackageLayer.packageData.path`). Groups are sorted by number of changes.
+ */
+export function groupChangesByPackage(
+  entries: ChangedFileEntry[],
+  packages: PackageLayer[]
+): PackageChangeGroup[] {
+  const findPackage = createPackageMatcher(packages);
+  const groups = new Map<string, PackageChangeGroup>();
+
+  for (const entry of entries) {
+    const match = findPackage(entry.path);
+    const key = match ? normalizePackagePath(match.packageData.path) : null;
+    const groupKey = key ?? '\0other';
+
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = {
+        package: match,
+        path: key ?? '',
+        name: match?.packageData.name ?? 'Other files',
+        entries: [],
+        counts: { staged: 0, unstaged: 0, untracked: 0, deleted: 0 },
+      };
+      groups.set(groupKey, group);
+    }
+    group.entries.push(entry);
+    group.counts[entry.status]++;
+  }
+
+  return [...groups.values()].sort((a, b) => {
+    // Files outside every package go last
+    if (!a.package !== !b.package) return a.package ? -1 : 1;
+    return b.entries.length - a.entries.length || a.name.localeCompare(b.name);
+  });
+}
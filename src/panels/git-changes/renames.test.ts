@@ -0,0 +1,90 @@
+/**
+ * Tests for collapsing renames and copies in git status
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { GitStatusWithRenames } from '../../types';
+import {
+  collapseRenames,
+  countStagedChanges,
+  formatRenameStatus,
+} from './renames';
+
+const status: GitStatusWithRenames = {
+  repoPath: '/repo',
+  branch: 'main',
+  isDirty: true,
+  hasUntracked: false,
+  hasStaged: true,
+  ahead: 0,
+  behind: 0,
+  watchingEnabled: false,
+  stagedFiles: ['src/new-name.ts', 'src/old-name.ts', 'src/copy.ts', 'a.ts'],
+  modifiedFiles: ['src/new-name.ts'],
+  untrackedFiles: [],
+  deletedFiles: ['src/old-name.ts', 'b.ts'],
+  createdFiles: ['src/new-name.ts', 'src/copy.ts'],
+  renamedFiles: [
+    {
+      kind: 'renamed',
+      oldPath: 'src/old-name.ts',
+      newPath: 'src/new-name.ts',
+      similarity: 92,
+    },
+    {
+      kind: 'copied',
+      oldPath: 'src/original.ts',
+      newPath: 'src/copy.ts',
+      similarity: 100,
+    },
+  ],
+  hash: 'abc',
+};
+
+describe('collapseRenames', () => {
+  test('removes both paths of a rename from the plain lists', () => {
+    const collapsed = collapseRenames(status);
+
+    expect(collapsed.stagedFiles).toEqual(['a.ts']);
+    expect(collapsed.deletedFiles).toEqual(['b.ts']);
+    expect(collapsed.createdFiles).toEqual([]);
+  });
+
+  test('keeps further unstaged edits to the renamed file', () => {
+    expect(collapseRenames(status).modifiedFiles).toEqual(['src/new-name.ts']);
+  });
+
+  test('returns the status unchanged without renames', () => {
+    const plain = { ...status, renamedFiles: undefined };
+    expect(collapseRenames(plain)).toBe(plain);
+  });
+});
+
+describe('countStagedChanges', () => {
+  test('counts each rename and copy once', () => {
+    expect(countStagedChanges(collapseRenames(status))).toBe(3);
+  });
+
+  test('counts an index that only holds a rename', () => {
+    const renameOnly: GitStatusWithRenames = {
+      ...status,
+      stagedFiles: ['src/new-name.ts', 'src/old-name.ts'],
+      modifiedFiles: [],
+      deletedFiles: [],
+      createdFiles: [],
+      renamedFiles: status.renamedFiles?.slice(0, 1),
+    };
+
+    expect(collapseRenames(renameOnly).stagedFiles).toEqual([]);
+    expect(countStagedChanges(collapseRenames(renameOnly))).toBe(1);
+  });
+});
+
+describe('formatRenameStatus', () => {
+  test('uses R for renames and C for copies', () => {
+    expect(status.renamedFiles!.map(formatRenameStatus)).toEqual([
+      'R92',
+      'C100',
+    ]);
+  });
+});
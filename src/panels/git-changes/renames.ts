@@ -0,0 +1,49 @@
+import type { GitRenamedFile, GitStatusWithRenames } from '../../types';
+
+/**
+ * Remove the paths of renames and copies from the plain file lists, so each
+ * pair shows up once as a renamed entry instead of a delete plus an add.
+ * A renamed file with further unstaged edits stays in modifiedFiles.
+ */
+export function collapseRenames(
+  status: GitStatusWithRenames
+): GitStatusWithRenames {
+  const renames = status.renamedFiles ?? [];
+  if (renames.length === 0) return status;
+
+  const newPaths = new Set(renames.map((r) => r.newPath));
+  const oldPaths = new Set(
+    renames.filter((r) => r.kind === 'renamed').map((r) => r.oldPath)
+  );
+  const keep = (path: string) => !newPaths.has(path) && !oldPaths.has(path);
+
+  return {
+    ...status,
+    stagedFiles: status.stagedFiles.filter(keep),
+    deletedFiles: status.deletedFiles.filter((path) => !oldPaths.has(path)),
+    untrackedFiles: status.untrackedFiles.filter((path) => !newPaths.has(path)),
+    createdFiles: status.createdFiles.filter((path) => !newPaths.has(path)),
+  };
+}
+
+/**
+ * Number of staged changes in a collapsed status, counting each rename or
+ * copy once
+ */
+export const countStagedChanges = (status: GitStatusWithRenames) =>
+  status.stagedFiles.length + (status.renamedFiles?.length ?? 0);
+
+/**
+ * Look up renames by their new path
+ */
+export function indexRenamesByNewPath(
+  renames: GitRenamedFile[] | undefined
+): Map<string, GitRenamedFile> {
+  return new Map((renames ?? []).map((r) => [r.newPath, r]));
+}
+
+/**
+ * Short status label, e.g. `R87` for an 87% similar rename
+ */
+export const formatRenameStatus = (rename: GitRenamedFile) =>
+  `${rename.kind === 'renamed' ? 'R' : 'C'}${rename.similarity}`;
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { GitChangesPanelActions } from '../../types';
+import { computeFileDiff, parseUnifiedDiff, type FileDiff } from './diff';
+import { changedFileKey, type ChangedFileEntry } from './ChangedFilesTree';
+
+/**
+ * Host actions a diff can be loaded from
+ */
+export type DiffSource = Pick<
+  GitChangesPanelActions,
+  'getDiff' | 'readFileAtRevision'
+>;
+
+/** Diffs loaded in parallel when computing line counts */
+const DIFF_CONCURRENCY = 4;
+/** Batch loaded diffs into one state update per interval */
+const DIFF_FLUSH_MS = 50;
+
+/**
+ * Load the diff for one changed file, preferring the host's own diff
+ */
+export async function loadFileDiff(
+  entry: ChangedFileEntry,
+  source: DiffSource
+): Promise<FileDiff> {
+  if (source.getDiff) {
+    const text = await source.getDiff(entry.path, {
+      staged: entry.status === 'staged',
+      oldPath: entry.rename?.oldPath,
+    });
+    return parseUnifiedDiff(text);
+  }
+
+  const read = source.readFileAtRevision;
+  if (!read) {
+    throw new Error('No diff source available');
+  }
+
+  switch (entry.status) {
+    case 'staged':
+      return computeFileDiff(
+        // Renames and copies compare against the source file
+        await read(entry.rename?.oldPath ?? entry.path, 'HEAD'),
+        await read(entry.path, 'INDEX')
+      );
+    case 'unstaged':
+      return computeFileDiff(
+        await read(entry.path, 'INDEX'),
+        await read(entry.path, 'WORKING_TREE')
+      );
+    case 'untracked':
+      return computeFileDiff(null, await read(entry.path, 'WORKING_TREE'));
+    case 'deleted':
+      return computeFileDiff(await read(entry.path, 'INDEX'), null);
+  }
+}
+
+/**
+ * Load and cache diffs for changed files.
+ * The cache is dropped whenever `cacheKey` (the git status hash) changes.
+ * With `loadAll`, every entry is loaded in the background so line counts
+ * can be shown; otherwise diffs are only loaded through `requestDiff`.
+ */
+export function useFileDiffs(
+  entries: ChangedFileEntry[],
+  source: DiffSource,
+  cacheKey: string,
+  loadAll: boolean
+) {
+  const [diffs, setDiffs] = useState<Record<string, FileDiff>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const requested = useRef(new Set<string>());
+  const generation = useRef(0);
+  // Results not yet flushed to state
+  const pendingDiffs = useRef<Record<string, FileDiff>>({});
+  const pendingErrors = useRef<Record<string, string>>({});
+  const flushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Keep the latest actions without restarting loads when they change identity
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+
+  const isAvailable = !!(source.getDiff || source.readFileAtRevision);
+
+  const flush = useCallback(() => {
+    flushTimer.current = null;
+    const loaded = pendingDiffs.current;
+    const failed = pendingErrors.current;
+    pendingDiffs.current = {};
+    pendingErrors.current = {};
+    if (Object.keys(loaded).length > 0) {
+      setDiffs((prev) => ({ ...prev, ...loaded }));
+    }
+    if (Object.keys(failed).length > 0) {
+      setErrors((prev) => ({ ...prev, ...failed }));
+    }
+  }, []);
+
+  const scheduleFlush = useCallback(() => {
+    if (!flushTimer.current) {
+      flushTimer.current = setTimeout(flush, DIFF_FLUSH_MS);
+    }
+  }, [flush]);
+
+  useEffect(() => {
+    generation.current++;
+    requested.current = new Set();
+    pendingDiffs.current = {};
+    pendingErrors.current = {};
+    setDiffs({});
+    setErrors({});
+  }, [cacheKey]);
+
+  useEffect(
+    () => () => {
+      if (flushTimer.current) clearTimeout(flushTimer.current);
+    },
+    []
+  );
+
+  const requestDiff = useCallback(
+    async (entry: ChangedFileEntry) => {
+      const key = changedFileKey(entry);
+      if (requested.current.has(key)) return;
+      requested.current.add(key);
+
+      const currentGeneration = generation.current;
+      try {
+        const diff = await loadFileDiff(entry, sourceRef.current);
+        if (currentGeneration !== generation.current) return;
+        pendingDiffs.current[key] = diff;
+      } catch (error) {
+        if (currentGeneration !== generation.current) return;
+        pendingErrors.current[key] =
+          error instanceof Error ? error.message : String(error);
+      }
+      scheduleFlush();
+    },
+    [scheduleFlush]
+  );
+
+  useEffect(() => {
+    if (!loadAll || !isAvailable) return;
+
+    const pending = entries.filter(
+      (entry) => !requested.current.has(changedFileKey(entry))
+    );
+    let cancelled = false;
+
+    const worker = async () => {
+      while (!cancelled && pending.length > 0) {
+        await requestDiff(pending.shift()!);
+      }
+    };
+    for (let i = 0; i < DIFF_CONCURRENCY; i++) {
+      void worker();
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entries, loadAll, isAvailable, requestDiff, cacheKey]);
+
+  return { diffs, errors, requestDiff, isAvailable };
+}
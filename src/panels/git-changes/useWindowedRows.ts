@@ -0,0 +1,68 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+
+/** Rows rendered before the first scroll measurement */
+const INITIAL_ROW_COUNT = 50;
+
+function findScrollParent(element: HTMLElement): HTMLElement | null {
+  let parent = element.parentElement;
+  while (parent) {
+    const { overflowY } = getComputedStyle(parent);
+    if (overflowY === 'auto' || overflowY === 'scroll') return parent;
+    parent = parent.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Window a list of fixed-height rows against the nearest scrolling ancestor,
+ * so only the rows in view (plus `overscan` on each side) are rendered.
+ * Attach `containerRef` to the element that holds the rows.
+ */
+export function useWindowedRows(
+  rowCount: number,
+  rowHeight: number,
+  overscan = 10
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [range, setRange] = useState({ start: 0, end: INITIAL_ROW_COUNT });
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const scroller = findScrollParent(container);
+
+    const update = () => {
+      const viewportTop = scroller ? scroller.getBoundingClientRect().top : 0;
+      const viewportHeight = scroller
+        ? scroller.clientHeight
+        : window.innerHeight;
+      // Distance the rows have scrolled above the top of the viewport
+      const offset = viewportTop - container.getBoundingClientRect().top;
+
+      const start = Math.max(0, Math.floor(offset / rowHeight) - overscan);
+      const end = Math.max(
+        start,
+        Math.ceil((offset + viewportHeight) / rowHeight) + overscan
+      );
+      setRange((prev) =>
+        prev.start === start && prev.end === end ? prev : { start, end }
+      );
+    };
+
+    update();
+    const target = scroller ?? window;
+    target.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      target.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [rowCount, rowHeight, overscan]);
+
+  return {
+    containerRef,
+    start: Math.min(range.start, rowCount),
+    end: Math.min(range.end, rowCount),
+  };
+}
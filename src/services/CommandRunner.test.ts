@@ -0,0 +1,98 @@
+/**
+ * Tests for the scripted command runner
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { PackageCommand } from '../types/composition';
+import {
+  createScriptedCommandRunner,
+  type CommandRunEvent,
+} from './CommandRunner';
+
+const command = (name: string): PackageCommand => ({
+  name,
+  command: `bun run ${name}`,
+});
+
+const runner = createScriptedCommandRunner({
+  test: {
+    output: [
+      { data: 'running 2 tests\n' },
+      { data: 'warning: slow test\n', stream: 'stderr' },
+      { data: 'done\n', delayMs: 5 },
+    ],
+    exitCode: 0,
+  },
+  lint: { output: [{ data: '1 error\n' }], exitCode: 1 },
+});
+
+const collect = async (
+  name: string,
+  signal?: AbortSignal
+): Promise<CommandRunEvent[]> => {
+  const events: CommandRunEvent[] = [];
+  for await (const event of runner(command(name), {
+    packagePath: 'packages/core',
+    signal,
+  })) {
+    events.push(event);
+  }
+  return events;
+};
+
+describe('createScriptedCommandRunner', () => {
+  test('streams output and then the exit code', async () => {
+    expect(await collect('test')).toEqual([
+      { type: 'output', stream: 'stdout', data: 'running 2 tests\n' },
+      { type: 'output', stream: 'stderr', data: 'warning: slow test\n' },
+      { type: 'output', stream: 'stdout', data: 'done\n' },
+      { type: 'exit', exitCode: 0 },
+    ]);
+  });
+
+  test('reports failing exit codes', async () => {
+    const events = await collect('lint');
+
+    expect(events[events.length - 1]).toEqual({ type: 'exit', exitCode: 1 });
+  });
+
+  test('fails unknown commands with 127', async () => {
+    const events = await collect('deploy');
+
+    expect(events[0]).toMatchObject({ type: 'output', stream: 'stderr' });
+    expect(events[1]).toEqual({ type: 'exit', exitCode: 127 });
+  });
+
+  test('ends without an exit event when aborted', async () => {
+    const controller = new AbortController();
+    const events: CommandRunEvent[] = [];
+    for await (const event of runner(command('test'), {
+      packagePath: 'packages/core',
+      signal: controller.signal,
+    })) {
+      events.push(event);
+      controller.abort();
+    }
+
+    expect(events).toHaveLength(1);
+  });
+
+  test('does not leave abort listeners behind after delays', async () => {
+    const { signal } = new AbortController();
+    let listeners = 0;
+    const add = signal.addEventListener.bind(signal);
+    const remove = signal.removeEventListener.bind(signal);
+    signal.addEventListener = ((...args: Parameters<typeof add>) => {
+      listeners++;
+      add(...args);
+    }) as typeof add;
+    signal.removeEventListener = ((...args: Parameters<typeof remove>) => {
+      listeners--;
+      remove(...args);
+    }) as typeof remove;
+
+    await collect('test', signal);
+
+    expect(listeners).toBe(0);
+  });
+});
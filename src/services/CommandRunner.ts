@@ -0,0 +1,101 @@
+/**
+ * Command runner contract shared by PackageCompositionPanel and host
+ * applications.
+ *
+ * The host owns the real implementation (spawning the package manager in a
+ * terminal, a remote agent...). This module only defines the streaming shape
+ * the panel consumes, plus a scripted runner for Storybook and tests.
+ */
+
+import type { PackageCommand } from '../types/composition';
+
+export interface CommandRunOptions {
+  /** Package the command runs in, relative to the repository root */
+  packagePath: string;
+  /**
+   * Aborted when the user cancels the run or the panel unmounts. Runners
+   * should stop the process and end the stream.
+   */
+  signal?: AbortSignal;
+}
+
+export type CommandOutputStream = 'stdout' | 'stderr';
+
+/**
+ * A chunk of output, or the end of the run. Output may contain ANSI escape
+ * sequences; it does not need to be split on line boundaries.
+ */
+export type CommandRunEvent =
+  | { type: 'output'; stream: CommandOutputStream; data: string }
+  | { type: 'exit'; exitCode: number | null };
+
+/**
+ * Starts a command and streams its output. A stream that ends without an
+ * `exit` event is treated as cancelled when the signal was aborted, and as
+ * failed otherwise.
+ */
+export type CommandRunner = (
+  command: PackageCommand,
+  options: CommandRunOptions
+) => AsyncIterable<CommandRunEvent>;
+
+/**
+ * Output and exit code a scripted command produces
+ */
+export interface CommandScript {
+  output: Array<{
+    data: string;
+    stream?: CommandOutputStream;
+    /** Wait before emitting this chunk (default: 0) */
+    delayMs?: number;
+  }>;
+  exitCode: number;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Create a runner that replays canned output per command name. Unknown
+ * commands fail with exit code 127, like a shell.
+ */
+export function createScriptedCommandRunner(
+  scripts: Record<string, CommandScript>
+): CommandRunner {
+  return async function* runCommand(command, options) {
+    const script = scripts[command.name];
+    if (!script) {
+      yield {
+        type: 'output',
+        stream: 'stderr',
+        data: `command not found: ${command.name}\n`,
+      };
+      yield { type: 'exit', exitCode: 127 };
+      return;
+    }
+
+    for (const chunk of script.output) {
+      await wait(chunk.delayMs ?? 0, options.signal);
+      if (options.signal?.aborted) return;
+      yield {
+        type: 'output',
+        stream: chunk.stream ?? 'stdout',
+        data: chunk.data,
+      };
+    }
+
+    if (options.signal?.aborted) return;
+    yield { type: 'exit', exitCode: script.exitCode };
+  };
+}
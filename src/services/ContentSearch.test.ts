@@ -0,0 +1,104 @@
+/**
+ * Tests for the in-memory content search provider
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  createInMemoryContentSearch,
+  groupContentMatches,
+  type ContentSearchMatch,
+  type ContentSearchOptions,
+} from './ContentSearch';
+
+const files: Record<string, string> = {
+  'src/index.ts': [
+    "import { App } from './App';",
+    '',
+    'export const version = 1;',
+    'export default App;',
+  ].join('\n'),
+  'src/App.tsx': [
+    'export function App() {',
+    '  // TODO: render app',
+    '  return null;',
+    '}',
+  ].join('\n'),
+  'README.md': '# App\n\nTODO: write docs\n',
+};
+
+const collect = async (
+  query: string,
+  options?: ContentSearchOptions
+): Promise<ContentSearchMatch[]> => {
+  const search = createInMemoryContentSearch(files);
+  const matches: ContentSearchMatch[] = [];
+  for await (const match of search(query, options)) {
+    matches.push(match);
+  }
+  return matches;
+};
+
+describe('createInMemoryContentSearch', () => {
+  test('streams matching lines with 1-based line numbers', async () => {
+    const matches = await collect('export');
+
+    expect(matches.map((m) => `${m.relativePath}:${m.lineNumber}`)).toEqual([
+      'src/index.ts:3',
+      'src/index.ts:4',
+      'src/App.tsx:1',
+    ]);
+  });
+
+  test('reports every match range on a line', async () => {
+    const [match] = await collect('app', { maxResults: 1 });
+
+    expect(match.lineText).toBe("import { App } from './App';");
+    expect(match.ranges).toEqual([
+      { start: 9, end: 12 },
+      { start: 23, end: 26 },
+    ]);
+  });
+
+  test('includes surrounding context lines', async () => {
+    const matches = await collect('TODO: render', { contextLines: 1 });
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].contextBefore).toEqual(['export function App() {']);
+    expect(matches[0].contextAfter).toEqual(['  return null;']);
+  });
+
+  test('respects caseSensitive', async () => {
+    expect(await collect('todo')).toHaveLength(2);
+    expect(await collect('todo', { caseSensitive: true })).toHaveLength(0);
+  });
+
+  test('supports regex queries and ignores invalid ones', async () => {
+    const matches = await collect('^export (const|default)', { regex: true });
+    expect(matches).toHaveLength(2);
+
+    expect(await collect('(', { regex: true })).toHaveLength(0);
+  });
+
+  test('stops once the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await collect('export', { signal: controller.signal })).toHaveLength(
+      0
+    );
+  });
+});
+
+describe('groupContentMatches', () => {
+  test('groups matches by file in first-seen order', async () => {
+    const groups = groupContentMatches(await collect('app'));
+
+    expect(groups.map((g) => g.relativePath)).toEqual([
+      'src/index.ts',
+      'src/App.tsx',
+      'README.md',
+    ]);
+    expect(groups[0].name).toBe('index.ts');
+    expect(groups[0].matches).toHaveLength(2);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Content search contract shared by SearchPanel and host applications.
+ *
+ * The host owns the real implementation (ripgrep, a language server, a remote
+ * index...). This module only defines the streaming shape the panel consumes,
+ * plus an in-memory reference provider for Storybook and tests.
+ */
+
+import type { DirectoryFilter } from './LocalSearchService';
+import { getFileExtension, matchesDirectoryFilter } from './searchQuery';
+
+export interface ContentSearchOptions {
+  /** Match case exactly (default: false) */
+  caseSensitive?: boolean;
+  /** Treat the query as a regular expression (default: false) */
+  regex?: boolean;
+  /** Number of lines of context to include before and after a match */
+  contextLines?: number;
+  /** Stop after this many matching lines */
+  maxResults?: number;
+  /** Only search files with one of these extensions (without dots) */
+  fileTypes?: string[];
+  /** Include/exclude directories, same semantics as filename search */
+  directoryFilters?: DirectoryFilter[];
+  /** Aborted when the query changes or the panel unmounts */
+  signal?: AbortSignal;
+}
+
+/**
+ * Character range of a match within `ContentSearchMatch.lineText`
+ * (`start` inclusive, `end` exclusive)
+ */
+export interface ContentMatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A single matching line
+ */
+export interface ContentSearchMatch {
+  /** Path relative to the repository root */
+  relativePath: string;
+  /** 1-based line number */
+  lineNumber: number;
+  /** Full text of the matching line */
+  lineText: string;
+  /** Matched spans within lineText */
+  ranges: ContentMatchRange[];
+  /** Lines immediately before the match, in file order */
+  contextBefore: string[];
+  /** Lines immediately after the match, in file order */
+  contextAfter: string[];
+}
+
+/**
+ * Streams content matches for a query.
+ * Providers should stop yielding once `options.signal` is aborted.
+ */
+export type ContentSearchProvider = (
+  query: string,
+  options?: ContentSearchOptions
+) => AsyncIterable<ContentSearchMatch>;
+
+/**
+ * Content matches grouped by file, in the order files were first seen
+ */
+export interface ContentSearchFileGroup {
+  relativePath: string;
+  name: string;
+  matches: ContentSearchMatch[];
+}
+
+const DEFAULT_CONTEXT_LINES = 1;
+const DEFAULT_MAX_RESULTS = 500;
+
+/**
+ * Build the matcher for a query, or null when the query is not a valid regex
+ */
+function buildQueryRegex(
+  query: string,
+  options: ContentSearchOptions
+): RegExp | null {
+  const source = options.regex
+    ? query
+    : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find all match ranges of `regex` in a single line
+ */
+export function findMatchRanges(
+  line: string,
+  regex: RegExp
+): ContentMatchRange[] {
+  const ranges: ContentMatchRange[] = [];
+  regex.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(line)) !== null) {
+    if (match[0].length === 0) {
+      // Avoid infinite loops on zero-width matches
+      regex.lastIndex++;
+      continue;
+    }
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  return ranges;
+}
+
+/**
+ * Check if a file passes the extension and directory filters in `options`
+ */
+export function matchesContentSearchFilters(
+  relativePath: string,
+  options: ContentSearchOptions
+): boolean {
+  if (options.fileTypes && options.fileTypes.length > 0) {
+    const extension = getFileExtension(relativePath.split('/').pop() || '');
+    if (!options.fileTypes.some((type) => type.toLowerCase() === extension)) {
+      return false;
+    }
+  }
+
+  const filters = options.directoryFilters ?? [];
+  const includes = filters.filter((f) => f.mode === 'include');
+  const excludes = filters.filter((f) => f.mode === 'exclude');
+
+  if (excludes.some((f) => matchesDirectoryFilter(relativePath, f.path))) {
+    return false;
+  }
+  if (
+    includes.length > 0 &&
+    !includes.some((f) => matchesDirectoryFilter(relativePath, f.path))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Create a content search provider over an in-memory map of
+ * relative path -> file contents.
+ */
+export function createInMemoryContentSearch(
+  files: Record<string, string>
+): ContentSearchProvider {
+  return async function* searchContent(query, options = {}) {
+    if (!query) return;
+
+    const regex = buildQueryRegex(query, options);
+    if (!regex) return;
+
+    const contextLines = options.contextLines ?? DEFAULT_CONTEXT_LINES;
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    let count = 0;
+
+    for (const [relativePath, content] of Object.entries(files)) {
+      if (!matchesContentSearchFilters(relativePath, options)) continue;
+
+      const lines = content.split(/\r?\n/);
+
+      for (let i = 0; i < lines.length; i++) {
+        if (options.signal?.aborted) return;
+
+        const ranges = findMatchRanges(lines[i], regex);
+        if (ranges.length === 0) continue;
+
+        yield {
+          relativePath,
+          lineNumber: i + 1,
+          lineText: lines[i],
+          ranges,
+          contextBefore: lines.slice(Math.max(0, i - contextLines), i),
+          contextAfter: lines.slice(i + 1, i + 1 + contextLines),
+        };
+
+        count++;
+        if (count >= maxResults) return;
+      }
+
+      // Yield to the event loop between files so consumers can render
+      await Promise.resolve();
+    }
+  };
+}
+
+/**
+ * Group a flat list of streamed matches by file
+ */
+export function groupContentMatches(
+  matches: ContentSearchMatch[]
+): ContentSearchFileGroup[] {
+  const groups = new Map<string, ContentSearchFileGroup>();
+
+  for (const match of matches) {
+    let group = groups.get(match.relativePath);
+    if (!group) {
+      group = {
+        relativePath: match.relativePath,
+        name: match.relativePath.split('/').pop() || match.relativePath,
+        matches: [],
+      };
+      groups.set(match.relativePath, group);
+    }
+    group.matches.push(match);
+  }
+
+  return Array.from(groups.values());
+}
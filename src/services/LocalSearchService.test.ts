@@ -0,0 +1,141 @@
+/**
+ * Tests for LocalSearchService filename search
+ */
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { createMockFileTree } from '../mocks/fileTree';
+import { LocalSearchService } from './LocalSearchService';
+
+const service = new LocalSearchService();
+
+const files = [
+  'src/panels/PackageCompositionPanel.tsx',
+  'src/panels/PackageCompositionPanel.stories.tsx',
+  'src/panels/SearchPanel.tsx',
+  'src/panels/cards/components/CardBack.tsx',
+  'src/panels/cards/components/RepoCard.tsx',
+  'src/services/LocalSearchService.ts',
+  'src/utils/envParser.ts',
+  'README.md',
+];
+
+describe('LocalSearchService', () => {
+  beforeEach(() => {
+    service.indexFileSystemTree(createMockFileTree(files), '/repo');
+  });
+
+  test('finds files by fuzzy subsequence', () => {
+    const results = service.search('pcpanel');
+
+    expect(results[0].relativePath).toBe(
+      'src/panels/PackageCompositionPanel.tsx'
+    );
+  });
+
+  test('returns name and path ranges for highlighting', () => {
+    const [result] = service.search('pcpanel');
+
+    expect(result.nameRanges).toEqual([
+      { start: 0, end: 1 },
+      { start: 7, end: 8 },
+      { start: 18, end: 23 },
+    ]);
+    // Same characters, offset by the directory prefix "src/panels/"
+    expect(result.pathRanges?.[0]).toEqual({ start: 11, end: 12 });
+  });
+
+  test('ranks exact filename matches first', () => {
+    const results = service.search('readme.md');
+
+    expect(results[0].relativePath).toBe('README.md');
+  });
+
+  test('matches against the path when the query contains a slash', () => {
+    const results = service.search('cards/rc');
+
+    expect(results.map((r) => r.name)).toContain('RepoCard.tsx');
+    expect(results[0].nameRanges).toBeUndefined();
+  });
+
+  test('still supports glob patterns', () => {
+    const results = service.search('*.stories.tsx');
+
+    expect(results.map((r) => r.name)).toEqual([
+      'PackageCompositionPanel.stories.tsx',
+    ]);
+  });
+
+  test('respects the result limit', () => {
+    expect(service.search('s', { limit: 2 })).toHaveLength(2);
+  });
+
+  test('ranks filename substrings above scattered matches at any limit', () => {
+    service.indexFileSystemTree(
+      createMockFileTree([
+        'src/CodeArtReviewDialog.tsx',
+        'src/deeply/nested/scorecard.ts',
+        'src/Discard.ts',
+      ]),
+      '/repo'
+    );
+
+    const all = service.search('card');
+    expect(all.map((r) => r.name)).toEqual([
+      'Discard.ts',
+      'scorecard.ts',
+      'CodeArtReviewDialog.tsx',
+    ]);
+    // The trigram shortcut must not change which files make the cut
+    for (let limit = 1; limit <= all.length; limit++) {
+      expect(service.search('card', { limit })).toEqual(all.slice(0, limit));
+    }
+  });
+
+  test('boosts lift frequently used files', () => {
+    const plain = service.search('panel');
+    expect(plain[0].relativePath).toBe('src/panels/SearchPanel.tsx');
+
+    const boosted = service.search('panel', {
+      boosts: { 'src/panels/PackageCompositionPanel.stories.tsx': 30 },
+    });
+    expect(boosted[0].relativePath).toBe(
+      'src/panels/PackageCompositionPanel.stories.tsx'
+    );
+  });
+});
+
+describe('LocalSearchService filters', () => {
+  beforeEach(() => {
+    service.indexFileSystemTree(createMockFileTree(files), '/repo');
+  });
+
+  test('filters by several file types', () => {
+    const results = service.search('', { fileTypes: ['md', 'ts'] });
+
+    expect(results.map((r) => r.name).sort()).toEqual([
+      'LocalSearchService.ts',
+      'README.md',
+      'envParser.ts',
+    ]);
+  });
+
+  test('combines include and exclude directory globs', () => {
+    const results = service.search('panel', {
+      directoryFilters: [
+        { id: 'in', path: 'src/panels', mode: 'include' },
+        { id: 'out', path: '**/cards', mode: 'exclude' },
+      ],
+    });
+
+    expect(results.every((r) => r.relativePath.startsWith('src/panels/'))).toBe(
+      true
+    );
+    expect(results.some((r) => r.relativePath.includes('/cards/'))).toBe(false);
+  });
+
+  test('matches ** globs across path segments', () => {
+    const results = service.search('src/**/Card*');
+
+    expect(results.map((r) => r.name)).toEqual(['CardBack.tsx']);
+  });
+});
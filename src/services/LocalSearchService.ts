@@ -1,19 +1,38 @@
 import type { FileTree } from '@principal-ai/repository-abstraction';
-
-export interface FileDocument {
-  id: string;
-  path: string;
-  name: string;
-  relativePath: string;
-}
+import { fuzzyMatch, positionsToRanges, type MatchRange } from './fuzzyMatch';
+import {
+  getFileExtension,
+  globToRegex,
+  hasWildcards,
+  matchesDirectoryFilter,
+} from './searchQuery';
+import {
+  SearchIndex,
+  diffFileIndex,
+  type FileDocument,
+  type FileIndexDiff,
+  type IndexableFile,
+} from './searchIndex';
+
+export type { MatchRange } from './fuzzyMatch';
+export type { FileDocument, FileIndexDiff, IndexableFile } from './searchIndex';
 
 export interface SearchResult {
   path: string;
   name: string;
   relativePath: string;
   score: number;
+  /** Matched character ranges within `name` (fuzzy matches only) */
+  nameRanges?: MatchRange[];
+  /** Matched character ranges within `relativePath` (fuzzy matches only) */
+  pathRanges?: MatchRange[];
 }
 
+/** Extra weight for queries that match within the filename itself */
+const NAME_MATCH_BONUS = 40;
+/** Extra weight for an exact (case-insensitive) filename match */
+const EXACT_NAME_BONUS = 100;
+
 export interface DirectoryFilter {
   id: string;
   path: string;
@@ -24,62 +43,112 @@ export interface SearchOptions {
   directoryFilter?: string;
   excludeDirectory?: boolean;
   fileType?: string;
+  /** Only include files with one of these extensions (without dots) */
+  fileTypes?: string[];
   limit?: number;
   directoryFilters?: DirectoryFilter[];
+  /** Extra score per relative path (e.g. frecency from search history) */
+  boosts?: Record<string, number>;
 }
 
 /**
  * LocalSearchService - Filename search on FileTree data
- * Content search is provided by the host application
+ * Content search is provided by the host via ContentSearchProvider
+ *
+ * Each instance indexes a single repository; use LocalSearchServiceRegistry
+ * to keep one per root path.
  */
-class LocalSearchService {
-  private documentsMap: Map<string, FileDocument> = new Map();
+export class LocalSearchService {
+  private index = new SearchIndex();
   private baseDirectory: string = '';
   private initialized = false;
 
   /**
-   * Index files from FileTree
+   * Index files from FileTree.
+   * Re-indexing the same base directory applies only the differences
+   * between the previous and the new tree.
    */
   indexFileSystemTree(tree: FileTree, baseDirectory: string): void {
+    this.indexFiles(tree.allFiles, baseDirectory);
+  }
+
+  /**
+   * Index a plain list of files (e.g. when FileTree lives in another thread)
+   */
+  indexFiles(files: IndexableFile[], baseDirectory: string): void {
+    if (this.initialized && baseDirectory === this.baseDirectory) {
+      this.applyFileTreeDiff(diffFileIndex(this.index, files));
+      return;
+    }
+
     this.baseDirectory = baseDirectory;
-    this.documentsMap.clear();
-
-    let index = 0;
-    for (const file of tree.allFiles) {
-      const absolutePath = file.path.startsWith('/')
-        ? file.path
-        : `${baseDirectory}/${file.path}`.replace(/\/+/g, '/');
-
-      const doc: FileDocument = {
-        id: index.toString(),
-        path: absolutePath,
-        name: file.name,
-        relativePath: file.relativePath,
-      };
-
-      this.documentsMap.set(doc.id, doc);
-      index++;
+    this.index.clear();
+    for (const file of files) {
+      this.index.add(this.toDocument(file));
     }
 
     this.initialized = true;
   }
 
   /**
-   * Convert glob pattern to regex
+   * Apply incremental changes to the index
+   */
+  applyFileTreeDiff(diff: FileIndexDiff): void {
+    for (const relativePath of diff.removed) {
+      this.index.remove(relativePath);
+    }
+    for (const { from, to } of diff.renamed) {
+      this.renameFile(from, to);
+    }
+    for (const file of diff.added) {
+      this.index.add(this.toDocument(file));
+    }
+  }
+
+  /**
+   * Add (or replace) individual files
    */
-  private globToRegex(pattern: string): RegExp {
-    const escapedPattern = pattern
-      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-      .replace(/\*/g, '.*')
-      .replace(/\?/g, '.');
-    return new RegExp(`^${escapedPattern}$`, 'i');
+  addFiles(files: IndexableFile[]): void {
+    for (const file of files) {
+      this.index.add(this.toDocument(file));
+    }
+  }
+
+  /**
+   * Remove files by relative path
+   */
+  removeFiles(relativePaths: string[]): void {
+    for (const relativePath of relativePaths) {
+      this.index.remove(relativePath);
+    }
   }
 
   /**
-   * Check if query contains wildcards
+   * Move a file to a new path
    */
-  private hasWildcards(query: string): boolean {
-    return query.includes('*') || query.includes('?');
+  renameFile(fromRelativePath: string, to: IndexableFile): void {
+    this.index.remove(fromRelativePath);
+    this.index.add(this.toDocument(to));
+  }
+
+  /**
+   * Number of indexed files
+   */
+  getFileCount(): number {
+    return this.index.size;
+  }
+
+  private toDocument(file: IndexableFile): FileDocument {
+    const absolutePath = file.path.startsWith('/')
+      ? file.path
+      : `${this.baseDirectory}/${file.path}`.replace(/\/+/g, '/');
+
+    return {
+      id: file.relativePath,
+      path: absolutePath,
+      name: file.name,
+      relativePath: file.relativePath,
+    };
   }
 
   /**
@@ -91,14 +160,14 @@ class LocalSearchService {
       const excludeFilters = options.directoryFilters.filter(f => f.mode === 'exclude');
 
       for (const filter of excludeFilters) {
-        if (doc.relativePath.toLowerCase().includes(filter.path.toLowerCase())) {
+        if (matchesDirectoryFilter(doc.relativePath, filter.path)) {
           return false;
         }
       }
 
       if (includeFilters.length > 0) {
         const matchesInclude = includeFilters.some(filter =>
-          doc.relativePath.toLowerCase().includes(filter.path.toLowerCase())
+          matchesDirectoryFilter(doc.relativePath, filter.path)
         );
         if (!matchesInclude) return false;
       }
@@ -111,8 +180,14 @@ class LocalSearchService {
     }
 
     if (options?.fileType) {
-      const fileExtension = doc.name.split('.').pop()?.toLowerCase() || '';
-      if (fileExtension !== options.fileType.toLowerCase()) {
+      if (getFileExtension(doc.name) !== options.fileType.toLowerCase()) {
+        return false;
+      }
+    }
+
+    if (options?.fileTypes && options.fileTypes.length > 0) {
+      const fileExtension = getFileExtension(doc.name);
+      if (!options.fileTypes.some(type => type.toLowerCase() === fileExtension)) {
         return false;
       }
     }
@@ -121,82 +196,161 @@ class LocalSearchService {
   }
 
   /**
-   * Calculate relevance score for a match
+   * Fuzzy-match a document against the query.
+   * Queries containing '/' match against the relative path; otherwise the
+   * filename is preferred and the path is used as a fallback.
    */
-  private calculateScore(doc: FileDocument, query: string): number {
-    const lowerQuery = query.toLowerCase();
-    const lowerName = doc.name.toLowerCase();
-    const lowerPath = doc.relativePath.toLowerCase();
-
-    let score = 0;
-
-    if (lowerName === lowerQuery) {
-      score += 100;
-    } else if (lowerName.startsWith(lowerQuery)) {
-      score += 80;
-    } else if (lowerName.includes(lowerQuery)) {
-      score += 60;
-    } else if (lowerPath.includes(lowerQuery)) {
-      score += 40;
+  private matchDocument(
+    doc: FileDocument,
+    query: string
+  ): Omit<SearchResult, 'path' | 'name' | 'relativePath'> | null {
+    const depthPenalty = doc.relativePath.split('/').length;
+
+    if (!query.includes('/')) {
+      const nameMatch = fuzzyMatch(query, doc.name);
+      if (nameMatch) {
+        const exact = doc.name.toLowerCase() === query.toLowerCase();
+        return {
+          score:
+            nameMatch.score +
+            NAME_MATCH_BONUS +
+            (exact ? EXACT_NAME_BONUS : 0) -
+            depthPenalty,
+          nameRanges: positionsToRanges(nameMatch.positions),
+          pathRanges: doc.relativePath.endsWith(doc.name)
+            ? positionsToRanges(
+                nameMatch.positions.map(
+                  (p) => p + doc.relativePath.length - doc.name.length
+                )
+              )
+            : undefined,
+        };
+      }
     }
 
-    score += Math.max(0, 20 - doc.relativePath.split('/').length * 2);
+    const pathMatch = fuzzyMatch(query, doc.relativePath);
+    if (!pathMatch) return null;
 
-    return score;
+    return {
+      score: pathMatch.score - depthPenalty,
+      pathRanges: positionsToRanges(pathMatch.positions),
+    };
   }
 
   /**
-   * Search files by filename
+   * Check if options narrow the document set on their own
+   */
+  private hasFilters(options?: SearchOptions): boolean {
+    return Boolean(
+      options?.directoryFilter ||
+        options?.fileType ||
+        options?.fileTypes?.length ||
+        options?.directoryFilters?.length
+    );
+  }
+
+  /**
+   * Search files by filename.
+   * Glob patterns (`*`, `?`, `**`) are matched exactly - against the relative
+   * path when they contain '/', otherwise against the filename. Anything else
+   * is matched fuzzily and ranked by match quality, with filenames that
+   * contain the query ahead of scattered matches. An empty query with
+   * filters lists every file that passes the filters.
    */
   search(query: string, options?: SearchOptions): SearchResult[] {
-    if (!this.initialized || !query.trim()) {
+    if (!this.initialized) {
       return [];
     }
 
     const limit = options?.limit || 100;
     const results: SearchResult[] = [];
+    const trimmedQuery = query.trim();
 
-    if (this.hasWildcards(query)) {
-      const regex = this.globToRegex(query);
+    if (!trimmedQuery) {
+      if (!this.hasFilters(options)) return [];
 
-      this.documentsMap.forEach(doc => {
-        if (doc && doc.name && regex.test(doc.name)) {
+      this.index.forEach(doc => {
+        if (!this.matchesFilters(doc, options)) return;
+        results.push({
+          path: doc.path,
+          name: doc.name,
+          relativePath: doc.relativePath,
+          score: 0,
+        });
+      });
+
+      results.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+      return results.slice(0, limit);
+    }
+
+    if (hasWildcards(trimmedQuery)) {
+      const regex = globToRegex(trimmedQuery);
+      const matchPath = trimmedQuery.includes('/');
+
+      this.index.forEach(doc => {
+        if (!doc.name) return;
+        if (regex.test(matchPath ? doc.relativePath : doc.name)) {
           if (!this.matchesFilters(doc, options)) return;
 
           results.push({
             path: doc.path,
             name: doc.name,
             relativePath: doc.relativePath,
-            score: 90,
+            score: 90 + (options?.boosts?.[doc.relativePath] ?? 0),
           });
         }
       });
 
+      if (options?.boosts) {
+        results.sort((a, b) => b.score - a.score);
+      }
       return results.slice(0, limit);
     }
 
-    const lowerQuery = query.toLowerCase();
-
-    this.documentsMap.forEach(doc => {
-      if (!doc) return;
-
-      const lowerName = doc.name.toLowerCase();
-      const lowerPath = doc.relativePath.toLowerCase();
+    const lowerQuery = trimmedQuery.toLowerCase();
+    const matchNames = !trimmedQuery.includes('/');
+    // Filenames containing the query rank above scattered fuzzy matches;
+    // boosts reorder results within each group
+    const substringResults: SearchResult[] = [];
+    const fuzzyResults: SearchResult[] = [];
+    const seen = new Set<string>();
+    const collect = (doc: FileDocument) => {
+      if (seen.has(doc.relativePath)) return;
+      seen.add(doc.relativePath);
+      if (!this.matchesFilters(doc, options)) return;
+
+      const match = this.matchDocument(doc, trimmedQuery);
+      if (!match) return;
+
+      const isSubstring =
+        matchNames && doc.name.toLowerCase().includes(lowerQuery);
+      (isSubstring ? substringResults : fuzzyResults).push({
+        path: doc.path,
+        name: doc.name,
+        relativePath: doc.relativePath,
+        ...match,
+        score: match.score + (options?.boosts?.[doc.relativePath] ?? 0),
+      });
+    };
 
-      if (lowerName.includes(lowerQuery) || lowerPath.includes(lowerQuery)) {
-        if (!this.matchesFilters(doc, options)) return;
+    // Substring hits come from the trigram index; once they fill the limit
+    // no fuzzy match can make the cut, so the fuzzy pass is skipped
+    const substringHits = matchNames
+      ? this.index.substringCandidates(lowerQuery)
+      : null;
+    substringHits?.forEach(collect);
 
-        results.push({
-          path: doc.path,
-          name: doc.name,
-          relativePath: doc.relativePath,
-          score: this.calculateScore(doc, query),
-        });
-      }
-    });
+    if (substringResults.length < limit) {
+      this.index.characterCandidates(lowerQuery).forEach(collect);
+    }
 
-    results.sort((a, b) => b.score - a.score);
-    return results.slice(0, limit);
+    // Higher score first; shorter paths win ties
+    const byScore = (a: SearchResult, b: SearchResult) =>
+      b.score - a.score || a.relativePath.length - b.relativePath.length;
+    return [
+      ...substringResults.sort(byScore),
+      ...fuzzyResults.sort(byScore),
+    ].slice(0, limit);
   }
 
   /**
@@ -205,7 +359,7 @@ class LocalSearchService {
   getDirectories(): string[] {
     const directories = new Set<string>();
 
-    this.documentsMap.forEach(doc => {
+    this.index.forEach(doc => {
       const parts = doc.relativePath.split('/');
       let path = '';
       for (let i = 0; i < parts.length - 1; i++) {
@@ -221,7 +375,7 @@ class LocalSearchService {
    * Clear the search index
    */
   clear(): void {
-    this.documentsMap.clear();
+    this.index.clear();
     this.initialized = false;
   }
 
@@ -229,5 +383,3 @@ class LocalSearchService {
     return this.initialized;
   }
 }
-
-export const localSearchService = new LocalSearchService();
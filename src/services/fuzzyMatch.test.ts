@@ -0,0 +1,69 @@
+/**
+ * Tests for the fzf-style fuzzy matcher
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { fuzzyMatch, isSubsequence, positionsToRanges } from './fuzzyMatch';
+
+describe('fuzzyMatch', () => {
+  test('returns null when the query is not a subsequence', () => {
+    expect(fuzzyMatch('xyz', 'PackageCompositionPanel.tsx')).toBeNull();
+    expect(fuzzyMatch('toolong', 'short')).toBeNull();
+  });
+
+  test('matches camelCase humps', () => {
+    const match = fuzzyMatch('pcpanel', 'PackageCompositionPanel.tsx');
+
+    expect(match).not.toBeNull();
+    // P, C (Composition), then "Panel" as a consecutive run
+    expect(match!.positions).toEqual([0, 7, 18, 19, 20, 21, 22]);
+  });
+
+  test('is case-insensitive', () => {
+    expect(fuzzyMatch('PCP', 'PackageCompositionPanel.tsx')).not.toBeNull();
+  });
+
+  test('prefers path-segment boundaries over mid-word matches', () => {
+    const match = fuzzyMatch('sp', 'src/panels/SearchPanel.tsx');
+
+    // "s" at the start, then "p" starting the "panels" segment
+    expect(match!.positions).toEqual([0, 4]);
+  });
+
+  test('scores consecutive and boundary matches higher', () => {
+    const boundary = fuzzyMatch('panel', 'SearchPanel.tsx')!;
+    const scattered = fuzzyMatch('panel', 'pageannotationslabel.ts')!;
+
+    expect(boundary.score).toBeGreaterThan(scattered.score);
+  });
+
+  test('ranks a prefix match above a later match', () => {
+    const prefix = fuzzyMatch('card', 'CardBack.tsx')!;
+    const later = fuzzyMatch('card', 'RepoCard.tsx')!;
+    const inner = fuzzyMatch('card', 'discarded.ts')!;
+
+    expect(prefix.score).toBeGreaterThan(later.score);
+    expect(later.score).toBeGreaterThan(inner.score);
+  });
+});
+
+describe('isSubsequence', () => {
+  test('checks ordered containment', () => {
+    expect(isSubsequence('abc', 'aXbXc')).toBe(true);
+    expect(isSubsequence('acb', 'aXbXc')).toBe(false);
+  });
+});
+
+describe('positionsToRanges', () => {
+  test('merges adjacent positions', () => {
+    expect(positionsToRanges([0, 7, 18, 19, 20])).toEqual([
+      { start: 0, end: 1 },
+      { start: 7, end: 8 },
+      { start: 18, end: 21 },
+    ]);
+  });
+
+  test('returns no ranges for no positions', () => {
+    expect(positionsToRanges([])).toEqual([]);
+  });
+});
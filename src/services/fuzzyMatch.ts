@@ -0,0 +1,199 @@
+/**
+ * fzf-style fuzzy subsequence matcher
+ *
+ * Finds the best-scoring alignment of the query characters (in order, not
+ * necessarily contiguous) within a target string. Matches that start at word
+ * boundaries (path separators, `-`, `_`, `.`, camelCase humps, digits) and
+ * that run consecutively score higher; gaps between matched characters are
+ * penalised. Scoring constants follow fzf's algorithm v2.
+ */
+
+/**
+ * Character range within the target (`start` inclusive, `end` exclusive)
+ */
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface FuzzyMatchResult {
+  /** Alignment score - higher is better */
+  score: number;
+  /** Index of every matched character in the target, ascending */
+  positions: number[];
+}
+
+const SCORE_MATCH = 16;
+const SCORE_GAP_START = -3;
+const SCORE_GAP_EXTENSION = -1;
+
+const BONUS_BOUNDARY = SCORE_MATCH / 2;
+const BONUS_NON_WORD = SCORE_MATCH / 2;
+const BONUS_BOUNDARY_DELIMITER = BONUS_BOUNDARY + 1;
+const BONUS_CAMEL_123 = BONUS_BOUNDARY + SCORE_GAP_EXTENSION;
+const BONUS_CONSECUTIVE = -(SCORE_GAP_START + SCORE_GAP_EXTENSION);
+const BONUS_FIRST_CHAR_MULTIPLIER = 2;
+
+// Character classes, ordered so that word characters compare >= CHAR_LOWER
+const CHAR_NON_WORD = 0;
+const CHAR_DELIMITER = 1;
+const CHAR_LOWER = 2;
+const CHAR_UPPER = 3;
+const CHAR_NUMBER = 4;
+
+type CharClass = number;
+
+const DELIMITERS = '/\\-_. ';
+
+function charClassOf(char: string): CharClass {
+  if (char >= 'a' && char <= 'z') return CHAR_LOWER;
+  if (char >= 'A' && char <= 'Z') return CHAR_UPPER;
+  if (char >= '0' && char <= '9') return CHAR_NUMBER;
+  if (DELIMITERS.includes(char)) return CHAR_DELIMITER;
+  // Treat other letters (accented, CJK...) as lowercase word characters
+  if (char.toLowerCase() !== char.toUpperCase()) return CHAR_LOWER;
+  return CHAR_NON_WORD;
+}
+
+function bonusFor(prev: CharClass, current: CharClass): number {
+  const isWord = current >= CHAR_LOWER;
+  if (isWord) {
+    if (prev === CHAR_DELIMITER) return BONUS_BOUNDARY_DELIMITER;
+    if (prev === CHAR_NON_WORD) return BONUS_BOUNDARY;
+  }
+  if (prev === CHAR_LOWER && current === CHAR_UPPER) {
+    return BONUS_CAMEL_123;
+  }
+  if (prev !== CHAR_NUMBER && current === CHAR_NUMBER) {
+    return BONUS_CAMEL_123;
+  }
+  if (!isWord) return BONUS_NON_WORD;
+  return 0;
+}
+
+/**
+ * Quick case-insensitive subsequence check, used to reject most candidates
+ * before running the full scoring pass.
+ */
+export function isSubsequence(lowerQuery: string, lowerText: string): boolean {
+  let qi = 0;
+  for (let ti = 0; ti < lowerText.length && qi < lowerQuery.length; ti++) {
+    if (lowerText[ti] === lowerQuery[qi]) qi++;
+  }
+  return qi === lowerQuery.length;
+}
+
+/**
+ * Score the best fuzzy alignment of `query` within `text` (case-insensitive).
+ * Returns null when the query is not a subsequence of the text.
+ */
+export function fuzzyMatch(
+  query: string,
+  text: string
+): FuzzyMatchResult | null {
+  const n = query.length;
+  const m = text.length;
+  if (n === 0) return { score: 0, positions: [] };
+  if (n > m) return null;
+
+  const lowerQuery = query.toLowerCase();
+  const lowerText = text.toLowerCase();
+  if (!isSubsequence(lowerQuery, lowerText)) return null;
+
+  // Per-position boundary bonus; the start of the string counts as a boundary
+  const bonus = new Array<number>(m);
+  let prevClass = CHAR_DELIMITER;
+  for (let j = 0; j < m; j++) {
+    const currentClass = charClassOf(text[j]);
+    bonus[j] = bonusFor(prevClass, currentClass);
+    prevClass = currentClass;
+  }
+
+  const NONE = -Infinity;
+  // score[i][j]: best score with query[i] matched at text[j]
+  // from[i][j]:  text index that query[i - 1] was matched at
+  const score: Float64Array[] = [];
+  const from: Int32Array[] = [];
+
+  for (let i = 0; i < n; i++) {
+    const row = new Float64Array(m).fill(NONE);
+    const parents = new Int32Array(m).fill(-1);
+    const prevRow = i > 0 ? score[i - 1] : null;
+
+    // Best score reachable from the previous row with a gap before column j
+    let gapScore = NONE;
+    let gapFrom = -1;
+
+    for (let j = i; j < m; j++) {
+      if (prevRow && j >= 2) {
+        const extended = gapScore + SCORE_GAP_EXTENSION;
+        const opened = prevRow[j - 2] + SCORE_GAP_START;
+        if (opened >= extended) {
+          gapScore = opened;
+          gapFrom = j - 2;
+        } else {
+          gapScore = extended;
+        }
+      }
+
+      if (lowerText[j] !== lowerQuery[i]) continue;
+
+      if (!prevRow) {
+        row[j] = SCORE_MATCH + bonus[j] * BONUS_FIRST_CHAR_MULTIPLIER;
+        continue;
+      }
+
+      const consecutive =
+        prevRow[j - 1] + Math.max(bonus[j], BONUS_CONSECUTIVE);
+      const gapped = gapScore + bonus[j];
+
+      if (consecutive === NONE && gapped === NONE) continue;
+
+      if (consecutive >= gapped) {
+        row[j] = SCORE_MATCH + consecutive;
+        parents[j] = j - 1;
+      } else {
+        row[j] = SCORE_MATCH + gapped;
+        parents[j] = gapFrom;
+      }
+    }
+
+    score.push(row);
+    from.push(parents);
+  }
+
+  // Pick the best end position, preferring the earliest on ties
+  const lastRow = score[n - 1];
+  let bestEnd = -1;
+  for (let j = n - 1; j < m; j++) {
+    if (lastRow[j] !== NONE && (bestEnd < 0 || lastRow[j] > lastRow[bestEnd])) {
+      bestEnd = j;
+    }
+  }
+  if (bestEnd < 0) return null;
+
+  const positions = new Array<number>(n);
+  let j = bestEnd;
+  for (let i = n - 1; i >= 0; i--) {
+    positions[i] = j;
+    j = from[i][j];
+  }
+
+  return { score: lastRow[bestEnd], positions };
+}
+
+/**
+ * Collapse ascending match positions into contiguous ranges for highlighting
+ */
+export function positionsToRanges(positions: number[]): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  for (const position of positions) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === position) {
+      last.end = position + 1;
+    } else {
+      ranges.push({ start: position, end: position + 1 });
+    }
+  }
+  return ranges;
+}
@@ -0,0 +1,125 @@
+/**
+ * Tests for search history persistence and frecency ranking
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  EMPTY_SEARCH_HISTORY,
+  MAX_FRECENCY_BOOST,
+  computeFrecency,
+  getFrecencyBoosts,
+  getRecentFiles,
+  loadSearchHistory,
+  recordFileVisit,
+  recordSearchQuery,
+  saveSearchHistory,
+  type SearchHistoryStorage,
+} from './searchHistory';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 31);
+
+const createMemoryStorage = (): SearchHistoryStorage & {
+  data: Map<string, string>;
+} => {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value),
+  };
+};
+
+describe('recordSearchQuery', () => {
+  test('moves repeated queries to the front without duplicates', () => {
+    let history = recordSearchQuery(EMPTY_SEARCH_HISTORY, 'panel', NOW);
+    history = recordSearchQuery(history, 'ext:ts card', NOW + 1);
+    history = recordSearchQuery(history, ' panel ', NOW + 2);
+
+    expect(history.queries.map((q) => q.query)).toEqual([
+      'panel',
+      'ext:ts card',
+    ]);
+  });
+
+  test('ignores empty queries', () => {
+    expect(recordSearchQuery(EMPTY_SEARCH_HISTORY, '   ')).toBe(
+      EMPTY_SEARCH_HISTORY
+    );
+  });
+});
+
+describe('frecency', () => {
+  test('frequent recent files outrank a single old visit', () => {
+    let history = recordFileVisit(
+      EMPTY_SEARCH_HISTORY,
+      'old.ts',
+      NOW - 60 * DAY
+    );
+    history = recordFileVisit(history, 'hot.ts', NOW - DAY);
+    history = recordFileVisit(history, 'hot.ts', NOW);
+
+    expect(getRecentFiles(history, 10, NOW).map((f) => f.relativePath)).toEqual(
+      ['hot.ts', 'old.ts']
+    );
+    expect(computeFrecency(history.files[0], NOW)).toBe(200);
+  });
+
+  test('recent visits outweigh the same count of old visits', () => {
+    const recent = { relativePath: 'a', visitCount: 3, visits: [NOW] };
+    const stale = {
+      relativePath: 'b',
+      visitCount: 3,
+      visits: [NOW - 100 * DAY],
+    };
+
+    expect(computeFrecency(recent, NOW)).toBeGreaterThan(
+      computeFrecency(stale, NOW)
+    );
+  });
+
+  test('boosts are scaled to the most used file', () => {
+    let history = recordFileVisit(EMPTY_SEARCH_HISTORY, 'a.ts', NOW);
+    history = recordFileVisit(history, 'a.ts', NOW);
+    history = recordFileVisit(history, 'b.ts', NOW);
+
+    const boosts = getFrecencyBoosts(history, NOW);
+    expect(boosts['a.ts']).toBe(MAX_FRECENCY_BOOST);
+    expect(boosts['b.ts']).toBe(MAX_FRECENCY_BOOST / 2);
+  });
+});
+
+describe('persistence', () => {
+  test('round-trips history per base directory', () => {
+    const storage = createMemoryStorage();
+    const history = recordFileVisit(
+      recordSearchQuery(EMPTY_SEARCH_HISTORY, 'panel', NOW),
+      'src/index.tsx',
+      NOW
+    );
+
+    saveSearchHistory(storage, '/repo-a', history);
+
+    expect(loadSearchHistory(storage, '/repo-a')).toEqual(history);
+    expect(loadSearchHistory(storage, '/repo-b')).toEqual(EMPTY_SEARCH_HISTORY);
+  });
+
+  test('ignores corrupt or malformed entries', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(
+      'repository-composition-panels:search-history:/repo',
+      JSON.stringify({
+        queries: [{ query: 1 }, { query: 'ok', lastUsed: NOW }],
+      })
+    );
+    storage.setItem(
+      'repository-composition-panels:search-history:/broken',
+      '{not json'
+    );
+
+    expect(loadSearchHistory(storage, '/repo').queries).toEqual([
+      { query: 'ok', lastUsed: NOW },
+    ]);
+    expect(loadSearchHistory(storage, '/broken')).toEqual(EMPTY_SEARCH_HISTORY);
+  });
+});
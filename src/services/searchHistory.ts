@@ -0,0 +1,261 @@
+/**
+ * Search history for SearchPanel - recent queries and recently opened files,
+ * persisted per base directory.
+ *
+ * Recently opened files are ranked by frecency (frequency + recency, as in
+ * Firefox's URL bar): each file keeps its total visit count and a sample of
+ * recent visit timestamps, and scores visitCount * average recency weight of
+ * the sampled visits. The same scores are turned into bounded boosts for
+ * LocalSearchService so frequently used files rank higher in results.
+ */
+
+export interface RecentQuery {
+  query: string;
+  lastUsed: number;
+}
+
+export interface RecentFile {
+  relativePath: string;
+  /** Total number of times the file was opened from search */
+  visitCount: number;
+  /** Most recent visit timestamps (ms), newest first */
+  visits: number[];
+}
+
+export interface SearchHistory {
+  /** Newest first */
+  queries: RecentQuery[];
+  files: RecentFile[];
+}
+
+/**
+ * Key/value storage used for persistence - `window.localStorage` compatible
+ */
+export interface SearchHistoryStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export const EMPTY_SEARCH_HISTORY: SearchHistory = { queries: [], files: [] };
+
+const STORAGE_KEY_PREFIX = 'repository-composition-panels:search-history:';
+const MAX_RECENT_QUERIES = 20;
+const MAX_RECENT_FILES = 50;
+/** Visit timestamps kept per file for the recency average */
+const MAX_SAMPLED_VISITS = 10;
+/** Largest score boost a file can get from frecency */
+export const MAX_FRECENCY_BOOST = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Recency weight by visit age, in days */
+const RECENCY_BUCKETS: Array<{ maxAgeDays: number; weight: number }> = [
+  { maxAgeDays: 4, weight: 100 },
+  { maxAgeDays: 14, weight: 70 },
+  { maxAgeDays: 31, weight: 50 },
+  { maxAgeDays: 90, weight: 30 },
+];
+const OLD_VISIT_WEIGHT = 10;
+
+/**
+ * Get browser localStorage when it is available and usable
+ */
+export function getDefaultSearchHistoryStorage(): SearchHistoryStorage | null {
+  try {
+    return typeof window !== 'undefined' && window.localStorage
+      ? window.localStorage
+      : null;
+  } catch {
+    // Accessing localStorage throws when storage is disabled
+    return null;
+  }
+}
+
+function storageKey(baseDirectory: string): string {
+  return `${STORAGE_KEY_PREFIX}${baseDirectory}`;
+}
+
+function isRecentQuery(value: unknown): value is RecentQuery {
+  const entry = value as RecentQuery;
+  return typeof entry?.query === 'string' && typeof entry.lastUsed === 'number';
+}
+
+function isRecentFile(value: unknown): value is RecentFile {
+  const entry = value as RecentFile;
+  return (
+    typeof entry?.relativePath === 'string' &&
+    typeof entry.visitCount === 'number' &&
+    Array.isArray(entry.visits)
+  );
+}
+
+/**
+ * Load the history for a base directory, ignoring missing or corrupt data
+ */
+export function loadSearchHistory(
+  storage: SearchHistoryStorage | null,
+  baseDirectory: string
+): SearchHistory {
+  if (!storage || !baseDirectory) return EMPTY_SEARCH_HISTORY;
+
+  try {
+    const raw = storage.getItem(storageKey(baseDirectory));
+    if (!raw) return EMPTY_SEARCH_HISTORY;
+
+    const parsed = JSON.parse(raw) as Partial<SearchHistory>;
+    return {
+      queries: Array.isArray(parsed.queries)
+        ? parsed.queries.filter(isRecentQuery)
+        : [],
+      files: Array.isArray(parsed.files)
+        ? parsed.files.filter(isRecentFile)
+        : [],
+    };
+  } catch {
+    return EMPTY_SEARCH_HISTORY;
+  }
+}
+
+/**
+ * Persist the history for a base directory
+ */
+export function saveSearchHistory(
+  storage: SearchHistoryStorage | null,
+  baseDirectory: string,
+  history: SearchHistory
+): void {
+  if (!storage || !baseDirectory) return;
+
+  try {
+    storage.setItem(storageKey(baseDirectory), JSON.stringify(history));
+  } catch (error) {
+    // Quota exceeded or storage disabled - history stays in memory
+    console.warn('[SearchHistory] Failed to persist search history:', error);
+  }
+}
+
+/**
+ * Move a query to the front of the recent queries
+ */
+export function recordSearchQuery(
+  history: SearchHistory,
+  query: string,
+  now: number = Date.now()
+): SearchHistory {
+  const trimmed = query.trim();
+  if (!trimmed) return history;
+
+  return {
+    ...history,
+    queries: [
+      { query: trimmed, lastUsed: now },
+      ...history.queries.filter((entry) => entry.query !== trimmed),
+    ].slice(0, MAX_RECENT_QUERIES),
+  };
+}
+
+/**
+ * Record that a file was opened
+ */
+export function recordFileVisit(
+  history: SearchHistory,
+  relativePath: string,
+  now: number = Date.now()
+): SearchHistory {
+  const existing = history.files.find(
+    (entry) => entry.relativePath === relativePath
+  );
+  const updated: RecentFile = {
+    relativePath,
+    visitCount: (existing?.visitCount ?? 0) + 1,
+    visits: [now, ...(existing?.visits ?? [])].slice(0, MAX_SAMPLED_VISITS),
+  };
+
+  const others = history.files.filter(
+    (entry) => entry.relativePath !== relativePath
+  );
+
+  // When full, evict the entry with the lowest frecency
+  let files = [updated, ...others];
+  if (files.length > MAX_RECENT_FILES) {
+    files = sortByFrecency(files, now).slice(0, MAX_RECENT_FILES);
+  }
+
+  return { ...history, files };
+}
+
+/**
+ * Remove a single query from the history
+ */
+export function removeRecentQuery(
+  history: SearchHistory,
+  query: string
+): SearchHistory {
+  return {
+    ...history,
+    queries: history.queries.filter((entry) => entry.query !== query),
+  };
+}
+
+function recencyWeight(visit: number, now: number): number {
+  const ageDays = (now - visit) / DAY_MS;
+  const bucket = RECENCY_BUCKETS.find((b) => ageDays <= b.maxAgeDays);
+  return bucket ? bucket.weight : OLD_VISIT_WEIGHT;
+}
+
+/**
+ * Frecency score of a file - higher is more frequently and recently used
+ */
+export function computeFrecency(
+  file: RecentFile,
+  now: number = Date.now()
+): number {
+  if (file.visits.length === 0) return 0;
+
+  const totalWeight = file.visits.reduce(
+    (sum, visit) => sum + recencyWeight(visit, now),
+    0
+  );
+  return (file.visitCount * totalWeight) / file.visits.length;
+}
+
+function sortByFrecency(files: RecentFile[], now: number): RecentFile[] {
+  return files
+    .map((file) => ({ file, frecency: computeFrecency(file, now) }))
+    .sort(
+      (a, b) => b.frecency - a.frecency || b.file.visits[0] - a.file.visits[0]
+    )
+    .map(({ file }) => file);
+}
+
+/**
+ * Recently opened files, highest frecency first
+ */
+export function getRecentFiles(
+  history: SearchHistory,
+  limit: number = 10,
+  now: number = Date.now()
+): RecentFile[] {
+  return sortByFrecency(history.files, now).slice(0, limit);
+}
+
+/**
+ * Score boosts keyed by relative path, scaled so the most used file gets
+ * MAX_FRECENCY_BOOST. Suitable for `SearchOptions.boosts`.
+ */
+export function getFrecencyBoosts(
+  history: SearchHistory,
+  now: number = Date.now()
+): Record<string, number> {
+  const scores = history.files.map(
+    (file) => [file.relativePath, computeFrecency(file, now)] as const
+  );
+  const maxScore = Math.max(0, ...scores.map(([, score]) => score));
+  if (maxScore === 0) return {};
+
+  const boosts: Record<string, number> = {};
+  for (const [relativePath, score] of scores) {
+    boosts[relativePath] = (score / maxScore) * MAX_FRECENCY_BOOST;
+  }
+  return boosts;
+}
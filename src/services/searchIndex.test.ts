@@ -0,0 +1,208 @@
+/**
+ * Tests and benchmarks for the incremental search index
+ */
+
+import { beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import { createMockFileTree } from '../mocks/fileTree';
+import {
+  SearchIndex,
+  diffFileIndex,
+  type FileDocument,
+  type IndexableFile,
+} from './searchIndex';
+import { isSubsequence } from './fuzzyMatch';
+import { LocalSearchService } from './LocalSearchService';
+
+const toFile = (relativePath: string): IndexableFile => ({
+  path: relativePath,
+  name: relativePath.split('/').pop() ?? relativePath,
+  relativePath,
+});
+
+const toDocument = (relativePath: string) => ({
+  id: relativePath,
+  ...toFile(relativePath),
+});
+
+/**
+ * Deterministic synthetic monorepo: packages/<pkg>/src/<area>/<Component><n>.tsx
+ */
+const createSyntheticFiles = (count: number): IndexableFile[] => {
+  const areas = ['components', 'hooks', 'utils', 'services', 'stories'];
+  const stems = ['Button', 'Panel', 'Card', 'Modal', 'Graph', 'Search', 'Tree'];
+  const extensions = ['tsx', 'ts', 'css', 'test.ts', 'md'];
+  const files: IndexableFile[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const pkg = `pkg-${i % 400}`;
+    const area = areas[i % areas.length];
+    const stem = stems[(i * 3) % stems.length];
+    const ext = extensions[(i * 3) % extensions.length];
+    files.push(toFile(`packages/${pkg}/src/${area}/${stem}${i}.${ext}`));
+  }
+  return files;
+};
+
+describe('SearchIndex', () => {
+  test('adds, replaces and removes documents', () => {
+    const index = new SearchIndex();
+    index.add(toDocument('src/a/Button.tsx'));
+    index.add(toDocument('src/b/Card.tsx'));
+    index.add(toDocument('src/a/Button.tsx'));
+
+    expect(index.size).toBe(2);
+    expect(index.remove('src/b/Card.tsx')).toBe(true);
+    expect(index.remove('src/b/Card.tsx')).toBe(false);
+    expect(index.has('src/b/Card.tsx')).toBe(false);
+    expect(index.size).toBe(1);
+  });
+
+  test('finds filename substrings through trigrams', () => {
+    const index = new SearchIndex();
+    index.add(toDocument('src/SearchPanel.tsx'));
+    index.add(toDocument('src/panels/Card.tsx'));
+    index.add(toDocument('src/removed/SearchPanelOld.tsx'));
+    index.remove('src/removed/SearchPanelOld.tsx');
+
+    const hits = index.substringCandidates('panel')!;
+    expect(hits.map((d) => d.relativePath)).toEqual(['src/SearchPanel.tsx']);
+    expect(index.substringCandidates('pa')).toBeNull();
+  });
+
+  test('character candidates cover every fuzzy match', () => {
+    const index = new SearchIndex();
+    const files = createSyntheticFiles(2000);
+    files.forEach((f) => index.add(toDocument(f.relativePath)));
+
+    const query = 'bttn';
+    const candidates = new Set(
+      index.characterCandidates(query).map((d) => d.relativePath)
+    );
+    const expected = files.filter((f) =>
+      isSubsequence(query, f.relativePath.toLowerCase())
+    );
+
+    expect(expected.length).toBeGreaterThan(0);
+    expected.forEach((f) => expect(candidates.has(f.relativePath)).toBe(true));
+  });
+
+  test('stays consistent across compaction', () => {
+    const index = new SearchIndex();
+    const files = createSyntheticFiles(3000);
+    files.forEach((f) => index.add(toDocument(f.relativePath)));
+
+    // Remove enough documents to trigger compaction
+    files.slice(0, 2000).forEach((f) => index.remove(f.relativePath));
+
+    expect(index.size).toBe(1000);
+    const hits = index.characterCandidates('x');
+    hits.forEach((doc) => expect(index.has(doc.relativePath)).toBe(true));
+  });
+});
+
+describe('diffFileIndex', () => {
+  test('reports added, removed and renamed files', () => {
+    const index = new SearchIndex();
+    ['src/a.ts', 'src/b.ts', 'src/old/Moved.tsx'].forEach((p) =>
+      index.add(toDocument(p))
+    );
+
+    const diff = diffFileIndex(index, [
+      toFile('src/a.ts'),
+      toFile('src/c.ts'),
+      toFile('src/new/Moved.tsx'),
+    ]);
+
+    expect(diff.added.map((f) => f.relativePath)).toEqual(['src/c.ts']);
+    expect(diff.removed).toEqual(['src/b.ts']);
+    expect(diff.renamed).toEqual([
+      { from: 'src/old/Moved.tsx', to: toFile('src/new/Moved.tsx') },
+    ]);
+  });
+
+  test('does not pair ambiguous renames', () => {
+    const index = new SearchIndex();
+    ['a/index.ts', 'b/index.ts'].forEach((p) => index.add(toDocument(p)));
+
+    const diff = diffFileIndex(index, [toFile('c/index.ts')]);
+
+    expect(diff.renamed).toEqual([]);
+    expect(diff.removed).toEqual(['a/index.ts', 'b/index.ts']);
+  });
+});
+
+describe('LocalSearchService on a large synthetic tree', () => {
+  // The size of the monorepo this index was built for
+  const FILE_COUNT = 200_000;
+  /** Indexing the full tree takes a few seconds on slow CI machines */
+  const LARGE_TREE_TIMEOUT_MS = 60_000;
+
+  let files: IndexableFile[];
+  let service: LocalSearchService;
+
+  beforeAll(() => {
+    files = createSyntheticFiles(FILE_COUNT);
+    service = new LocalSearchService();
+    service.indexFileSystemTree(
+      createMockFileTree(files.map((f) => f.relativePath)),
+      '/repo'
+    );
+  }, LARGE_TREE_TIMEOUT_MS);
+
+  test(
+    're-indexes only the files that changed',
+    () => {
+      // Simulate a small change: 100 files deleted, 100 created
+      const next = [
+        ...files.slice(100),
+        ...Array.from({ length: 100 }, (_, i) =>
+          toFile(`packages/new/src/Feature${i}.tsx`)
+        ),
+      ];
+      const add = spyOn(SearchIndex.prototype, 'add');
+
+      try {
+        service.indexFileSystemTree(
+          createMockFileTree(next.map((f) => f.relativePath)),
+          '/repo'
+        );
+        expect(add).toHaveBeenCalledTimes(100);
+        expect(service.getFileCount()).toBe(FILE_COUNT);
+        expect(service.search('feature99')[0].relativePath).toBe(
+          'packages/new/src/Feature99.tsx'
+        );
+
+        // Changing back restores the original tree the same way
+        add.mockClear();
+        service.indexFileSystemTree(
+          createMockFileTree(files.map((f) => f.relativePath)),
+          '/repo'
+        );
+        expect(add).toHaveBeenCalledTimes(100);
+        expect(service.search('feature99')).toEqual([]);
+      } finally {
+        add.mockRestore();
+      }
+    },
+    LARGE_TREE_TIMEOUT_MS
+  );
+
+  test('indexed search matches a linear scan', () => {
+    const candidates = spyOn(SearchIndex.prototype, 'characterCandidates');
+
+    try {
+      const query = 'gr99';
+      const results = service.search(query, { limit: FILE_COUNT });
+
+      const linear = files.filter((f) =>
+        isSubsequence(query, f.relativePath.toLowerCase())
+      );
+      expect(results).toHaveLength(linear.length);
+      // Only the posting list of the rarest query character is scanned
+      const visited = candidates.mock.results[0].value as FileDocument[];
+      expect(visited.length).toBeLessThan(FILE_COUNT / 2);
+    } finally {
+      candidates.mockRestore();
+    }
+  });
+});
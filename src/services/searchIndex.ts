@@ -0,0 +1,280 @@
+/**
+ * SearchIndex - incremental filename index used by LocalSearchService
+ *
+ * Documents live in numbered slots so posting lists can be plain number
+ * arrays. Two posting maps provide sub-linear candidate lookup:
+ * - trigrams of the lowercased filename, for contiguous (substring) queries
+ * - distinct characters of the lowercased relative path, so fuzzy queries
+ *   only visit documents containing the query's rarest character
+ *
+ * Removals leave tombstones that are skipped at lookup time; the postings are
+ * compacted once tombstones make up a large share of the slots.
+ */
+
+export interface FileDocument {
+  id: string;
+  path: string;
+  name: string;
+  relativePath: string;
+}
+
+/**
+ * Minimal file shape needed for indexing (a subset of FileTree's FileInfo)
+ */
+export interface IndexableFile {
+  path: string;
+  name: string;
+  relativePath: string;
+}
+
+/**
+ * Changes between two versions of a file tree
+ */
+export interface FileIndexDiff {
+  added: IndexableFile[];
+  /** Relative paths that no longer exist */
+  removed: string[];
+  /** Files that moved, paired by filename when the pairing is unambiguous */
+  renamed: Array<{ from: string; to: IndexableFile }>;
+}
+
+/** Compact once at least this many tombstones have accumulated... */
+const COMPACT_MIN_TOMBSTONES = 1024;
+/** ...and they make up at least this share of all slots */
+const COMPACT_TOMBSTONE_RATIO = 0.25;
+
+function trigramsOf(text: string): Set<string> {
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    trigrams.add(text.slice(i, i + 3));
+  }
+  return trigrams;
+}
+
+function addPosting(map: Map<string, number[]>, key: string, slot: number) {
+  const postings = map.get(key);
+  if (postings) {
+    postings.push(slot);
+  } else {
+    map.set(key, [slot]);
+  }
+}
+
+/**
+ * Intersect ascending posting lists, smallest first
+ */
+function intersectPostings(lists: number[][]): number[] {
+  if (lists.length === 0) return [];
+  const sorted = [...lists].sort((a, b) => a.length - b.length);
+  let result = sorted[0];
+  for (let i = 1; i < sorted.length && result.length > 0; i++) {
+    const other = new Set(sorted[i]);
+    result = result.filter((slot) => other.has(slot));
+  }
+  return result;
+}
+
+export class SearchIndex {
+  private docs: Array<FileDocument | undefined> = [];
+  private slotByPath = new Map<string, number>();
+  private trigrams = new Map<string, number[]>();
+  private chars = new Map<string, number[]>();
+  private tombstones = 0;
+
+  /** Number of live documents */
+  get size(): number {
+    return this.slotByPath.size;
+  }
+
+  has(relativePath: string): boolean {
+    return this.slotByPath.has(relativePath);
+  }
+
+  get(relativePath: string): FileDocument | undefined {
+    const slot = this.slotByPath.get(relativePath);
+    return slot === undefined ? undefined : this.docs[slot];
+  }
+
+  forEach(callback: (doc: FileDocument) => void): void {
+    for (const doc of this.docs) {
+      if (doc) callback(doc);
+    }
+  }
+
+  /**
+   * Add or replace a document (keyed by relative path)
+   */
+  add(doc: FileDocument): void {
+    this.remove(doc.relativePath);
+
+    const slot = this.docs.length;
+    this.docs.push(doc);
+    this.slotByPath.set(doc.relativePath, slot);
+    this.addPostings(doc, slot);
+  }
+
+  /**
+   * Remove a document; returns false when it was not indexed
+   */
+  remove(relativePath: string): boolean {
+    const slot = this.slotByPath.get(relativePath);
+    if (slot === undefined) return false;
+
+    this.docs[slot] = undefined;
+    this.slotByPath.delete(relativePath);
+    this.tombstones++;
+    this.compactIfNeeded();
+    return true;
+  }
+
+  clear(): void {
+    this.docs = [];
+    this.slotByPath.clear();
+    this.trigrams.clear();
+    this.chars.clear();
+    this.tombstones = 0;
+  }
+
+  /**
+   * Documents whose filename contains `lowerQuery` as a substring.
+   * Returns null when the query is too short for trigram lookup.
+   */
+  substringCandidates(lowerQuery: string): FileDocument[] | null {
+    if (lowerQuery.length < 3) return null;
+
+    const lists: number[][] = [];
+    for (const trigram of trigramsOf(lowerQuery)) {
+      const postings = this.trigrams.get(trigram);
+      if (!postings) return [];
+      lists.push(postings);
+    }
+
+    const results: FileDocument[] = [];
+    for (const slot of intersectPostings(lists)) {
+      const doc = this.docs[slot];
+      if (doc && doc.name.toLowerCase().includes(lowerQuery)) {
+        results.push(doc);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Documents whose relative path contains every character of `lowerQuery`,
+   * visiting only the posting list of the rarest character.
+   */
+  characterCandidates(lowerQuery: string): FileDocument[] {
+    let rarest: number[] | undefined;
+    for (const char of new Set(lowerQuery)) {
+      if (/\s/.test(char)) continue;
+      const postings = this.chars.get(char);
+      if (!postings) return [];
+      if (!rarest || postings.length < rarest.length) rarest = postings;
+    }
+
+    const results: FileDocument[] = [];
+    if (!rarest) {
+      this.forEach((doc) => results.push(doc));
+      return results;
+    }
+
+    for (const slot of rarest) {
+      const doc = this.docs[slot];
+      if (doc) results.push(doc);
+    }
+    return results;
+  }
+
+  private addPostings(doc: FileDocument, slot: number): void {
+    for (const trigram of trigramsOf(doc.name.toLowerCase())) {
+      addPosting(this.trigrams, trigram, slot);
+    }
+    for (const char of new Set(doc.relativePath.toLowerCase())) {
+      addPosting(this.chars, char, slot);
+    }
+  }
+
+  /**
+   * Renumber live documents and rebuild postings without tombstones
+   */
+  private compactIfNeeded(): void {
+    if (
+      this.tombstones < COMPACT_MIN_TOMBSTONES ||
+      this.tombstones < this.docs.length * COMPACT_TOMBSTONE_RATIO
+    ) {
+      return;
+    }
+
+    const live = this.docs.filter((doc): doc is FileDocument => !!doc);
+    this.clear();
+    for (const doc of live) {
+      const slot = this.docs.length;
+      this.docs.push(doc);
+      this.slotByPath.set(doc.relativePath, slot);
+      this.addPostings(doc, slot);
+    }
+  }
+}
+
+/**
+ * Compute the changes needed to bring `index` in line with `files`.
+ * A removed and an added file are reported as a rename when they share a
+ * filename that is unique among both the removed and the added files.
+ */
+export function diffFileIndex(
+  index: SearchIndex,
+  files: IndexableFile[]
+): FileIndexDiff {
+  const nextPaths = new Set<string>();
+  let added: IndexableFile[] = [];
+
+  for (const file of files) {
+    nextPaths.add(file.relativePath);
+    const existing = index.get(file.relativePath);
+    if (!existing || existing.name !== file.name) {
+      added.push(file);
+    }
+  }
+
+  let removed: string[] = [];
+  index.forEach((doc) => {
+    if (!nextPaths.has(doc.relativePath)) removed.push(doc.relativePath);
+  });
+
+  // Pair up moves by unique filename
+  const countBy = (names: string[]) => {
+    const counts = new Map<string, number>();
+    for (const name of names) counts.set(name, (counts.get(name) ?? 0) + 1);
+    return counts;
+  };
+  const removedNames = countBy(removed.map((p) => p.split('/').pop() ?? p));
+  const addedCandidates = added.filter((f) => !index.has(f.relativePath));
+  const addedNames = countBy(addedCandidates.map((f) => f.name));
+
+  const addedByName = new Map<string, IndexableFile>();
+  for (const file of addedCandidates) {
+    if (addedNames.get(file.name) === 1) addedByName.set(file.name, file);
+  }
+
+  const renamed: FileIndexDiff['renamed'] = [];
+  const renamedFrom = new Set<string>();
+  const renamedTo = new Set<IndexableFile>();
+
+  for (const from of removed) {
+    const name = from.split('/').pop() ?? from;
+    if (removedNames.get(name) !== 1) continue;
+    const to = addedByName.get(name);
+    if (to) {
+      renamed.push({ from, to });
+      renamedFrom.add(from);
+      renamedTo.add(to);
+    }
+  }
+
+  if (renamed.length > 0) {
+    removed = removed.filter((p) => !renamedFrom.has(p));
+    added = added.filter((f) => !renamedTo.has(f));
+  }
+
+  return { added, removed, renamed };
+}
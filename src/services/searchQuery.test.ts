@@ -0,0 +1,104 @@
+/**
+ * Tests for the SearchPanel query language
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  globToRegex,
+  matchesDirectoryFilter,
+  parseSearchQuery,
+  removeSearchQueryFilter,
+} from './searchQuery';
+
+describe('parseSearchQuery', () => {
+  test('splits filters from free text', () => {
+    const parsed = parseSearchQuery('ext:ts in:src/panels -in:stories Card*');
+
+    expect(parsed.text).toBe('Card*');
+    expect(parsed.fileTypes).toEqual(['ts']);
+    expect(parsed.directoryFilters).toEqual([
+      { id: 'in:src/panels', path: 'src/panels', mode: 'include' },
+      { id: '-in:stories', path: 'stories', mode: 'exclude' },
+    ]);
+  });
+
+  test('supports comma separated and dotted extensions', () => {
+    expect(parseSearchQuery('ext:.TS,tsx,*.md').fileTypes).toEqual([
+      'ts',
+      'tsx',
+      'md',
+    ]);
+  });
+
+  test('supports quoted values', () => {
+    const parsed = parseSearchQuery('in:"my folder" readme');
+
+    expect(parsed.directoryFilters[0].path).toBe('my folder');
+    expect(parsed.text).toBe('readme');
+  });
+
+  test('ignores filters without a value and unknown prefixes', () => {
+    const parsed = parseSearchQuery('ext: foo:bar panel');
+
+    expect(parsed.filters).toHaveLength(0);
+    expect(parsed.text).toBe('foo:bar panel');
+  });
+
+  test('only treats filters at the start of a word', () => {
+    expect(parseSearchQuery('main:ext:ts').filters).toHaveLength(0);
+  });
+
+  test('records token positions', () => {
+    const parsed = parseSearchQuery('card ext:tsx');
+
+    expect(parsed.filters[0]).toMatchObject({ start: 5, end: 12 });
+  });
+});
+
+describe('removeSearchQueryFilter', () => {
+  test('removes a filter and tidies whitespace', () => {
+    const query = 'ext:ts in:src  -in:stories Card*';
+    const { filters } = parseSearchQuery(query);
+
+    expect(removeSearchQueryFilter(query, filters[1])).toBe(
+      'ext:ts -in:stories Card*'
+    );
+    expect(removeSearchQueryFilter(query, filters[0])).toBe(
+      'in:src  -in:stories Card*'
+    );
+  });
+});
+
+describe('globToRegex', () => {
+  test('keeps single stars within a path segment', () => {
+    expect(globToRegex('src/*.ts').test('src/index.ts')).toBe(true);
+    expect(globToRegex('src/*.ts').test('src/panels/index.ts')).toBe(false);
+  });
+
+  test('lets double stars span path segments', () => {
+    const regex = globToRegex('src/**/*.test.ts');
+
+    expect(regex.test('src/a.test.ts')).toBe(true);
+    expect(regex.test('src/services/deep/a.test.ts')).toBe(true);
+    expect(regex.test('lib/a.test.ts')).toBe(false);
+  });
+});
+
+describe('matchesDirectoryFilter', () => {
+  test('uses substring matching for plain paths', () => {
+    expect(matchesDirectoryFilter('src/panels/Card.tsx', 'panels')).toBe(true);
+    expect(matchesDirectoryFilter('src/utils/env.ts', 'panels')).toBe(false);
+  });
+
+  test('matches globs against whole path segments', () => {
+    expect(
+      matchesDirectoryFilter(
+        'src/panels/cards/components/RepoCard.tsx',
+        'src/**/components'
+      )
+    ).toBe(true);
+    expect(
+      matchesDirectoryFilter('src/mycomponents/Card.tsx', 'src/**/components')
+    ).toBe(false);
+  });
+});
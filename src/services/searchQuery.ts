@@ -0,0 +1,195 @@
+/**
+ * Search query language for SearchPanel
+ *
+ * Supported syntax (space separated, combinable):
+ *   ext:ts,tsx          only files with these extensions
+ *   in:src/panels       only files under a matching directory
+ *   -in:stories         exclude files under a matching directory
+ *   Card*               free text; globs (`*`, `?`, `**`) or fuzzy text
+ *
+ * Values may be quoted (`in:"my folder"`). Directory values are substring
+ * matches unless they contain wildcards, in which case they are matched as
+ * globs against whole path segments (`in:src/**\/components`).
+ */
+
+import type { DirectoryFilter } from './LocalSearchService';
+
+export type SearchQueryFilterKind = 'ext' | 'in' | '-in';
+
+/**
+ * A filter token parsed from the raw query, with its position so it can be
+ * removed from the input again
+ */
+export interface SearchQueryFilter {
+  kind: SearchQueryFilterKind;
+  value: string;
+  /** Offset of the token in the raw query (inclusive) */
+  start: number;
+  /** Offset of the token in the raw query (exclusive) */
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  /** Free text remaining after filters are removed */
+  text: string;
+  /** Lowercased extensions without leading dots */
+  fileTypes: string[];
+  directoryFilters: DirectoryFilter[];
+  /** Every recognised filter token, in query order */
+  filters: SearchQueryFilter[];
+}
+
+const FILTER_TOKEN = /(-?)(ext|in):("([^"]*)"|\S*)/y;
+
+/**
+ * Check if a pattern contains glob wildcards
+ */
+export function hasWildcards(pattern: string): boolean {
+  return pattern.includes('*') || pattern.includes('?');
+}
+
+/**
+ * Convert a glob pattern to a regex source string.
+ * `**` spans path segments, `*` and `?` stay within a single segment.
+ */
+export function globToRegexSource(pattern: string): string {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        i++;
+        if (pattern[i + 1] === '/') {
+          // `**/` matches zero or more whole directories
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Convert a glob pattern to an anchored, case-insensitive regex
+ */
+export function globToRegex(pattern: string): RegExp {
+  return new RegExp(`^${globToRegexSource(pattern)}$`, 'i');
+}
+
+/**
+ * Check if a relative file path falls under a directory filter
+ */
+export function matchesDirectoryFilter(
+  relativePath: string,
+  filterPath: string
+): boolean {
+  const normalized = filterPath.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+  if (!normalized) return true;
+
+  if (hasWildcards(normalized)) {
+    const regex = new RegExp(
+      `(?:^|/)${globToRegexSource(normalized)}(?:/|$)`,
+      'i'
+    );
+    return regex.test(relativePath);
+  }
+
+  return relativePath.toLowerCase().includes(normalized.toLowerCase());
+}
+
+/**
+ * Get the lowercased extension of a filename ('' when there is none)
+ */
+export function getFileExtension(name: string): string {
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex > 0 ? name.slice(dotIndex + 1).toLowerCase() : '';
+}
+
+/**
+ * Parse a raw query into free text and structured filters
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const filters: SearchQueryFilter[] = [];
+  const textParts: string[] = [];
+
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    // Only treat `kind:` as a filter at the start of a word
+    FILTER_TOKEN.lastIndex = i;
+    const match = FILTER_TOKEN.exec(input);
+    if (match) {
+      const value = (match[4] ?? match[3]).trim();
+      if (value) {
+        filters.push({
+          kind: `${match[1]}${match[2]}` as SearchQueryFilterKind,
+          value,
+          start: i,
+          end: i + match[0].length,
+        });
+      }
+      i += match[0].length;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !/\s/.test(input[end])) end++;
+    textParts.push(input.slice(i, end));
+    i = end;
+  }
+
+  const fileTypes: string[] = [];
+  const directoryFilters: DirectoryFilter[] = [];
+
+  for (const filter of filters) {
+    if (filter.kind === 'ext') {
+      for (const ext of filter.value.split(',')) {
+        const normalized = ext
+          .trim()
+          .replace(/^\*?\./, '')
+          .toLowerCase();
+        if (normalized && !fileTypes.includes(normalized)) {
+          fileTypes.push(normalized);
+        }
+      }
+    } else {
+      directoryFilters.push({
+        id: `${filter.kind}:${filter.value}`,
+        path: filter.value,
+        mode: filter.kind === 'in' ? 'include' : 'exclude',
+      });
+    }
+  }
+
+  return {
+    text: textParts.join(' '),
+    fileTypes,
+    directoryFilters,
+    filters,
+  };
+}
+
+/**
+ * Remove a single filter token from the raw query, tidying whitespace
+ */
+export function removeSearchQueryFilter(
+  input: string,
+  filter: SearchQueryFilter
+): string {
+  const before = input.slice(0, filter.start).replace(/\s+$/, '');
+  const after = input.slice(filter.end).replace(/^\s+/, '');
+  return before && after ? `${before} ${after}` : before || after;
+}
@@ -0,0 +1,83 @@
+/**
+ * Tests for per-repository search services and cross-repository search
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMockFileTree } from '../mocks/fileTree';
+import {
+  LocalSearchServiceRegistry,
+  getRepositoryName,
+} from './searchRegistry';
+
+const createRegistry = () => {
+  const registry = new LocalSearchServiceRegistry();
+  registry.index({
+    rootPath: '/work/web',
+    fileTree: createMockFileTree(
+      ['src/App.tsx', 'src/Button.tsx'],
+      '/work/web'
+    ),
+  });
+  registry.index({
+    rootPath: '/work/api',
+    name: 'Backend API',
+    fileTree: createMockFileTree(['src/server.ts', 'src/app.ts'], '/work/api'),
+  });
+  return registry;
+};
+
+describe('LocalSearchServiceRegistry', () => {
+  test('keeps repositories isolated', () => {
+    const registry = createRegistry();
+
+    const webResults = registry.get('/work/web').search('server');
+    const apiResults = registry.get('/work/api').search('server');
+
+    expect(webResults).toEqual([]);
+    expect(apiResults.map((r) => r.path)).toEqual(['/work/api/src/server.ts']);
+  });
+
+  test('merges results across repositories with repository info', () => {
+    const registry = createRegistry();
+
+    const results = registry.searchAll('app');
+
+    expect(results.map((r) => [r.repositoryName, r.relativePath])).toEqual([
+      ['Backend API', 'src/app.ts'],
+      ['web', 'src/App.tsx'],
+    ]);
+    expect(results[0].rootPath).toBe('/work/api');
+  });
+
+  test('limits the search to the requested root paths', () => {
+    const registry = createRegistry();
+
+    const results = registry.searchAll('app', { rootPaths: ['/work/web'] });
+
+    expect(results.map((r) => r.rootPath)).toEqual(['/work/web']);
+  });
+
+  test('applies boosts per repository', () => {
+    const registry = createRegistry();
+
+    const results = registry.searchAll('app', {
+      boostsByRoot: { '/work/web': { 'src/App.tsx': 30 } },
+    });
+
+    expect(results[0].rootPath).toBe('/work/web');
+  });
+
+  test('deleting a repository drops its index', () => {
+    const registry = createRegistry();
+    registry.delete('/work/api');
+
+    expect(registry.rootPaths()).toEqual(['/work/web']);
+    expect(registry.searchAll('server')).toEqual([]);
+  });
+});
+
+describe('getRepositoryName', () => {
+  test('uses the last path segment', () => {
+    expect(getRepositoryName('/work/web/')).toBe('web');
+  });
+});
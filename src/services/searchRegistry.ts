@@ -0,0 +1,136 @@
+/**
+ * LocalSearchServiceRegistry - one LocalSearchService per repository root,
+ * so several trees can be indexed side by side and searched together.
+ */
+
+import type { FileTree } from '@principal-ai/repository-abstraction';
+import {
+  LocalSearchService,
+  type SearchOptions,
+  type SearchResult,
+} from './LocalSearchService';
+
+/**
+ * A repository that can take part in a cross-repository search
+ */
+export interface SearchRepository {
+  /** Absolute root path - the registry key */
+  rootPath: string;
+  /** Display name (defaults to the last segment of rootPath) */
+  name?: string;
+  fileTree: FileTree | null;
+}
+
+export interface CrossRepositorySearchResult extends SearchResult {
+  rootPath: string;
+  repositoryName: string;
+}
+
+export interface CrossRepositorySearchOptions extends SearchOptions {
+  /** Repositories to search (default: every registered repository) */
+  rootPaths?: string[];
+  /** Per-repository score boosts, keyed by root path then relative path */
+  boostsByRoot?: Record<string, Record<string, number>>;
+}
+
+/**
+ * Default display name for a repository root
+ */
+export function getRepositoryName(rootPath: string): string {
+  return rootPath.replace(/\/+$/, '').split('/').pop() || rootPath;
+}
+
+export class LocalSearchServiceRegistry {
+  private services = new Map<string, LocalSearchService>();
+  private names = new Map<string, string>();
+
+  /**
+   * Get the service for a root path, creating it on first use
+   */
+  get(rootPath: string, name?: string): LocalSearchService {
+    let service = this.services.get(rootPath);
+    if (!service) {
+      service = new LocalSearchService();
+      this.services.set(rootPath, service);
+    }
+    if (name) this.names.set(rootPath, name);
+    return service;
+  }
+
+  has(rootPath: string): boolean {
+    return this.services.has(rootPath);
+  }
+
+  /**
+   * Drop a repository's index
+   */
+  delete(rootPath: string): boolean {
+    this.names.delete(rootPath);
+    return this.services.delete(rootPath);
+  }
+
+  rootPaths(): string[] {
+    return Array.from(this.services.keys());
+  }
+
+  getName(rootPath: string): string {
+    return this.names.get(rootPath) ?? getRepositoryName(rootPath);
+  }
+
+  /**
+   * Index a repository's file tree under its root path
+   */
+  index(repository: SearchRepository): void {
+    if (!repository.fileTree) return;
+    this.get(repository.rootPath, repository.name).indexFileSystemTree(
+      repository.fileTree,
+      repository.rootPath
+    );
+  }
+
+  /**
+   * Search several repositories and merge the results by score
+   */
+  searchAll(
+    query: string,
+    options: CrossRepositorySearchOptions = {}
+  ): CrossRepositorySearchResult[] {
+    const { rootPaths, boostsByRoot, ...searchOptions } = options;
+    const limit = searchOptions.limit || 100;
+    const results: CrossRepositorySearchResult[] = [];
+
+    for (const rootPath of rootPaths ?? this.rootPaths()) {
+      const service = this.services.get(rootPath);
+      if (!service) continue;
+
+      const repositoryName = this.getName(rootPath);
+      const repositoryResults = service.search(query, {
+        ...searchOptions,
+        boosts: boostsByRoot?.[rootPath] ?? searchOptions.boosts,
+      });
+      for (const result of repositoryResults) {
+        results.push({ ...result, rootPath, repositoryName });
+      }
+    }
+
+    // Same ordering as a single-repository search
+    if (query.trim()) {
+      results.sort(
+        (a, b) =>
+          b.score - a.score || a.relativePath.length - b.relativePath.length
+      );
+    } else {
+      results.sort(
+        (a, b) =>
+          a.repositoryName.localeCompare(b.repositoryName) ||
+          a.relativePath.localeCompare(b.relativePath)
+      );
+    }
+    return results.slice(0, limit);
+  }
+
+  clear(): void {
+    this.services.clear();
+    this.names.clear();
+  }
+}
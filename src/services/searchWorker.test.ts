@@ -0,0 +1,69 @@
+/**
+ * Tests for the search worker protocol, using an in-memory port pair
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMockFileTree } from '../mocks/fileTree';
+import {
+  SearchWorkerClient,
+  attachSearchWorker,
+  type SearchWorkerPort,
+} from './searchWorker';
+
+type Listener = (event: MessageEvent) => void;
+
+/**
+ * Two linked ports; messages are delivered asynchronously like a real Worker
+ */
+const createPortPair = (): [SearchWorkerPort, SearchWorkerPort] => {
+  const listeners: [Set<Listener>, Set<Listener>] = [new Set(), new Set()];
+
+  const createPort = (own: number): SearchWorkerPort => ({
+    postMessage: (message) => {
+      const targets = listeners[1 - own];
+      queueMicrotask(() =>
+        targets.forEach((listener) =>
+          listener({ data: structuredClone(message) } as MessageEvent)
+        )
+      );
+    },
+    addEventListener: (_type, listener) => listeners[own].add(listener),
+    removeEventListener: (_type, listener) => listeners[own].delete(listener),
+  });
+
+  return [createPort(0), createPort(1)];
+};
+
+describe('SearchWorkerClient', () => {
+  test('indexes and searches through the worker', async () => {
+    const [main, worker] = createPortPair();
+    const detach = attachSearchWorker(worker);
+    const client = new SearchWorkerClient(main);
+
+    client.index(
+      createMockFileTree(
+        ['src/panels/SearchPanel.tsx', 'src/index.tsx'],
+        '/repo'
+      ),
+      '/repo'
+    );
+    const results = await client.search('spanel');
+
+    expect(results[0].relativePath).toBe('src/panels/SearchPanel.tsx');
+    expect(results[0].nameRanges?.length).toBeGreaterThan(0);
+
+    client.dispose();
+    detach();
+  });
+
+  test('rejects pending searches on dispose', async () => {
+    const [main] = createPortPair();
+    const client = new SearchWorkerClient(main);
+
+    // No worker attached, so the search never resolves on its own
+    const pending = client.search('anything');
+    client.dispose();
+
+    await expect(pending).rejects.toThrow('disposed');
+  });
+});
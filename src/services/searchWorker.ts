@@ -0,0 +1,184 @@
+/**
+ * Optional Web Worker transport for filename search.
+ *
+ * The host bundles a worker entry that calls `attachSearchWorker(self)`, then
+ * passes the Worker to SearchPanel. Indexing and searching then run off the
+ * main thread; the panel falls back to the in-thread service without one.
+ *
+ *   // search.worker.ts
+ *   import { attachSearchWorker } from '@industry-theme/repository-composition-panels';
+ *   attachSearchWorker(self);
+ */
+
+import type { FileTree } from '@principal-ai/repository-abstraction';
+import type { IndexableFile } from './LocalSearchService';
+import {
+  LocalSearchServiceRegistry,
+  type CrossRepositorySearchOptions,
+  type CrossRepositorySearchResult,
+} from './searchRegistry';
+
+export type SearchWorkerRequest =
+  | {
+      type: 'index';
+      files: IndexableFile[];
+      baseDirectory: string;
+      name?: string;
+    }
+  | {
+      type: 'search';
+      requestId: number;
+      query: string;
+      options?: CrossRepositorySearchOptions;
+    }
+  | { type: 'clear'; rootPath?: string };
+
+export type SearchWorkerResponse =
+  | {
+      type: 'results';
+      requestId: number;
+      results: CrossRepositorySearchResult[];
+    }
+  | { type: 'error'; requestId: number; message: string };
+
+/**
+ * Minimal message port shape shared by Worker and a worker's global scope
+ */
+export interface SearchWorkerPort {
+  postMessage(message: unknown): void;
+  addEventListener(
+    type: 'message',
+    listener: (event: MessageEvent) => void
+  ): void;
+  removeEventListener(
+    type: 'message',
+    listener: (event: MessageEvent) => void
+  ): void;
+}
+
+/**
+ * Serve search requests inside a worker, keeping one index per repository
+ * root. Returns a function that detaches.
+ */
+export function attachSearchWorker(scope: SearchWorkerPort): () => void {
+  const registry = new LocalSearchServiceRegistry();
+
+  const handleMessage = (event: MessageEvent) => {
+    const request = event.data as SearchWorkerRequest;
+
+    switch (request.type) {
+      case 'index':
+        registry
+          .get(request.baseDirectory, request.name)
+          .indexFiles(request.files, request.baseDirectory);
+        break;
+      case 'clear':
+        if (request.rootPath) {
+          registry.delete(request.rootPath);
+        } else {
+          registry.clear();
+        }
+        break;
+      case 'search':
+        try {
+          const results = registry.searchAll(request.query, request.options);
+          scope.postMessage({
+            type: 'results',
+            requestId: request.requestId,
+            results,
+          } satisfies SearchWorkerResponse);
+        } catch (error) {
+          scope.postMessage({
+            type: 'error',
+            requestId: request.requestId,
+            message: error instanceof Error ? error.message : String(error),
+          } satisfies SearchWorkerResponse);
+        }
+        break;
+    }
+  };
+
+  scope.addEventListener('message', handleMessage);
+  return () => scope.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Main-thread client for a worker running `attachSearchWorker`
+ */
+export class SearchWorkerClient {
+  private nextRequestId = 1;
+  private pending = new Map<
+    number,
+    {
+      resolve: (results: CrossRepositorySearchResult[]) => void;
+      reject: (error: Error) => void;
+    }
+  >();
+
+  constructor(private port: SearchWorkerPort) {
+    this.port.addEventListener('message', this.handleMessage);
+  }
+
+  /**
+   * Send the tree's files to the worker. Only the fields needed for search
+   * are posted, keeping structured-clone cost low on large trees.
+   */
+  index(tree: FileTree, baseDirectory: string, name?: string): void {
+    const files: IndexableFile[] = tree.allFiles.map((file) => ({
+      path: file.path,
+      name: file.name,
+      relativePath: file.relativePath,
+    }));
+    this.post({ type: 'index', files, baseDirectory, name });
+  }
+
+  /**
+   * Search the repositories in `options.rootPaths` (default: all indexed)
+   */
+  search(
+    query: string,
+    options?: CrossRepositorySearchOptions
+  ): Promise<CrossRepositorySearchResult[]> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      this.post({ type: 'search', requestId, query, options });
+    });
+  }
+
+  /**
+   * Drop one repository's index, or every index when rootPath is omitted
+   */
+  clear(rootPath?: string): void {
+    this.post({ type: 'clear', rootPath });
+  }
+
+  /**
+   * Stop listening and reject outstanding searches. Does not terminate the
+   * worker - the host owns its lifecycle.
+   */
+  dispose(): void {
+    this.port.removeEventListener('message', this.handleMessage);
+    for (const { reject } of this.pending.values()) {
+      reject(new Error('Search worker client disposed'));
+    }
+    this.pending.clear();
+  }
+
+  private post(request: SearchWorkerRequest): void {
+    this.port.postMessage(request);
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    const response = event.data as SearchWorkerResponse;
+    const pending = this.pending.get(response.requestId);
+    if (!pending) return;
+
+    this.pending.delete(response.requestId);
+    if (response.type === 'results') {
+      pending.resolve(response.results);
+    } else {
+      pending.reject(new Error(response.message));
+    }
+  };
+}
@@ -110,6 +110,79 @@ export const toggleSectionTool: PanelTool = {
   },
 };
 
+/**
+ * Event emitted by the commit_changes tool, handled by GitChangesPanel
+ */
+export const COMMIT_CHANGES_EVENT = 'industry-theme.git-changes:commit';
+
+/**
+ * Payload of COMMIT_CHANGES_EVENT
+ */
+export interface CommitChangesPayload {
+  message: string;
+  amend?: boolean;
+}
+
+/**
+ * Event GitChangesPanel emits once a commit_changes commit succeeded or failed
+ */
+export const COMMIT_CHANGES_RESULT_EVENT =
+  'industry-theme.git-changes:commit-result';
+
+/**
+ * Payload of COMMIT_CHANGES_RESULT_EVENT, matching the tool's outputs
+ */
+export interface CommitChangesResultPayload {
+  success: boolean;
+  /** What happened, or why the commit was not made */
+  message: string;
+  /** Hash of the new commit, when the host reports it */
+  commitHash?: string;
+}
+
+/**
+ * Tool: Commit Changes
+ */
+export const commitChangesTool: PanelTool = {
+  name: 'commit_changes',
+  description:
+    'Commits the staged changes shown in the Git Changes panel with the given message',
+  inputs: {
+    type: 'object',
+    properties: {
+      message: {
+        type: 'string',
+        description:
+          'Commit message: a subject line, optionally followed by a blank line and a body',
+      },
+      amend: {
+        type: 'boolean',
+        description: 'Replace the last commit instead of creating a new one',
+      },
+    },
+    required: ['message'],
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      commitHash: { type: 'string' },
+    },
+  },
+  tags: ['git', 'commit'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: COMMIT_CHANGES_EVENT,
+    target_panel: 'industry-theme.git-changes',
+  },
+};
+
+/**
+ * Tools provided by GitChangesPanel
+ */
+export const gitChangesPanelTools: PanelTool[] = [commitChangesTool];
+
 /**
  * All tools exported as an array.
  */
@@ -128,3 +201,13 @@ export const examplePanelToolsMetadata: PanelToolsMetadata = {
   description: 'Tools provided by the example panel extension',
   tools: examplePanelTools,
 };
+
+/**
+ * GitChangesPanel tools metadata for registration with PanelToolRegistry.
+ */
+export const gitChangesPanelToolsMetadata: PanelToolsMetadata = {
+  id: 'industry-theme.git-changes',
+  name: 'Git Changes',
+  description: 'Tools provided by the Git Changes panel',
+  tools: gitChangesPanelTools,
+};
@@ -71,6 +71,9 @@ import type {
 } from '@principal-ai/repository-abstraction';
 import type { AlexandriaEntry } from '@principal-ai/alexandria-core-library';
 import type { PackagesSliceData } from './dependencies';
+import type { ContentSearchProvider } from '../services/ContentSearch';
+import type { CommandRunner } from '../services/CommandRunner';
+import type { SearchRepository } from '../services/searchRegistry';
 
 // Re-export AlexandriaEntry for consumers
 export type { AlexandriaEntry } from '@principal-ai/alexandria-core-library';
@@ -101,6 +104,83 @@ export type GitChangeSelectionStatus =
   | 'untracked'
   | 'deleted';
 
+/**
+ * A rename or copy detected by git (`R087 old -> new` in porcelain status)
+ */
+export interface GitRenamedFile {
+  kind: 'renamed' | 'copied';
+  oldPath: string;
+  newPath: string;
+  /** Similarity between the old and new contents, 0-100 */
+  similarity: number;
+}
+
+/**
+ * Git status as consumed by GitChangesPanel. Renames and copies are staged
+ * changes; hosts may also list their paths in stagedFiles/deletedFiles,
+ * which the panel collapses into a single entry. `hash` should cover
+ * renamedFiles too, since the panel only re-derives its data when it changes.
+ */
+export interface GitStatusWithRenames extends GitStatusWithFiles {
+  renamedFiles?: GitRenamedFile[];
+  /**
+   * Unmerged paths (`UU`, `AA`, `DU`, ... in porcelain status). The panel
+   * lists them in a Conflicts section instead of the other file lists.
+   */
+  conflictedFiles?: string[];
+  /** Operation that stopped on conflicts, if any */
+  mergeState?: GitMergeState;
+}
+
+/**
+ * Git operation in progress that can stop on conflicts
+ */
+export type GitMergeState = 'merge' | 'rebase' | 'cherry-pick' | 'revert';
+
+/**
+ * Version of a file to read for diffing:
+ * - 'HEAD' - last commit
+ * - 'INDEX' - staged version
+ * - 'WORKING_TREE' - current file on disk
+ *
+ * For conflicted files the index holds three stages instead (`git show :N:path`):
+ * - 'BASE' - common ancestor (stage 1)
+ * - 'OURS' - current branch (stage 2)
+ * - 'THEIRS' - branch being merged in (stage 3)
+ */
+export type GitRevision =
+  'HEAD' | 'INDEX' | 'WORKING_TREE' | 'BASE' | 'OURS' | 'THEIRS';
+
+/**
+ * A stash entry, as listed by `git stash list`
+ */
+export interface GitStash {
+  /** Stash ref, e.g. `stash@{0}` */
+  ref: string;
+  message: string;
+  /** Branch the stash was created on */
+  branch?: string;
+  /** ISO timestamp of the stash */
+  date?: string;
+}
+
+/**
+ * Branch state for the GitChangesPanel header
+ */
+export interface GitBranchInfo {
+  /** Current branch, or null for a detached HEAD */
+  currentBranch: string | null;
+  /** Upstream branch, e.g. `origin/main` */
+  upstream?: string | null;
+  /** Commits on the branch that are not on the upstream */
+  ahead: number;
+  /** Commits on the upstream that are not on the branch */
+  behind: number;
+  /** Local branches available in the branch switcher */
+  branches: string[];
+  stashes: GitStash[];
+}
+
 // ============================================================================
 // Typed Panel Interfaces (v0.4.2+)
 // ============================================================================
@@ -113,15 +193,96 @@ export type GitChangeSelectionStatus =
  * - Empty data = "fetched successfully, no items"
  */
 export interface GitChangesPanelContext {
-  gitStatusWithFiles: DataSlice<GitStatusWithFiles | null>;
+  gitStatusWithFiles: DataSlice<GitStatusWithRenames | null>;
   fileTree: DataSlice<FileTree | null>;
+  /** Detected packages, used by the group by package view */
+  packages?: DataSlice<PackagesSliceData | null>;
+  /** Branch, upstream and stash state shown in the header */
+  gitBranchInfo?: DataSlice<GitBranchInfo | null>;
+}
+
+/**
+ * Options for GitChangesPanelActions.commit
+ */
+export interface GitCommitOptions {
+  /** Replace the last commit instead of creating a new one */
+  amend?: boolean;
+}
+
+/**
+ * Outcome of GitChangesPanelActions.commit
+ */
+export interface GitCommitResult {
+  /** Hash of the new commit */
+  hash: string;
+}
+
+/**
+ * Extended actions for GitChangesPanel
+ */
+export interface GitChangesPanelActions extends CorePanelActions {
+  /**
+   * Read a file at a revision. Resolves null when the file does not exist
+   * there (e.g. HEAD for an untracked file).
+   */
+  readFileAtRevision?: (
+    filePath: string,
+    revision: GitRevision
+  ) => Promise<string | null>;
+  /**
+   * Unified diff text for one file (`git diff [--cached] -- <path>`).
+   * Preferred over readFileAtRevision when both are provided.
+   */
+  getDiff?: (
+    filePath: string,
+    options: {
+      staged: boolean;
+      /** Source path when the file was renamed or copied */
+      oldPath?: string;
+    }
+  ) => Promise<string>;
+  /** Stage files (`git add`) */
+  stage?: (filePaths: string[]) => Promise<void>;
+  /** Unstage files (`git restore --staged`) */
+  unstage?: (filePaths: string[]) => Promise<void>;
+  /**
+   * Discard working tree changes (`git restore`, or delete untracked files).
+   * The panel asks for confirmation before calling this.
+   */
+  discard?: (filePaths: string[]) => Promise<void>;
+  /** Stage every change under a folder (`git add <folder>`) */
+  stageFolder?: (folderPath: string) => Promise<void>;
+  /**
+   * Commit staged changes - enables the commit composer. Resolve with the
+   * new commit's hash so commit_changes can report it.
+   */
+  commit?: (
+    message: string,
+    options: GitCommitOptions
+  ) => Promise<GitCommitResult | void>;
+  /** Check out a local branch */
+  switchBranch?: (branch: string) => Promise<void>;
+  /** Apply a stash (`git stash apply <ref>`) */
+  applyStash?: (stashRef: string) => Promise<void>;
+  /** Drop a stash (`git stash drop <ref>`) */
+  dropStash?: (stashRef: string) => Promise<void>;
+  /**
+   * Mark a conflicted file as resolved (`git add`). When resolvedContent is
+   * given - from the conflict viewer - the host writes it to the file first.
+   */
+  markResolved?: (filePath: string, resolvedContent?: string) => Promise<void>;
+  /**
+   * Abort the operation in progress (`git merge --abort`, or the rebase,
+   * cherry-pick or revert equivalent). The panel asks for confirmation first.
+   */
+  abortMerge?: () => Promise<void>;
 }
 
 /**
  * Typed panel props for GitChangesPanel
  */
 export type GitChangesPanelPropsTyped = CorePanelComponentProps<
-  CorePanelActions,
+  GitChangesPanelActions,
   GitChangesPanelContext
 >;
 
@@ -140,6 +301,10 @@ export interface PackageCompositionPanelContext {
 export interface PackageCompositionPanelActions extends CorePanelActions {
   /** Read file content from the repository */
   readFile?: (filePath: string) => Promise<string>;
+  /** Write file content to the repository (env exports, lens fixes) */
+  writeFile?: (filePath: string, content: string) => Promise<void>;
+  /** Run a package command and stream its output (enables the run drawer) */
+  runCommand?: CommandRunner;
 }
 
 /**
@@ -155,13 +320,23 @@ export type PackageCompositionPanelPropsTyped = CorePanelComponentProps<
  */
 export interface SearchPanelContext {
   fileTree: DataSlice<FileTree | null>;
+  /** Optional: every repository in a multi-repo workspace (enables All repos) */
+  workspaceRepositories?: DataSlice<SearchRepository[] | null>;
+}
+
+/**
+ * Extended actions for SearchPanel
+ */
+export interface SearchPanelActions extends CorePanelActions {
+  /** Stream file content matches from the host (enables Content mode) */
+  searchContent?: ContentSearchProvider;
 }
 
 /**
  * Typed panel props for SearchPanel
  */
 export type SearchPanelPropsTyped = CorePanelComponentProps<
-  CorePanelActions,
+  SearchPanelActions,
   SearchPanelContext
 >;
 
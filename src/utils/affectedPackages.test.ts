@@ -0,0 +1,127 @@
+/**
+ * Tests for change-impact analysis
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMockPackage } from '../mocks/packages';
+import type { GitStatusWithRenames } from '../types';
+import { computeAffectedPackages } from './affectedPackages';
+
+const createStatus = (
+  files: Partial<GitStatusWithRenames>
+): GitStatusWithRenames => ({
+  repoPath: '/repo',
+  branch: 'main',
+  isDirty: true,
+  hasUntracked: false,
+  hasStaged: false,
+  ahead: 0,
+  behind: 0,
+  watchingEnabled: false,
+  stagedFiles: [],
+  modifiedFiles: [],
+  untrackedFiles: [],
+  deletedFiles: [],
+  createdFiles: [],
+  hash: 'abc',
+  ...files,
+});
+
+// utils <- core <- ui <- web, and core <- cli (dev only)
+const packages = [
+  createMockPackage('@app/utils', { path: 'packages/utils' }),
+  createMockPackage('@app/core', {
+    path: 'packages/core',
+    dependencies: ['@app/utils', 'react'],
+  }),
+  createMockPackage('@app/ui', {
+    path: 'packages/ui',
+    dependencies: ['@app/core'],
+  }),
+  createMockPackage('@app/web', {
+    path: 'apps/web',
+    dependencies: ['@app/ui'],
+  }),
+  createMockPackage('@app/cli', {
+    path: 'apps/cli',
+    devDependencies: ['@app/core'],
+  }),
+  createMockPackage('@app/docs', { path: 'apps/docs' }),
+];
+
+const names = (list: { package: PackageLayer }[]) =>
+  list.map((entry) => entry.package.packageData.name);
+
+describe('computeAffectedPackages', () => {
+  test('lists changed packages and their transitive dependents', () => {
+    const result = computeAffectedPackages(
+      createStatus({
+        modifiedFiles: ['packages/core/src/index.ts', 'README.md'],
+        untrackedFiles: ['packages/core/src/new.ts'],
+      }),
+      packages
+    );
+
+    expect(names(result.changed)).toEqual(['@app/core']);
+    expect(result.changed[0].changedFiles).toEqual([
+      'packages/core/src/index.ts',
+      'packages/core/src/new.ts',
+    ]);
+    expect(names(result.dependents)).toEqual([
+      '@app/cli',
+      '@app/ui',
+      '@app/web',
+    ]);
+    expect(result.dependents[2].via).toEqual([
+      '@app/core',
+      '@app/ui',
+      '@app/web',
+    ]);
+    expect(result.dependents[2].depth).toBe(2);
+    expect(result.unownedFiles).toEqual(['README.md']);
+  });
+
+  test('can ignore devDependencies', () => {
+    const result = computeAffectedPackages(
+      createStatus({ stagedFiles: ['packages/core/package.json'] }),
+      packages,
+      { includeDevDependencies: false }
+    );
+
+    expect(names(result.dependents)).toEqual(['@app/ui', '@app/web']);
+  });
+
+  test('a changed package is not also listed as a dependent', () => {
+    const result = computeAffectedPackages(
+      createStatus({
+        modifiedFiles: ['packages/utils/index.ts', 'apps/web/app.tsx'],
+      }),
+      packages
+    );
+
+    expect(names(result.changed)).toEqual(['@app/utils', '@app/web']);
+    expect(names(result.dependents)).toEqual([
+      '@app/core',
+      '@app/cli',
+      '@app/ui',
+    ]);
+  });
+
+  test('renames affect both the old and the new package', () => {
+    const result = computeAffectedPackages(
+      createStatus({
+        renamedFiles: [
+          {
+            kind: 'renamed',
+            oldPath: 'apps/docs/guide.md',
+            newPath: 'apps/web/guide.md',
+            similarity: 100,
+          },
+        ],
+      }),
+      packages
+    );
+
+    expect(names(result.changed)).toEqual(['@app/docs', '@app/web']);
+  });
+});
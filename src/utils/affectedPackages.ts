@@ -0,0 +1,128 @@
+/**
+ * Change-impact analysis: which packages the working tree touches, and which
+ * packages depend on them (like `nx affected` / `turbo --filter=...[HEAD]`)
+ */
+
+import type { GitStatusWithRenames } from '../types';
+import type { PackageLayer } from '../types/composition';
+import {
+  buildPackageGraph,
+  createPackageMatcher,
+  type PackageGraphOptions,
+} from './packageGraph';
+
+export interface AffectedPackage {
+  package: PackageLayer;
+  /** Changed files inside the package (empty for dependents) */
+  changedFiles: string[];
+  /**
+   * Package names from a directly changed package to this one. For a changed
+   * package this is just its own name.
+   */
+  via: string[];
+  /** Dependency hops from the nearest changed package (0 when changed) */
+  depth: number;
+}
+
+export interface AffectedPackagesResult {
+  /** Packages containing changed files, most changes first */
+  changed: AffectedPackage[];
+  /** Packages that transitively depend on a changed package, nearest first */
+  dependents: AffectedPackage[];
+  /** Changed files outside every package */
+  unownedFiles: string[];
+}
+
+/**
+ * Every path the working tree changes. Renames count for both the old and
+ * new location, since moving a file out of a package changes it too.
+ */
+function collectChangedPaths(gitStatus: GitStatusWithRenames): string[] {
+  return [
+    ...new Set([
+      ...gitStatus.stagedFiles,
+      ...gitStatus.modifiedFiles,
+      ...gitStatus.untrackedFiles,
+      ...gitStatus.deletedFiles,
+      ...(gitStatus.conflictedFiles ?? []),
+      ...(gitStatus.renamedFiles ?? []).flatMap((rename) => [
+        rename.oldPath,
+        rename.newPath,
+      ]),
+    ]),
+  ];
+}
+
+/**
+ * Packages directly changed by the working tree plus every package that
+ * depends on one of them, directly or transitively
+ */
+export function computeAffectedPackages(
+  gitStatus: GitStatusWithRenames,
+  packages: PackageLayer[],
+  options: PackageGraphOptions = {}
+): AffectedPackagesResult {
+  const findPackage = createPackageMatcher(packages);
+  const changedFilesById = new Map<string, string[]>();
+  const unownedFiles: string[] = [];
+
+  for (const path of collectChangedPaths(gitStatus)) {
+    const pkg = findPackage(path);
+    if (!pkg) {
+      unownedFiles.push(path);
+      continue;
+    }
+    const files = changedFilesById.get(pkg.id) ?? [];
+    files.push(path);
+    changedFilesById.set(pkg.id, files);
+  }
+
+  const graph = buildPackageGraph(packages, options);
+  const affected = new Map<string, AffectedPackage>();
+
+  const changed: AffectedPackage[] = [];
+  for (const [id, changedFiles] of changedFilesById) {
+    const pkg = graph.packagesById.get(id);
+    if (!pkg) continue;
+    const entry: AffectedPackage = {
+      package: pkg,
+      changedFiles,
+      via: [pkg.packageData.name],
+      depth: 0,
+    };
+    affected.set(id, entry);
+    changed.push(entry);
+  }
+
+  // Breadth-first over dependents, so each package keeps its shortest chain
+  const dependents: AffectedPackage[] = [];
+  const queue = [...changed];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const dependentId of graph.dependents.get(current.package.id) ?? []) {
+      if (affected.has(dependentId)) continue;
+      const pkg = graph.packagesById.get(dependentId);
+      if (!pkg) continue;
+      const entry: AffectedPackage = {
+        package: pkg,
+        changedFiles: [],
+        via: [...current.via, pkg.packageData.name],
+        depth: current.depth + 1,
+      };
+      affected.set(dependentId, entry);
+      dependents.push(entry);
+      queue.push(entry);
+    }
+  }
+
+  const byName = (a: AffectedPackage, b: AffectedPackage) =>
+    a.package.packageData.name.localeCompare(b.package.packageData.name);
+
+  return {
+    changed: changed.sort(
+      (a, b) => b.changedFiles.length - a.changedFiles.length || byName(a, b)
+    ),
+    dependents: dependents.sort((a, b) => a.depth - b.depth || byName(a, b)),
+    unownedFiles,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Tests for ANSI escape sequence parsing
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { parseAnsi, stripAnsi } from './ansi';
+
+describe('parseAnsi', () => {
+  test('returns plain text as one unstyled segment', () => {
+    expect(parseAnsi('hello\nworld')).toEqual([
+      { text: 'hello\nworld', style: {} },
+    ]);
+  });
+
+  test('applies and resets basic colors', () => {
+    expect(parseAnsi('\x1b[31merror\x1b[0m done')).toEqual([
+      { text: 'error', style: { color: '#ef4444' } },
+      { text: ' done', style: {} },
+    ]);
+  });
+
+  test('combines attributes in one sequence', () => {
+    expect(parseAnsi('\x1b[1;4;92mPASS\x1b[22m ok')).toEqual([
+      {
+        text: 'PASS',
+        style: { bold: true, underline: true, color: '#4ade80' },
+      },
+      { text: ' ok', style: { underline: true, color: '#4ade80' } },
+    ]);
+  });
+
+  test('supports 256-color and truecolor sequences', () => {
+    expect(parseAnsi('\x1b[38;5;196ma\x1b[48;2;0;128;255mb')).toEqual([
+      { text: 'a', style: { color: '#ff0000' } },
+      {
+        text: 'b',
+        style: { color: '#ff0000', backgroundColor: '#0080ff' },
+      },
+    ]);
+    expect(parseAnsi('\x1b[38;5;244mgray')[0].style.color).toBe('#808080');
+  });
+
+  test('treats an empty sequence as a reset', () => {
+    expect(parseAnsi('\x1b[33mwarn\x1b[m plain')).toEqual([
+      { text: 'warn', style: { color: '#eab308' } },
+      { text: ' plain', style: {} },
+    ]);
+  });
+
+  test('drops cursor movement and title sequences', () => {
+    expect(parseAnsi('\x1b[2K\x1b[1Gbuilding\x1b]0;title\x07')).toEqual([
+      { text: 'building', style: {} },
+    ]);
+  });
+});
+
+describe('stripAnsi', () => {
+  test('removes every escape sequence', () => {
+    expect(stripAnsi('\x1b[1m\x1b[32m✓\x1b[39m\x1b[22m 3 tests')).toBe(
+      '✓ 3 tests'
+    );
+  });
+});
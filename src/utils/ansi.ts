@@ -0,0 +1,160 @@
+/**
+ * ANSI escape sequence parsing for command output
+ */
+
+export interface AnsiStyle {
+  color?: string;
+  backgroundColor?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+/**
+ * A run of text with a single style
+ */
+export interface AnsiSegment {
+  text: string;
+  style: AnsiStyle;
+}
+
+/** The 16 standard colors: black, red, green, yellow, blue, magenta, cyan, white, then bright */
+const BASIC_COLORS = [
+  '#1e293b',
+  '#ef4444',
+  '#22c55e',
+  '#eab308',
+  '#3b82f6',
+  '#a855f7',
+  '#06b6d4',
+  '#e2e8f0',
+  '#64748b',
+  '#f87171',
+  '#4ade80',
+  '#facc15',
+  '#60a5fa',
+  '#c084fc',
+  '#22d3ee',
+  '#f8fafc',
+];
+
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map((v) => v.toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Color for an index into the xterm 256-color palette
+ */
+function color256(index: number): string | undefined {
+  if (index < 0 || index > 255) return undefined;
+  if (index < 16) return BASIC_COLORS[index];
+  if (index < 232) {
+    const cube = index - 16;
+    return toHex(
+      CUBE_LEVELS[Math.floor(cube / 36)],
+      CUBE_LEVELS[Math.floor(cube / 6) % 6],
+      CUBE_LEVELS[cube % 6]
+    );
+  }
+  const gray = 8 + (index - 232) * 10;
+  return toHex(gray, gray, gray);
+}
+
+/**
+ * Apply the parameters of one SGR (`ESC[...m`) sequence to a style
+ */
+function applySgr(style: AnsiStyle, params: number[]): AnsiStyle {
+  const next = { ...style };
+
+  for (let i = 0; i < params.length; i++) {
+    const code = params[i];
+    if (code === 0) {
+      for (const key of Object.keys(next) as Array<keyof AnsiStyle>) {
+        delete next[key];
+      }
+    } else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 22) {
+      delete next.bold;
+      delete next.dim;
+    } else if (code === 23) delete next.italic;
+    else if (code === 24) delete next.underline;
+    else if (code >= 30 && code <= 37) next.color = BASIC_COLORS[code - 30];
+    else if (code >= 90 && code <= 97) next.color = BASIC_COLORS[code - 82];
+    else if (code === 39) delete next.color;
+    else if (code >= 40 && code <= 47) {
+      next.backgroundColor = BASIC_COLORS[code - 40];
+    } else if (code >= 100 && code <= 107) {
+      next.backgroundColor = BASIC_COLORS[code - 92];
+    } else if (code === 49) delete next.backgroundColor;
+    else if (code === 38 || code === 48) {
+      // Extended colors: 38;5;n (256 colors) or 38;2;r;g;b (truecolor)
+      const key = code === 38 ? 'color' : 'backgroundColor';
+      let color: string | undefined;
+      if (params[i + 1] === 5) {
+        color = color256(params[i + 2]);
+        i += 2;
+      } else if (params[i + 1] === 2) {
+        const [r, g, b] = params.slice(i + 2, i + 5);
+        if ([r, g, b].every((v) => v >= 0 && v <= 255)) color = toHex(r, g, b);
+        i += 4;
+      }
+      if (color) next[key] = color;
+    }
+  }
+
+  return next;
+}
+
+// CSI sequences (ESC [ params final-byte) and OSC sequences (ESC ] ... BEL/ST)
+const ESCAPE_PATTERN =
+  // eslint-disable-next-line no-control-regex
+  /\x1b\[([0-9;?]*)([@-~])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+/**
+ * Split text into styled segments. Color and text attribute (SGR) sequences
+ * are applied; other escape sequences, such as cursor movement, are dropped.
+ */
+export function parseAnsi(text: string): AnsiSegment[] {
+  const segments: AnsiSegment[] = [];
+  let style: AnsiStyle = {};
+  let lastIndex = 0;
+
+  const push = (value: string) => {
+    if (!value) return;
+    const previous = segments[segments.length - 1];
+    if (previous && previous.style === style) {
+      previous.text += value;
+    } else {
+      segments.push({ text: value, style });
+    }
+  };
+
+  ESCAPE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ESCAPE_PATTERN.exec(text)) !== null) {
+    push(text.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    if (match[2] === 'm') {
+      const params = match[1]
+        ? match[1].split(';').map((p) => (p === '' ? 0 : Number(p)))
+        : [0];
+      style = applySgr(style, params);
+    }
+  }
+  push(text.slice(lastIndex));
+
+  return segments;
+}
+
+/**
+ * Remove all escape sequences, e.g. for copying output as plain text
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ESCAPE_PATTERN, '');
+}
@@ -0,0 +1,94 @@
+/**
+ * Tests for env.json and Markdown export of environment variables
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { parseEnvFile } from './envParser';
+import { envVariablesToJson, envVariablesToMarkdown } from './envExport';
+
+const dotenvExample = `PORT=3000
+
+# === Database ===
+
+# Connection string
+# https://www.postgresql.org/docs/
+# required
+DATABASE_URL=
+
+# Cache | sessions
+REDIS_URL=redis://localhost:6379`;
+
+const variables = parseEnvFile(dotenvExample, 'custom').variables;
+
+describe('envVariablesToJson', () => {
+  test('generates env.json from parsed variables', () => {
+    expect(JSON.parse(envVariablesToJson(variables))).toEqual({
+      variables: [
+        { name: 'PORT', required: false, default: '3000' },
+        {
+          name: 'DATABASE_URL',
+          description: 'Connection string',
+          required: true,
+          group: 'Database',
+          link: 'https://www.postgresql.org/docs/',
+        },
+        {
+          name: 'REDIS_URL',
+          description: 'Cache | sessions',
+          required: false,
+          default: 'redis://localhost:6379',
+          group: 'Database',
+        },
+      ],
+    });
+  });
+
+  test('round-trips through the env.json parser', () => {
+    const parsed = parseEnvFile(envVariablesToJson(variables), 'json');
+
+    expect(parsed.variables.map((v) => [v.name, v.required, v.group])).toEqual(
+      variables.map((v) => [v.name, v.required, v.group])
+    );
+  });
+
+  test('keeps examples that differ from the default', () => {
+    const json = envVariablesToJson([
+      { name: 'LOG_LEVEL', required: false, default: 'info', example: 'debug' },
+    ]);
+
+    expect(JSON.parse(json).variables[0]).toEqual({
+      name: 'LOG_LEVEL',
+      required: false,
+      default: 'info',
+      example: 'debug',
+    });
+  });
+});
+
+describe('envVariablesToMarkdown', () => {
+  test('renders one table per group with escaped cells', () => {
+    expect(envVariablesToMarkdown(variables)).toBe(
+      [
+        '## Environment Variables',
+        '',
+        '| Variable | Required | Default | Description |',
+        '| --- | --- | --- | --- |',
+        '| `PORT` | No | `3000` | - |',
+        '',
+        '### Database',
+        '',
+        '| Variable | Required | Default | Description |',
+        '| --- | --- | --- | --- |',
+        '| `DATABASE_URL` | Yes | - | Connection string [Docs](https://www.postgresql.org/docs/) |',
+        '| `REDIS_URL` | No | `redis://localhost:6379` | Cache \\| sessions |',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('notes when nothing is documented', () => {
+    expect(envVariablesToMarkdown([], 'Env')).toBe(
+      '## Env\n\nNo environment variables are documented.\n'
+    );
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Environment Variable Export
+ *
+ * Turns parsed environment variables (from any format envParser reads) into:
+ * - env.json (the structured format envParser reads back)
+ * - a Markdown table for READMEs
+ */
+
+import type { EnvVariable } from './envParser';
+
+/** Default file name for generated env.json */
+export const ENV_JSON_FILE = 'env.json';
+
+/** Default file name for the exported Markdown table */
+export const ENV_MARKDOWN_FILE = 'ENVIRONMENT.md';
+
+/**
+ * Group variables by their group, keeping the order in which groups first
+ * appear. Ungrouped variables come first.
+ */
+function groupVariables(
+  variables: EnvVariable[]
+): Array<{ group?: string; variables: EnvVariable[] }> {
+  const groups = new Map<string | undefined, EnvVariable[]>();
+  if (variables.some((v) => !v.group)) groups.set(undefined, []);
+
+  for (const variable of variables) {
+    const existing = groups.get(variable.group);
+    if (existing) {
+      existing.push(variable);
+    } else {
+      groups.set(variable.group, [variable]);
+    }
+  }
+
+  return [...groups.entries()].map(([group, grouped]) => ({
+    group,
+    variables: grouped,
+  }));
+}
+
+/**
+ * Description without the link text the dotenv parser leaves in it
+ */
+function cleanDescription(variable: EnvVariable): string | undefined {
+  if (!variable.description) return undefined;
+  const description = variable.link
+    ? variable.description.split(variable.link).join('').trim()
+    : variable.description;
+  return description.replace(/\s+/g, ' ') || undefined;
+}
+
+/**
+ * Generate env.json content. Variables are kept together by group; empty
+ * fields are omitted, as is an example that only repeats the default.
+ */
+export function envVariablesToJson(variables: EnvVariable[]): string {
+  const entries = groupVariables(variables).flatMap(({ variables: grouped }) =>
+    grouped.map((variable) => {
+      const description = cleanDescription(variable);
+      return {
+        name: variable.name,
+        ...(description && { description }),
+        required: variable.required,
+        ...(variable.default !== undefined && { default: variable.default }),
+        ...(variable.example !== undefined &&
+          variable.example !== variable.default && {
+            example: variable.example,
+          }),
+        ...(variable.group && { group: variable.group }),
+        ...(variable.link && { link: variable.link }),
+      };
+    })
+  );
+
+  return `${JSON.stringify({ variables: entries }, null, 2)}\n`;
+}
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Wrap a value in a code span, widening the fence if it contains backticks
+ */
+function codeSpan(value: string): string {
+  const fence = value.includes('`') ? '``' : '`';
+  const padding = value.startsWith('`') || value.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${value}${padding}${fence}`;
+}
+
+/**
+ * Generate a Markdown table of the variables, one table per group
+ */
+export function envVariablesToMarkdown(
+  variables: EnvVariable[],
+  title = 'Environment Variables'
+): string {
+  const lines: string[] = [`## ${title}`, ''];
+
+  if (variables.length === 0) {
+    lines.push('No environment variables are documented.', '');
+    return lines.join('\n');
+  }
+
+  for (const { group, variables: grouped } of groupVariables(variables)) {
+    if (group) lines.push(`### ${escapeCell(group)}`, '');
+
+    lines.push(
+      '| Variable | Required | Default | Description |',
+      '| --- | --- | --- | --- |'
+    );
+    for (const variable of grouped) {
+      const name = codeSpan(variable.name);
+      const description = [
+        cleanDescription(variable),
+        variable.link && `[Docs](${variable.link})`,
+      ]
+        .filter(Boolean)
+        .join(' ');
+      lines.push(
+        `| ${name} | ${variable.required ? 'Yes' : 'No'} | ${
+          variable.default !== undefined
+            ? escapeCell(codeSpan(variable.default))
+            : '-'
+        } | ${escapeCell(description) || '-'} |`
+      );
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
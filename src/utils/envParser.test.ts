@@ -0,0 +1,287 @@
+/**
+ * Tests for environment variable documentation parsing
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { parseEnvFile, type EnvVariable } from './envParser';
+
+const byName = (variables: EnvVariable[]) =>
+  Object.fromEntries(variables.map((v) => [v.name, v]));
+
+describe('parseEnvFile - dotenv', () => {
+  test('reads comments, required markers and groups', () => {
+    const result = parseEnvFile(
+      `# === Database ===
+
+# Connection string
+# https://www.postgresql.org/docs/
+# required
+DATABASE_URL=
+
+PORT=3000`,
+      'custom'
+    );
+
+    expect(result.format).toBe('dotenv');
+    expect(result.variables).toEqual([
+      {
+        name: 'DATABASE_URL',
+        description: 'Connection string https://www.postgresql.org/docs/',
+        required: true,
+        default: undefined,
+        example: undefined,
+        group: 'Database',
+        link: 'https://www.postgresql.org/docs/',
+      },
+      {
+        name: 'PORT',
+        description: undefined,
+        required: false,
+        default: '3000',
+        example: '3000',
+        group: 'Database',
+        link: undefined,
+      },
+    ]);
+  });
+});
+
+describe('parseEnvFile - zod', () => {
+  test('parses a t3-env createEnv schema', () => {
+    const result = parseEnvFile(
+      `import { createEnv } from '@t3-oss/env-nextjs';
+import { z } from 'zod';
+
+export const env = createEnv({
+  server: {
+    // Postgres connection string
+    // https://www.postgresql.org/docs/
+    DATABASE_URL: z.string().url(),
+    NODE_ENV: z
+      .enum(['development', 'test', 'production'])
+      .default('development'),
+    SENTRY_DSN: z.string().optional(),
+  },
+  client: {
+    NEXT_PUBLIC_API_URL: z.string().describe('Public API base URL'),
+  },
+  runtimeEnv: {
+    DATABASE_URL: process.env.DATABASE_URL,
+    NODE_ENV: process.env.NODE_ENV,
+    SENTRY_DSN: process.env.SENTRY_DSN,
+    NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL,
+  },
+});`,
+      'ts'
+    );
+
+    expect(result.format).toBe('zod');
+    expect(result.variables.map((v) => v.name)).toEqual([
+      'DATABASE_URL',
+      'NODE_ENV',
+      'SENTRY_DSN',
+      'NEXT_PUBLIC_API_URL',
+    ]);
+
+    const variables = byName(result.variables);
+    expect(variables.DATABASE_URL).toMatchObject({
+      required: true,
+      description:
+        'Postgres connection string https://www.postgresql.org/docs/',
+      link: 'https://www.postgresql.org/docs/',
+      group: 'Server',
+    });
+    expect(variables.NODE_ENV).toMatchObject({
+      required: false,
+      default: 'development',
+      example: 'development | test | production',
+    });
+    expect(variables.SENTRY_DSN.required).toBe(false);
+    expect(variables.NEXT_PUBLIC_API_URL).toMatchObject({
+      required: true,
+      description: 'Public API base URL',
+      group: 'Client',
+    });
+  });
+
+  test('parses a plain z.object schema', () => {
+    const result = parseEnvFile(
+      `const envSchema = z.object({
+  /** Port for the HTTP server */
+  PORT: z.coerce.number().default(3000),
+  API_KEY: z.string().min(1),
+});
+
+export const env = envSchema.parse(process.env);`,
+      'ts'
+    );
+
+    expect(result.format).toBe('zod');
+    expect(byName(result.variables)).toEqual({
+      PORT: {
+        name: 'PORT',
+        description: 'Port for the HTTP server',
+        required: false,
+        default: '3000',
+        example: '3000',
+        group: undefined,
+        link: undefined,
+      },
+      API_KEY: {
+        name: 'API_KEY',
+        description: undefined,
+        required: true,
+        default: undefined,
+        example: undefined,
+        group: undefined,
+        link: undefined,
+      },
+    });
+  });
+});
+
+describe('parseEnvFile - docker-compose', () => {
+  const compose = `version: '3.8'
+services:
+  api:
+    image: node:20
+    environment:
+      # Postgres connection string
+      - DATABASE_URL=postgres://app@db:5432/app
+      - API_KEY
+      - "LOG_LEVEL=info"
+    ports:
+      - "3000:3000"
+  worker:
+    environment:
+      DATABASE_URL: postgres://app@db:5432/app
+      REDIS_URL: \${REDIS_URL:-redis://redis:6379}
+      STRIPE_KEY: \${STRIPE_KEY:?Stripe secret key is required}
+      QUEUE_NAME: jobs # default queue
+      SENTRY_DSN:
+volumes:
+  data:
+    environment:
+      - NOT_A_SERVICE=1`;
+
+  test('reads list and map entries grouped by service', () => {
+    const result = parseEnvFile(compose, 'yaml');
+
+    expect(result.format).toBe('docker-compose');
+    expect(result.variables.map((v) => [v.name, v.group])).toEqual([
+      ['DATABASE_URL', 'api'],
+      ['API_KEY', 'api'],
+      ['LOG_LEVEL', 'api'],
+      ['REDIS_URL', 'worker'],
+      ['STRIPE_KEY', 'worker'],
+      ['QUEUE_NAME', 'worker'],
+      ['SENTRY_DSN', 'worker'],
+      ['NOT_A_SERVICE', undefined],
+    ]);
+  });
+
+  test('derives defaults and required flags from values', () => {
+    const variables = byName(parseEnvFile(compose, 'yaml').variables);
+
+    expect(variables.DATABASE_URL).toMatchObject({
+      description: 'Postgres connection string',
+      required: false,
+      default: 'postgres://app@db:5432/app',
+    });
+    expect(variables.API_KEY.required).toBe(true);
+    expect(variables.LOG_LEVEL.default).toBe('info');
+    expect(variables.REDIS_URL).toMatchObject({
+      required: false,
+      default: 'redis://redis:6379',
+    });
+    expect(variables.STRIPE_KEY).toMatchObject({
+      required: true,
+      description: 'Stripe secret key is required',
+    });
+    expect(variables.QUEUE_NAME.default).toBe('jobs');
+    expect(variables.SENTRY_DSN.required).toBe(true);
+  });
+});
+
+describe('parseEnvFile - vite', () => {
+  test('reads ImportMetaEnv declarations', () => {
+    const result = parseEnvFile(
+      `/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Backend base URL */
+  readonly VITE_API_URL: string;
+  readonly VITE_SENTRY_DSN?: string;
+  readonly MODE: string;
+}`,
+      'ts'
+    );
+
+    expect(result.format).toBe('vite');
+    expect(result.variables).toEqual([
+      {
+        name: 'VITE_API_URL',
+        description: 'Backend base URL',
+        required: true,
+        link: undefined,
+      },
+      {
+        name: 'VITE_SENTRY_DSN',
+        description: undefined,
+        required: false,
+        link: undefined,
+      },
+    ]);
+  });
+
+  test('reads import.meta.env usage with fallbacks', () => {
+    const result = parseEnvFile(
+      `export const config = {
+  apiUrl: import.meta.env.VITE_API_URL,
+  title: import.meta.env['VITE_APP_TITLE'] ?? 'My App',
+  debug: import.meta.env.DEV,
+  region: import.meta.env.VITE_REGION || "eu-west-1",
+  again: import.meta.env.VITE_API_URL,
+};`,
+      'js'
+    );
+
+    expect(result.format).toBe('vite');
+    expect(byName(result.variables)).toEqual({
+      VITE_API_URL: {
+        name: 'VITE_API_URL',
+        required: true,
+        default: undefined,
+        example: undefined,
+      },
+      VITE_APP_TITLE: {
+        name: 'VITE_APP_TITLE',
+        required: false,
+        default: 'My App',
+        example: 'My App',
+      },
+      VITE_REGION: {
+        name: 'VITE_REGION',
+        required: false,
+        default: 'eu-west-1',
+        example: 'eu-west-1',
+      },
+    });
+  });
+
+  test('treats a createEnv schema over import.meta.env as zod', () => {
+    const result = parseEnvFile(
+      `export const env = createEnv({
+  clientPrefix: 'VITE_',
+  client: {
+    VITE_API_URL: z.string().url(),
+  },
+  runtimeEnv: import.meta.env,
+});`,
+      'ts'
+    );
+
+    expect(result.format).toBe('zod');
+    expect(result.variables.map((v) => v.name)).toEqual(['VITE_API_URL']);
+  });
+});
@@ -1,9 +1,18 @@
 /**
  * Environment Variable Parser
  *
- * Parses environment variable documentation from both:
+ * Parses environment variable documentation from:
  * - env.json (structured JSON format)
  * - .env.example / .env.sample (dotenv format with comments)
+ * - env.ts (Zod / t3-env schemas)
+ * - docker-compose.yml (`environment:` blocks)
+ * - Vite sources (`import.meta.env` usage and `ImportMetaEnv` declarations)
+ *
+ * The host only detects env.json, .env.example, .env.sample, .env.schema.json
+ * and Expo configs, so the Env tab never passes env.ts, Vite sources or
+ * docker-compose.yml here; those parsers are for callers that locate the
+ * files themselves. dotenv-vault is not supported: .env.vault holds only
+ * encrypted payloads, with no variable names to document.
  */
 
 export interface EnvVariable {
@@ -18,9 +27,15 @@ export interface EnvVariable {
 
 export interface EnvParseResult {
   variables: EnvVariable[];
-  format: 'json' | 'dotenv';
+  format: EnvFileFormat;
 }
 
+/**
+ * Source format the variables were parsed from
+ */
+export type EnvFileFormat =
+  'json' | 'dotenv' | 'zod' | 'docker-compose' | 'vite';
+
 /**
  * Schema for env.json files
  */
@@ -60,6 +75,69 @@ function parseEnvJson(content: string): EnvVariable[] {
 // URL pattern to auto-detect links in comments
 const urlPattern = /https?:\/\/[^\s)>\]]+/gi;
 
+/**
+ * Turn the comment lines above a variable into its description, required
+ * flag and link. A comment mentioning "required" marks the variable required.
+ */
+function parseComments(comments: string[]): {
+  description?: string;
+  required: boolean;
+  link?: string;
+} {
+  let required = false;
+  let link: string | undefined = undefined;
+  const descriptionParts: string[] = [];
+
+  for (const comment of comments) {
+    const lowerComment = comment.toLowerCase();
+
+    // Extract URL if not already found
+    if (!link) {
+      const urlMatch = comment.match(urlPattern);
+      if (urlMatch) {
+        link = urlMatch[0];
+      }
+    }
+
+    if (lowerComment === 'required' || lowerComment === '(required)') {
+      required = true;
+    } else if (lowerComment.includes('required')) {
+      required = true;
+      // Include the comment but note it mentioned required
+      descriptionParts.push(
+        comment.replace(/\s*\(?\s*required\s*\)?\s*/gi, '').trim()
+      );
+    } else {
+      descriptionParts.push(comment);
+    }
+  }
+
+  return {
+    description: descriptionParts.filter(Boolean).join(' ') || undefined,
+    required,
+    link,
+  };
+}
+
+/**
+ * Strip one level of matching quotes from a literal
+ */
+function unquote(value: string): string {
+  const match = value.trim().match(/^(['"`])([\s\S]*)\1$/);
+  return match ? match[2] : value.trim();
+}
+
+/**
+ * Collect a line or block comment line into the buffer. Returns false when
+ * the line is not a comment.
+ */
+function collectCodeComment(trimmed: string, commentBuffer: string[]): boolean {
+  const match = trimmed.match(/^(?:\/\/+|\/\*+|\*+\/?)\s*(.*?)\s*(?:\*+\/)?$/);
+  if (!match) return false;
+  if (match[1]) commentBuffer.push(match[1]);
+  return true;
+}
+
 /**
  * Parse .env.example / .env.sample content (dotenv format)
  *
@@ -116,38 +194,7 @@ function parseDotEnv(content: string): EnvVariable[] {
     const match = trimmed.match(/^([A-Z_][A-Z0-9_]*)=(.*)$/i);
     if (match) {
       const [, name, value] = match;
-
-      // Process comments to extract description, required flag, and links
-      let required = false;
-      let link: string | undefined = undefined;
-      const descriptionParts: string[] = [];
-
-      for (const comment of commentBuffer) {
-        const lowerComment = comment.toLowerCase();
-
-        // Extract URL if not already found
-        if (!link) {
-          const urlMatch = comment.match(urlPattern);
-          if (urlMatch) {
-            link = urlMatch[0];
-          }
-        }
-
-        if (lowerComment === 'required' || lowerComment === '(required)') {
-          required = true;
-        } else if (lowerComment.includes('required')) {
-          required = true;
-          // Include the comment but note it mentioned required
-          descriptionParts.push(
-            comment.replace(/\s*\(?\s*required\s*\)?\s*/gi, '').trim()
-          );
-        } else {
-          descriptionParts.push(comment);
-        }
-      }
-
-      const description =
-        descriptionParts.filter(Boolean).join(' ') || undefined;
+      const { description, required, link } = parseComments(commentBuffer);
       const defaultValue = value.trim() || undefined;
 
       variables.push({
@@ -168,6 +215,365 @@ function parseDotEnv(content: string): EnvVariable[] {
   return variables;
 }
 
+/**
+ * Return the text inside the parentheses that open at `openIndex`, or
+ * undefined when they are not balanced
+ */
+function readParenthesized(
+  text: string,
+  openIndex: number
+): string | undefined {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = openIndex; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') quote = char;
+    else if (char === '(' || char === '[' || char === '{') depth++;
+    else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) return text.slice(openIndex + 1, i);
+    }
+  }
+  return undefined;
+}
+
+// Blocks of a t3-env createEnv() call, used as groups
+const t3EnvGroups: Record<string, string> = {
+  server: 'Server',
+  client: 'Client',
+  shared: 'Shared',
+};
+
+/**
+ * Parse a Zod / t3-env schema (env.ts)
+ *
+ * Supports:
+ * - `KEY: z.string()...` entries in z.object({...}) or createEnv({ server, client, shared })
+ * - `.optional()`, `.nullish()` and `.default(...)` mark the variable optional
+ * - `.default(value)` becomes the default, `.describe("...")` the description
+ * - `z.enum([...])` values become the example
+ * - Comments above an entry become its description, as in dotenv files
+ * - createEnv blocks (server, client, shared) become groups
+ */
+function parseZodSchema(content: string): EnvVariable[] {
+  const lines = content.split('\n');
+  const variables: EnvVariable[] = [];
+  const commentBuffer: string[] = [];
+  let currentGroup: string | undefined = undefined;
+  let current: { name: string; expression: string; comments: string[] } | null =
+    null;
+  let currentEntryGroup: string | undefined = undefined;
+
+  const flush = () => {
+    if (!current) return;
+    variables.push(
+      zodEntryToVariable(
+        current.name,
+        current.expression,
+        current.comments,
+        currentEntryGroup
+      )
+    );
+    current = null;
+  };
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    const entryMatch = trimmed.match(
+      /^['"]?([A-Z_][A-Z0-9_]*)['"]?\s*:\s*(z(?:\s*\..*)?)$/
+    );
+    if (entryMatch) {
+      flush();
+      current = {
+        name: entryMatch[1],
+        expression: entryMatch[2],
+        comments: [...commentBuffer],
+      };
+      currentEntryGroup = currentGroup;
+      commentBuffer.length = 0;
+      continue;
+    }
+
+    // Chained calls continue the current entry on the next lines
+    if (current && trimmed.startsWith('.')) {
+      current.expression += trimmed;
+      continue;
+    }
+
+    flush();
+
+    if (!trimmed) {
+      commentBuffer.length = 0;
+      continue;
+    }
+
+    if (collectCodeComment(trimmed, commentBuffer)) continue;
+
+    const blockMatch = trimmed.match(/^(\w+)\s*:\s*\{/);
+    if (blockMatch) {
+      currentGroup = t3EnvGroups[blockMatch[1]];
+    }
+    commentBuffer.length = 0;
+  }
+  flush();
+
+  return variables;
+}
+
+/**
+ * Build a variable from a Zod expression such as
+ * `z.string().url().default("http://localhost")`
+ */
+function zodEntryToVariable(
+  name: string,
+  expression: string,
+  comments: string[],
+  group: string | undefined
+): EnvVariable {
+  const commentInfo = parseComments(comments);
+
+  const readCall = (method: string): string | undefined => {
+    const match = new RegExp(`\\.\\s*${method}\\s*\\(`).exec(expression);
+    if (!match) return undefined;
+    return readParenthesized(expression, match.index + match[0].length - 1);
+  };
+
+  const defaultArg = readCall('default');
+  const describeArg = readCall('describe');
+  const enumArg = readCall('enum');
+
+  const isOptional =
+    defaultArg !== undefined || /\.\s*(optional|nullish)\s*\(/.test(expression);
+  const defaultValue =
+    defaultArg !== undefined ? unquote(defaultArg) || undefined : undefined;
+  const enumValues = enumArg
+    ?.replace(/^\s*\[|\]\s*$/g, '')
+    .split(',')
+    .map((value) => unquote(value))
+    .filter(Boolean);
+
+  return {
+    name,
+    description:
+      (describeArg !== undefined ? unquote(describeArg) : undefined) ??
+      commentInfo.description,
+    required: !isOptional,
+    default: defaultValue,
+    example: enumValues?.length ? enumValues.join(' | ') : defaultValue,
+    group,
+    link: commentInfo.link,
+  };
+}
+
+/**
+ * Parse docker-compose `environment:` blocks
+ *
+ * Supports both the list (`- KEY=value`) and map (`KEY: value`) forms:
+ * - Literal values become the default
+ * - `${VAR:-default}` / `${VAR-default}` become the default
+ * - `${VAR:?message}`, `${VAR}` and bare `- KEY` (passed through from the
+ *   host) mark the variable required
+ * - Comments above an entry become its description
+ * - The service name becomes the group; a variable used by several services
+ *   is listed once, under the first one
+ */
+function parseDockerCompose(content: string): EnvVariable[] {
+  const lines = content.split('\n');
+  const variables = new Map<string, EnvVariable>();
+  const commentBuffer: string[] = [];
+  let servicesIndent: number | null = null;
+  let serviceIndent: number | null = null;
+  let currentService: string | undefined = undefined;
+  let environmentIndent: number | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const indent = line.length - line.trimStart().length;
+
+    if (!trimmed) {
+      commentBuffer.length = 0;
+      continue;
+    }
+    if (trimmed.startsWith('#')) {
+      if (environmentIndent !== null) {
+        commentBuffer.push(trimmed.slice(1).trim());
+      }
+      continue;
+    }
+
+    if (environmentIndent !== null && indent > environmentIndent) {
+      const entry = parseComposeEntry(trimmed);
+      if (entry && !variables.has(entry.name)) {
+        const commentInfo = parseComments(commentBuffer);
+        variables.set(entry.name, {
+          name: entry.name,
+          description: entry.message ?? commentInfo.description,
+          required: entry.required || commentInfo.required,
+          default: entry.value,
+          example: entry.value,
+          group: currentService,
+          link: commentInfo.link,
+        });
+      }
+      commentBuffer.length = 0;
+      continue;
+    }
+    environmentIndent = null;
+    commentBuffer.length = 0;
+
+    const keyMatch = trimmed.match(/^([\w.-]+)\s*:/);
+    if (!keyMatch) continue;
+
+    if (indent === 0) {
+      servicesIndent = keyMatch[1] === 'services' ? 0 : null;
+      serviceIndent = null;
+      currentService = undefined;
+      continue;
+    }
+
+    if (
+      servicesIndent !== null &&
+      (serviceIndent === null || indent <= serviceIndent)
+    ) {
+      serviceIndent = indent;
+      currentService = keyMatch[1];
+      continue;
+    }
+
+    if (keyMatch[1] === 'environment') {
+      environmentIndent = indent;
+    }
+  }
+
+  return [...variables.values()];
+}
+
+/**
+ * Parse one line of an `environment:` block
+ */
+function parseComposeEntry(trimmed: string): {
+  name: string;
+  value?: string;
+  required: boolean;
+  message?: string;
+} | null {
+  const match = trimmed.startsWith('-')
+    ? unquote(trimmed.slice(1)).match(/^([A-Z_][A-Z0-9_]*)(?:=(.*))?$/i)
+    : trimmed.match(/^['"]?([A-Z_][A-Z0-9_]*)['"]?\s*:\s*(.*)$/i);
+  if (!match) return null;
+
+  const [, name, rawValue] = match;
+  // Drop trailing comments from unquoted values
+  const value =
+    rawValue === undefined
+      ? undefined
+      : unquote(
+          /^['"]/.test(rawValue) ? rawValue : rawValue.replace(/\s+#.*$/, '')
+        );
+
+  // No value: passed through from the host environment
+  if (!value) return { name, required: true };
+
+  const interpolation = value.match(/^\$\{(\w+)(?:(:?[-?])(.*))?\}$/);
+  if (interpolation) {
+    const [, , operator, argument] = interpolation;
+    if (operator?.endsWith('-')) {
+      return { name, value: argument || undefined, required: false };
+    }
+    return {
+      name,
+      required: true,
+      message: operator?.endsWith('?') && argument ? argument : undefined,
+    };
+  }
+
+  return { name, value, required: false };
+}
+
+// Variables Vite always provides
+const viteBuiltInEnv = new Set(['MODE', 'BASE_URL', 'PROD', 'DEV', 'SSR']);
+
+/**
+ * Parse Vite environment usage
+ *
+ * Supports:
+ * - `interface ImportMetaEnv { readonly VITE_KEY: string }` declarations
+ *   (vite-env.d.ts); `KEY?:` marks the variable optional
+ * - `import.meta.env.VITE_KEY` / `import.meta.env['VITE_KEY']` usage;
+ *   a `?? 'value'` or `|| 'value'` fallback becomes the default
+ * - Comments above a declaration become its description
+ * - Vite's built-in variables (MODE, DEV, ...) are skipped
+ */
+function parseViteEnv(content: string): EnvVariable[] {
+  const variables = new Map<string, EnvVariable>();
+  const commentBuffer: string[] = [];
+  let inImportMetaEnv = false;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+
+    if (/interface\s+ImportMetaEnv\b/.test(trimmed)) {
+      inImportMetaEnv = true;
+      commentBuffer.length = 0;
+      continue;
+    }
+    if (!inImportMetaEnv) continue;
+
+    if (trimmed.startsWith('}')) {
+      inImportMetaEnv = false;
+      continue;
+    }
+    if (collectCodeComment(trimmed, commentBuffer)) continue;
+
+    const match = trimmed.match(/^(?:readonly\s+)?([A-Z_][A-Z0-9_]*)(\?)?\s*:/);
+    if (match && !viteBuiltInEnv.has(match[1])) {
+      const commentInfo = parseComments(commentBuffer);
+      variables.set(match[1], {
+        name: match[1],
+        description: commentInfo.description,
+        required: !match[2],
+        link: commentInfo.link,
+      });
+    }
+    commentBuffer.length = 0;
+  }
+
+  const usagePattern =
+    /import\.meta\.env(?:\.([A-Z_][A-Z0-9_]*)|\[\s*['"]([A-Z_][A-Z0-9_]*)['"]\s*\])(?:\s*(?:\?\?|\|\|)\s*(['"`])(.*?)\3)?/g;
+  for (const match of content.matchAll(usagePattern)) {
+    const name = match[1] ?? match[2];
+    if (viteBuiltInEnv.has(name)) continue;
+
+    const fallback = match[3] !== undefined ? match[4] : undefined;
+    const existing = variables.get(name);
+    if (existing) {
+      if (fallback !== undefined && existing.default === undefined) {
+        existing.default = fallback || undefined;
+        existing.example = existing.default;
+        existing.required = false;
+      }
+      continue;
+    }
+    variables.set(name, {
+      name,
+      required: fallback === undefined,
+      default: fallback || undefined,
+      example: fallback || undefined,
+    });
+  }
+
+  return [...variables.values()];
+}
+
+// Zod schemas and t3-env createEnv() calls, as opposed to plain Vite sources
+const zodSchemaPattern = /\bcreateEnv\s*\(|\bz\s*\.\s*object\s*\(/;
+
 /**
  * Parse inline JSON field (e.g., expo.extra from app.json)
  * Converts a simple key-value object to EnvVariable array
@@ -207,7 +613,8 @@ function parseInlineJson(content: string, inlineField: string): EnvVariable[] {
  * Parse environment variable documentation file
  *
  * @param content - File content
- * @param fileType - File type ('json' for env.json, 'custom' for .env.example)
+ * @param fileType - File type ('json' for env.json, 'yaml' for docker-compose.yml,
+ *   'ts'/'js' for Zod schemas or Vite sources, 'custom' for .env.example)
  * @param inlineField - Optional field path for inline configs (e.g., 'expo.extra')
  * @returns Parsed environment variables
  */
@@ -230,6 +637,27 @@ export function parseEnvFile(
     };
   }
 
+  if (fileType === 'yaml') {
+    return {
+      variables: parseDockerCompose(content),
+      format: 'docker-compose',
+    };
+  }
+
+  if (fileType === 'ts' || fileType === 'js') {
+    // env.ts validating import.meta.env is still a schema
+    if (zodSchemaPattern.test(content)) {
+      return {
+        variables: parseZodSchema(content),
+        format: 'zod',
+      };
+    }
+    return {
+      variables: parseViteEnv(content),
+      format: 'vite',
+    };
+  }
+
   // Default to dotenv parsing for .env.example, .env.sample, etc.
   return {
     variables: parseDotEnv(content),
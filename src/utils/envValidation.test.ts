@@ -0,0 +1,117 @@
+/**
+ * Tests for environment variable validation
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { EnvVariable } from './envParser';
+import {
+  maskEnvValue,
+  parseEnvValues,
+  validateEnvVariables,
+} from './envValidation';
+
+describe('parseEnvValues', () => {
+  test('parses plain, quoted and exported values', () => {
+    expect(
+      parseEnvValues(
+        [
+          '# Database',
+          'DATABASE_URL=postgres://localhost/app',
+          'export API_KEY="sk_test_123"',
+          "GREETING='hello # not a comment'",
+          'PORT=3000 # dev server',
+          'MULTILINE="a\\nb"',
+          'EMPTY=',
+          'not a variable',
+        ].join('\n')
+      )
+    ).toEqual({
+      DATABASE_URL: 'postgres://localhost/app',
+      API_KEY: 'sk_test_123',
+      GREETING: 'hello # not a comment',
+      PORT: '3000',
+      MULTILINE: 'a\nb',
+      EMPTY: '',
+    });
+  });
+
+  test('handles Windows line endings', () => {
+    expect(parseEnvValues('A=1\r\nB=2\r\n')).toEqual({ A: '1', B: '2' });
+  });
+});
+
+describe('validateEnvVariables', () => {
+  const variables: EnvVariable[] = [
+    { name: 'DATABASE_URL', required: true },
+    { name: 'API_KEY', required: true },
+    { name: 'PORT', required: false, default: '3000' },
+    { name: 'LOG_LEVEL', required: false },
+    { name: 'SENTRY_DSN', required: false },
+  ];
+
+  test('assigns a status to every documented variable', () => {
+    const result = validateEnvVariables(variables, [
+      {
+        path: '.env',
+        values: { DATABASE_URL: 'postgres://localhost/app', API_KEY: '' },
+      },
+      { path: '.env.local', values: { SENTRY_DSN: 'https://sentry' } },
+    ]);
+
+    expect(
+      Object.fromEntries(
+        [...result.checks].map(([name, check]) => [name, check.status])
+      )
+    ).toEqual({
+      DATABASE_URL: 'set',
+      API_KEY: 'missing',
+      PORT: 'default',
+      LOG_LEVEL: 'unset',
+      SENTRY_DSN: 'set',
+    });
+    expect(result.checks.get('SENTRY_DSN')?.source).toBe('.env.local');
+    expect(result.checks.get('PORT')?.value).toBe('3000');
+  });
+
+  test('lets later files override earlier ones', () => {
+    const result = validateEnvVariables(variables, [
+      { path: '.env', values: { DATABASE_URL: 'from-env' } },
+      { path: '.env.local', values: { DATABASE_URL: 'from-local' } },
+    ]);
+
+    expect(result.checks.get('DATABASE_URL')).toEqual({
+      name: 'DATABASE_URL',
+      status: 'set',
+      value: 'from-local',
+      source: '.env.local',
+    });
+  });
+
+  test('reports undocumented variables as extras', () => {
+    const result = validateEnvVariables(variables, [
+      { path: '.env', values: { ZETA: '1', DEBUG: 'true', PORT: '8080' } },
+    ]);
+
+    expect(result.extras.map((check) => check.name)).toEqual(['DEBUG', 'ZETA']);
+    expect(result.counts).toEqual({
+      set: 1,
+      missing: 2,
+      default: 0,
+      unset: 2,
+      extra: 2,
+    });
+  });
+});
+
+describe('maskEnvValue', () => {
+  test('fully masks values with a fixed length', () => {
+    expect(maskEnvValue('abc')).toBe('••••••••');
+    expect(maskEnvValue('')).toBe('••••••••');
+    expect(maskEnvValue('sk_test_1234567')).toBe('••••••••');
+  });
+
+  test('keeps only the last two characters of long values', () => {
+    expect(maskEnvValue('sk_test_12345678')).toBe('••••••••78');
+    expect(maskEnvValue('x'.repeat(40))).toBe('••••••••xx');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Environment Variable Validation
+ *
+ * Checks documented variables (from env.json / .env.example) against the
+ * values actually set in a package's .env files.
+ */
+
+import type { EnvVariable } from './envParser';
+
+/**
+ * Status of a variable after comparing documentation and .env files:
+ * - set: has a value in a .env file
+ * - missing: required but not set
+ * - default: not set, the documented default applies
+ * - unset: optional, not set and without a default
+ * - extra: set in a .env file but not documented
+ */
+export type EnvVariableStatus =
+  'set' | 'missing' | 'default' | 'unset' | 'extra';
+
+export interface EnvVariableCheck {
+  name: string;
+  status: EnvVariableStatus;
+  /** Raw value - mask it with maskEnvValue before display */
+  value?: string;
+  /** .env file the value came from */
+  source?: string;
+}
+
+/**
+ * A .env file that was found, with its parsed values
+ */
+export interface EnvValuesFile {
+  path: string;
+  values: Record<string, string>;
+}
+
+export interface EnvValidationResult {
+  /** Checks for documented variables, by name */
+  checks: Map<string, EnvVariableCheck>;
+  /** Variables set in .env files but not documented, sorted by name */
+  extras: EnvVariableCheck[];
+  counts: Record<EnvVariableStatus, number>;
+}
+
+/**
+ * .env files read for validation, in load order - later files override
+ * earlier ones, as with dotenv-flow and Vite
+ */
+export const ENV_VALUE_FILES = ['.env', '.env.local'];
+
+/**
+ * Parse the values of a .env file. Supports `export` prefixes, single and
+ * double quoted values (with `\n` escapes in double quotes) and trailing
+ * `# comments` on unquoted values.
+ */
+export function parseEnvValues(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(
+      /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/
+    );
+    if (!match) continue;
+
+    const [, name, rawValue] = match;
+    let value = rawValue.trim();
+    const quote = value[0];
+
+    if ((quote === '"' || quote === "'") && value.indexOf(quote, 1) > 0) {
+      value = value.slice(1, value.indexOf(quote, 1));
+      if (quote === '"') value = value.replace(/\\n/g, '\n');
+    } else {
+      value = value.replace(/\s+#.*$/, '');
+    }
+
+    values[name] = value;
+  }
+
+  return values;
+}
+
+/**
+ * Compare documented variables with the values in .env files (in load order)
+ */
+export function validateEnvVariables(
+  variables: EnvVariable[],
+  files: EnvValuesFile[]
+): EnvValidationResult {
+  // Last file wins
+  const resolved = new Map<string, { value: string; source: string }>();
+  for (const file of files) {
+    for (const [name, value] of Object.entries(file.values)) {
+      resolved.set(name, { value, source: file.path });
+    }
+  }
+
+  const counts: Record<EnvVariableStatus, number> = {
+    set: 0,
+    missing: 0,
+    default: 0,
+    unset: 0,
+    extra: 0,
+  };
+  const checks = new Map<string, EnvVariableCheck>();
+
+  for (const variable of variables) {
+    const entry = resolved.get(variable.name);
+    let check: EnvVariableCheck;
+    if (entry && entry.value !== '') {
+      check = { name: variable.name, status: 'set', ...entry };
+    } else if (variable.required) {
+      check = { name: variable.name, status: 'missing', source: entry?.source };
+    } else if (variable.default !== undefined) {
+      check = {
+        name: variable.name,
+        status: 'default',
+        value: variable.default,
+      };
+    } else {
+      check = { name: variable.name, status: 'unset', source: entry?.source };
+    }
+    checks.set(variable.name, check);
+    counts[check.status]++;
+  }
+
+  const extras = [...resolved]
+    .filter(([name]) => !checks.has(name))
+    .map(([name, entry]) => ({ name, status: 'extra' as const, ...entry }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  counts.extra = extras.length;
+
+  return { checks, extras, counts };
+}
+
+/** Fixed-length mask so the value's length is not revealed either */
+const MASKED_VALUE = '•'.repeat(8);
+/** Values shorter than this are masked entirely */
+const MIN_HINT_LENGTH = 16;
+
+/**
+ * Hide a value for display. Long values (keys, tokens) keep their last two
+ * characters so they can be told apart; anything shorter is fully masked.
+ */
+export function maskEnvValue(value: string): string {
+  if (value.length < MIN_HINT_LENGTH) return MASKED_VALUE;
+  return `${MASKED_VALUE}${value.slice(-2)}`;
+}
@@ -0,0 +1,127 @@
+/**
+ * Tests for lens requirement fixes
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { LensRequirement } from '../types/composition';
+import { LENS_CONFIG_TEMPLATES, applyLensFix, planLensFix } from './lensFixes';
+
+const pkg = { path: 'packages/ui', manifestPath: 'packages/ui/package.json' };
+
+const manifest = `{
+    "name": "@app/ui",
+    "scripts": {
+        "build": "tsc"
+    },
+    "devDependencies": {
+        "eslint": "^9.0.0",
+        "vitest": "^2.0.0"
+    }
+}
+`;
+
+const typescript: LensRequirement = {
+  type: 'devDependency',
+  name: 'typescript',
+  suggestedFix: '^5.0.0',
+};
+
+const typecheck: LensRequirement = {
+  type: 'script',
+  name: 'typecheck',
+  suggestedFix: 'tsc --noEmit',
+};
+
+describe('planLensFix', () => {
+  test('edits package.json for dependencies and scripts', () => {
+    expect(planLensFix(typescript, pkg)).toEqual({
+      requirement: typescript,
+      summary: 'Add typescript@^5.0.0 to devDependencies',
+      filePath: 'packages/ui/package.json',
+    });
+    expect(planLensFix(typecheck, pkg)?.summary).toBe(
+      'Add script "typecheck": "tsc --noEmit"'
+    );
+  });
+
+  test('creates config files next to the manifest', () => {
+    const plan = planLensFix({ type: 'config', name: 'knip.json' }, pkg);
+
+    const root = { path: '', manifestPath: 'package.json' };
+
+    expect(plan?.filePath).toBe('packages/ui/knip.json');
+    expect(
+      planLensFix({ type: 'config', name: '.prettierrc' }, root)?.filePath
+    ).toBe('.prettierrc');
+  });
+
+  test('returns null when there is nothing to apply', () => {
+    const pyproject = { path: '', manifestPath: 'pyproject.toml' };
+
+    expect(planLensFix(typescript, pyproject)).toBeNull();
+    expect(planLensFix({ type: 'script', name: 'lint' }, pkg)).toBeNull();
+    expect(planLensFix({ type: 'config', name: 'Cargo.toml' }, pkg)).toBeNull();
+  });
+
+  test('skips requirements the lens marks as not auto-fixable', () => {
+    expect(planLensFix({ ...typescript, autoFixable: false }, pkg)).toBeNull();
+    expect(
+      planLensFix(
+        { type: 'config', name: 'tsconfig.json', autoFixable: false },
+        pkg
+      )
+    ).toBeNull();
+  });
+});
+
+describe('applyLensFix', () => {
+  test('adds a devDependency in sorted order, keeping indentation', () => {
+    const plan = planLensFix(typescript, pkg)!;
+
+    expect(applyLensFix(plan, manifest)).toBe(`{
+    "name": "@app/ui",
+    "scripts": {
+        "build": "tsc"
+    },
+    "devDependencies": {
+        "eslint": "^9.0.0",
+        "typescript": "^5.0.0",
+        "vitest": "^2.0.0"
+    }
+}
+`);
+  });
+
+  test('adds scripts and creates missing sections', () => {
+    const plan = planLensFix(typecheck, pkg)!;
+    const result = JSON.parse(applyLensFix(plan, '{"name":"@app/ui"}'));
+
+    expect(result).toEqual({
+      name: '@app/ui',
+      scripts: { typecheck: 'tsc --noEmit' },
+    });
+  });
+
+  test('overwrites a script whose command does not match', () => {
+    const plan = planLensFix(
+      { type: 'script', name: 'build', suggestedFix: 'tsc -b' },
+      pkg
+    )!;
+
+    expect(JSON.parse(applyLensFix(plan, manifest)).scripts).toEqual({
+      build: 'tsc -b',
+    });
+  });
+
+  test('uses the template for config files', () => {
+    const plan = planLensFix({ type: 'config', name: '.prettierrc' }, pkg)!;
+
+    expect(applyLensFix(plan, null)).toBe(LENS_CONFIG_TEMPLATES['.prettierrc']);
+  });
+
+  test('throws when package.json is missing', () => {
+    expect(() => applyLensFix(planLensFix(typescript, pkg)!, null)).toThrow(
+      'packages/ui/package.json not found'
+    );
+  });
+});
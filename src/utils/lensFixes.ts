@@ -0,0 +1,169 @@
+/**
+ * Lens Requirement Fixes
+ *
+ * Plans the file change that satisfies an unmet lens requirement:
+ * - devDependency: add the package to package.json devDependencies
+ * - script: add the script to package.json scripts
+ * - config: create the config file from a starter template
+ *
+ * Planning only decides which file to touch; the new content is computed
+ * from the file as it is when the fix is previewed.
+ */
+
+import type { LensRequirement } from '../types/composition';
+
+export interface LensFixPlan {
+  requirement: LensRequirement;
+  /** What the fix does, e.g. "Add typescript@^5.0.0 to devDependencies" */
+  summary: string;
+  /** Repository-relative path of the file to write */
+  filePath: string;
+}
+
+/**
+ * Starter configs for the config files lenses look for. Configs the lens
+ * marks as not auto-fixable (tsconfig.json, Cargo.toml, ...) are
+ * project-specific and have no template.
+ */
+export const LENS_CONFIG_TEMPLATES: Record<string, string> = {
+  'eslint.config.js': `import js from '@eslint/js';
+
+export default [js.configs.recommended];
+`,
+  '.prettierrc': `{
+  "singleQuote": true
+}
+`,
+  'vitest.config.ts': `import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    coverage: {
+      provider: 'v8',
+    },
+  },
+});
+`,
+  'knip.json': `{
+  "$schema": "https://unpkg.com/knip@5/schema.json"
+}
+`,
+};
+
+const joinPath = (dir: string, file: string) => (dir ? `${dir}/${file}` : file);
+
+const isPackageJson = (manifestPath: string) =>
+  manifestPath === 'package.json' || manifestPath.endsWith('/package.json');
+
+/**
+ * Plan the fix for a requirement, or null when it cannot be fixed
+ * automatically (marked not auto-fixable, non-npm manifest, no suggested
+ * command, no template)
+ */
+export function planLensFix(
+  requirement: LensRequirement,
+  pkg: { path: string; manifestPath: string }
+): LensFixPlan | null {
+  if (requirement.autoFixable === false) return null;
+
+  switch (requirement.type) {
+    case 'devDependency': {
+      if (!isPackageJson(pkg.manifestPath)) return null;
+      const version = requirement.suggestedFix || 'latest';
+      return {
+        requirement,
+        summary: `Add ${requirement.name}@${version} to devDependencies`,
+        filePath: pkg.manifestPath,
+      };
+    }
+    case 'script': {
+      if (!isPackageJson(pkg.manifestPath) || !requirement.suggestedFix) {
+        return null;
+      }
+      return {
+        requirement,
+        summary: `Add script "${requirement.name}": "${requirement.suggestedFix}"`,
+        filePath: pkg.manifestPath,
+      };
+    }
+    case 'config': {
+      if (!(requirement.name in LENS_CONFIG_TEMPLATES)) return null;
+      return {
+        requirement,
+        summary: `Create ${requirement.name}`,
+        filePath: joinPath(pkg.path, requirement.name),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Indentation used by a JSON document, defaulting to two spaces
+ */
+function detectIndent(content: string): string {
+  return content.match(/^([ \t]+)"/m)?.[1] ?? '  ';
+}
+
+/**
+ * Set a key in an object section of package.json. Keys stay sorted when
+ * they already were (as npm keeps dependencies); otherwise the key is
+ * appended.
+ */
+function setManifestEntry(
+  content: string,
+  section: 'devDependencies' | 'scripts',
+  key: string,
+  value: string
+): string {
+  const manifest = JSON.parse(content) as Record<string, unknown>;
+  const existing = (manifest[section] ?? {}) as Record<string, string>;
+
+  const keys = Object.keys(existing);
+  const sorted = keys.every((k, i) => i === 0 || keys[i - 1] <= k);
+  const entries = Object.entries({ ...existing, [key]: value });
+  if (sorted && !(key in existing)) {
+    entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+  manifest[section] = Object.fromEntries(entries);
+
+  const trailingNewline = content.endsWith('\n') ? '\n' : '';
+  return (
+    JSON.stringify(manifest, null, detectIndent(content)) + trailingNewline
+  );
+}
+
+/**
+ * Compute the new content of the planned file from its current content
+ * (null when the file does not exist). Throws when package.json is missing
+ * or not valid JSON.
+ */
+export function applyLensFix(
+  plan: LensFixPlan,
+  currentContent: string | null
+): string {
+  const { requirement } = plan;
+
+  if (requirement.type === 'config') {
+    return LENS_CONFIG_TEMPLATES[requirement.name];
+  }
+
+  if (currentContent === null) {
+    throw new Error(`${plan.filePath} not found`);
+  }
+
+  return requirement.type === 'devDependency'
+    ? setManifestEntry(
+        currentContent,
+        'devDependencies',
+        requirement.name,
+        requirement.suggestedFix || 'latest'
+      )
+    : setManifestEntry(
+        currentContent,
+        'scripts',
+        requirement.name,
+        requirement.suggestedFix ?? ''
+      );
+}
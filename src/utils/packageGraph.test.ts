@@ -0,0 +1,58 @@
+/**
+ * Tests for the internal package dependency graph
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { createMockPackage } from '../mocks/packages';
+import { dependencyTreeToCanvas } from '../panels/dependency-graph/dependencyToCanvas';
+import { buildPackageGraph } from './packageGraph';
+
+const packages = [
+  createMockPackage('utils'),
+  createMockPackage('core', {
+    dependencies: ['utils', 'react'],
+    devDependencies: ['utils'],
+  }),
+  createMockPackage('ui', {
+    devDependencies: ['core'],
+    peerDependencies: ['utils'],
+  }),
+  createMockPackage('self', { dependencies: ['self'] }),
+];
+
+describe('buildPackageGraph', () => {
+  test('keeps one edge per pair, typed by its first declaration', () => {
+    const graph = buildPackageGraph(packages, {
+      includePeerDependencies: true,
+    });
+
+    expect(graph.edges).toEqual([
+      { from: 'core', to: 'utils', type: 'production' },
+      { from: 'ui', to: 'core', type: 'development' },
+      { from: 'ui', to: 'utils', type: 'peer' },
+    ]);
+    expect(graph.dependencies.get('ui')).toEqual(['core', 'utils']);
+    expect(graph.dependents.get('utils')).toEqual(['core', 'ui']);
+  });
+
+  test('leaves out dev and peer dependencies when disabled', () => {
+    const graph = buildPackageGraph(packages, {
+      includeDevDependencies: false,
+    });
+
+    expect(graph.edges.map((e) => `${e.from}->${e.to}`)).toEqual([
+      'core->utils',
+    ]);
+  });
+
+  test('drives the dependency canvas edges', () => {
+    const canvas = dependencyTreeToCanvas(packages);
+
+    expect(
+      (canvas.edges ?? []).map((edge) => [edge.id, edge.pv?.edgeType])
+    ).toEqual([
+      ['core->utils', 'dependency'],
+      ['ui->core', 'dev-dependency'],
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Internal dependency graph of a monorepo's packages
+ */
+
+import type { PackageLayer } from '../types/composition';
+
+export interface PackageGraphOptions {
+  /** Follow devDependencies (default true) */
+  includeDevDependencies?: boolean;
+  /** Follow peerDependencies (default false) */
+  includePeerDependencies?: boolean;
+}
+
+/** package.json field an internal dependency is declared in */
+export type PackageDependencyType = 'production' | 'development' | 'peer';
+
+export interface PackageGraphEdge {
+  /** Id of the dependent package */
+  from: string;
+  /** Id of the package depended on */
+  to: string;
+  /** First field declaring it: dependencies, devDependencies, then peer */
+  type: PackageDependencyType;
+}
+
+/**
+ * Edges between packages of the same repository, keyed by package id.
+ * Dependencies on packages outside the repository are left out.
+ */
+export interface PackageGraph {
+  packagesById: Map<string, PackageLayer>;
+  /** Every edge once, in package and declaration order */
+  edges: PackageGraphEdge[];
+  /** Package id -> ids of the packages it depends on */
+  dependencies: Map<string, string[]>;
+  /** Package id -> ids of the packages that depend on it */
+  dependents: Map<string, string[]>;
+}
+
+/**
+ * Build the internal dependency graph. This is the single source of the
+ * edge rules; dependencyTreeToCanvas draws its edges from it.
+ */
+export function buildPackageGraph(
+  packages: PackageLayer[],
+  options: PackageGraphOptions = {}
+): PackageGraph {
+  const { includeDevDependencies = true, includePeerDependencies = false } =
+    options;
+
+  const packagesById = new Map(packages.map((pkg) => [pkg.id, pkg]));
+  const nameToId = new Map(
+    packages.map((pkg) => [pkg.packageData.name, pkg.id])
+  );
+  const edges: PackageGraphEdge[] = [];
+  const dependencies = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>(
+    packages.map((pkg) => [pkg.id, []])
+  );
+
+  for (const pkg of packages) {
+    const { packageData } = pkg;
+    const declared: Array<[PackageDependencyType, string[]]> = [
+      ['production', Object.keys(packageData.dependencies ?? {})],
+      [
+        'development',
+        includeDevDependencies
+          ? Object.keys(packageData.devDependencies ?? {})
+          : [],
+      ],
+      [
+        'peer',
+        includePeerDependencies
+          ? Object.keys(packageData.peerDependencies ?? {})
+          : [],
+      ],
+    ];
+
+    const targets = new Set<string>();
+    for (const [type, names] of declared) {
+      for (const name of names) {
+        const targetId = nameToId.get(name);
+        if (!targetId || targetId === pkg.id || targets.has(targetId)) {
+          continue;
+        }
+        targets.add(targetId);
+        edges.push({ from: pkg.id, to: targetId, type });
+      }
+    }
+
+    dependencies.set(pkg.id, [...targets]);
+    for (const targetId of targets) {
+      dependents.get(targetId)?.push(pkg.id);
+    }
+  }
+
+  return { packagesById, edges, dependencies, dependents };
+}
+
+/**
+ * Package directory relative to the repository root ('' for the root)
+ */
+export const normalizePackagePath = (path: string) =>
+  path === '.' ? '' : path.replace(/^\.\//, '').replace(/\/+$/, '');
+
+/**
+ * Find the innermost package containing a file
+ */
+export function createPackageMatcher(
+  packages: PackageLayer[]
+): (filePath: string) => PackageLayer | null {
+  // Deepest packages first so nested packages win over their parents
+  const candidates = packages
+    .map((pkg) => ({ pkg, path: normalizePackagePath(pkg.packageData.path) }))
+    .sort((a, b) => b.path.length - a.path.length);
+
+  return (filePath) =>
+    candidates.find(
+      ({ path }) => path === '' || filePath.startsWith(path + '/')
+    )?.pkg ?? null;
+}